@@ -2,6 +2,8 @@
  * Script to generate production MCP access token
  *
  * Usage: npx wrangler dev --remote scripts/generate-prod-token.ts
+ *
+ * Deprecated: use the admin token API (POST /admin/tokens) instead.
  */
 
 import { generateMcpAccessToken } from '../src/auth/mcp-token.js';
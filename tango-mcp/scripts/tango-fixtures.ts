@@ -0,0 +1,95 @@
+/**
+ * Sync Tango API fixtures between local KV and fixture files
+ *
+ * The dev server records fixtures into the local TANGO_CACHE namespace when
+ * run with TANGO_TRANSPORT=record, and serves them with TANGO_TRANSPORT=replay.
+ * This script moves them to and from test/fixtures/tango/ so they can be
+ * committed and shared.
+ *
+ * Usage:
+ *   1. Record: TANGO_TRANSPORT=record in .dev.vars, npm run dev, npm run integration:run
+ *   2. Export: npm run fixtures:export
+ *   3. Offline: npm run fixtures:import, TANGO_TRANSPORT=replay in .dev.vars,
+ *      npm run dev, npm run integration:run
+ */
+
+import { execFileSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { tmpdir } from "node:os";
+import { fileURLToPath } from "node:url";
+import { FIXTURE_KEY_PREFIX, type TransportFixture } from "../src/api/transport.js";
+
+const projectRoot = join(dirname(fileURLToPath(import.meta.url)), "..");
+const fixturesDir = join(projectRoot, "test/fixtures/tango");
+
+/**
+ * Run a wrangler KV command against the local TANGO_CACHE namespace
+ */
+function wranglerKv(args: string[]): string {
+	return execFileSync(
+		"npx",
+		["wrangler", "kv", ...args, "--binding", "TANGO_CACHE", "--local", "--preview", "false"],
+		{ cwd: projectRoot, encoding: "utf8", maxBuffer: 64 * 1024 * 1024 },
+	);
+}
+
+/**
+ * Build a readable, collision-free file name for a fixture key
+ */
+function fixtureFileName(key: string): string {
+	const slug = key.replace(/[^A-Za-z0-9]+/g, "_").replace(/^_|_$/g, "").slice(0, 80);
+	const hash = createHash("sha256").update(key).digest("hex").slice(0, 8);
+	return `${slug}-${hash}.json`;
+}
+
+/**
+ * Copy fixtures from local KV into fixture files
+ */
+async function exportFixtures(): Promise<void> {
+	const keys = JSON.parse(wranglerKv(["key", "list", "--prefix", FIXTURE_KEY_PREFIX])) as Array<{
+		name: string;
+	}>;
+	await mkdir(fixturesDir, { recursive: true });
+
+	for (const { name } of keys) {
+		const fixture = JSON.parse(wranglerKv(["key", "get", name, "--text"])) as TransportFixture;
+		await writeFile(join(fixturesDir, fixtureFileName(fixture.key)), `${JSON.stringify(fixture, null, 2)}\n`);
+	}
+
+	console.log(`Exported ${keys.length} fixture(s) to ${fixturesDir}`);
+}
+
+/**
+ * Load fixture files into local KV
+ */
+async function importFixtures(): Promise<void> {
+	const files = (await readdir(fixturesDir)).filter((file) => file.endsWith(".json"));
+	const entries = await Promise.all(
+		files.map(async (file) => {
+			const fixture = JSON.parse(await readFile(join(fixturesDir, file), "utf8")) as TransportFixture;
+			return { key: `${FIXTURE_KEY_PREFIX}${fixture.key}`, value: JSON.stringify(fixture) };
+		}),
+	);
+
+	const bulkFile = join(tmpdir(), `tango-fixtures-${Date.now()}.json`);
+	await writeFile(bulkFile, JSON.stringify(entries));
+	try {
+		wranglerKv(["bulk", "put", bulkFile]);
+	} finally {
+		await rm(bulkFile, { force: true });
+	}
+
+	console.log(`Imported ${entries.length} fixture(s) into local TANGO_CACHE`);
+}
+
+const command = process.argv[2];
+if (command === "export") {
+	await exportFixtures();
+} else if (command === "import") {
+	await importFixtures();
+} else {
+	console.log("Usage: tsx scripts/tango-fixtures.ts <export|import>");
+	process.exit(1);
+}
@@ -0,0 +1,124 @@
+/**
+ * Query Parameter Canonicalization
+ *
+ * Rewrites equivalent Tango queries into one canonical form before they are
+ * hashed into a cache key and sent upstream, so equivalent queries share
+ * cache entries (and single-flight slots).
+ *
+ * Rules:
+ * - Multi-value pipe lists are trimmed, de-duplicated and sorted
+ *   ("541512|541511" -> "541511|541512"); Tango treats them as OR filters
+ * - Code-like fields (UEI, NAICS, PSC, set-aside, agency codes) are uppercased
+ * - Documented upstream defaults are filled in for list endpoints
+ *   (an omitted limit is the same query as limit=25)
+ *
+ * Free-text fields (search, recipient, cursors) are left untouched.
+ */
+
+/**
+ * Fields whose values are codes and are case-insensitive upstream
+ */
+const CODE_FIELDS = new Set([
+  "uei",
+  "prime_uei",
+  "sub_uei",
+  "naics",
+  "naics_code",
+  "naics_starts_with",
+  "psc",
+  "psc_code",
+  "set_aside",
+  "idv_type",
+  "status",
+  "funding_instruments",
+  "funding_categories",
+  "applicant_types",
+]);
+
+/**
+ * Agency fields accept either a code or a name; only code-like values are uppercased
+ */
+const AGENCY_FIELDS = new Set(["agency", "awarding_agency", "funding_agency"]);
+
+/**
+ * Agency code shape (e.g., "DOD", "9700", "GSA")
+ */
+const AGENCY_CODE_PATTERN = /^[A-Za-z0-9]{2,6}$/;
+
+/**
+ * Fields that accept pipe-separated values with OR semantics
+ */
+const MULTI_VALUE_FIELDS = new Set([
+  ...CODE_FIELDS,
+  ...AGENCY_FIELDS,
+  "cfda_number",
+  "notice_type",
+]);
+
+/**
+ * Upstream defaults for list endpoints, keyed by tool name
+ * (the endpoint-derived name used in TangoApiClient.get)
+ */
+const ENDPOINT_DEFAULTS: Record<string, Record<string, unknown>> = {
+  contracts: { limit: 25 },
+  idvs: { limit: 25 },
+  subawards: { limit: 25 },
+  grants: { limit: 25 },
+  opportunities: { limit: 25 },
+  forecasts: { limit: 25 },
+  agencies: { limit: 25 },
+};
+
+/**
+ * Canonicalize query parameters for an endpoint
+ *
+ * @param toolName Tool name derived from the endpoint (e.g., "contracts")
+ * @param params Sanitized query parameters
+ * @returns New parameter object in canonical form
+ *
+ * @example
+ * ```typescript
+ * canonicalizeParams("contracts", { naics: "541512|541511", uei: "j3rw5c5kvlz1" });
+ * // { naics: "541511|541512", uei: "J3RW5C5KVLZ1", limit: 25 }
+ * ```
+ */
+export function canonicalizeParams(
+  toolName: string,
+  params: Record<string, unknown>,
+): Record<string, unknown> {
+  const canonical: Record<string, unknown> = { ...ENDPOINT_DEFAULTS[toolName] };
+
+  for (const [key, value] of Object.entries(params)) {
+    canonical[key] = typeof value === "string" ? canonicalizeValue(key, value) : value;
+  }
+
+  return canonical;
+}
+
+/**
+ * Canonicalize a single string parameter value
+ *
+ * @param key Parameter name
+ * @param value Parameter value
+ * @returns Canonical value
+ */
+function canonicalizeValue(key: string, value: string): string {
+  const isCode = CODE_FIELDS.has(key);
+  const isAgency = AGENCY_FIELDS.has(key);
+
+  if (!isCode && !isAgency && !MULTI_VALUE_FIELDS.has(key)) {
+    return value;
+  }
+
+  const items = value.split("|").map((item) => {
+    const trimmed = item.trim();
+    if (isCode || (isAgency && AGENCY_CODE_PATTERN.test(trimmed))) {
+      return trimmed.toUpperCase();
+    }
+    return trimmed;
+  });
+
+  return Array.from(new Set(items.filter((item) => item.length > 0)))
+    .sort()
+    .join("|");
+}
@@ -0,0 +1,272 @@
+/**
+ * Circuit Breaker for the Tango Upstream
+ *
+ * Stops sending requests to tango.makegov.com while it is degraded, so tools
+ * fail fast instead of each waiting out the full client timeout.
+ *
+ * States:
+ * - closed: requests flow normally; failures are counted in a sliding window
+ * - open: requests are rejected immediately with UPSTREAM_UNAVAILABLE
+ * - half_open: after the cooldown, a single probe request is let through;
+ *   success closes the circuit, failure re-opens it
+ *
+ * Only upstream health failures count: network errors, timeouts and 5xx
+ * responses. Client errors (4xx, including 429 quota responses) do not.
+ *
+ * State is per isolate (not global across Workers), like the rate limiter.
+ */
+
+import type { Env } from "@/types/env";
+import { getLogger } from "@/utils/logger";
+import {
+  TangoApiError,
+  TangoNetworkError,
+  TangoTimeoutError,
+  TangoUpstreamUnavailableError,
+} from "@/types/errors";
+
+/**
+ * Circuit breaker state
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  /** Failures within the window that open the circuit */
+  failureThreshold: number;
+  /** Sliding window for counting failures in milliseconds */
+  windowMs: number;
+  /** How long the circuit stays open before probing in milliseconds */
+  openDurationMs: number;
+}
+
+/**
+ * Point-in-time breaker status for health reporting
+ */
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  /** Failures counted in the current window */
+  recent_failures: number;
+  failure_threshold: number;
+  /** When the circuit last opened (ISO 8601) */
+  opened_at?: string;
+  /** When the next probe will be allowed (ISO 8601, open state only) */
+  next_probe_at?: string;
+}
+
+/**
+ * Default breaker configuration
+ * 5 failures within 60s opens the circuit for 30s
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  windowMs: 60000,
+  openDurationMs: 30000,
+};
+
+/**
+ * Circuit breaker
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failureTimestamps: number[] = [];
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(private readonly config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG) {}
+
+  /**
+   * Check whether a request may be sent upstream
+   *
+   * Moves open -> half_open once the cooldown has elapsed and reserves the
+   * single probe slot for the caller.
+   *
+   * @throws TangoUpstreamUnavailableError if the circuit is open
+   */
+  assertRequestAllowed(): void {
+    const now = Date.now();
+
+    if (this.state === "open" && now - this.openedAt >= this.config.openDurationMs) {
+      this.state = "half_open";
+      this.probeInFlight = false;
+    }
+
+    if (this.state === "closed") {
+      return;
+    }
+
+    if (this.state === "half_open" && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return;
+    }
+
+    const retryAfterMs = Math.max(0, this.openedAt + this.config.openDurationMs - now);
+    throw new TangoUpstreamUnavailableError(
+      "Tango API is temporarily unavailable (circuit breaker open)",
+      retryAfterMs,
+    );
+  }
+
+  /**
+   * Record a successful upstream response
+   */
+  recordSuccess(): void {
+    if (this.state !== "closed") {
+      getLogger().info("[Circuit Breaker] Probe succeeded - closing circuit");
+    }
+    this.state = "closed";
+    this.failureTimestamps = [];
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Give back the probe slot of a request that was never sent upstream
+   * (e.g. the upstream quota was exhausted), so the next request can probe
+   */
+  releaseProbe(): void {
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Record a failed upstream request
+   *
+   * Errors that don't indicate upstream ill health are ignored.
+   *
+   * @param error Error thrown by the request attempt
+   */
+  recordFailure(error: unknown): void {
+    if (!isUpstreamFailure(error)) {
+      // A client error still proves the upstream is responding
+      if (this.state === "half_open") {
+        this.recordSuccess();
+      }
+      return;
+    }
+
+    const now = Date.now();
+
+    if (this.state === "half_open") {
+      this.open(now);
+      return;
+    }
+
+    this.failureTimestamps = this.failureTimestamps.filter(
+      (timestamp) => now - timestamp < this.config.windowMs,
+    );
+    this.failureTimestamps.push(now);
+
+    if (this.failureTimestamps.length >= this.config.failureThreshold) {
+      this.open(now);
+    }
+  }
+
+  /**
+   * Get breaker status for health reporting
+   */
+  getSnapshot(): CircuitBreakerSnapshot {
+    const now = Date.now();
+    const recentFailures = this.failureTimestamps.filter(
+      (timestamp) => now - timestamp < this.config.windowMs,
+    ).length;
+
+    return {
+      state: this.state,
+      recent_failures: recentFailures,
+      failure_threshold: this.config.failureThreshold,
+      opened_at: this.openedAt ? new Date(this.openedAt).toISOString() : undefined,
+      next_probe_at:
+        this.state === "open"
+          ? new Date(this.openedAt + this.config.openDurationMs).toISOString()
+          : undefined,
+    };
+  }
+
+  /**
+   * Reset breaker to closed state
+   * Useful for testing
+   */
+  reset(): void {
+    this.state = "closed";
+    this.failureTimestamps = [];
+    this.openedAt = 0;
+    this.probeInFlight = false;
+  }
+
+  private open(now: number): void {
+    getLogger().warn("[Circuit Breaker] Opening circuit to Tango API", {
+      failures: this.failureTimestamps.length,
+      open_duration_ms: this.config.openDurationMs,
+    });
+    this.state = "open";
+    this.openedAt = now;
+    this.failureTimestamps = [];
+    this.probeInFlight = false;
+  }
+}
+
+/**
+ * Check whether an error indicates the upstream is unhealthy
+ *
+ * @param error Error thrown by a request attempt
+ * @returns True for network errors, timeouts and 5xx responses
+ */
+function isUpstreamFailure(error: unknown): boolean {
+  if (error instanceof TangoNetworkError || error instanceof TangoTimeoutError) {
+    return true;
+  }
+  return error instanceof TangoApiError && (error.statusCode ?? 0) >= 500;
+}
+
+/**
+ * Shared breaker instance for this isolate
+ * Created lazily so configuration can come from the first env seen
+ */
+let upstreamCircuitBreaker: CircuitBreaker | undefined;
+
+/**
+ * Get the shared upstream circuit breaker
+ *
+ * @param env Cloudflare Workers environment bindings (used on first call)
+ * @returns Shared CircuitBreaker instance
+ */
+export function getUpstreamCircuitBreaker(env?: Env): CircuitBreaker {
+  if (!upstreamCircuitBreaker) {
+    upstreamCircuitBreaker = new CircuitBreaker(resolveCircuitBreakerConfig(env));
+  }
+  return upstreamCircuitBreaker;
+}
+
+/**
+ * Reset the shared circuit breaker (for testing only)
+ * Should not be used in production code
+ */
+export function resetUpstreamCircuitBreaker(): void {
+  upstreamCircuitBreaker = undefined;
+}
+
+/**
+ * Build breaker configuration from environment
+ *
+ * @param env Cloudflare Workers environment bindings
+ * @returns Resolved configuration
+ */
+function resolveCircuitBreakerConfig(env?: Env): CircuitBreakerConfig {
+  const parse = (value: string | undefined, fallback: number): number => {
+    const parsed = value ? Number.parseInt(value, 10) : Number.NaN;
+    return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+  };
+
+  return {
+    failureThreshold: parse(
+      env?.TANGO_CIRCUIT_FAILURE_THRESHOLD,
+      DEFAULT_CIRCUIT_BREAKER_CONFIG.failureThreshold,
+    ),
+    windowMs: DEFAULT_CIRCUIT_BREAKER_CONFIG.windowMs,
+    openDurationMs: parse(
+      env?.TANGO_CIRCUIT_OPEN_MS,
+      DEFAULT_CIRCUIT_BREAKER_CONFIG.openDurationMs,
+    ),
+  };
+}
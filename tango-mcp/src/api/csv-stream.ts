@@ -0,0 +1,201 @@
+/**
+ * CSV Response Streaming
+ *
+ * Reads CSV export bodies from the Tango API without buffering unbounded
+ * responses into isolate memory.
+ * Features:
+ * - Streams the body chunk by chunk and stops reading at a byte cap
+ * - Cuts truncated output at the last complete record (never mid-row)
+ * - Counts data rows (header excluded), respecting quoted newlines
+ *
+ * Results are cached as CachedCsvBody entries so cache hits keep their
+ * format and export metadata.
+ */
+
+import type { Env } from "@/types/env";
+
+/**
+ * Default byte cap for CSV exports (5 MiB)
+ */
+export const DEFAULT_CSV_MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Resolve the CSV byte cap from environment
+ *
+ * @param env Environment with TANGO_CSV_MAX_BYTES
+ * @returns TANGO_CSV_MAX_BYTES if a positive integer, else the default
+ */
+export function resolveCsvMaxBytes(env: Pick<Env, "TANGO_CSV_MAX_BYTES">): number {
+  const maxBytes = Number.parseInt(env.TANGO_CSV_MAX_BYTES ?? "", 10);
+  return maxBytes > 0 ? maxBytes : DEFAULT_CSV_MAX_BYTES;
+}
+
+/**
+ * CSV export metadata reported alongside CSV responses
+ */
+export interface CsvExportInfo {
+  /** Data rows in the returned CSV (header excluded) */
+  rows: number;
+  /** Size of the returned CSV in bytes */
+  bytes: number;
+  /** Whether the upstream body was cut at the byte cap */
+  truncated: boolean;
+  /** Byte cap applied to the export */
+  max_bytes: number;
+}
+
+/**
+ * Shape of a CSV export stored in the response cache
+ */
+export interface CachedCsvBody {
+  format: "csv";
+  text: string;
+  csv: CsvExportInfo;
+}
+
+/**
+ * Read a CSV response body up to a byte cap
+ *
+ * @param response Successful upstream response
+ * @param maxBytes Maximum bytes to read
+ * @returns CSV text (cut at the last complete record if truncated) and metadata
+ */
+export async function readCsvBody(
+  response: Response,
+  maxBytes: number,
+): Promise<{ text: string; csv: CsvExportInfo }> {
+  // Bodies without a stream (e.g., some test doubles) are read in full, then capped
+  if (!response.body) {
+    const bytes = new TextEncoder().encode(await response.text());
+    return buildCsvResult(bytes.subarray(0, maxBytes), bytes.byteLength > maxBytes, maxBytes);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    const remaining = maxBytes - received;
+    if (value.byteLength > remaining) {
+      chunks.push(value.subarray(0, remaining));
+      received += remaining;
+      truncated = true;
+      // Stop the upstream transfer; the rest of the body is not needed
+      await reader.cancel().catch(() => undefined);
+      break;
+    }
+
+    chunks.push(value);
+    received += value.byteLength;
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return buildCsvResult(bytes, truncated, maxBytes);
+}
+
+/**
+ * Count data rows in CSV text (header excluded)
+ *
+ * Newlines inside quoted fields do not end a record.
+ *
+ * @param text CSV text
+ * @returns Number of non-empty records after the header
+ */
+export function countCsvRows(text: string): number {
+  let records = 0;
+  let inQuotes = false;
+  let recordHasContent = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      recordHasContent = true;
+    } else if (char === "\n" && !inQuotes) {
+      if (recordHasContent) records++;
+      recordHasContent = false;
+    } else if (char !== "\r") {
+      recordHasContent = true;
+    }
+  }
+  if (recordHasContent) records++;
+
+  return Math.max(0, records - 1);
+}
+
+/**
+ * Check whether a cached value is a stored CSV export
+ *
+ * @param value Cached value
+ * @returns True if the value is a CachedCsvBody
+ */
+export function isCachedCsvBody(value: unknown): value is CachedCsvBody {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as CachedCsvBody).format === "csv" &&
+    typeof (value as CachedCsvBody).text === "string"
+  );
+}
+
+/**
+ * Decode CSV bytes and build metadata, dropping a partial trailing record
+ *
+ * @param bytes Bytes read from the body
+ * @param truncated Whether reading stopped at the cap
+ * @param maxBytes Byte cap applied
+ * @returns CSV text and metadata
+ */
+function buildCsvResult(
+  bytes: Uint8Array,
+  truncated: boolean,
+  maxBytes: number,
+): { text: string; csv: CsvExportInfo } {
+  let text = new TextDecoder().decode(bytes);
+  if (truncated) {
+    text = text.slice(0, lastRecordEnd(text));
+  }
+
+  return {
+    text,
+    csv: {
+      rows: countCsvRows(text),
+      bytes: new TextEncoder().encode(text).byteLength,
+      truncated,
+      max_bytes: maxBytes,
+    },
+  };
+}
+
+/**
+ * Find the end of the last complete record (just past its newline)
+ *
+ * @param text CSV text
+ * @returns Index to cut at (0 if no record is complete)
+ */
+function lastRecordEnd(text: string): number {
+  let inQuotes = false;
+  let end = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === "\n" && !inQuotes) {
+      end = i + 1;
+    }
+  }
+
+  return end;
+}
@@ -0,0 +1,475 @@
+/**
+ * Runtime Schemas for Tango API Responses
+ *
+ * zod mirrors of the compile-time interfaces in types/tango-api.ts, used to
+ * detect upstream payload drift (see schema-drift.ts). They never reject a
+ * response.
+ *
+ * Conventions:
+ * - Objects are strict, so fields the interfaces don't declare are reported
+ *   as unknown; detail responses (declared with an index signature) pass
+ *   unknown fields through
+ * - Optional fields accept null: the API uses null and absence interchangeably
+ * - Fields typed `any` in the interfaces are not checked
+ * - Keep these in sync when an interface in types/tango-api.ts changes
+ */
+
+import { z } from "zod";
+
+const str = z.string().nullish();
+const num = z.number().nullish();
+const bool = z.boolean().nullish();
+const anyValue = z.any();
+
+/**
+ * Optional nested object with a fixed shape
+ */
+function nested<T extends z.ZodRawShape>(shape: T) {
+  return z.object(shape).strict().nullish();
+}
+
+/**
+ * Optional array of objects with a fixed shape
+ */
+function nestedArray<T extends z.ZodRawShape>(shape: T) {
+  return z.array(z.object(shape).strict()).nullish();
+}
+
+/**
+ * Paginated list wrapper around a record schema
+ */
+function listOf(record: z.ZodTypeAny) {
+  return z
+    .object({
+      results: z.array(record),
+      total: num,
+      count: num,
+      next: str,
+      previous: str,
+    })
+    .strict();
+}
+
+const codeDescription = { code: str, description: str };
+
+const office = {
+  office_code: str,
+  office_name: str,
+  agency_code: str,
+  agency_name: str,
+  department_code: str,
+  department_name: str,
+};
+
+const contractShape = {
+  key: str,
+  piid: str,
+  description: str,
+  title: str,
+  recipient: nested({ display_name: str, uei: str }),
+  vendor_name: str,
+  vendor_uei: str,
+  vendor_duns: str,
+  awarding_office: nested({ agency_name: str, agency_code: str, office_name: str }),
+  funding_office: nested({ agency_name: str, agency_code: str, office_name: str }),
+  obligated: num,
+  total_contract_value: num,
+  base_and_exercised_options_value: num,
+  award_date: str,
+  date_signed: str,
+  fiscal_year: num,
+  naics_code: str,
+  naics_description: str,
+  psc_code: str,
+  psc_description: str,
+  set_aside: nested({ code: str }),
+  type_of_set_aside: str,
+  place_of_performance: nested({
+    city_name: str,
+    state_name: str,
+    country_name: str,
+    zip: str,
+    country_code: str,
+  }),
+  contract_status: str,
+  status: str,
+  solicitation_identifier: str,
+  parent_award: nested({ piid: str, agency_name: str, agency_code: str, idv_type: str }),
+  contract_pricing_type: nested(codeDescription),
+  legislative_mandates: nested({
+    clinger_cohen_act: bool,
+    davis_bacon_act: bool,
+    service_contract_act: bool,
+    walsh_healey_act: bool,
+  }),
+  performance_based_service_acquisition: str,
+  contract_bundling: nested(codeDescription),
+  consolidated_contract: nested(codeDescription),
+  number_of_actions: num,
+  solicitation_date: str,
+};
+
+/** TangoContractResponse */
+export const contractSchema = z.object(contractShape).strict();
+
+/** TangoContractDetailResponse */
+export const contractDetailSchema = z.object(contractShape).passthrough();
+
+/** TangoIDVResponse */
+export const idvSchema = z
+  .object({
+    key: str,
+    piid: str,
+    description: str,
+    award_date: str,
+    fiscal_year: num,
+    idv_type: nested(codeDescription),
+    multiple_or_single_award_idv: nested(codeDescription),
+    type_of_idc: str,
+    recipient: nested({ uei: str, display_name: str }),
+    awarding_office: nested(office),
+    funding_office: nested(office),
+    naics_code: str,
+    psc_code: str,
+    set_aside: str,
+    period_of_performance: nested({ start_date: str, last_date_to_order: str }),
+    obligated: num,
+    total_contract_value: num,
+    parent_award: nested({
+      key: str,
+      piid: str,
+      description: str,
+      idv_type: str,
+      awarding_office: nested({ agency_name: str, agency_code: str }),
+    }),
+    solicitation_identifier: str,
+    legislative_mandates: z.record(anyValue).nullish(),
+    subawards_summary: z.record(anyValue).nullish(),
+    place_of_performance: nested({ city_name: str, state_name: str, country_name: str, zip: str }),
+  })
+  .strict();
+
+const grantOpportunityShape = {
+  grant_id: num,
+  opportunity_number: str,
+  agency_code: str,
+  status: nested(codeDescription),
+  title: str,
+  description: str,
+  important_dates: nested({
+    posted_date: str,
+    response_date: str,
+    close_date: str,
+    archive_date: str,
+    estimated_project_start_date: str,
+    estimated_project_end_date: str,
+  }),
+  category: nested(codeDescription),
+  cfda_numbers: nestedArray({ number: str, title: str }),
+  applicant_types: nestedArray(codeDescription),
+  applicant_eligibility_description: str,
+  funding_categories: nestedArray(codeDescription),
+  funding_activity_category_description: str,
+  funding_instruments: nestedArray(codeDescription),
+  funding_details: nested({
+    award_ceiling: num,
+    award_floor: num,
+    estimated_total_funding: num,
+    expected_number_of_awards: num,
+  }),
+  grantor_contact: nested({ name: str, phone: str, email: str }),
+  additional_info: nested({ url: str, text: str }),
+  last_updated: str,
+};
+
+/** TangoGrantOpportunityResponse */
+export const grantOpportunitySchema = z.object(grantOpportunityShape).strict();
+
+/** TangoGrantOpportunityDetailResponse */
+export const grantOpportunityDetailSchema = z.object(grantOpportunityShape).passthrough();
+
+const countOnly = nested({ count: num });
+const obligatedAndCount = nested({ total_obligated: num, count: num });
+
+/** TangoVendorResponse (fields typed `any` are unchecked) */
+export const vendorSchema = z
+  .object({
+    uei: z.string(),
+    legal_business_name: str,
+    name: str,
+    dba_name: str,
+    duns: str,
+    cage_code: str,
+    dodaac: str,
+    registration_status: str,
+    registered: str,
+    activation_date: str,
+    sam_activation_date: str,
+    expiration_date: str,
+    sam_expiration_date: str,
+    sam_registration_date: str,
+    last_update_date: str,
+    exclusion_status_flag: str,
+    exclusion_url: str,
+    business_types: anyValue,
+    business_type_list: anyValue,
+    sba_business_types: anyValue,
+    entity_structure_code: str,
+    entity_structure_desc: str,
+    entity_type_code: str,
+    entity_type_desc: str,
+    profit_structure_code: str,
+    profit_structure_desc: str,
+    organization_structure_code: str,
+    organization_structure_desc: str,
+    state_of_incorporation_code: str,
+    state_of_incorporation_desc: str,
+    country_of_incorporation_code: str,
+    country_of_incorporation_desc: str,
+    entity_division_name: str,
+    entity_division_number: str,
+    entity_start_date: str,
+    congressional_district: str,
+    physical_address: anyValue,
+    mailing_address: anyValue,
+    email_address: str,
+    entity_url: str,
+    purpose_of_registration_code: str,
+    purpose_of_registration_desc: str,
+    uei_status: str,
+    uei_creation_date: str,
+    uei_expiration_date: str,
+    public_display_flag: str,
+    description: str,
+    capabilities: str,
+    keywords: str,
+    fiscal_year_end_close_date: str,
+    submission_date: str,
+    points_of_contact: anyValue,
+    contacts: anyValue,
+    primary_naics: str,
+    naics_codes: anyValue,
+    psc_codes: anyValue,
+    certifications: anyValue,
+    highest_owner: anyValue,
+    immediate_owner: anyValue,
+    relationships: z.array(anyValue).nullish(),
+    total_contracts: num,
+    total_contract_value: num,
+    total_grants: num,
+    total_grant_value: num,
+    federal_obligations: nested({
+      active_contracts: obligatedAndCount,
+      total_contracts: obligatedAndCount,
+      active_subawards: obligatedAndCount,
+      total_subawards: obligatedAndCount,
+      active_idvs: countOnly,
+      total_idvs: countOnly,
+    }),
+    evs_source: str,
+  })
+  .strict();
+
+const opportunityShape = {
+  opportunity_id: str,
+  notice_id: str,
+  solicitation_number: str,
+  title: str,
+  meta: nested({ notice_type: nested({ type: str }) }),
+  opportunity_type: str,
+  type: str,
+  active: bool,
+  status: str,
+  office: nested({
+    agency_name: str,
+    agency_code: str,
+    office_name: str,
+    office_address: nested({ city: str, state: str, zip: str, country: str }),
+  }),
+  posted_date: str,
+  first_notice_date: str,
+  last_notice_date: str,
+  date_posted: str,
+  response_deadline: str,
+  due_date: str,
+  naics_code: str,
+  naics_description: str,
+  psc_code: str,
+  psc_description: str,
+  set_aside: nested(codeDescription),
+  set_aside_type: str,
+  place_of_performance: nested({ city: str, state: str, zip: str, country: str, address: str }),
+  summary: str,
+  description: str,
+  sam_url: str,
+  url: str,
+  link: str,
+  award_number: str,
+  primary_contact: nested({ name: str, email: str, phone: str, title: str }),
+  attachments: nestedArray({ name: str, url: str, type: str }),
+  notice_history: nestedArray({ date: str, type: str, description: str }),
+  classification_code: str,
+  archive_date: str,
+};
+
+/** TangoOpportunityResponse */
+export const opportunitySchema = z.object(opportunityShape).strict();
+
+/** TangoOpportunityDetailResponse */
+export const opportunityDetailSchema = z.object(opportunityShape).passthrough();
+
+const forecastShape = {
+  id: num,
+  source_system: str,
+  external_id: str,
+  agency: str,
+  title: str,
+  description: str,
+  anticipated_award_date: str,
+  fiscal_year: num,
+  naics_code: str,
+  is_active: bool,
+  status: str,
+  primary_contact: str,
+  place_of_performance: str,
+  estimated_period: str,
+  set_aside: str,
+  contract_vehicle: str,
+};
+
+/** TangoForecastResponse */
+export const forecastSchema = z.object(forecastShape).strict();
+
+/** TangoForecastDetailResponse */
+export const forecastDetailSchema = z
+  .object({ ...forecastShape, raw_data: z.record(anyValue).nullish(), display_data: str })
+  .passthrough();
+
+/** TangoSubawardResponse */
+export const subawardSchema = z
+  .object({
+    key: str,
+    subaward_number: str,
+    award_key: str,
+    prime_recipient: nested({ uei: str, name: str }),
+    sub_recipient: nested({ uei: str, name: str, duns: str }),
+    awarding_office: nested(office),
+    funding_office: nested(office),
+    subaward_amount: num,
+    subaward_date: str,
+    subaward_description: str,
+    subaward_type: str,
+    place_of_performance: nested({ city_name: str, state_name: str, country_name: str, zip: str }),
+    fsrs_id: str,
+    fsrs_year: num,
+    fsrs_month: num,
+    last_modified: str,
+  })
+  .strict();
+
+/** TangoAgencyResponse */
+export const agencySchema = z
+  .object({
+    code: str,
+    name: str,
+    abbreviation: str,
+    department: nested({ name: str, code: str }),
+  })
+  .strict();
+
+/** RichTextNode (recursive) */
+const richTextNodeSchema: z.ZodTypeAny = z.lazy(() =>
+  z
+    .object({
+      type: str,
+      content: z.array(richTextNodeSchema).nullish(),
+      text: str,
+      attrs: z.record(anyValue).nullish(),
+      marks: z
+        .array(z.object({ type: z.string(), attrs: z.record(anyValue).nullish() }).strict())
+        .nullish(),
+    })
+    .strict(),
+);
+
+/** TangoCompanyRAGResponse */
+export const companyRagSchema = z
+  .object({
+    company: nested({
+      ai_summary: richTextNodeSchema.nullish(),
+      canonical_url: str,
+      company_description: str,
+      company_documents: nestedArray({ url: str, title: str, document_type: str }),
+      company_name: str,
+      employees_est: num,
+      logo_url: str,
+      popularity: num,
+      uei: str,
+    }),
+    related_people: nestedArray({ name: str, title: str, email: str, company_name: str, source: str }),
+    related_news: nestedArray({ title: str, url: str, preview: str, published_date: str, source: str }),
+  })
+  .strict();
+
+/**
+ * Schema for one endpoint pattern
+ */
+interface EndpointSchema {
+  /** Endpoint label used in drift reports (path with placeholders) */
+  endpoint: string;
+  /** Matches the request path (e.g., "/contracts/ABC/") */
+  pattern: RegExp;
+  schema: z.ZodTypeAny;
+}
+
+/**
+ * Response schemas by endpoint, most specific first
+ */
+const ENDPOINT_SCHEMAS: EndpointSchema[] = [
+  { endpoint: "/contracts/", pattern: /^\/contracts\/$/, schema: listOf(contractSchema) },
+  { endpoint: "/contracts/{key}/", pattern: /^\/contracts\/[^/]+\/$/, schema: contractDetailSchema },
+  { endpoint: "/idvs/", pattern: /^\/idvs\/$/, schema: listOf(idvSchema) },
+  { endpoint: "/subawards/", pattern: /^\/subawards\/$/, schema: listOf(subawardSchema) },
+  { endpoint: "/grants/", pattern: /^\/grants\/$/, schema: listOf(grantOpportunitySchema) },
+  { endpoint: "/grants/{id}/", pattern: /^\/grants\/[^/]+\/$/, schema: grantOpportunityDetailSchema },
+  { endpoint: "/opportunities/", pattern: /^\/opportunities\/$/, schema: listOf(opportunitySchema) },
+  {
+    endpoint: "/opportunities/{id}/",
+    pattern: /^\/opportunities\/[^/]+\/$/,
+    schema: opportunityDetailSchema,
+  },
+  { endpoint: "/forecasts/", pattern: /^\/forecasts\/$/, schema: listOf(forecastSchema) },
+  { endpoint: "/forecasts/{id}/", pattern: /^\/forecasts\/[^/]+\/$/, schema: forecastDetailSchema },
+  { endpoint: "/entities/{uei}/", pattern: /^\/entities\/[^/]+\/$/, schema: vendorSchema },
+  {
+    endpoint: "/entities/{uei}/contracts/",
+    pattern: /^\/entities\/[^/]+\/contracts\/$/,
+    schema: listOf(contractSchema),
+  },
+  {
+    // Typed as TangoGrantListResponse in the client, but returns subawards
+    endpoint: "/entities/{uei}/subawards/",
+    pattern: /^\/entities\/[^/]+\/subawards\/$/,
+    schema: listOf(subawardSchema),
+  },
+  { endpoint: "/agencies/", pattern: /^\/agencies\/$/, schema: listOf(agencySchema) },
+  {
+    endpoint: "/agencies/{code}/contracts/{role}/",
+    pattern: /^\/agencies\/[^/]+\/contracts\/(awarding|funding)\/$/,
+    schema: listOf(contractSchema),
+  },
+  { endpoint: "/company/rag/", pattern: /^\/company\/rag\/$/, schema: companyRagSchema },
+];
+
+/**
+ * Find the response schema for a request path
+ *
+ * @param path Endpoint path as passed to TangoApiClient.get (e.g., "/contracts/")
+ * @returns Endpoint label and schema, or undefined for unmapped endpoints
+ */
+export function findResponseSchema(
+  path: string,
+): { endpoint: string; schema: z.ZodTypeAny } | undefined {
+  const normalized = `/${path.replace(/^\/+|\/+$/g, "")}/`;
+  return ENDPOINT_SCHEMAS.find(({ pattern }) => pattern.test(normalized));
+}
@@ -0,0 +1,157 @@
+/**
+ * Retry Policy for Tango API Requests
+ *
+ * Decides whether a failed upstream call should be retried and how long
+ * to wait before the next attempt.
+ * Features:
+ * - Configurable max attempts (env or constructor options)
+ * - Exponential backoff with full jitter
+ * - Honors Retry-After from 429/503 responses
+ * - Only retries transient failures (429, 502, 503, 504, network errors)
+ *
+ * Only idempotent GET requests are retried. Timeouts are NOT retried: a
+ * request that already waited the full client timeout would multiply the
+ * latency seen by the agent.
+ */
+
+import type { Env } from "@/types/env";
+import { TangoApiError, TangoNetworkError } from "@/types/errors";
+
+/**
+ * Retry policy configuration
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first request (1 disables retries) */
+  maxAttempts: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay in milliseconds */
+  maxDelayMs: number;
+  /** HTTP status codes that are safe to retry */
+  retryableStatuses: number[];
+}
+
+/**
+ * Retry metadata reported alongside API responses
+ */
+export interface RetryInfo {
+  /** Number of upstream fetch attempts made (0 when served from cache) */
+  attempts: number;
+  /** Total time spent waiting between attempts in milliseconds */
+  total_wait_ms: number;
+}
+
+/**
+ * Default retry policy
+ * 3 attempts with 250ms base backoff, capped at 5 seconds per wait
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+  retryableStatuses: [429, 502, 503, 504],
+};
+
+/**
+ * Build retry policy from environment and explicit overrides
+ *
+ * Explicit overrides take precedence over environment variables,
+ * which take precedence over defaults.
+ *
+ * @param env Cloudflare Workers environment bindings
+ * @param overrides Optional policy overrides (e.g., from tests)
+ * @returns Resolved retry policy
+ */
+export function resolveRetryPolicy(env: Env, overrides?: Partial<RetryPolicy>): RetryPolicy {
+  return {
+    maxAttempts: parsePositiveInt(env.TANGO_RETRY_MAX_ATTEMPTS) ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    baseDelayMs: parsePositiveInt(env.TANGO_RETRY_BASE_DELAY_MS) ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: parsePositiveInt(env.TANGO_RETRY_MAX_DELAY_MS) ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    retryableStatuses: DEFAULT_RETRY_POLICY.retryableStatuses,
+    ...overrides,
+  };
+}
+
+/**
+ * Check whether an error from a request attempt is worth retrying
+ *
+ * @param error Error thrown by the attempt
+ * @param policy Active retry policy
+ * @returns True if the request should be retried
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof TangoNetworkError) {
+    return true;
+  }
+
+  if (error instanceof TangoApiError && error.statusCode !== undefined) {
+    return policy.retryableStatuses.includes(error.statusCode);
+  }
+
+  return false;
+}
+
+/**
+ * Compute delay before the next attempt
+ *
+ * Uses Retry-After when the server provided one, otherwise exponential
+ * backoff with full jitter: random(0, min(maxDelay, base * 2^(attempt-1))).
+ *
+ * @param attempt Attempt number that just failed (1-based)
+ * @param policy Active retry policy
+ * @param retryAfterMs Server-provided Retry-After in milliseconds (if any)
+ * @returns Delay in milliseconds, or undefined if Retry-After exceeds the policy cap
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+): number | undefined {
+  if (retryAfterMs !== undefined) {
+    // Waiting longer than the cap would stall the tool call - give up instead
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : undefined;
+  }
+
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(Math.random() * exponential);
+}
+
+/**
+ * Parse a Retry-After header value
+ *
+ * Supports both delta-seconds ("5") and HTTP-date formats.
+ *
+ * @param value Raw header value
+ * @returns Delay in milliseconds, or undefined if unparseable
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number.parseInt(value, 10);
+  if (!Number.isNaN(seconds) && /^\d+$/.test(value.trim())) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a positive integer from an environment string
+ *
+ * @param value Raw environment value
+ * @returns Parsed integer, or undefined if missing/invalid
+ */
+function parsePositiveInt(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 1 ? undefined : parsed;
+}
@@ -0,0 +1,419 @@
+/**
+ * Tango API Schema Drift Report
+ *
+ * Validates successful JSON responses against the runtime schemas in
+ * response-schemas.ts and records where the payload departs from the
+ * interfaces we code against. Validation never blocks or alters a response.
+ *
+ * Design:
+ * - Drift is kept per endpoint: unknown fields, missing expected fields and
+ *   type mismatches, each by field path ("results[].recipient.uei")
+ * - Counts are responses, not occurrences: a field missing from every item
+ *   of one list response counts once
+ * - Each isolate keeps its report in memory and flushes it to KV under
+ *   "schema_drift:{isolate_id}" at most every 60 seconds (in the background);
+ *   snapshots expire after 7 days of inactivity
+ * - Readers merge the per-isolate snapshots (see cache-stats.ts)
+ */
+
+import type { ZodIssue } from "zod";
+import { findResponseSchema } from "@/api/response-schemas";
+
+/**
+ * Type mismatch observed at one field path
+ */
+export interface TypeMismatch {
+  /** Type the schema expects */
+  expected: string;
+  /** Types received instead */
+  received: string[];
+  /** Responses with this mismatch */
+  count: number;
+}
+
+/**
+ * Drift recorded for one endpoint
+ */
+export interface EndpointDrift {
+  /** Responses validated */
+  checked: number;
+  /** Responses with any drift */
+  drifted: number;
+  /** Responses containing each undeclared field */
+  unknown_fields: Record<string, number>;
+  /** Responses missing each required field */
+  missing_fields: Record<string, number>;
+  /** Type mismatches by field path */
+  type_mismatches: Record<string, TypeMismatch>;
+  /** Distinct field paths not tracked because the per-endpoint cap was reached */
+  dropped_paths: number;
+  /** When drift was first seen (ISO 8601) */
+  first_drift_at?: string;
+  /** When drift was last seen (ISO 8601) */
+  last_drift_at?: string;
+}
+
+/**
+ * Drift report snapshot
+ */
+export interface SchemaDriftReport {
+  /** Drift by endpoint label (e.g., "/contracts/{key}/") */
+  endpoints: Record<string, EndpointDrift>;
+  /** When recording started (ISO 8601) */
+  since: string;
+}
+
+/**
+ * Report merged across isolates
+ */
+export interface AggregatedSchemaDriftReport extends SchemaDriftReport {
+  /** Number of isolate snapshots merged */
+  isolates: number;
+}
+
+/**
+ * Drift found in a single response
+ */
+export interface ResponseDrift {
+  endpoint: string;
+  unknown_fields: string[];
+  missing_fields: string[];
+  type_mismatches: Array<{ path: string; expected: string; received: string }>;
+  /** True if any field path had not been seen drifting before in this isolate */
+  new_paths: boolean;
+}
+
+/**
+ * KV key prefix for per-isolate drift snapshots
+ */
+export const SCHEMA_DRIFT_KEY_PREFIX = "schema_drift:";
+
+/** Minimum time between report flushes per isolate */
+const FLUSH_INTERVAL_MS = 60_000;
+
+/** Snapshot lifetime in KV */
+const SNAPSHOT_TTL_SECONDS = 7 * 86400;
+
+/** Distinct field paths tracked per endpoint (bounds memory and snapshot size) */
+const MAX_PATHS_PER_ENDPOINT = 200;
+
+/**
+ * Stored report snapshot
+ */
+interface DriftSnapshot extends SchemaDriftReport {
+  updated_at: string;
+}
+
+/**
+ * Identifies this isolate's snapshot key
+ * Generated lazily: Workers don't allow random values in global scope
+ */
+let isolateId: string | undefined;
+
+/**
+ * Per-isolate report state
+ */
+let driftState = createDriftState();
+
+/**
+ * Create empty report state
+ */
+function createDriftState(): {
+  endpoints: Map<string, EndpointDrift>;
+  since: number;
+  lastFlushAt: number;
+  dirty: boolean;
+} {
+  return {
+    endpoints: new Map<string, EndpointDrift>(),
+    since: Date.now(),
+    lastFlushAt: Date.now(),
+    dirty: false,
+  };
+}
+
+/**
+ * Create an empty endpoint entry
+ */
+function emptyEndpointDrift(): EndpointDrift {
+  return {
+    checked: 0,
+    drifted: 0,
+    unknown_fields: {},
+    missing_fields: {},
+    type_mismatches: {},
+    dropped_paths: 0,
+  };
+}
+
+/**
+ * Format a zod issue path, collapsing array indices ("results[].key")
+ */
+function formatPath(path: Array<string | number>): string {
+  let formatted = "";
+  for (const segment of path) {
+    if (typeof segment === "number") {
+      formatted += "[]";
+    } else {
+      formatted += formatted ? `.${segment}` : segment;
+    }
+  }
+  return formatted || "(root)";
+}
+
+/**
+ * Sort zod issues into unknown fields, missing fields and type mismatches
+ */
+function classifyIssues(
+  issues: ZodIssue[],
+): Pick<ResponseDrift, "unknown_fields" | "missing_fields" | "type_mismatches"> {
+  const unknown = new Set<string>();
+  const missing = new Set<string>();
+  const mismatches = new Map<string, { path: string; expected: string; received: string }>();
+
+  const visit = (issue: ZodIssue): void => {
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) {
+        unknown.add(formatPath([...issue.path, key]));
+      }
+    } else if (issue.code === "invalid_type" && issue.received === "undefined") {
+      missing.add(formatPath(issue.path));
+    } else if (issue.code === "invalid_type") {
+      const path = formatPath(issue.path);
+      mismatches.set(`${path}:${issue.received}`, {
+        path,
+        expected: issue.expected,
+        received: issue.received,
+      });
+    } else if (issue.code === "invalid_union") {
+      for (const unionIssue of issue.unionErrors.flatMap((error) => error.issues)) {
+        visit(unionIssue);
+      }
+    } else {
+      const path = formatPath(issue.path);
+      mismatches.set(`${path}:${issue.code}`, { path, expected: "valid value", received: issue.code });
+    }
+  };
+  issues.forEach(visit);
+
+  return {
+    unknown_fields: Array.from(unknown),
+    missing_fields: Array.from(missing),
+    type_mismatches: Array.from(mismatches.values()),
+  };
+}
+
+/**
+ * Count one response against a field path, respecting the per-endpoint cap
+ *
+ * @returns True if the path was not tracked before
+ */
+function countPath(entry: EndpointDrift, counts: Record<string, number>, path: string): boolean {
+  if (path in counts) {
+    counts[path]++;
+    return false;
+  }
+  if (trackedPaths(entry) >= MAX_PATHS_PER_ENDPOINT) {
+    entry.dropped_paths++;
+    return false;
+  }
+  counts[path] = 1;
+  return true;
+}
+
+/**
+ * Number of distinct field paths tracked for an endpoint
+ */
+function trackedPaths(entry: EndpointDrift): number {
+  return (
+    Object.keys(entry.unknown_fields).length +
+    Object.keys(entry.missing_fields).length +
+    Object.keys(entry.type_mismatches).length
+  );
+}
+
+/**
+ * Validate a response payload and record any drift
+ *
+ * @param path Endpoint path the response came from (e.g., "/contracts/")
+ * @param data Parsed JSON response body
+ * @returns Drift found in this response, or undefined if the endpoint has
+ *   no schema or the response matches it
+ */
+export function recordResponseShape(path: string, data: unknown): ResponseDrift | undefined {
+  const match = findResponseSchema(path);
+  if (!match) {
+    return undefined;
+  }
+
+  let entry = driftState.endpoints.get(match.endpoint);
+  if (!entry) {
+    entry = emptyEndpointDrift();
+    driftState.endpoints.set(match.endpoint, entry);
+  }
+  entry.checked++;
+  driftState.dirty = true;
+
+  const result = match.schema.safeParse(data);
+  if (result.success) {
+    return undefined;
+  }
+
+  const drift = classifyIssues(result.error.issues);
+  let newPaths = false;
+  for (const field of drift.unknown_fields) {
+    newPaths = countPath(entry, entry.unknown_fields, field) || newPaths;
+  }
+  for (const field of drift.missing_fields) {
+    newPaths = countPath(entry, entry.missing_fields, field) || newPaths;
+  }
+  for (const { path: field, expected, received } of drift.type_mismatches) {
+    const existing = entry.type_mismatches[field];
+    if (existing) {
+      existing.count++;
+      if (!existing.received.includes(received)) {
+        existing.received.push(received);
+        newPaths = true;
+      }
+    } else if (trackedPaths(entry) >= MAX_PATHS_PER_ENDPOINT) {
+      entry.dropped_paths++;
+    } else {
+      entry.type_mismatches[field] = { expected, received: [received], count: 1 };
+      newPaths = true;
+    }
+  }
+
+  const now = new Date().toISOString();
+  entry.drifted++;
+  entry.first_drift_at ??= now;
+  entry.last_drift_at = now;
+
+  return { endpoint: match.endpoint, ...drift, new_paths: newPaths };
+}
+
+/**
+ * Get the drift report for this isolate
+ *
+ * @returns Report snapshot
+ */
+export function getSchemaDriftReport(): SchemaDriftReport {
+  return {
+    endpoints: Object.fromEntries(
+      Array.from(driftState.endpoints, ([endpoint, entry]) => [endpoint, structuredClone(entry)]),
+    ),
+    since: new Date(driftState.since).toISOString(),
+  };
+}
+
+/**
+ * Reset the drift report (for testing only)
+ * Should not be used in production code
+ */
+export function resetSchemaDriftReport(): void {
+  driftState = createDriftState();
+}
+
+/**
+ * Check whether this isolate has an unflushed report older than the flush interval
+ */
+export function isSchemaDriftFlushDue(): boolean {
+  return driftState.dirty && Date.now() - driftState.lastFlushAt >= FLUSH_INTERVAL_MS;
+}
+
+/**
+ * Get this isolate's snapshot key
+ */
+function ownSnapshotKey(): string {
+  isolateId ??= crypto.randomUUID();
+  return `${SCHEMA_DRIFT_KEY_PREFIX}${isolateId}`;
+}
+
+/**
+ * Write this isolate's report to KV
+ *
+ * @param kv KV namespace holding the snapshots
+ */
+export async function flushSchemaDrift(kv: KVNamespace): Promise<void> {
+  driftState.lastFlushAt = Date.now();
+  driftState.dirty = false;
+
+  const snapshot: DriftSnapshot = {
+    ...getSchemaDriftReport(),
+    updated_at: new Date().toISOString(),
+  };
+
+  await kv.put(ownSnapshotKey(), JSON.stringify(snapshot), {
+    expirationTtl: SNAPSHOT_TTL_SECONDS,
+  });
+}
+
+/**
+ * Merge one endpoint entry into another
+ */
+function mergeEndpointDrift(target: EndpointDrift, source: EndpointDrift): void {
+  target.checked += source.checked;
+  target.drifted += source.drifted;
+  target.dropped_paths += source.dropped_paths ?? 0;
+  for (const [field, count] of Object.entries(source.unknown_fields)) {
+    target.unknown_fields[field] = (target.unknown_fields[field] ?? 0) + count;
+  }
+  for (const [field, count] of Object.entries(source.missing_fields)) {
+    target.missing_fields[field] = (target.missing_fields[field] ?? 0) + count;
+  }
+  for (const [field, mismatch] of Object.entries(source.type_mismatches)) {
+    const existing = target.type_mismatches[field];
+    if (existing) {
+      existing.count += mismatch.count;
+      existing.received = Array.from(new Set([...existing.received, ...mismatch.received]));
+    } else {
+      target.type_mismatches[field] = { ...mismatch, received: [...mismatch.received] };
+    }
+  }
+  if (source.first_drift_at && (!target.first_drift_at || source.first_drift_at < target.first_drift_at)) {
+    target.first_drift_at = source.first_drift_at;
+  }
+  if (source.last_drift_at && (!target.last_drift_at || source.last_drift_at > target.last_drift_at)) {
+    target.last_drift_at = source.last_drift_at;
+  }
+}
+
+/**
+ * Read the drift report merged across all isolates
+ *
+ * Uses this isolate's live report in place of its (possibly older) stored
+ * snapshot.
+ *
+ * @param kv KV namespace holding the snapshots
+ * @returns Aggregated report
+ */
+export async function readSchemaDriftReport(kv: KVNamespace): Promise<AggregatedSchemaDriftReport> {
+  const report = getSchemaDriftReport();
+  let since = driftState.since;
+  let isolates = 1;
+
+  const list = await kv.list({ prefix: SCHEMA_DRIFT_KEY_PREFIX });
+  const ownKey = ownSnapshotKey();
+  const snapshots = await Promise.all(
+    list.keys
+      .filter((key) => key.name !== ownKey)
+      .map((key) => kv.get<DriftSnapshot>(key.name, "json")),
+  );
+
+  for (const snapshot of snapshots) {
+    if (!snapshot) {
+      continue;
+    }
+    isolates++;
+    for (const [endpoint, entry] of Object.entries(snapshot.endpoints)) {
+      const existing = report.endpoints[endpoint] ?? emptyEndpointDrift();
+      mergeEndpointDrift(existing, entry);
+      report.endpoints[endpoint] = existing;
+    }
+    const snapshotSince = Date.parse(snapshot.since);
+    if (!Number.isNaN(snapshotSince)) {
+      since = Math.min(since, snapshotSince);
+    }
+  }
+
+  return { ...report, since: new Date(since).toISOString(), isolates };
+}
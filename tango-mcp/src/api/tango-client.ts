@@ -3,9 +3,18 @@
  *
  * Type-safe client for the Tango federal contracting API.
  * Features:
- * - fetch-based (Cloudflare Workers compatible)
+ * - fetch-based (Cloudflare Workers compatible), with an injectable
+ *   transport for record/replay of fixtures
  * - 30-second timeout using AbortController
  * - Rate limiting (100ms between requests)
+ * - Automatic retry with backoff for transient failures (Retry-After aware)
+ * - Auto-pagination over cursor and page based list endpoints
+ * - Single-flight coalescing of identical concurrent requests
+ * - Circuit breaker that fails fast while the upstream is degraded
+ * - Global request quota shared by all isolates (Durable Object token bucket)
+ * - Streamed, byte-capped CSV exports (cached like JSON)
+ * - Non-blocking response schema validation feeding a drift report
+ * - Trace ID forwarded to the Tango API as X-Request-ID
  * - Input sanitization
  * - Structured error handling
  * - Response normalization
@@ -36,10 +45,40 @@ import {
   TangoTimeoutError,
   TangoApiError,
   TangoValidationError,
+  TangoUpstreamUnavailableError,
+  TangoQuotaExhaustedError,
 } from "@/types/errors";
 import { enforceRateLimit } from "@/utils/rate-limiter";
-import type { CacheManager } from "@/cache/kv-cache";
-import { generateCacheKey } from "@/utils/cache-key";
+import type { CacheManager, CacheTier } from "@/cache/kv-cache";
+import { canonicalCacheKey, generateCacheKey } from "@/utils/cache-key";
+import { extractCursorFromUrl, extractPageFromUrl } from "@/utils/sort-helpers";
+import { SingleFlight } from "@/utils/single-flight";
+import { canonicalizeParams } from "@/api/canonical-params";
+import {
+  type CachedCsvBody,
+  type CsvExportInfo,
+  isCachedCsvBody,
+  readCsvBody,
+  resolveCsvMaxBytes,
+} from "@/api/csv-stream";
+import { type CircuitBreaker, getUpstreamCircuitBreaker } from "@/api/circuit-breaker";
+import { getUpstreamQuota, type UpstreamQuota } from "@/api/upstream-quota";
+import { resolveTransport, type TangoTransport } from "@/api/transport";
+import { countUpstreamRequest, getTraceId, REQUEST_ID_HEADER } from "@/utils/trace-context";
+import { getLogger } from "@/utils/logger";
+import {
+  flushSchemaDrift,
+  isSchemaDriftFlushDue,
+  recordResponseShape,
+} from "@/api/schema-drift";
+import {
+  computeRetryDelay,
+  isRetryableError,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  type RetryInfo,
+  type RetryPolicy,
+} from "@/api/retry-policy";
 
 /**
  * API client response wrapper
@@ -59,11 +98,115 @@ export interface ApiResponse<T> {
     hit: boolean;
     /** Cache key used (if applicable) */
     key?: string;
+    /** Whether the cached entry was past its soft TTL when served */
+    stale?: boolean;
+    /** Age of the cached entry in seconds (hits only) */
+    age_seconds?: number;
+    /** Whether a background refresh was scheduled for a stale entry */
+    revalidating?: boolean;
+    /** Cache tier that served the hit ("memory" or "kv") */
+    tier?: CacheTier;
   };
   /** Format of the response data ('json' or 'csv') */
   format?: 'json' | 'csv';
+  /** CSV export metadata (CSV responses only) */
+  csv?: CsvExportInfo;
+  /** Retry metadata (attempt count and total backoff wait) */
+  retry?: RetryInfo;
+  /** True if this response was shared from an identical in-flight request */
+  coalesced?: boolean;
+}
+
+/**
+ * Optional client configuration
+ */
+export interface TangoClientOptions {
+  /** Retry policy overrides (merged over env and defaults) */
+  retry?: Partial<RetryPolicy>;
+  /** Circuit breaker to use (defaults to the shared upstream breaker) */
+  circuitBreaker?: CircuitBreaker;
+  /** Byte cap for CSV exports (defaults to TANGO_CSV_MAX_BYTES or 5 MiB) */
+  csvMaxBytes?: number;
+  /** Global quota gate (defaults to the UPSTREAM_QUOTA Durable Object, if bound) */
+  quota?: UpstreamQuota;
+  /** HTTP transport (defaults to the TANGO_TRANSPORT mode: live, record or replay) */
+  transport?: TangoTransport;
+}
+
+/**
+ * Common shape of paginated Tango list responses
+ */
+interface PaginatedListResponse<TRecord> {
+  results?: TRecord[];
+  total?: number;
+  count?: number;
+  next?: string | null;
+}
+
+/**
+ * Auto-pagination limits
+ */
+export interface PaginationOptions {
+  /** Stop after collecting this many records (default: 500) */
+  maxRecords?: number;
+  /** Stop after this many upstream page requests (default: 10) */
+  maxRequests?: number;
+  /** Page size sent as the limit parameter (default: 100, the API maximum) */
+  pageSize?: number;
+}
+
+/**
+ * A single page yielded by the pagination iterator
+ */
+export interface PaginatedPage<TRecord> {
+  /** Records on this page (trimmed to respect maxRecords) */
+  results: TRecord[];
+  /** 1-based index of this page within the iteration */
+  page_index: number;
+  /** Total results reported by the API (if available) */
+  total?: number;
+  /** Whether this page was served from cache */
+  cached: boolean;
+  /** Retry metadata for this page request */
+  retry?: RetryInfo;
+}
+
+/**
+ * Aggregated result of collecting all pages
+ */
+export interface PaginationResult<TRecord> {
+  /** All collected records */
+  results: TRecord[];
+  /** Total results reported by the API (if available) */
+  total?: number;
+  /** Number of page requests made (cached pages included) */
+  requests: number;
+  /** Number of pages served from cache */
+  cached_pages: number;
+  /** Whether collection stopped due to maxRecords/maxRequests while more data existed */
+  truncated: boolean;
 }
 
+/**
+ * In-flight requests (cache lookup and upstream fetch), keyed by the
+ * canonical request key, shared by all client instances in this isolate.
+ * Tools create a new client per call, so the group must live at module level.
+ */
+const inFlightRequests = new SingleFlight<ApiResponse<unknown>>();
+
+/**
+ * In-flight upstream fetches, keyed by cache key. Also dedupes background
+ * refreshes of stale entries, which run after their request has settled.
+ */
+const inFlightFetches = new SingleFlight<ApiResponse<unknown>>();
+
+/** Default auto-pagination limits */
+const DEFAULT_PAGINATION: Required<PaginationOptions> = {
+  maxRecords: 500,
+  maxRequests: 10,
+  pageSize: 100,
+};
+
 /**
  * Tango API Client
  * Main interface for all Tango API operations
@@ -72,10 +215,22 @@ export class TangoApiClient {
   private readonly baseUrl: string;
   private readonly defaultTimeout = 30000; // 30 seconds
   private readonly cache?: CacheManager;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly csvMaxBytes: number;
+  private readonly quota?: UpstreamQuota;
+  private readonly transport: TangoTransport;
+  private readonly driftKv?: KVNamespace;
 
-  constructor(env: Env, cache?: CacheManager) {
+  constructor(env: Env, cache?: CacheManager, options: TangoClientOptions = {}) {
     this.baseUrl = env.TANGO_API_BASE_URL || "https://tango.makegov.com/api";
     this.cache = cache;
+    this.retryPolicy = resolveRetryPolicy(env, options.retry);
+    this.circuitBreaker = options.circuitBreaker ?? getUpstreamCircuitBreaker(env);
+    this.quota = options.quota ?? getUpstreamQuota(env);
+    this.transport = options.transport ?? resolveTransport(env);
+    this.driftKv = env.TANGO_CACHE;
+    this.csvMaxBytes = options.csvMaxBytes ?? resolveCsvMaxBytes(env);
   }
 
   /**
@@ -428,9 +583,122 @@ export class TangoApiClient {
     return this.get<TangoCompanyRAGResponse>("/company/rag/", params, apiKey);
   }
 
+  /**
+   * Iterate over all pages of a list endpoint
+   *
+   * Follows the API's "next" link: cursor-based endpoints (contracts, IDVs,
+   * grants, opportunities, forecasts) advance via the cursor parameter, while
+   * offset-based endpoints (subawards) advance via the page parameter.
+   * Iteration stops when there is no next page, or when maxRecords or
+   * maxRequests is reached.
+   *
+   * @param endpoint List endpoint path (e.g., "/contracts/")
+   * @param params Query parameters (filters applied to every page)
+   * @param apiKey Tango API key
+   * @param options Record and request caps
+   * @returns Async iterator of pages
+   *
+   * @example
+   * ```typescript
+   * for await (const page of client.paginate<TangoContractResponse>("/contracts/", params, apiKey)) {
+   *   contracts.push(...page.results);
+   * }
+   * ```
+   */
+  async *paginate<TRecord>(
+    endpoint: string,
+    params: Record<string, unknown>,
+    apiKey: string,
+    options: PaginationOptions = {},
+  ): AsyncGenerator<PaginatedPage<TRecord>> {
+    const { maxRecords, maxRequests, pageSize } = { ...DEFAULT_PAGINATION, ...options };
+    const pageParams: Record<string, unknown> = { ...params, limit: params.limit ?? pageSize };
+    const seenCursors = new Set<string>();
+    let collected = 0;
+
+    for (let pageIndex = 1; pageIndex <= maxRequests && collected < maxRecords; pageIndex++) {
+      const response = await this.get<PaginatedListResponse<TRecord>>(endpoint, pageParams, apiKey);
+      const data = response.data;
+      const results = (data?.results || []).slice(0, maxRecords - collected);
+      collected += results.length;
+
+      yield {
+        results,
+        page_index: pageIndex,
+        total: data?.total ?? data?.count,
+        cached: response.cache?.hit || false,
+        retry: response.retry,
+      };
+
+      if (results.length === 0) {
+        return;
+      }
+
+      // Advance using whichever pagination style the next link carries
+      const nextCursor = extractCursorFromUrl(data?.next);
+      const nextPage = extractPageFromUrl(data?.next);
+      if (nextCursor) {
+        // Guard against an upstream cursor loop
+        if (seenCursors.has(nextCursor)) {
+          return;
+        }
+        seenCursors.add(nextCursor);
+        pageParams.cursor = nextCursor;
+      } else if (nextPage) {
+        pageParams.page = nextPage;
+      } else {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Collect records from a list endpoint up to the configured caps
+   *
+   * Convenience wrapper around paginate() for analytics tools and exports
+   * that need "up to N records" in a single array.
+   *
+   * @param endpoint List endpoint path (e.g., "/subawards/")
+   * @param params Query parameters
+   * @param apiKey Tango API key
+   * @param options Record and request caps
+   * @returns Collected records with pagination metadata
+   */
+  async fetchAllPages<TRecord>(
+    endpoint: string,
+    params: Record<string, unknown>,
+    apiKey: string,
+    options: PaginationOptions = {},
+  ): Promise<PaginationResult<TRecord>> {
+    const maxRecords = options.maxRecords ?? DEFAULT_PAGINATION.maxRecords;
+    const results: TRecord[] = [];
+    let total: number | undefined;
+    let requests = 0;
+    let cachedPages = 0;
+
+    for await (const page of this.paginate<TRecord>(endpoint, params, apiKey, options)) {
+      results.push(...page.results);
+      total = page.total ?? total;
+      requests++;
+      if (page.cached) cachedPages++;
+    }
+
+    return {
+      results,
+      total,
+      requests,
+      cached_pages: cachedPages,
+      truncated: total !== undefined ? results.length < total : results.length >= maxRecords,
+    };
+  }
+
   /**
    * Generic GET request to Tango API with optional caching
    *
+   * Cached entries are fresh until their soft TTL. Past it, they are served
+   * stale while a background refresh runs (when an execution context is
+   * available), or used as a fallback if the upstream request fails.
+   *
    * @param endpoint API endpoint path (e.g., "/contracts/")
    * @param params Query parameters
    * @param apiKey Tango API key
@@ -446,34 +714,249 @@ export class TangoApiClient {
       throw new TangoAuthenticationError();
     }
 
-    // Sanitize input parameters
-    const sanitizedParams = this.sanitizeInput(params);
+    // Use endpoint as tool name for cache and coalescing keys
+    const toolName = endpoint.replace(/^\//, "").replace(/\/$/, "").replace(/\//g, "_");
+
+    // Sanitize and canonicalize input parameters so equivalent queries share a key
+    const sanitizedParams = canonicalizeParams(toolName, this.sanitizeInput(params));
 
-    // Generate cache key if caching is enabled
-    let cacheKey: string | undefined;
-    if (this.cache) {
-      // Use endpoint as tool name for cache key
-      const toolName = endpoint.replace(/^\//, "").replace(/\/$/, "").replace(/\//g, "_");
-      cacheKey = await generateCacheKey(toolName, sanitizedParams);
+    // Coalesce identical concurrent requests into one cache lookup, upstream
+    // fetch and cache write. The key is computed synchronously, so the
+    // in-flight entry exists before this call first yields.
+    const { value, shared } = await inFlightRequests.run(canonicalCacheKey(toolName, sanitizedParams), () =>
+      this.lookupOrFetch<T>(endpoint, toolName, sanitizedParams, apiKey),
+    );
+    const response = value as ApiResponse<T>;
+    return shared && !response.cache?.hit ? { ...response, coalesced: true } : response;
+  }
+
+  /**
+   * Serve a request from the cache, or fetch it from upstream
+   *
+   * @param endpoint API endpoint path
+   * @param toolName Tool name used for cache keys and the TTL policy
+   * @param sanitizedParams Sanitized, canonicalized query parameters
+   * @param apiKey Tango API key
+   * @returns API response with cache metadata
+   */
+  private async lookupOrFetch<T>(
+    endpoint: string,
+    toolName: string,
+    sanitizedParams: Record<string, unknown>,
+    apiKey: string,
+  ): Promise<ApiResponse<T>> {
+    const requestKey = await generateCacheKey(toolName, sanitizedParams);
 
+    // Cache key is the request key when caching is enabled
+    const cacheKey = this.cache ? requestKey : undefined;
+
+    // One upstream fetch and one cache write per key
+    const fetchShared = async (): Promise<ApiResponse<T>> => {
+      const { value, shared } = await inFlightFetches.run(requestKey, () =>
+        this.fetchWithRetry<T>(endpoint, sanitizedParams, apiKey, cacheKey, toolName),
+      );
+      return shared ? { ...(value as ApiResponse<T>), coalesced: true } : (value as ApiResponse<T>);
+    };
+
+    if (this.cache && cacheKey) {
       // Try to get from cache
-      const cached = await this.cache.get<T>(cacheKey);
+      const cached = await this.cache.get<T | CachedCsvBody>(cacheKey);
       if (cached.hit && cached.data) {
-        return {
-          success: true,
-          data: cached.data,
-          status: 200,
-          cache: {
-            hit: true,
-            key: cacheKey,
-          },
+        const cacheMeta = {
+          hit: true,
+          key: cacheKey,
+          stale: cached.stale ?? false,
+          age_seconds: cached.age_seconds,
+          tier: cached.tier,
         };
+        // CSV exports are stored with their metadata; unwrap to the raw text
+        const cachedResponse: ApiResponse<T> = isCachedCsvBody(cached.data)
+          ? {
+              success: true,
+              data: cached.data.text as unknown as T,
+              status: 200,
+              format: "csv",
+              csv: cached.data.csv,
+              cache: cacheMeta,
+              retry: { attempts: 0, total_wait_ms: 0 },
+            }
+          : {
+              success: true,
+              data: cached.data as T,
+              status: 200,
+              cache: cacheMeta,
+              retry: { attempts: 0, total_wait_ms: 0 },
+            };
+
+        if (!cached.stale) {
+          return cachedResponse;
+        }
+
+        // Stale-while-revalidate: serve now, refresh after the response is sent
+        if (this.cache.runInBackground(fetchShared)) {
+          return { ...cachedResponse, cache: { ...cacheMeta, revalidating: true } };
+        }
+
+        // No background context: refresh inline, falling back to the stale entry
+        try {
+          return await fetchShared();
+        } catch (error) {
+          if (!isStaleFallbackError(error)) {
+            throw error;
+          }
+          getLogger().warn("Serving stale cache entry after upstream failure", {
+            endpoint,
+            age_seconds: cached.age_seconds,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return cachedResponse;
+        }
       }
     }
 
+    return fetchShared();
+  }
+
+  /**
+   * Fetch from upstream, retrying transient failures, and cache the result
+   *
+   * @param endpoint API endpoint path
+   * @param sanitizedParams Sanitized query parameters
+   * @param apiKey Tango API key
+   * @param cacheKey Cache key to write on success (if caching is enabled)
+   * @param toolName Tool name used to look up the cache TTL policy
+   * @returns API response with cache and retry metadata
+   */
+  private async fetchWithRetry<T>(
+    endpoint: string,
+    sanitizedParams: Record<string, unknown>,
+    apiKey: string,
+    cacheKey?: string,
+    toolName?: string,
+  ): Promise<ApiResponse<T>> {
     // Build URL with query parameters
     const url = this.buildUrl(endpoint, sanitizedParams);
 
+    // Retry transient failures according to policy (GET requests are idempotent)
+    const retry: RetryInfo = { attempts: 0, total_wait_ms: 0 };
+
+    while (true) {
+      // Fail fast while the upstream is known to be degraded
+      this.circuitBreaker.assertRequestAllowed();
+      // Take a slot from the budget shared by all isolates
+      try {
+        await this.quota?.acquire();
+      } catch (error) {
+        this.circuitBreaker.releaseProbe();
+        throw error;
+      }
+      retry.attempts++;
+
+      try {
+        const { data, status, format, csv } = await this.fetchOnce<T>(url, sanitizedParams, apiKey);
+        this.circuitBreaker.recordSuccess();
+
+        // Shaped responses are custom projections, so only full payloads are checked
+        if (format === "json" && !sanitizedParams.shape) {
+          this.checkResponseShape(endpoint, data);
+        }
+
+        // Cache successful responses (CSV exports keep their metadata)
+        if (this.cache && cacheKey) {
+          const ttl = toolName ? await this.cache.getTtlFor(toolName) : undefined;
+          const entry: T | CachedCsvBody =
+            format === "csv" && csv ? { format: "csv", text: data as unknown as string, csv } : data;
+          await this.cache.set(cacheKey, entry, ttl);
+        }
+
+        return {
+          success: true,
+          data,
+          status,
+          format,
+          csv,
+          cache: this.cache
+            ? {
+                hit: false,
+                key: cacheKey,
+              }
+            : undefined,
+          retry,
+        };
+      } catch (error) {
+        this.circuitBreaker.recordFailure(error);
+
+        if (
+          retry.attempts >= this.retryPolicy.maxAttempts ||
+          !isRetryableError(error, this.retryPolicy)
+        ) {
+          throw error;
+        }
+
+        const retryAfterMs = error instanceof TangoApiError ? error.retryAfterMs : undefined;
+        const delayMs = computeRetryDelay(retry.attempts, this.retryPolicy, retryAfterMs);
+        if (delayMs === undefined) {
+          throw error;
+        }
+
+        getLogger().warn("Retrying Tango API request", {
+          endpoint,
+          attempt: retry.attempts,
+          delay_ms: delayMs,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        retry.total_wait_ms += delayMs;
+      }
+    }
+  }
+
+  /**
+   * Record schema drift for a response without affecting it
+   *
+   * Validation errors are logged and swallowed; the drift report is flushed
+   * to KV in the background when due.
+   *
+   * @param endpoint API endpoint path
+   * @param data Parsed JSON response body
+   */
+  private checkResponseShape(endpoint: string, data: unknown): void {
+    try {
+      const drift = recordResponseShape(endpoint, data);
+      if (drift?.new_paths) {
+        getLogger().warn("Tango API response schema drift", {
+          endpoint: drift.endpoint,
+          unknown_fields: drift.unknown_fields,
+          missing_fields: drift.missing_fields,
+          type_mismatches: drift.type_mismatches,
+        });
+      }
+
+      if (this.cache && this.driftKv && isSchemaDriftFlushDue()) {
+        const kv = this.driftKv;
+        this.cache.runInBackground(() => flushSchemaDrift(kv));
+      }
+    } catch (error) {
+      getLogger().error("Schema drift check failed", error instanceof Error ? error : new Error(String(error)), {
+        endpoint,
+      });
+    }
+  }
+
+  /**
+   * Perform a single upstream request attempt
+   *
+   * @param url Fully built request URL
+   * @param sanitizedParams Sanitized query parameters (used for format negotiation)
+   * @param apiKey Tango API key
+   * @returns Parsed response data, HTTP status, format, and CSV metadata (CSV only)
+   */
+  private async fetchOnce<T>(
+    url: string,
+    sanitizedParams: Record<string, unknown>,
+    apiKey: string,
+  ): Promise<{ data: T; status: number; format: 'json' | 'csv'; csv?: CsvExportInfo }> {
     // Enforce rate limiting (only for actual API calls)
     await enforceRateLimit();
 
@@ -485,12 +968,16 @@ export class TangoApiClient {
       try {
         // Make fetch request
         const acceptHeader = sanitizedParams.format === 'csv' ? 'text/csv' : 'application/json';
-        const response = await fetch(url, {
+        // Correlates upstream logs with the MCP request
+        const traceId = getTraceId();
+        countUpstreamRequest();
+        const response = await this.transport(url, {
           method: "GET",
           headers: {
             Accept: acceptHeader,
             "X-API-Key": apiKey,
             "User-Agent": "Tango-MCP/1.0.0",
+            ...(traceId ? { [REQUEST_ID_HEADER]: traceId } : {}),
           },
           signal: controller.signal,
         });
@@ -509,10 +996,13 @@ export class TangoApiClient {
         // Parse response based on content type
         let data: T;
         let format: 'json' | 'csv' = 'json';
+        let csv: CsvExportInfo | undefined;
 
         if (isCSV) {
-          // For CSV responses, return the raw text as data
-          data = (await response.text()) as unknown as T;
+          // For CSV responses, stream the raw text up to the byte cap
+          const body = await readCsvBody(response, this.csvMaxBytes);
+          data = body.text as unknown as T;
+          csv = body.csv;
           format = 'csv';
         } else {
           // Parse JSON response with defensive handling
@@ -546,22 +1036,11 @@ export class TangoApiClient {
           format = 'json';
         }
 
-        // Cache successful responses (only cache JSON for now, not CSV)
-        if (this.cache && cacheKey && !isCSV) {
-          await this.cache.set(cacheKey, data);
-        }
-
         return {
-          success: true,
           data,
           status: response.status,
           format,
-          cache: this.cache
-            ? {
-                hit: false,
-                key: cacheKey,
-              }
-            : undefined,
+          csv,
         };
       } catch (error) {
         clearTimeout(timeoutId);
@@ -622,7 +1101,7 @@ export class TangoApiClient {
    * @param response Fetch response object
    * @returns Error response
    */
-  private async handleErrorResponse<T>(response: Response): Promise<ApiResponse<T>> {
+  private async handleErrorResponse(response: Response): Promise<never> {
     const status = response.status;
 
     // Try to parse error body
@@ -638,16 +1117,10 @@ export class TangoApiClient {
       // Ignore JSON parse errors
     }
 
-    // Extract retry-after header for rate limiting
+    // Extract retry-after header for rate limiting and maintenance windows
     let retryAfterMs: number | undefined;
-    if (status === 429) {
-      const retryAfter = response.headers.get("Retry-After");
-      if (retryAfter) {
-        const seconds = Number.parseInt(retryAfter, 10);
-        if (!Number.isNaN(seconds)) {
-          retryAfterMs = seconds * 1000;
-        }
-      }
+    if (status === 429 || status === 503) {
+      retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
     }
 
     throw new TangoApiError(errorMessage, status, retryAfterMs);
@@ -693,13 +1166,42 @@ export class TangoApiClient {
   }
 }
 
+/**
+ * Check whether an upstream error allows falling back to a stale cache entry
+ *
+ * Only upstream availability problems qualify; client errors such as an
+ * invalid API key or bad parameters are always surfaced.
+ *
+ * @param error Error thrown by the upstream request
+ * @returns True for network errors, timeouts, open circuit, exhausted quota, 429 and 5xx responses
+ */
+function isStaleFallbackError(error: unknown): boolean {
+  if (
+    error instanceof TangoNetworkError ||
+    error instanceof TangoTimeoutError ||
+    error instanceof TangoUpstreamUnavailableError ||
+    error instanceof TangoQuotaExhaustedError
+  ) {
+    return true;
+  }
+  if (error instanceof TangoApiError && error.statusCode !== undefined) {
+    return error.statusCode === 429 || error.statusCode >= 500;
+  }
+  return false;
+}
+
 /**
  * Create Tango API client instance
  *
  * @param env Cloudflare Workers environment bindings
  * @param cache Optional cache manager for response caching
+ * @param options Optional client configuration (retry policy, etc.)
  * @returns TangoApiClient instance
  */
-export function createTangoClient(env: Env, cache?: CacheManager): TangoApiClient {
-  return new TangoApiClient(env, cache);
+export function createTangoClient(
+  env: Env,
+  cache?: CacheManager,
+  options?: TangoClientOptions,
+): TangoApiClient {
+  return new TangoApiClient(env, cache, options);
 }
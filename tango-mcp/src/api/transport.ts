@@ -0,0 +1,228 @@
+/**
+ * HTTP Transport for Tango API Requests
+ *
+ * Injectable replacement for the global fetch used by TangoApiClient, so
+ * tools and integration specs can run offline and deterministically.
+ *
+ * Modes (TANGO_TRANSPORT):
+ * - live (default): requests go to the Tango API
+ * - record: requests go to the Tango API and each request/response pair is
+ *   saved as a fixture keyed by canonical URL
+ * - replay: fixtures are served and the Tango API is never called; a request
+ *   without a fixture fails with an API_ERROR naming the missing key
+ *
+ * In the Worker, fixtures live in TANGO_CACHE under "fixture:" keys (no
+ * expiry). scripts/tango-fixtures.ts syncs them with the JSON fixture files
+ * in test/fixtures/tango/ for local development.
+ *
+ * Fixture keys never include credentials: the API key travels in a header,
+ * and request headers are not recorded. CSV bodies are recorded up to the
+ * same byte cap TangoApiClient applies (TANGO_CSV_MAX_BYTES).
+ */
+
+import type { Env } from "@/types/env";
+import { TangoApiError } from "@/types/errors";
+import { DEFAULT_CSV_MAX_BYTES, readCsvBody, resolveCsvMaxBytes } from "@/api/csv-stream";
+
+/**
+ * Function that performs one HTTP request (same contract as fetch)
+ */
+export type TangoTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Transport mode
+ */
+export type TransportMode = "live" | "record" | "replay";
+
+/**
+ * Recorded request/response pair
+ */
+export interface TransportFixture {
+  /** Canonical URL key (see canonicalFixtureKey) */
+  key: string;
+  request: {
+    method: string;
+    url: string;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  };
+  /** When the fixture was recorded (ISO 8601) */
+  recorded_at: string;
+}
+
+/**
+ * Storage for recorded fixtures
+ */
+export interface FixtureStore {
+  get(key: string): Promise<TransportFixture | undefined>;
+  put(fixture: TransportFixture): Promise<void>;
+}
+
+/**
+ * KV key prefix for fixtures stored in TANGO_CACHE
+ */
+export const FIXTURE_KEY_PREFIX = "fixture:";
+
+/** Response headers kept in fixtures (others vary per request) */
+const RECORDED_HEADERS = ["content-type", "retry-after"];
+
+/**
+ * Live transport (late-bound so test doubles of global fetch still apply)
+ */
+export const fetchTransport: TangoTransport = (url, init) => fetch(url, init);
+
+/**
+ * Build the canonical fixture key for a request URL
+ *
+ * Host-independent (so fixtures work against any TANGO_API_BASE_URL) and
+ * insensitive to query parameter order.
+ *
+ * @param url Request URL
+ * @param method HTTP method
+ * @returns Key such as "GET /api/contracts/?limit=5&search=cloud"
+ */
+export function canonicalFixtureKey(url: string, method = "GET"): string {
+  const parsed = new URL(url);
+  const params = Array.from(parsed.searchParams.entries()).sort(([a, aValue], [b, bValue]) =>
+    a === b ? aValue.localeCompare(bValue) : a.localeCompare(b),
+  );
+  const query = new URLSearchParams(params).toString();
+  return `${method.toUpperCase()} ${parsed.pathname}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Create a transport that records every response into a fixture store
+ *
+ * @param store Fixture store to write to
+ * @param inner Transport that performs the real request
+ * @param csvMaxBytes Byte cap for CSV bodies (cut at the last complete record)
+ * @returns Recording transport
+ */
+export function createRecordingTransport(
+  store: FixtureStore,
+  inner: TangoTransport = fetchTransport,
+  csvMaxBytes = DEFAULT_CSV_MAX_BYTES,
+): TangoTransport {
+  return async (url, init) => {
+    const response = await inner(url, init);
+    const isCsv = response.headers.get("content-type")?.includes("text/csv") ?? false;
+    const body = isCsv ? (await readCsvBody(response, csvMaxBytes)).text : await response.text();
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+
+    const method = init.method ?? "GET";
+    const fixture: TransportFixture = {
+      key: canonicalFixtureKey(url, method),
+      request: { method, url },
+      response: { status: response.status, headers, body },
+      recorded_at: new Date().toISOString(),
+    };
+    await store.put(fixture);
+
+    return toResponse(fixture);
+  };
+}
+
+/**
+ * Create a transport that serves recorded fixtures only
+ *
+ * @param store Fixture store to read from
+ * @returns Replay transport
+ * @throws TangoApiError (not retried) when no fixture matches the request
+ */
+export function createReplayTransport(store: FixtureStore): TangoTransport {
+  return async (url, init) => {
+    const key = canonicalFixtureKey(url, init.method ?? "GET");
+    const fixture = await store.get(key);
+    if (!fixture) {
+      throw new TangoApiError(
+        `No recorded fixture for "${key}". Record it with TANGO_TRANSPORT=record.`,
+      );
+    }
+    return toResponse(fixture);
+  };
+}
+
+/**
+ * Create a fixture store backed by a KV namespace
+ *
+ * @param kv KV namespace (TANGO_CACHE in the Worker)
+ * @returns KV fixture store
+ */
+export function createKvFixtureStore(kv: KVNamespace): FixtureStore {
+  return {
+    get: async (key) => (await kv.get<TransportFixture>(`${FIXTURE_KEY_PREFIX}${key}`, "json")) ?? undefined,
+    put: async (fixture) => {
+      await kv.put(`${FIXTURE_KEY_PREFIX}${fixture.key}`, JSON.stringify(fixture));
+    },
+  };
+}
+
+/**
+ * Create an in-memory fixture store (tests and scripts)
+ *
+ * @param fixtures Initial fixtures (e.g., loaded from JSON fixture files)
+ * @returns Memory fixture store with a list() accessor
+ */
+export function createMemoryFixtureStore(
+  fixtures: TransportFixture[] = [],
+): FixtureStore & { list(): TransportFixture[] } {
+  const entries = new Map(fixtures.map((fixture) => [fixture.key, fixture]));
+  return {
+    get: async (key) => entries.get(key),
+    put: async (fixture) => {
+      entries.set(fixture.key, fixture);
+    },
+    list: () => Array.from(entries.values()),
+  };
+}
+
+/**
+ * Resolve the transport mode from environment
+ *
+ * @param env Cloudflare Workers environment bindings
+ * @returns Transport mode (live unless TANGO_TRANSPORT says otherwise)
+ */
+export function resolveTransportMode(env: Env): TransportMode {
+  const mode = env.TANGO_TRANSPORT?.trim().toLowerCase();
+  return mode === "record" || mode === "replay" ? mode : "live";
+}
+
+/**
+ * Build the transport configured by environment
+ *
+ * Record and replay use fixtures in TANGO_CACHE; without that binding the
+ * live transport is used.
+ *
+ * @param env Cloudflare Workers environment bindings
+ * @returns Transport for TangoApiClient
+ */
+export function resolveTransport(env: Env): TangoTransport {
+  const mode = resolveTransportMode(env);
+  if (mode === "live" || !env.TANGO_CACHE) {
+    return fetchTransport;
+  }
+
+  const store = createKvFixtureStore(env.TANGO_CACHE);
+  return mode === "record"
+    ? createRecordingTransport(store, fetchTransport, resolveCsvMaxBytes(env))
+    : createReplayTransport(store);
+}
+
+/**
+ * Build a Response from a fixture
+ */
+function toResponse(fixture: TransportFixture): Response {
+  // Null-body statuses can't carry a body
+  const body = [204, 205, 304].includes(fixture.response.status) ? null : fixture.response.body;
+  return new Response(body, {
+    status: fixture.response.status,
+    headers: fixture.response.headers,
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Upstream Quota Limiter Durable Object
+ *
+ * Single global instance that owns the shared Tango API request budget
+ * (see upstream-quota.ts). Durable Objects process calls one at a time, so
+ * every isolate sees one consistent bucket.
+ *
+ * The per-second bucket lives in memory (losing it on eviction only grants
+ * one fresh burst); daily usage is persisted so restarts don't reset it.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "@/types/env";
+import {
+  type DailyUsage,
+  QuotaBucket,
+  type QuotaDecision,
+  resolveQuotaConfig,
+} from "@/api/upstream-quota";
+
+/** Storage key for today's usage */
+const USAGE_KEY = "daily_usage";
+
+/**
+ * Durable Object holding the global upstream quota
+ */
+export class UpstreamQuotaLimiter extends DurableObject<Env> {
+  private bucket?: QuotaBucket;
+
+  /**
+   * Take one request slot
+   *
+   * @returns Quota decision
+   */
+  async take(): Promise<QuotaDecision> {
+    const config = resolveQuotaConfig(this.env);
+    if (!this.bucket) {
+      const usage = await this.ctx.storage.get<DailyUsage>(USAGE_KEY);
+      this.bucket = new QuotaBucket(config, usage);
+    }
+
+    const decision = this.bucket.take();
+    if (decision.allowed && config.perDay > 0) {
+      await this.ctx.storage.put(USAGE_KEY, this.bucket.getUsage());
+    }
+    return decision;
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Global Upstream Quota for Tango API Requests
+ *
+ * Shared request budget enforced across every isolate by the
+ * UpstreamQuotaLimiter Durable Object. The per-isolate rate limiter only
+ * spaces calls within one isolate; this keeps the sum of all sessions under
+ * the Tango API quota.
+ *
+ * Design:
+ * - Token bucket for the per-second budget (bursts up to one second's worth)
+ * - Fixed UTC-day window for the per-day budget (0 disables it)
+ * - Short per-second waits (up to 1 second) are absorbed by the client;
+ *   anything longer fails with QUOTA_EXHAUSTED
+ * - If the limiter itself is unreachable, requests are allowed (fail open)
+ *   so a limiter outage never takes the server down
+ * - Disabled when the UPSTREAM_QUOTA binding is absent (local tests)
+ */
+
+import type { Env } from "@/types/env";
+import { TangoQuotaExhaustedError } from "@/types/errors";
+import { getLogger } from "@/utils/logger";
+
+/**
+ * Quota budgets
+ */
+export interface QuotaConfig {
+  /** Upstream requests allowed per second across all isolates */
+  perSecond: number;
+  /** Upstream requests allowed per UTC day (0 = unlimited) */
+  perDay: number;
+}
+
+/**
+ * Result of asking the limiter for one request slot
+ */
+export interface QuotaDecision {
+  allowed: boolean;
+  /** Budget that rejected the request */
+  scope?: "second" | "day";
+  /** Milliseconds until a slot is available (0 when allowed) */
+  retry_after_ms: number;
+  /** Requests left in today's budget (omitted when unlimited) */
+  remaining_today?: number;
+}
+
+/**
+ * Requests counted against the daily budget
+ */
+export interface DailyUsage {
+  /** UTC date (YYYY-MM-DD) */
+  day: string;
+  used: number;
+}
+
+/**
+ * Anything that can hand out quota slots (the Durable Object stub in production)
+ */
+export interface QuotaLimiter {
+  take(): Promise<QuotaDecision>;
+}
+
+/**
+ * Default budgets: 10 requests per second, no daily cap
+ */
+export const DEFAULT_QUOTA_CONFIG: QuotaConfig = {
+  perSecond: 10,
+  perDay: 0,
+};
+
+/** Name of the single limiter instance shared by all isolates */
+const LIMITER_NAME = "tango-api";
+
+/** Longest per-second wait absorbed before failing with QUOTA_EXHAUSTED */
+const MAX_QUOTA_WAIT_MS = 1000;
+
+/**
+ * Token bucket with a daily cap
+ *
+ * Pure state machine; the Durable Object owns the instance and persists
+ * daily usage.
+ */
+export class QuotaBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private usage: DailyUsage;
+
+  constructor(
+    private readonly config: QuotaConfig = DEFAULT_QUOTA_CONFIG,
+    usage?: DailyUsage,
+    now = Date.now(),
+  ) {
+    this.tokens = config.perSecond;
+    this.lastRefill = now;
+    this.usage = usage ?? { day: utcDay(now), used: 0 };
+  }
+
+  /**
+   * Take one request slot if both budgets allow it
+   *
+   * @param now Current time in milliseconds
+   * @returns Decision with retry hint when rejected
+   */
+  take(now = Date.now()): QuotaDecision {
+    const today = utcDay(now);
+    if (this.usage.day !== today) {
+      this.usage = { day: today, used: 0 };
+    }
+
+    if (this.config.perDay > 0 && this.usage.used >= this.config.perDay) {
+      return {
+        allowed: false,
+        scope: "day",
+        retry_after_ms: nextUtcMidnight(now) - now,
+        remaining_today: 0,
+      };
+    }
+
+    // Refill proportionally to elapsed time, capped at one second's budget
+    const elapsed = Math.max(0, now - this.lastRefill);
+    this.tokens = Math.min(
+      this.config.perSecond,
+      this.tokens + (elapsed / 1000) * this.config.perSecond,
+    );
+    this.lastRefill = now;
+
+    if (this.tokens < 1) {
+      return {
+        allowed: false,
+        scope: "second",
+        retry_after_ms: Math.ceil(((1 - this.tokens) / this.config.perSecond) * 1000),
+        remaining_today: this.remainingToday(),
+      };
+    }
+
+    this.tokens -= 1;
+    this.usage.used++;
+    return { allowed: true, retry_after_ms: 0, remaining_today: this.remainingToday() };
+  }
+
+  /**
+   * Get today's usage (for persistence)
+   */
+  getUsage(): DailyUsage {
+    return { ...this.usage };
+  }
+
+  private remainingToday(): number | undefined {
+    return this.config.perDay > 0 ? Math.max(0, this.config.perDay - this.usage.used) : undefined;
+  }
+}
+
+/**
+ * Client-side gate consulted before each upstream request
+ */
+export class UpstreamQuota {
+  constructor(private readonly limiter: QuotaLimiter) {}
+
+  /**
+   * Wait for a request slot
+   *
+   * @throws TangoQuotaExhaustedError if no slot is available within 1 second
+   */
+  async acquire(): Promise<void> {
+    const deadline = Date.now() + MAX_QUOTA_WAIT_MS;
+
+    while (true) {
+      let decision: QuotaDecision;
+      try {
+        decision = await this.limiter.take();
+      } catch (error) {
+        getLogger().warn("Upstream quota check failed - allowing request", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return;
+      }
+
+      if (decision.allowed) {
+        return;
+      }
+
+      const scope = decision.scope ?? "second";
+      if (scope === "second" && Date.now() + decision.retry_after_ms <= deadline) {
+        await new Promise((resolve) => setTimeout(resolve, decision.retry_after_ms));
+        continue;
+      }
+
+      throw new TangoQuotaExhaustedError(scope, decision.retry_after_ms);
+    }
+  }
+}
+
+/**
+ * Get the shared upstream quota gate
+ *
+ * @param env Cloudflare Workers environment bindings
+ * @returns Quota gate, or undefined if the UPSTREAM_QUOTA binding is absent
+ */
+export function getUpstreamQuota(env: Env): UpstreamQuota | undefined {
+  const namespace = env.UPSTREAM_QUOTA;
+  if (!namespace) {
+    return undefined;
+  }
+  return new UpstreamQuota(namespace.get(namespace.idFromName(LIMITER_NAME)));
+}
+
+/**
+ * Build quota budgets from environment
+ *
+ * @param env Cloudflare Workers environment bindings
+ * @returns Resolved budgets
+ */
+export function resolveQuotaConfig(env: Env): QuotaConfig {
+  const perSecond = Number.parseInt(env.TANGO_QUOTA_PER_SECOND ?? "", 10);
+  const perDay = Number.parseInt(env.TANGO_QUOTA_PER_DAY ?? "", 10);
+
+  return {
+    perSecond: perSecond > 0 ? perSecond : DEFAULT_QUOTA_CONFIG.perSecond,
+    perDay: perDay >= 0 ? perDay : DEFAULT_QUOTA_CONFIG.perDay,
+  };
+}
+
+/**
+ * Format a timestamp as a UTC date (YYYY-MM-DD)
+ */
+function utcDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Get the timestamp of the next UTC midnight
+ */
+function nextUtcMidnight(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
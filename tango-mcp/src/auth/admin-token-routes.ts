@@ -0,0 +1,628 @@
+/**
+ * Admin HTTP API for MCP access tokens, usage, roles and OAuth clients
+ *
+ * Exposes the token lifecycle (create, list, rotate, revoke, unrevoke,
+ * update description and IP allowlist, stats) under /admin/tokens, usage metering (top
+ * consumers, per-user usage and quota overrides) under /admin/usage, user role
+ * assignments under /admin/roles, and dynamically registered OAuth clients
+ * (list, allow, block) under /admin/clients. Mounted as an OAuthProvider
+ * API handler, so every request carries a valid OAuth access token and the
+ * caller's props (name, email) on the execution context. Only users with the
+ * admin role (ADMIN_EMAILS or a role assignment) are allowed; every mutation
+ * is audit-logged.
+ *
+ * Routes:
+ * - POST   /admin/tokens                     Create a token for a user
+ * - GET    /admin/tokens?user=               List a user's tokens
+ * - GET    /admin/tokens/stats?user=         Token statistics for a user
+ * - PATCH  /admin/tokens/:tokenId            Update a token's description
+ * - PUT    /admin/tokens/:tokenId/allowed-ips Replace or remove a token's IP allowlist
+ * - POST   /admin/tokens/:tokenId/rotate     Rotate a token (grace period)
+ * - POST   /admin/tokens/:tokenId/revoke     Revoke a token
+ * - POST   /admin/tokens/:tokenId/unrevoke   Restore a revoked token
+ * - POST   /admin/tokens/revoke-all          Revoke all of a user's tokens
+ * - GET    /admin/usage/top                  Top consumers (period, subject, metric)
+ * - GET    /admin/usage/users/:userId        A user's usage and quotas
+ * - PUT    /admin/usage/users/:userId/quotas Override a user's quotas
+ * - DELETE /admin/usage/users/:userId/quotas Return a user to the default quotas
+ * - GET    /admin/roles                      Roles, default role and all assignments
+ * - GET    /admin/roles/users/:email         A user's effective role and its source
+ * - PUT    /admin/roles/{email|domain}/:subject Assign a role to an email or domain
+ * - DELETE /admin/roles/{email|domain}/:subject Remove an assignment
+ * - GET    /admin/clients                    Registered clients, policy and access
+ * - PUT    /admin/clients/:clientId/access   Allow or block a client (blocking
+ *                                            revokes its grants for every user)
+ * - POST   /admin/clients/:clientId/revoke-grants Continue revoking a blocked
+ *                                            client's grants from a cursor
+ * - DELETE /admin/clients/:clientId/access   Return a client to the policy default
+ *
+ * Responses are JSON; errors use { error, message }. Raw tokens are only
+ * returned by create and rotate and are never logged.
+ *
+ * @module auth/admin-token-routes
+ */
+
+import type { OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import { Hono, type Context } from "hono";
+import { z } from "zod";
+import { getAuditLogger } from "../security/audit-logging.js";
+import {
+	getTopConsumers,
+	getUsage,
+	getUserQuotaOverrides,
+	isUsageMeteringEnabled,
+	resolveDefaultUsageQuotas,
+	setUserQuotaOverrides,
+} from "../security/usage-quota.js";
+import type { Env } from "../types/env.js";
+import {
+	clearClientAccess,
+	getClientAccess,
+	getOAuthClientPolicy,
+	listOAuthClients,
+	revokeClientGrants,
+	setClientAccess,
+} from "./connected-apps.js";
+import {
+	getTokenStats,
+	listTokensForUser,
+	revokeAllUserTokens,
+	unrevokeToken,
+	updateTokenDescription,
+	updateTokenIpAllowlist,
+} from "./mcp-token-admin.js";
+import {
+	generateMcpAccessToken,
+	revokeMcpAccessToken,
+	rotateMcpAccessToken,
+} from "./mcp-token.js";
+import {
+	USER_ROLES,
+	getDefaultUserRole,
+	listUserRoleAssignments,
+	removeUserRoleAssignment,
+	resolveUserRole,
+	setUserRoleAssignment,
+} from "./user-roles.js";
+import type { Props } from "./utils.js";
+
+/** Bindings, with the OAuth helpers injected by OAuthProvider */
+type AdminEnv = Env & { OAUTH_PROVIDER?: OAuthHelpers };
+
+type AdminContext = Context<{ Bindings: AdminEnv; Variables: { adminEmail: string } }>;
+
+const app = new Hono<{ Bindings: AdminEnv; Variables: { adminEmail: string } }>();
+
+const scopesSchema = z
+	.object({
+		tools: z.array(z.string()).optional(),
+		profile: z.enum(["full", "analytics_read_only"]).optional(),
+		allowExport: z.boolean().optional(),
+		maxLimit: z.number().int().positive().optional(),
+	})
+	.strict();
+
+const quotasSchema = z
+	.object({
+		dailyToolCalls: z.number().int().positive().optional(),
+		monthlyToolCalls: z.number().int().positive().optional(),
+		dailyUpstreamRequests: z.number().int().positive().optional(),
+		monthlyUpstreamRequests: z.number().int().positive().optional(),
+	})
+	.strict();
+
+const topConsumersSchema = z.object({
+	period: z.enum(["day", "month"]).default("day"),
+	subject: z.enum(["user", "token"]).default("user"),
+	metric: z.enum(["tool_calls", "upstream_requests"]).default("tool_calls"),
+	limit: z.coerce.number().int().min(1).max(100).default(10),
+});
+
+const createTokenSchema = z.object({
+	userId: z.string().min(1).max(254),
+	description: z.string().min(1).max(200),
+	expiresInDays: z.number().int().positive().optional(),
+	scopes: scopesSchema.optional(),
+	quotas: quotasSchema.optional(),
+	allowedIps: z.array(z.string()).optional(),
+});
+
+const allowedIpsSchema = z.object({
+	allowedIps: z.array(z.string()).nullable(),
+});
+
+const updateTokenSchema = z.object({
+	description: z.string().min(1).max(200),
+});
+
+const revokeTokenSchema = z.object({
+	reason: z.string().min(1).max(200),
+});
+
+const revokeAllSchema = z.object({
+	userId: z.string().min(1).max(254),
+	reason: z.string().min(1).max(200),
+});
+
+const rotateTokenSchema = z.object({
+	graceHours: z.number().int().nonnegative().optional(),
+});
+
+const assignRoleSchema = z.object({
+	role: z.enum(USER_ROLES),
+});
+
+const clientAccessSchema = z.object({
+	status: z.enum(["allowed", "blocked"]),
+	reason: z.string().min(1).max(200).optional(),
+});
+
+const revokeClientGrantsSchema = z.object({
+	cursor: z.string().min(1).optional(),
+});
+
+/**
+ * JSON error response
+ */
+function errorResponse(
+	c: AdminContext,
+	status: 400 | 401 | 403 | 404 | 409 | 500,
+	error: string,
+	message: string,
+): Response {
+	return c.json({ error, message }, status);
+}
+
+/**
+ * Map token helper errors to HTTP status codes
+ */
+function statusForError(message: string | undefined): 400 | 404 | 409 | 500 {
+	if (!message) return 500;
+	if (message.includes("not found")) return 404;
+	if (message.includes("allowlist") || message.includes("Invalid role")) return 400;
+	if (message.includes("configured")) return 500;
+	return 409;
+}
+
+/**
+ * Parse and validate a JSON request body
+ *
+ * @returns Parsed body, or an error message
+ */
+async function parseBody<T>(
+	c: AdminContext,
+	schema: z.ZodType<T>,
+): Promise<{ data: T } | { error: string }> {
+	let body: unknown;
+	try {
+		const text = await c.req.text();
+		body = text ? JSON.parse(text) : {};
+	} catch {
+		return { error: "Request body must be valid JSON" };
+	}
+
+	const result = schema.safeParse(body);
+	if (!result.success) {
+		return {
+			error: result.error.issues
+				.map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+				.join("; "),
+		};
+	}
+	return { data: result.data };
+}
+
+/**
+ * Record an admin action in the audit log
+ */
+async function auditAction(
+	c: AdminContext,
+	action: string,
+	tokenId: string | undefined,
+	success: boolean,
+	details?: Record<string, unknown>,
+	errorMessage?: string,
+): Promise<void> {
+	await getAuditLogger().logTokenAdminAction(
+		action,
+		c.get("adminEmail"),
+		tokenId,
+		c.req.raw,
+		success,
+		details,
+		errorMessage,
+	);
+}
+
+// Security headers and admin gate for every route
+app.use("*", async (c, next) => {
+	c.header("Cache-Control", "no-store");
+	c.header("X-Content-Type-Options", "nosniff");
+	c.header("X-Frame-Options", "DENY");
+
+	const props = c.executionCtx.props as Partial<Props> | undefined;
+	const email = props?.email;
+
+	if (!email) {
+		await getAuditLogger().logSecurityEvent("admin_access_denied", "warning", c.req.raw, {
+			reason: "missing_identity",
+			path: new URL(c.req.url).pathname,
+		});
+		return errorResponse(c, 401, "unauthorized", "OAuth identity required");
+	}
+
+	if ((await resolveUserRole(email, c.env))?.role !== "admin") {
+		await getAuditLogger().logSecurityEvent("admin_access_denied", "warning", c.req.raw, {
+			email,
+			path: new URL(c.req.url).pathname,
+		});
+		return errorResponse(c, 403, "forbidden", "Admin access required");
+	}
+
+	c.set("adminEmail", email);
+	await next();
+});
+
+app.post("/admin/tokens", async (c) => {
+	const parsed = await parseBody(c, createTokenSchema);
+	if ("error" in parsed) {
+		return errorResponse(c, 400, "invalid_request", parsed.error);
+	}
+	const { userId, description, expiresInDays, scopes, quotas, allowedIps } = parsed.data;
+
+	try {
+		const result = await generateMcpAccessToken(
+			userId,
+			description,
+			c.env,
+			c.req.header("CF-Connecting-IP") || "unknown",
+			c.req.header("User-Agent") || "unknown",
+			{ expiresInDays, scopes, quotas, allowedIps },
+		);
+		await auditAction(c, "create", result.tokenId, true, {
+			user_id: userId,
+			expires_at: result.expiresAt,
+			scopes: result.scopes ?? null,
+			quotas: result.quotas ?? null,
+			allowed_ips: result.allowedIps ?? null,
+		});
+		return c.json(result, 201);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		await auditAction(c, "create", undefined, false, { user_id: userId }, message);
+		const status = message.includes("configured") ? 500 : 400;
+		return errorResponse(c, status, status === 500 ? "server_error" : "invalid_request", message);
+	}
+});
+
+app.get("/admin/tokens", async (c) => {
+	const userId = c.req.query("user");
+	if (!userId) {
+		return errorResponse(c, 400, "invalid_request", "Query parameter 'user' is required");
+	}
+	const tokens = await listTokensForUser(userId, c.env);
+	return c.json({ user: userId, tokens });
+});
+
+app.get("/admin/tokens/stats", async (c) => {
+	const userId = c.req.query("user");
+	if (!userId) {
+		return errorResponse(c, 400, "invalid_request", "Query parameter 'user' is required");
+	}
+	const stats = await getTokenStats(userId, c.env);
+	return c.json({ user: userId, stats });
+});
+
+app.post("/admin/tokens/revoke-all", async (c) => {
+	const parsed = await parseBody(c, revokeAllSchema);
+	if ("error" in parsed) {
+		return errorResponse(c, 400, "invalid_request", parsed.error);
+	}
+	const { userId, reason } = parsed.data;
+
+	const result = await revokeAllUserTokens(userId, reason, c.env);
+	await auditAction(
+		c,
+		"revoke_all",
+		undefined,
+		result.success && result.errors.length === 0,
+		{ user_id: userId, reason, revoked_count: result.revokedCount },
+		result.errors.join("; ") || undefined,
+	);
+	if (!result.success) {
+		return errorResponse(c, 500, "server_error", result.errors.join("; "));
+	}
+	return c.json(result);
+});
+
+app.patch("/admin/tokens/:tokenId", async (c) => {
+	const tokenId = c.req.param("tokenId");
+	const parsed = await parseBody(c, updateTokenSchema);
+	if ("error" in parsed) {
+		return errorResponse(c, 400, "invalid_request", parsed.error);
+	}
+
+	const result = await updateTokenDescription(tokenId, parsed.data.description, c.env);
+	await auditAction(
+		c,
+		"update_description",
+		tokenId,
+		result.success,
+		{ description: parsed.data.description },
+		result.error,
+	);
+	if (!result.success) {
+		return errorResponse(c, statusForError(result.error), "update_failed", result.error ?? "Update failed");
+	}
+	return c.json({ success: true, tokenId });
+});
+
+app.put("/admin/tokens/:tokenId/allowed-ips", async (c) => {
+	const tokenId = c.req.param("tokenId");
+	const parsed = await parseBody(c, allowedIpsSchema);
+	if ("error" in parsed) {
+		return errorResponse(c, 400, "invalid_request", parsed.error);
+	}
+
+	const result = await updateTokenIpAllowlist(tokenId, parsed.data.allowedIps, c.env);
+	await auditAction(
+		c,
+		"update_allowed_ips",
+		tokenId,
+		result.success,
+		{ allowed_ips: result.success ? result.allowedIps : parsed.data.allowedIps },
+		result.error,
+	);
+	if (!result.success) {
+		const status = statusForError(result.error);
+		return errorResponse(
+			c,
+			status,
+			status === 400 ? "invalid_request" : "update_failed",
+			result.error ?? "Update failed",
+		);
+	}
+	return c.json({ success: true, tokenId, allowedIps: result.allowedIps });
+});
+
+app.post("/admin/tokens/:tokenId/rotate", async (c) => {
+	const tokenId = c.req.param("tokenId");
+	const parsed = await parseBody(c, rotateTokenSchema);
+	if ("error" in parsed) {
+		return errorResponse(c, 400, "invalid_request", parsed.error);
+	}
+
+	const result = await rotateMcpAccessToken(
+		tokenId,
+		c.env,
+		parsed.data.graceHours,
+		c.req.header("CF-Connecting-IP") || "unknown",
+		c.req.header("User-Agent") || "unknown",
+	);
+	await auditAction(
+		c,
+		"rotate",
+		tokenId,
+		result.success,
+		{
+			replacement_token_id: result.replacement?.tokenId,
+			previous_token_expires_at: result.previousTokenExpiresAt,
+		},
+		result.error,
+	);
+	if (!result.success) {
+		return errorResponse(c, statusForError(result.error), "rotation_failed", result.error ?? "Rotation failed");
+	}
+	return c.json(result, 201);
+});
+
+app.post("/admin/tokens/:tokenId/revoke", async (c) => {
+	const tokenId = c.req.param("tokenId");
+	const parsed = await parseBody(c, revokeTokenSchema);
+	if ("error" in parsed) {
+		return errorResponse(c, 400, "invalid_request", parsed.error);
+	}
+
+	const result = await revokeMcpAccessToken(tokenId, parsed.data.reason, c.env);
+	await auditAction(c, "revoke", tokenId, result.success, { reason: parsed.data.reason }, result.error);
+	if (!result.success) {
+		return errorResponse(c, statusForError(result.error), "revocation_failed", result.error ?? "Revocation failed");
+	}
+	return c.json({ success: true, tokenId });
+});
+
+app.post("/admin/tokens/:tokenId/unrevoke", async (c) => {
+	const tokenId = c.req.param("tokenId");
+
+	const result = await unrevokeToken(tokenId, c.env);
+	await auditAction(c, "unrevoke", tokenId, result.success, undefined, result.error);
+	if (!result.success) {
+		return errorResponse(c, statusForError(result.error), "unrevoke_failed", result.error ?? "Unrevoke failed");
+	}
+	return c.json({ success: true, tokenId });
+});
+
+app.get("/admin/usage/top", async (c) => {
+	if (!isUsageMeteringEnabled(c.env)) {
+		return errorResponse(c, 409, "metering_disabled", "Usage metering is disabled (ENABLE_TOKEN_ANALYTICS=false)");
+	}
+	const query = topConsumersSchema.safeParse(c.req.query());
+	if (!query.success) {
+		return errorResponse(
+			c,
+			400,
+			"invalid_request",
+			query.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+		);
+	}
+	const { period, subject, metric, limit } = query.data;
+
+	return c.json(await getTopConsumers(c.env, { period, kind: subject, metric, limit }));
+});
+
+app.get("/admin/usage/users/:userId", async (c) => {
+	const userId = c.req.param("userId").toLowerCase();
+	const overrides = await getUserQuotaOverrides(userId, c.env);
+	const defaults = resolveDefaultUsageQuotas(c.env);
+
+	return c.json({
+		user: userId,
+		day: await getUsage(c.env, "user", userId, "day"),
+		month: await getUsage(c.env, "user", userId, "month"),
+		quotas: { ...defaults, ...overrides },
+		defaults,
+		overrides,
+	});
+});
+
+app.put("/admin/usage/users/:userId/quotas", async (c) => {
+	const userId = c.req.param("userId").toLowerCase();
+	const parsed = await parseBody(c, quotasSchema);
+	if ("error" in parsed) {
+		return errorResponse(c, 400, "invalid_request", parsed.error);
+	}
+
+	const overrides = await setUserQuotaOverrides(userId, parsed.data, c.env);
+	await auditAction(c, "set_user_quotas", undefined, true, { user_id: userId, quotas: overrides });
+	return c.json({ user: userId, overrides });
+});
+
+app.delete("/admin/usage/users/:userId/quotas", async (c) => {
+	const userId = c.req.param("userId").toLowerCase();
+
+	await setUserQuotaOverrides(userId, null, c.env);
+	await auditAction(c, "clear_user_quotas", undefined, true, { user_id: userId });
+	return c.json({ user: userId, overrides: null });
+});
+
+app.get("/admin/roles", async (c) => {
+	return c.json({
+		roles: USER_ROLES,
+		defaultRole: getDefaultUserRole(c.env),
+		assignments: await listUserRoleAssignments(c.env),
+	});
+});
+
+app.get("/admin/roles/users/:email", async (c) => {
+	const email = c.req.param("email").toLowerCase();
+	const resolved = await resolveUserRole(email, c.env);
+
+	return c.json({ email, role: resolved?.role ?? null, source: resolved?.source ?? null });
+});
+
+app.put("/admin/roles/:kind{email|domain}/:subject", async (c) => {
+	const kind = c.req.param("kind") as "email" | "domain";
+	const subject = c.req.param("subject");
+	const parsed = await parseBody(c, assignRoleSchema);
+	if ("error" in parsed) {
+		return errorResponse(c, 400, "invalid_request", parsed.error);
+	}
+
+	try {
+		const assignment = await setUserRoleAssignment(kind, subject, parsed.data.role, c.get("adminEmail"), c.env);
+		await auditAction(c, "assign_role", undefined, true, {
+			kind,
+			subject: assignment.subject,
+			role: assignment.role,
+		});
+		return c.json(assignment);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		await auditAction(c, "assign_role", undefined, false, { kind, subject }, message);
+		return errorResponse(c, statusForError(message), "assign_failed", message);
+	}
+});
+
+app.delete("/admin/roles/:kind{email|domain}/:subject", async (c) => {
+	const kind = c.req.param("kind") as "email" | "domain";
+	const subject = c.req.param("subject").toLowerCase();
+
+	if (!(await removeUserRoleAssignment(kind, subject, c.env))) {
+		return errorResponse(c, 404, "not_found", `No role assigned to ${kind} '${subject}'`);
+	}
+	await auditAction(c, "remove_role", undefined, true, { kind, subject });
+	return c.json({ success: true, kind, subject });
+});
+
+app.get("/admin/clients", async (c) => {
+	return c.json({
+		policy: getOAuthClientPolicy(c.env),
+		clients: await listOAuthClients(c.env),
+	});
+});
+
+app.put("/admin/clients/:clientId/access", async (c) => {
+	const clientId = c.req.param("clientId");
+	const parsed = await parseBody(c, clientAccessSchema);
+	if ("error" in parsed) {
+		return errorResponse(c, 400, "invalid_request", parsed.error);
+	}
+	const { status, reason } = parsed.data;
+
+	if (!(await c.env.OAUTH_PROVIDER?.lookupClient(clientId))) {
+		return errorResponse(c, 404, "not_found", `OAuth client '${clientId}' not found`);
+	}
+
+	const access = await setClientAccess(clientId, status, c.get("adminEmail"), c.env, reason);
+	const revocation = status === "blocked" ? await revokeClientGrants(clientId, c.env) : { revoked: 0, complete: true };
+	await getAuditLogger().logOAuthClientAction(
+		status === "blocked" ? "block_client" : "allow_client",
+		c.get("adminEmail"),
+		clientId,
+		c.req.raw,
+		true,
+		{ reason, revoked_grants: revocation.revoked, revocation_complete: revocation.complete },
+	);
+	return c.json({
+		...access,
+		revokedGrants: revocation.revoked,
+		revocationComplete: revocation.complete,
+		revocationCursor: revocation.cursor,
+	});
+});
+
+app.post("/admin/clients/:clientId/revoke-grants", async (c) => {
+	const clientId = c.req.param("clientId");
+	const parsed = await parseBody(c, revokeClientGrantsSchema);
+	if ("error" in parsed) {
+		return errorResponse(c, 400, "invalid_request", parsed.error);
+	}
+
+	if ((await getClientAccess(clientId, c.env))?.status !== "blocked") {
+		return errorResponse(c, 409, "not_blocked", `OAuth client '${clientId}' is not blocked`);
+	}
+
+	const revocation = await revokeClientGrants(clientId, c.env, parsed.data.cursor);
+	await getAuditLogger().logOAuthClientAction("revoke_client_grants", c.get("adminEmail"), clientId, c.req.raw, true, {
+		revoked_grants: revocation.revoked,
+		revocation_complete: revocation.complete,
+	});
+	return c.json({
+		clientId,
+		revokedGrants: revocation.revoked,
+		revocationComplete: revocation.complete,
+		revocationCursor: revocation.cursor,
+	});
+});
+
+app.delete("/admin/clients/:clientId/access", async (c) => {
+	const clientId = c.req.param("clientId");
+
+	if (!(await clearClientAccess(clientId, c.env))) {
+		return errorResponse(c, 404, "not_found", `No access decision for OAuth client '${clientId}'`);
+	}
+	await getAuditLogger().logOAuthClientAction("clear_client_access", c.get("adminEmail"), clientId, c.req.raw, true);
+	return c.json({ success: true, clientId });
+});
+
+app.notFound((c) => c.json({ error: "not_found", message: "Unknown admin route" }, 404));
+
+/**
+ * Admin API handler for OAuthProvider's apiHandlers
+ *
+ * OAuthProvider passes the worker env through untyped, so it is narrowed
+ * to AdminEnv here rather than at the apiHandlers call site.
+ */
+export const AdminTokenHandler: ExportedHandler & Pick<Required<ExportedHandler>, "fetch"> = {
+	fetch: (request, env, ctx) => app.fetch(request, env as AdminEnv, ctx),
+};
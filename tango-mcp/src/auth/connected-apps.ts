@@ -0,0 +1,489 @@
+/**
+ * Connected Apps: OAuth Client and Consent Management
+ *
+ * Any MCP client can register itself at /register (dynamic client
+ * registration) and, once a user approves it, receives an OAuth grant. This
+ * module lets users and admins see and undo those approvals:
+ * - Users see their connected apps (client, approval date, last use and the
+ *   props granted) on the token page and can revoke an app, which revokes
+ *   every grant and access token the app holds for them
+ * - Admins list all registered clients and allow or block them; blocking
+ *   revokes the client's grants for every user
+ *
+ * OAUTH_CLIENT_POLICY decides which clients may be authorized:
+ * - "open" (default): every client except blocked ones
+ * - "allowlist": only clients an admin has allowed
+ * The policy is checked at /authorize and again when each MCP session
+ * starts, so switching to "allowlist" also stops existing grants of clients
+ * that have not been allowed.
+ *
+ * Grants are stored per upstream user ID (Google account ID or
+ * "{provider}:{sub}"), so the user IDs each email signed in with are
+ * remembered at /callback.
+ *
+ * KV layout:
+ * - oauth:client-access:{clientId} → ClientAccess (also stored as metadata)
+ * - oauth:user-ids:{email} → upstream user IDs (JSON array)
+ * - oauth:app-used:{email}:{clientId} → ISO 8601 timestamp of the last session
+ */
+
+import type { ClientInfo, GrantSummary, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import type { Env } from "../types/env.js";
+import { getLogger } from "../utils/logger.js";
+
+/** Client policies (OAUTH_CLIENT_POLICY) */
+export const OAUTH_CLIENT_POLICIES = ["open", "allowlist"] as const;
+
+/**
+ * Client policy
+ */
+export type OAuthClientPolicy = (typeof OAUTH_CLIENT_POLICIES)[number];
+
+/** Most upstream user IDs remembered per email */
+const MAX_USER_IDS = 10;
+
+/**
+ * Most grants read per revokeClientGrants call; each revocation also costs
+ * several KV operations, so this keeps a call within the per-request limit
+ */
+const MAX_GRANTS_SCANNED = 200;
+
+/**
+ * Environment with the OAuth helpers injected by OAuthProvider
+ */
+type OAuthEnv = Env & { OAUTH_PROVIDER?: OAuthHelpers };
+
+/**
+ * Admin decision for a client, stored in KV
+ */
+export interface ClientAccess {
+	/** OAuth client ID */
+	clientId: string;
+
+	/** Whether the client may be authorized */
+	status: "allowed" | "blocked";
+
+	/** Email of the admin who made the decision */
+	updatedBy: string;
+
+	/** ISO 8601 timestamp of the decision */
+	updatedAt: string;
+
+	/** Optional reason shown to admins */
+	reason?: string;
+}
+
+/**
+ * A client the user has approved, with its active grants
+ */
+export interface ConnectedApp {
+	/** OAuth client ID */
+	clientId: string;
+
+	/** Client name from registration (falls back to the client ID) */
+	clientName: string;
+
+	/** Client homepage from registration */
+	clientUri?: string;
+
+	/** ISO 8601 timestamp of the first active approval */
+	approvedAt: string;
+
+	/** ISO 8601 timestamp of the last MCP session, or null if never used */
+	lastUsedAt: string | null;
+
+	/** ISO 8601 timestamp when the last grant expires, or null if never */
+	expiresAt: string | null;
+
+	/** Number of active grants (one per approval) */
+	grantCount: number;
+
+	/** OAuth scopes granted */
+	scopes: string[];
+
+	/** Props shared with the client (from the latest grant) */
+	props: {
+		email?: string;
+		name?: string;
+		provider?: string;
+		role?: string;
+	};
+}
+
+/**
+ * Progress of revoking a client's grants
+ */
+export interface ClientGrantRevocation {
+	/** Grants revoked by this call */
+	revoked: number;
+
+	/** Whether every grant has been checked */
+	complete: boolean;
+
+	/** Where to continue when not complete */
+	cursor?: string;
+}
+
+/**
+ * Registered client with its access decision
+ */
+export interface OAuthClientSummary {
+	/** OAuth client ID */
+	clientId: string;
+
+	/** Client name from registration */
+	clientName?: string;
+
+	/** Client homepage from registration */
+	clientUri?: string;
+
+	/** Registered redirect URIs */
+	redirectUris: string[];
+
+	/** ISO 8601 timestamp of registration, or null if unknown */
+	registeredAt: string | null;
+
+	/** Admin decision, or null if none */
+	access: ClientAccess | null;
+
+	/** Whether the client may currently be authorized */
+	permitted: boolean;
+}
+
+/**
+ * Check whether a value is a client policy
+ */
+export function isOAuthClientPolicy(value: unknown): value is OAuthClientPolicy {
+	return typeof value === "string" && (OAUTH_CLIENT_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * Get the client policy
+ *
+ * @param env Environment configuration
+ * @returns OAUTH_CLIENT_POLICY, or "open" if unset or invalid
+ */
+export function getOAuthClientPolicy(env: Env): OAuthClientPolicy {
+	return isOAuthClientPolicy(env.OAUTH_CLIENT_POLICY) ? env.OAUTH_CLIENT_POLICY : "open";
+}
+
+/**
+ * Get the admin decision for a client
+ *
+ * @param clientId OAuth client ID
+ * @param env Environment configuration
+ * @returns The decision, or null if there is none
+ */
+export async function getClientAccess(clientId: string, env: Env): Promise<ClientAccess | null> {
+	const json = await env.OAUTH_KV?.get(`oauth:client-access:${clientId}`);
+	return json ? (JSON.parse(json) as ClientAccess) : null;
+}
+
+/**
+ * Allow or block a client
+ *
+ * Blocking does not revoke existing grants by itself; see
+ * revokeClientGrants.
+ *
+ * @param clientId OAuth client ID
+ * @param status New status
+ * @param updatedBy Email of the admin making the decision
+ * @param env Environment configuration
+ * @param reason Optional reason
+ * @returns The stored decision
+ * @throws Error if OAUTH_KV is missing
+ */
+export async function setClientAccess(
+	clientId: string,
+	status: ClientAccess["status"],
+	updatedBy: string,
+	env: Env,
+	reason?: string,
+): Promise<ClientAccess> {
+	if (!env.OAUTH_KV) {
+		throw new Error("OAUTH_KV namespace not configured");
+	}
+
+	const access: ClientAccess = {
+		clientId,
+		status,
+		updatedBy,
+		updatedAt: new Date().toISOString(),
+		...(reason ? { reason } : {}),
+	};
+	await env.OAUTH_KV.put(`oauth:client-access:${clientId}`, JSON.stringify(access), {
+		metadata: access,
+	});
+	return access;
+}
+
+/**
+ * Remove the admin decision for a client, returning it to the policy default
+ *
+ * @param clientId OAuth client ID
+ * @param env Environment configuration
+ * @returns True if a decision was removed
+ * @throws Error if OAUTH_KV is missing
+ */
+export async function clearClientAccess(clientId: string, env: Env): Promise<boolean> {
+	if (!env.OAUTH_KV) {
+		throw new Error("OAUTH_KV namespace not configured");
+	}
+	if (!(await getClientAccess(clientId, env))) {
+		return false;
+	}
+	await env.OAUTH_KV.delete(`oauth:client-access:${clientId}`);
+	return true;
+}
+
+/**
+ * Check whether a client may be authorized
+ *
+ * KV errors are logged; the "open" policy then permits the client and the
+ * "allowlist" policy does not.
+ *
+ * @param clientId OAuth client ID
+ * @param env Environment configuration
+ * @returns True if the client is permitted
+ */
+export async function isClientPermitted(clientId: string, env: Env): Promise<boolean> {
+	const policy = getOAuthClientPolicy(env);
+	try {
+		return isPermitted(await getClientAccess(clientId, env), policy);
+	} catch (error) {
+		getLogger().warn("Client access lookup failed", {
+			clientId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return policy === "open";
+	}
+}
+
+function isPermitted(access: ClientAccess | null, policy: OAuthClientPolicy): boolean {
+	if (access?.status === "blocked") {
+		return false;
+	}
+	return policy === "open" || access?.status === "allowed";
+}
+
+/**
+ * Remember the upstream user ID an email signed in with, so the email's
+ * grants can be listed
+ *
+ * @param email User's email
+ * @param userId Upstream user ID the grant is stored under
+ * @param env Environment configuration
+ */
+export async function rememberUserId(email: string, userId: string, env: Env): Promise<void> {
+	if (!env.OAUTH_KV) {
+		return;
+	}
+	const userIds = await getUserIds(email, env);
+	if (userIds.includes(userId)) {
+		return;
+	}
+	await env.OAUTH_KV.put(
+		`oauth:user-ids:${email.toLowerCase()}`,
+		JSON.stringify([userId, ...userIds].slice(0, MAX_USER_IDS)),
+	);
+}
+
+async function getUserIds(email: string, env: Env): Promise<string[]> {
+	const json = await env.OAUTH_KV?.get(`oauth:user-ids:${email.toLowerCase()}`);
+	return json ? (JSON.parse(json) as string[]) : [];
+}
+
+/**
+ * Record that a user started an MCP session with a client
+ *
+ * @param email User's email
+ * @param clientId OAuth client ID
+ * @param env Environment configuration
+ */
+export async function recordAppUse(email: string, clientId: string, env: Env): Promise<void> {
+	await env.OAUTH_KV?.put(`oauth:app-used:${email.toLowerCase()}:${clientId}`, new Date().toISOString());
+}
+
+/**
+ * List all grants stored under a user's upstream IDs
+ */
+async function listGrantsForEmail(email: string, env: OAuthEnv): Promise<GrantSummary[]> {
+	const helpers = env.OAUTH_PROVIDER;
+	if (!helpers) {
+		return [];
+	}
+
+	const grants: GrantSummary[] = [];
+	for (const userId of await getUserIds(email, env)) {
+		let cursor: string | undefined;
+		do {
+			const page = await helpers.listUserGrants(userId, { cursor });
+			grants.push(...page.items);
+			cursor = page.cursor;
+		} while (cursor);
+	}
+	return grants;
+}
+
+/**
+ * List the apps a user has approved
+ *
+ * @param email User's email
+ * @param env Environment configuration (with OAUTH_PROVIDER)
+ * @returns Connected apps, most recently approved first
+ */
+export async function listConnectedApps(email: string, env: OAuthEnv): Promise<ConnectedApp[]> {
+	const byClient = new Map<string, GrantSummary[]>();
+	for (const grant of await listGrantsForEmail(email, env)) {
+		byClient.set(grant.clientId, [...(byClient.get(grant.clientId) ?? []), grant]);
+	}
+
+	const apps: ConnectedApp[] = [];
+	for (const [clientId, grants] of byClient) {
+		const client = await env.OAUTH_PROVIDER?.lookupClient(clientId);
+		const latest = grants.reduce((a, b) => (b.createdAt > a.createdAt ? b : a));
+		const expiries = grants.map((grant) => grant.expiresAt);
+		const lastUsedAt =
+			(await env.OAUTH_KV?.get(`oauth:app-used:${email.toLowerCase()}:${clientId}`)) ?? null;
+		const metadata = (latest.metadata ?? {}) as Record<string, unknown>;
+
+		apps.push({
+			clientId,
+			clientName: client?.clientName || clientId,
+			clientUri: client?.clientUri,
+			approvedAt: toIsoString(Math.min(...grants.map((grant) => grant.createdAt))),
+			lastUsedAt,
+			expiresAt: expiries.some((expiresAt) => expiresAt === undefined)
+				? null
+				: toIsoString(Math.max(...(expiries as number[]))),
+			grantCount: grants.length,
+			scopes: [...new Set(grants.flatMap((grant) => grant.scope))],
+			props: {
+				email: stringOrUndefined(metadata.email),
+				name: stringOrUndefined(metadata.label),
+				provider: stringOrUndefined(metadata.provider),
+				role: stringOrUndefined(metadata.role),
+			},
+		});
+	}
+
+	return apps.sort((a, b) => b.approvedAt.localeCompare(a.approvedAt));
+}
+
+/**
+ * Revoke a user's grants for one app (and their access and refresh tokens)
+ *
+ * @param email User's email
+ * @param clientId OAuth client ID
+ * @param env Environment configuration (with OAUTH_PROVIDER)
+ * @returns Number of grants revoked
+ */
+export async function revokeConnectedApp(email: string, clientId: string, env: OAuthEnv): Promise<number> {
+	const grants = (await listGrantsForEmail(email, env)).filter((grant) => grant.clientId === clientId);
+	for (const grant of grants) {
+		await env.OAUTH_PROVIDER?.revokeGrant(grant.id, grant.userId);
+	}
+	await env.OAUTH_KV?.delete(`oauth:app-used:${email.toLowerCase()}:${clientId}`);
+	return grants.length;
+}
+
+/**
+ * Revoke a client's grants for every user (and their access and refresh
+ * tokens)
+ *
+ * Scans all grants, so it is meant for admin actions only. Each call checks
+ * at most 200 grants; continue from the returned cursor until complete.
+ * Revoked grants are deleted, so a step that failed can simply be retried
+ * from the same cursor.
+ *
+ * @param clientId OAuth client ID
+ * @param env Environment configuration (with OAUTH_PROVIDER)
+ * @param cursor Cursor returned by the previous call
+ * @returns Grants revoked and where to continue
+ */
+export async function revokeClientGrants(
+	clientId: string,
+	env: OAuthEnv,
+	cursor?: string,
+): Promise<ClientGrantRevocation> {
+	const kv = env.OAUTH_KV;
+	const helpers = env.OAUTH_PROVIDER;
+	if (!kv || !helpers) {
+		return { revoked: 0, complete: true };
+	}
+
+	let revoked = 0;
+	let scanned = 0;
+	let next = cursor;
+	try {
+		do {
+			const page = await kv.list({ prefix: "grant:", cursor: next, limit: MAX_GRANTS_SCANNED - scanned });
+			for (const key of page.keys) {
+				const grant = await kv.get<{ id: string; userId: string; clientId: string }>(key.name, "json");
+				if (grant?.clientId === clientId) {
+					await helpers.revokeGrant(grant.id, grant.userId);
+					revoked++;
+				}
+			}
+			scanned += page.keys.length;
+			next = page.list_complete ? undefined : page.cursor;
+		} while (next && scanned < MAX_GRANTS_SCANNED);
+	} catch (error) {
+		getLogger().warn("Revoking client grants stopped early", {
+			client_id: clientId,
+			revoked,
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return { revoked, complete: false, cursor: next };
+	}
+	return next ? { revoked, complete: false, cursor: next } : { revoked, complete: true };
+}
+
+/**
+ * List all registered clients with their access decisions
+ *
+ * @param env Environment configuration (with OAUTH_PROVIDER)
+ * @returns Clients, most recently registered first
+ */
+export async function listOAuthClients(env: OAuthEnv): Promise<OAuthClientSummary[]> {
+	const helpers = env.OAUTH_PROVIDER;
+	if (!helpers) {
+		return [];
+	}
+
+	const clients: ClientInfo[] = [];
+	let cursor: string | undefined;
+	do {
+		const page = await helpers.listClients({ cursor });
+		clients.push(...page.items);
+		cursor = page.cursor;
+	} while (cursor);
+
+	const policy = getOAuthClientPolicy(env);
+	const summaries: OAuthClientSummary[] = [];
+	for (const client of clients) {
+		const access = await getClientAccess(client.clientId, env);
+		summaries.push({
+			clientId: client.clientId,
+			clientName: client.clientName,
+			clientUri: client.clientUri,
+			redirectUris: client.redirectUris,
+			registeredAt: client.registrationDate ? toIsoString(client.registrationDate) : null,
+			access,
+			permitted: isPermitted(access, policy),
+		});
+	}
+
+	return summaries.sort((a, b) => (b.registeredAt ?? "").localeCompare(a.registeredAt ?? ""));
+}
+
+/**
+ * Convert a Unix timestamp in seconds to ISO 8601
+ */
+function toIsoString(seconds: number): string {
+	return new Date(seconds * 1000).toISOString();
+}
+
+function stringOrUndefined(value: unknown): string | undefined {
+	return typeof value === "string" && value ? value : undefined;
+}
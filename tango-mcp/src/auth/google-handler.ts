@@ -11,10 +11,34 @@ import {
 } from "../security/rate-limiting.js";
 import type { Env } from "../types/env.js";
 import {
-	fetchUpstreamAuthToken,
-	getUpstreamAuthorizeUrl,
-	type Props,
-} from "./utils";
+	isClientPermitted,
+	listConnectedApps,
+	rememberUserId,
+	revokeConnectedApp,
+} from "./connected-apps.js";
+import { generateMcpAccessToken, revokeMcpAccessToken } from "./mcp-token.js";
+import { listTokensForUser } from "./mcp-token-admin.js";
+import {
+	createTokenPageSession,
+	getTokenPageSession,
+	isTokenPageLogin,
+	MAX_SELF_SERVICE_TOKENS,
+	renderTokenPage,
+	TOKEN_PAGE_PATH,
+	type TokenPageOptions,
+	type TokenPageSession,
+	tokenPageLoginRequest,
+} from "./token-page.js";
+import {
+	GOOGLE_PROVIDER_ID,
+	getUpstreamProvider,
+	getUpstreamProviders,
+	type UpstreamIdentity,
+	type UpstreamProvider,
+} from "./upstream-providers.js";
+import { ROLE_SCOPES, resolveUserRole } from "./user-roles.js";
+import type { Props } from "./utils";
+import { validateAuthentication } from "./validate-authentication.js";
 import {
 	addApprovedClient,
 	bindStateToSession,
@@ -22,12 +46,16 @@ import {
 	generateCSRFProtection,
 	isClientApproved,
 	OAuthError,
+	removeApprovedClient,
 	renderApprovalDialog,
+	type UpstreamLoginState,
 	validateCSRFToken,
 	validateOAuthState,
 } from "./workers-oauth-utils";
 
-const app = new Hono<{ Bindings: Env & { OAUTH_PROVIDER: OAuthHelpers } }>();
+type HandlerEnv = Env & { OAUTH_PROVIDER: OAuthHelpers };
+
+const app = new Hono<{ Bindings: HandlerEnv }>();
 
 /**
  * Security headers middleware
@@ -70,6 +98,34 @@ function addSecurityHeaders(response: Response): Response {
 	});
 }
 
+/**
+ * Reject OAuth clients that are blocked, or not allowed under the
+ * "allowlist" client policy (see connected-apps.ts)
+ *
+ * @returns The 403 response to return, or undefined if the client is permitted
+ */
+async function rejectUnpermittedClient(
+	request: Request,
+	env: Env,
+	clientId: string,
+): Promise<Response | undefined> {
+	if (await isClientPermitted(clientId, env)) {
+		return undefined;
+	}
+	await getAuditLogger().logSecurityEvent(
+		"oauth_client_not_permitted",
+		"warning",
+		request,
+		{ client_id: clientId },
+	);
+	return addSecurityHeaders(
+		new Response(
+			"This app is not permitted to connect to Tango MCP Server. Ask an administrator to allow it.",
+			{ status: 403 },
+		),
+	);
+}
+
 app.get("/authorize", async (c) => {
 	const auditLogger = getAuditLogger();
 	const clientIP = getClientIP(c.req.raw);
@@ -115,18 +171,39 @@ app.get("/authorize", async (c) => {
 		);
 	}
 
-	// Check if client is already approved
+	const rejected = await rejectUnpermittedClient(c.req.raw, c.env, clientId);
+	if (rejected) {
+		return rejected;
+	}
+
+	const providers = getUpstreamProviders(c.env);
+	if (providers.length === 0) {
+		return addSecurityHeaders(
+			c.text("OAuth not configured - no identity providers", 500),
+		);
+	}
+
+	// Check if client is already approved (with several identity providers
+	// the dialog is still shown so the user can pick one)
 	if (
-		await isClientApproved(c.req.raw, clientId, c.env.COOKIE_ENCRYPTION_KEY)
+		providers.length === 1 &&
+		(await isClientApproved(c.req.raw, clientId, c.env.COOKIE_ENCRYPTION_KEY))
 	) {
 		// Skip approval dialog but still create secure state and bind to session
-		const { stateToken } = await createOAuthState(oauthReqInfo, c.env.OAUTH_KV);
-		const { setCookie: sessionBindingCookie } =
-			await bindStateToSession(stateToken);
-		const response = await redirectToGoogle(c.req.raw, c.env, stateToken, {
-			"Set-Cookie": sessionBindingCookie,
-		});
-		return addSecurityHeaders(response);
+		try {
+			const response = await redirectToProvider(
+				c.req.raw,
+				c.env,
+				providers[0],
+				oauthReqInfo,
+			);
+			return addSecurityHeaders(response);
+		} catch (error) {
+			if (error instanceof OAuthError) {
+				return addSecurityHeaders(error.toResponse());
+			}
+			throw error;
+		}
 	}
 
 	// Generate CSRF protection for the approval form
@@ -142,6 +219,7 @@ app.get("/authorize", async (c) => {
 		},
 		setCookie,
 		state: { oauthReqInfo },
+		providers: providers.map(({ id, name }) => ({ id, name })),
 	});
 
 	return addSecurityHeaders(response);
@@ -211,6 +289,25 @@ app.post("/authorize", async (c) => {
 			return c.text("Invalid request", 400);
 		}
 
+		const rejected = await rejectUnpermittedClient(
+			c.req.raw,
+			c.env,
+			state.oauthReqInfo.clientId,
+		);
+		if (rejected) {
+			return rejected;
+		}
+
+		// Identity provider picked in the dialog (default: the only/first one)
+		const providerId = formData.get("provider");
+		const provider = getUpstreamProvider(
+			c.env,
+			typeof providerId === "string" ? providerId : undefined,
+		);
+		if (!provider) {
+			return c.text("Unknown identity provider", 400);
+		}
+
 		// Add client to approved list
 		const approvedClientCookie = await addApprovedClient(
 			c.req.raw,
@@ -218,24 +315,17 @@ app.post("/authorize", async (c) => {
 			c.env.COOKIE_ENCRYPTION_KEY,
 		);
 
-		// Create OAuth state and bind it to this user's session
-		const { stateToken } = await createOAuthState(
-			state.oauthReqInfo,
-			c.env.OAUTH_KV,
-		);
-		const { setCookie: sessionBindingCookie } =
-			await bindStateToSession(stateToken);
-
-		// Set both cookies: approved client list + session binding
+		// Create OAuth state, bind it to this user's session and set both
+		// cookies: approved client list + session binding
 		const headers = new Headers();
 		headers.append("Set-Cookie", approvedClientCookie);
-		headers.append("Set-Cookie", sessionBindingCookie);
 
-		const response = await redirectToGoogle(
+		const response = await redirectToProvider(
 			c.req.raw,
 			c.env,
-			stateToken,
-			Object.fromEntries(headers),
+			provider,
+			state.oauthReqInfo,
+			headers,
 		);
 		return addSecurityHeaders(response);
 	} catch (error: any) {
@@ -250,41 +340,53 @@ app.post("/authorize", async (c) => {
 	}
 });
 
-async function redirectToGoogle(
+/**
+ * Start sign-in with an upstream identity provider: store the OAuth state
+ * with the provider and a fresh nonce, bind it to this browser session and
+ * redirect to the provider
+ *
+ * @param headers - Extra response headers (the session binding cookie is
+ *   appended)
+ */
+async function redirectToProvider(
 	request: Request,
 	env: Env,
-	stateToken: string,
-	headers: Record<string, string> = {},
-) {
-	if (!env.GOOGLE_CLIENT_ID) {
-		throw new Error("GOOGLE_CLIENT_ID not configured");
-	}
-
-	return new Response(null, {
-		headers: {
-			...headers,
-			location: getUpstreamAuthorizeUrl({
-				clientId: env.GOOGLE_CLIENT_ID,
-				hostedDomain: env.HOSTED_DOMAIN,
-				redirectUri: new URL("/callback", request.url).href,
-				scope: "email profile",
-				state: stateToken,
-				upstreamUrl: "https://accounts.google.com/o/oauth2/v2/auth",
-			}),
-		},
-		status: 302,
-	});
+	provider: UpstreamProvider,
+	oauthReqInfo: AuthRequest,
+	headers: Headers = new Headers(),
+): Promise<Response> {
+	const nonce = crypto.randomUUID();
+	const { stateToken } = await createOAuthState(
+		oauthReqInfo,
+		env.OAUTH_KV as KVNamespace,
+		undefined,
+		{ provider: provider.id, nonce },
+	);
+	const { setCookie: sessionBindingCookie } =
+		await bindStateToSession(stateToken);
+	headers.append("Set-Cookie", sessionBindingCookie);
+
+	headers.set(
+		"Location",
+		await provider.getAuthorizeUrl({
+			redirectUri: new URL("/callback", request.url).href,
+			state: stateToken,
+			nonce,
+		}),
+	);
+	return new Response(null, { status: 302, headers });
 }
 
 /**
  * OAuth Callback Endpoint
  *
- * This route handles the callback from Google after user authentication.
+ * This route handles the callback from the upstream identity provider (Google
+ * or an OIDC provider, recorded in the OAuth state) after user authentication.
  * It exchanges the temporary code for an access token, then stores some
  * user metadata & the auth token as part of the 'props' on the token passed
  * down to the client. It ends by redirecting the client back to _its_ callback URL
  *
- * SECURITY: This endpoint validates that the state parameter from Google
+ * SECURITY: This endpoint validates that the state parameter from the provider
  * matches both:
  * 1. A valid state token in KV (proves it was created by our server)
  * 2. The __Host-CONSENTED_STATE cookie (proves THIS browser consented to it)
@@ -315,11 +417,7 @@ app.get("/callback", async (c) => {
 	}
 
 	// Validate required OAuth environment variables
-	if (
-		!c.env.OAUTH_KV ||
-		!c.env.GOOGLE_CLIENT_ID ||
-		!c.env.GOOGLE_CLIENT_SECRET
-	) {
+	if (!c.env.OAUTH_KV) {
 		return addSecurityHeaders(
 			c.text(
 				"OAuth not configured - missing required environment variables",
@@ -332,11 +430,13 @@ app.get("/callback", async (c) => {
 	// This checks both KV storage AND the session cookie
 	let oauthReqInfo: AuthRequest;
 	let clearSessionCookie: string;
+	let upstream: UpstreamLoginState | undefined;
 
 	try {
 		const result = await validateOAuthState(c.req.raw, c.env.OAUTH_KV);
 		oauthReqInfo = result.oauthReqInfo;
 		clearSessionCookie = result.clearCookie;
+		upstream = result.upstream;
 	} catch (error: any) {
 		await auditLogger.logOAuthStateFailure(
 			error instanceof OAuthError ? error.message : "Unknown error",
@@ -371,64 +471,101 @@ app.get("/callback", async (c) => {
 		return addSecurityHeaders(c.text("Missing code", 400));
 	}
 
-	const [accessToken, googleErrResponse] = await fetchUpstreamAuthToken({
-		clientId: c.env.GOOGLE_CLIENT_ID,
-		clientSecret: c.env.GOOGLE_CLIENT_SECRET,
-		code,
-		grantType: "authorization_code",
-		redirectUri: new URL("/callback", c.req.url).href,
-		upstreamUrl: "https://accounts.google.com/o/oauth2/token",
-	});
-	if (googleErrResponse) {
-		await auditLogger.logOAuthCallback(
-			false,
-			undefined,
-			c.req.raw,
-			"Failed to exchange code for token",
+	// States created before provider selection existed are Google sign-ins
+	const providerId = upstream?.provider ?? GOOGLE_PROVIDER_ID;
+	const provider = getUpstreamProvider(c.env, providerId);
+	if (!provider) {
+		return addSecurityHeaders(
+			c.text(
+				`OAuth not configured - unknown identity provider '${providerId}'`,
+				500,
+			),
 		);
-		return addSecurityHeaders(googleErrResponse);
 	}
 
-	// Fetch the user info from Google
-	const userResponse = await fetch(
-		"https://www.googleapis.com/oauth2/v2/userinfo",
-		{
-			headers: {
-				Authorization: `Bearer ${accessToken}`,
-			},
-		},
-	);
-	if (!userResponse.ok) {
-		const errorText = await userResponse.text();
+	// Exchange the code and verify the user's identity with the provider
+	let identity: UpstreamIdentity;
+	try {
+		identity = await provider.completeLogin({
+			code,
+			redirectUri: new URL("/callback", c.req.url).href,
+			nonce: upstream?.nonce ?? "",
+		});
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
 		await auditLogger.logOAuthCallback(
 			false,
 			undefined,
 			c.req.raw,
-			`Failed to fetch user info: ${errorText}`,
+			message,
+			provider.id,
 		);
-		return addSecurityHeaders(
-			c.text(`Failed to fetch user info: ${errorText}`, 500),
+		if (error instanceof OAuthError) {
+			return addSecurityHeaders(
+				c.text(error.description, error.statusCode as 400),
+			);
+		}
+		return addSecurityHeaders(c.text("Internal server error", 500));
+	}
+	const { id, name, email, accessToken } = identity;
+
+	// Log successful OAuth callback
+	await auditLogger.logOAuthCallback(
+		true,
+		email,
+		c.req.raw,
+		undefined,
+		provider.id,
+	);
+
+	// Token page sign-in: start a page session instead of completing an MCP grant
+	if (isTokenPageLogin(oauthReqInfo)) {
+		try {
+			await validateAuthentication({ accessToken, email, name }, c.env);
+		} catch (error) {
+			return addSecurityHeaders(
+				c.text(error instanceof Error ? error.message : "Unauthorized", 403),
+			);
+		}
+
+		const headers = new Headers({ Location: TOKEN_PAGE_PATH });
+		headers.append(
+			"Set-Cookie",
+			await createTokenPageSession(
+				email,
+				name,
+				c.env.COOKIE_ENCRYPTION_KEY as string,
+			),
 		);
+		if (clearSessionCookie) {
+			headers.append("Set-Cookie", clearSessionCookie);
+		}
+		return addSecurityHeaders(new Response(null, { status: 302, headers }));
 	}
 
-	const { id, name, email } = (await userResponse.json()) as {
-		id: string;
-		name: string;
-		email: string;
-	};
+	// Role at sign-in, carried in the grant props (sessions re-resolve it)
+	const resolvedRole = await resolveUserRole(email, c.env);
 
-	// Log successful OAuth callback
-	await auditLogger.logOAuthCallback(true, email, c.req.raw);
+	// Remember which user ID the grant is stored under, for the connected apps list
+	await rememberUserId(email, id, c.env);
 
-	// Return back to the MCP client a new token
+	// Return back to the MCP client a new token. Props are encrypted, so the
+	// grant metadata repeats what is shared with the client for the connected
+	// apps list.
 	const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
 		metadata: {
 			label: name,
+			email,
+			provider: provider.id,
+			role: resolvedRole?.role,
 		},
 		props: {
 			accessToken,
+			clientId: oauthReqInfo.clientId,
 			email,
 			name,
+			provider: provider.id,
+			role: resolvedRole?.role,
 		} as Props,
 		request: oauthReqInfo,
 		scope: oauthReqInfo.scope,
@@ -449,6 +586,271 @@ app.get("/callback", async (c) => {
 	return addSecurityHeaders(response);
 });
 
+/**
+ * Render the token page for a signed-in user with a fresh CSRF token
+ */
+async function renderTokenPageFor(
+	env: HandlerEnv,
+	session: TokenPageSession,
+	options: Partial<TokenPageOptions> = {},
+): Promise<Response> {
+	const { token: csrfToken, setCookie } = generateCSRFProtection();
+	const tokens = await listTokensForUser(session.email, env);
+	const apps = await listConnectedApps(session.email, env);
+	return addSecurityHeaders(
+		renderTokenPage({ session, tokens, apps, csrfToken, setCookie, ...options }),
+	);
+}
+
+/**
+ * Common checks for token page form posts: rate limiting, configuration,
+ * a signed-in session and a valid CSRF token
+ *
+ * @returns The session and form data, or the response to return instead
+ */
+async function authorizeTokenPagePost(
+	request: Request,
+	env: Env,
+): Promise<{ session: TokenPageSession; formData: FormData } | Response> {
+	const auditLogger = getAuditLogger();
+	const clientIP = getClientIP(request);
+
+	try {
+		const rateLimiters = createRateLimiters(env);
+		const rateLimitResponse = await applyRateLimit(rateLimiters.auth, clientIP);
+		if (rateLimitResponse) {
+			await auditLogger.logRateLimitViolation(
+				"auth_endpoint",
+				clientIP,
+				request,
+				0,
+				0,
+			);
+			return addSecurityHeaders(rateLimitResponse);
+		}
+	} catch (error) {
+		console.error("Rate limiting error:", error);
+	}
+
+	if (!env.COOKIE_ENCRYPTION_KEY || !env.OAUTH_KV) {
+		return addSecurityHeaders(
+			new Response(
+				"Token page not configured - missing COOKIE_ENCRYPTION_KEY or OAUTH_KV",
+				{ status: 500 },
+			),
+		);
+	}
+
+	const session = await getTokenPageSession(request, env.COOKIE_ENCRYPTION_KEY);
+	if (!session) {
+		return addSecurityHeaders(
+			new Response(null, { status: 303, headers: { Location: TOKEN_PAGE_PATH } }),
+		);
+	}
+
+	const formData = await request.formData();
+	try {
+		validateCSRFToken(formData, request);
+	} catch (error) {
+		await auditLogger.logCSRFFailure(request);
+		if (error instanceof OAuthError) {
+			return addSecurityHeaders(error.toResponse());
+		}
+		throw error;
+	}
+
+	return { session, formData };
+}
+
+/**
+ * Self-service token page
+ *
+ * Signed-in users see their MCP access tokens and can create and revoke
+ * them, and see and revoke the OAuth clients (connected apps) they approved.
+ * Users without a page session are sent through Google sign-in; the OAuth
+ * state is marked as a token page login so /callback starts a page session
+ * instead of completing an MCP client grant.
+ */
+app.get(TOKEN_PAGE_PATH, async (c) => {
+	if (!c.env.COOKIE_ENCRYPTION_KEY || !c.env.OAUTH_KV) {
+		return addSecurityHeaders(
+			c.text(
+				"Token page not configured - missing COOKIE_ENCRYPTION_KEY or OAUTH_KV",
+				500,
+			),
+		);
+	}
+
+	const session = await getTokenPageSession(
+		c.req.raw,
+		c.env.COOKIE_ENCRYPTION_KEY,
+	);
+	if (session) {
+		return renderTokenPageFor(c.env, session);
+	}
+
+	// Sign in with ?provider= (default: the first configured provider)
+	const provider = getUpstreamProvider(c.env, c.req.query("provider"));
+	if (!provider) {
+		return addSecurityHeaders(c.text("Unknown identity provider", 400));
+	}
+
+	try {
+		const response = await redirectToProvider(
+			c.req.raw,
+			c.env,
+			provider,
+			tokenPageLoginRequest(),
+		);
+		return addSecurityHeaders(response);
+	} catch (error) {
+		if (error instanceof OAuthError) {
+			return addSecurityHeaders(error.toResponse());
+		}
+		throw error;
+	}
+});
+
+app.post(TOKEN_PAGE_PATH, async (c) => {
+	const authorized = await authorizeTokenPagePost(c.req.raw, c.env);
+	if (authorized instanceof Response) {
+		return authorized;
+	}
+	const { session, formData } = authorized;
+
+	const description = String(formData.get("description") ?? "").trim();
+	if (!description || description.length > 200) {
+		return renderTokenPageFor(c.env, session, {
+			error: "Description must be between 1 and 200 characters.",
+			status: 400,
+		});
+	}
+
+	const tokens = await listTokensForUser(session.email, c.env);
+	const activeTokens = tokens.filter((t) => !t.isRevoked && !t.isExpired);
+	if (activeTokens.length >= MAX_SELF_SERVICE_TOKENS) {
+		return renderTokenPageFor(c.env, session, {
+			error: `You already have ${MAX_SELF_SERVICE_TOKENS} active tokens. Revoke one before creating another.`,
+			status: 409,
+		});
+	}
+
+	// Self-service tokens carry their creator's role restrictions
+	const resolvedRole = await resolveUserRole(session.email, c.env);
+	if (!resolvedRole) {
+		return renderTokenPageFor(c.env, session, {
+			error: "Your account no longer has a role. Ask an administrator for access.",
+			status: 403,
+		});
+	}
+
+	const created = await generateMcpAccessToken(
+		session.email,
+		description,
+		c.env,
+		getClientIP(c.req.raw),
+		c.req.header("User-Agent") || "unknown",
+		{ scopes: ROLE_SCOPES[resolvedRole.role] },
+	);
+	await getAuditLogger().logTokenAdminAction(
+		"create",
+		session.email,
+		created.tokenId,
+		c.req.raw,
+		true,
+		{
+			user_id: session.email,
+			self_service: true,
+			role: resolvedRole.role,
+			expires_at: created.expiresAt,
+		},
+	);
+
+	return renderTokenPageFor(c.env, session, { created, status: 201 });
+});
+
+app.post(`${TOKEN_PAGE_PATH}/:tokenId/revoke`, async (c) => {
+	const authorized = await authorizeTokenPagePost(c.req.raw, c.env);
+	if (authorized instanceof Response) {
+		return authorized;
+	}
+	const { session } = authorized;
+	const tokenId = c.req.param("tokenId");
+
+	// Users may only revoke their own tokens
+	const tokens = await listTokensForUser(session.email, c.env);
+	if (!tokens.some((t) => t.tokenId === tokenId)) {
+		return renderTokenPageFor(c.env, session, {
+			error: "Token not found.",
+			status: 404,
+		});
+	}
+
+	const result = await revokeMcpAccessToken(
+		tokenId,
+		"Revoked by owner on token page",
+		c.env,
+	);
+	await getAuditLogger().logTokenAdminAction(
+		"revoke",
+		session.email,
+		tokenId,
+		c.req.raw,
+		result.success,
+		{ user_id: session.email, self_service: true },
+		result.error,
+	);
+
+	return renderTokenPageFor(
+		c.env,
+		session,
+		result.success
+			? { notice: "Token revoked." }
+			: { error: result.error, status: 409 },
+	);
+});
+
+app.post(`${TOKEN_PAGE_PATH}/apps/:clientId/revoke`, async (c) => {
+	const authorized = await authorizeTokenPagePost(c.req.raw, c.env);
+	if (authorized instanceof Response) {
+		return authorized;
+	}
+	const { session } = authorized;
+	const clientId = c.req.param("clientId");
+
+	// Users may only revoke their own grants
+	const revokedGrants = await revokeConnectedApp(session.email, clientId, c.env);
+	await getAuditLogger().logOAuthClientAction(
+		"revoke_app",
+		session.email,
+		clientId,
+		c.req.raw,
+		revokedGrants > 0,
+		{ self_service: true, revoked_grants: revokedGrants },
+		revokedGrants > 0 ? undefined : "App not found",
+	);
+	if (revokedGrants === 0) {
+		return renderTokenPageFor(c.env, session, {
+			error: "App not found.",
+			status: 404,
+		});
+	}
+
+	// Forget the approval too, so the app must ask again
+	const response = await renderTokenPageFor(c.env, session, {
+		notice: "App revoked.",
+	});
+	response.headers.append(
+		"Set-Cookie",
+		await removeApprovedClient(
+			c.req.raw,
+			clientId,
+			c.env.COOKIE_ENCRYPTION_KEY as string,
+		),
+	);
+	return response;
+});
+
 /**
  * Health check endpoint (public, no auth required)
  *
@@ -458,11 +860,12 @@ app.get("/callback", async (c) => {
 app.get("/health", async (c) => {
 	const env = c.env;
 
-	// Check OAuth configuration
+	// Check OAuth configuration (Google and/or OIDC identity providers)
+	const identityProviders = getUpstreamProviders(env).map(({ id }) => id);
 	const oauthConfigured = !!(
-		env.GOOGLE_CLIENT_ID &&
-		env.GOOGLE_CLIENT_SECRET &&
-		env.COOKIE_ENCRYPTION_KEY
+		env.COOKIE_ENCRYPTION_KEY &&
+		((env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET) ||
+			identityProviders.some((id) => id !== GOOGLE_PROVIDER_ID))
 	);
 
 	// Check Tango API configuration
@@ -481,6 +884,7 @@ app.get("/health", async (c) => {
 		timestamp: new Date().toISOString(),
 		authentication: {
 			oauth_configured: oauthConfigured,
+			identity_providers: identityProviders,
 			tango_api_configured: tangoApiConfigured,
 			mcp_token_system_enabled: mcpTokenSystemEnabled,
 			require_authentication: requireAuth,
@@ -0,0 +1,211 @@
+/**
+ * MCP Access Token IP Allowlists
+ *
+ * Restricts where an MCP access token may be used from. The allowlist is
+ * stored with the token (MCPTokenData.allowedIps) as IPv4 and IPv6 CIDR
+ * ranges; tokens without an allowlist work from any address.
+ *
+ * Entries:
+ * - CIDR ranges such as "203.0.113.0/24" or "2001:db8::/32"
+ * - Single addresses, stored as /32 (IPv4) or /128 (IPv6)
+ *
+ * IPv4-mapped IPv6 addresses (::ffff:203.0.113.7) match IPv4 ranges.
+ * Requests whose address is unknown never match.
+ */
+
+/** Maximum number of entries in a token's allowlist */
+export const MAX_IP_ALLOWLIST_ENTRIES = 50;
+
+/**
+ * Parsed IP address
+ */
+interface ParsedIp {
+	/** IP version */
+	version: 4 | 6;
+
+	/** Address as an unsigned integer (32 or 128 bits) */
+	value: bigint;
+}
+
+/**
+ * Parsed CIDR range
+ */
+interface ParsedCidr extends ParsedIp {
+	/** Prefix length in bits */
+	prefix: number;
+}
+
+const IPV4_BITS = 32;
+const IPV6_BITS = 128;
+
+/**
+ * Parse a dotted IPv4 address
+ *
+ * @param ip Address text
+ * @returns Address as a 32-bit integer, or null if invalid
+ */
+function parseIpv4(ip: string): bigint | null {
+	const parts = ip.split(".");
+	if (parts.length !== 4) return null;
+
+	let value = 0n;
+	for (const part of parts) {
+		// Leading zeros are rejected: some parsers read them as octal
+		if (!/^(0|[1-9]\d{0,2})$/.test(part)) return null;
+		const octet = Number(part);
+		if (octet > 255) return null;
+		value = (value << 8n) | BigInt(octet);
+	}
+	return value;
+}
+
+/**
+ * Parse an IPv6 address (with optional "::" compression, embedded IPv4 tail
+ * and zone ID)
+ *
+ * @param ip Address text
+ * @returns Address as a 128-bit integer, or null if invalid
+ */
+function parseIpv6(ip: string): bigint | null {
+	const address = ip.split("%")[0];
+	const halves = address.split("::");
+	if (halves.length > 2) return null;
+
+	const toGroups = (text: string): string[] | null => {
+		if (text === "") return [];
+		const groups = text.split(":");
+		const last = groups[groups.length - 1];
+		if (last.includes(".")) {
+			const ipv4 = parseIpv4(last);
+			if (ipv4 === null) return null;
+			groups.splice(-1, 1, (ipv4 >> 16n).toString(16), (ipv4 & 0xffffn).toString(16));
+		}
+		return groups;
+	};
+
+	const head = toGroups(halves[0]);
+	const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+	if (!head || !tail) return null;
+
+	// An embedded IPv4 address may only end the address
+	if (halves.length === 2 && halves[0].includes(".")) return null;
+
+	const missing = 8 - head.length - tail.length;
+	if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+	let value = 0n;
+	for (const group of [...head, ...Array<string>(missing).fill("0"), ...tail]) {
+		if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+		value = (value << 16n) | BigInt(`0x${group}`);
+	}
+	return value;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address
+ *
+ * IPv4-mapped IPv6 addresses are returned as IPv4.
+ *
+ * @param ip Address text
+ * @returns Parsed address, or null if invalid
+ */
+function parseIp(ip: string): ParsedIp | null {
+	const text = ip.trim();
+	if (!text.includes(":")) {
+		const value = parseIpv4(text);
+		return value === null ? null : { version: 4, value };
+	}
+
+	const value = parseIpv6(text);
+	if (value === null) return null;
+	if (value >> 32n === 0xffffn) {
+		return { version: 4, value: value & 0xffffffffn };
+	}
+	return { version: 6, value };
+}
+
+/**
+ * Parse a CIDR range or single address
+ *
+ * @param entry Allowlist entry
+ * @returns Parsed range, or null if invalid or if host bits are set
+ */
+function parseCidr(entry: string): ParsedCidr | null {
+	const [address, prefixText, ...rest] = entry.trim().split("/");
+	if (rest.length > 0) return null;
+
+	const ip = parseIp(address);
+	if (!ip) return null;
+
+	const bits = ip.version === 4 ? IPV4_BITS : IPV6_BITS;
+	if (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText)) return null;
+	const prefix = prefixText === undefined ? bits : Number(prefixText);
+	if (prefix > bits) return null;
+
+	if ((ip.value & ~networkMask(prefix, bits)) !== 0n) return null;
+
+	return { ...ip, prefix };
+}
+
+/**
+ * Build the network mask of a prefix
+ *
+ * @param prefix Prefix length in bits
+ * @param bits Address size in bits
+ * @returns Mask with the top `prefix` bits set
+ */
+function networkMask(prefix: number, bits: number): bigint {
+	const all = (1n << BigInt(bits)) - 1n;
+	return all ^ ((1n << BigInt(bits - prefix)) - 1n);
+}
+
+/**
+ * Validate and normalize an IP allowlist
+ *
+ * @param entries CIDR ranges or single addresses
+ * @returns Normalized entries (trimmed, lowercased, explicit prefix, deduplicated)
+ * @throws Error if an entry is invalid, has host bits set, or the list is empty or too long
+ *
+ * @example
+ * normalizeIpAllowlist(["203.0.113.0/24", "2001:db8::/32", "198.51.100.7"]);
+ * // ["203.0.113.0/24", "2001:db8::/32", "198.51.100.7/32"]
+ */
+export function normalizeIpAllowlist(entries: string[]): string[] {
+	if (entries.length === 0) {
+		throw new Error("IP allowlist must contain at least one entry (omit it to allow any address)");
+	}
+	if (entries.length > MAX_IP_ALLOWLIST_ENTRIES) {
+		throw new Error(`IP allowlist cannot have more than ${MAX_IP_ALLOWLIST_ENTRIES} entries`);
+	}
+
+	const normalized = entries.map((entry) => {
+		const cidr = parseCidr(entry);
+		if (!cidr) {
+			throw new Error(`Invalid IP allowlist entry: '${entry}' (expected an IPv4/IPv6 address or CIDR range without host bits)`);
+		}
+		const address = entry.trim().split("/")[0].toLowerCase();
+		return `${address}/${cidr.prefix}`;
+	});
+
+	return [...new Set(normalized)];
+}
+
+/**
+ * Check whether an address is in an allowlist
+ *
+ * @param ip Request IP address ("unknown" never matches)
+ * @param allowlist Normalized allowlist entries
+ * @returns True if the address is inside at least one range
+ */
+export function isIpAllowed(ip: string, allowlist: string[]): boolean {
+	const address = parseIp(ip);
+	if (!address) return false;
+
+	return allowlist.some((entry) => {
+		const cidr = parseCidr(entry);
+		if (!cidr || cidr.version !== address.version) return false;
+
+		const mask = networkMask(cidr.prefix, cidr.version === 4 ? IPV4_BITS : IPV6_BITS);
+		return (address.value & mask) === cidr.value;
+	});
+}
@@ -8,6 +8,7 @@
  * - List tokens for a user
  * - Get token metadata
  * - Update token description
+ * - Update token IP allowlist
  * - Delete tokens permanently
  * - Get token usage statistics
  * - Revoke all tokens for a user
@@ -15,7 +16,13 @@
 
 import type { Env } from "../types/env.js";
 import type { MCPTokenData } from "./mcp-token.js";
-import { revokeMcpAccessToken } from "./mcp-token.js";
+import type { UsageQuotas } from "../security/usage-quota.js";
+import type { MCPTokenScopes } from "./token-scopes.js";
+import { normalizeIpAllowlist } from "./ip-allowlist.js";
+import { getTokenExpiry, revokeMcpAccessToken } from "./mcp-token.js";
+
+/** Tokens expiring within this many days are flagged as expiring soon */
+export const TOKEN_EXPIRY_WARNING_DAYS = 14;
 
 // ============================================================================
 // Token Admin Data Structures
@@ -49,6 +56,33 @@ export interface MCPTokenListItem {
 	/** Reason for revocation */
 	revocationReason: string | null;
 
+	/** When token expires */
+	expiresAt: string;
+
+	/** Whether token has expired */
+	isExpired: boolean;
+
+	/** Whether an active token expires within TOKEN_EXPIRY_WARNING_DAYS */
+	expiringSoon: boolean;
+
+	/** Token ID this token replaced (rotation) */
+	rotatedFrom: string | null;
+
+	/** Token ID of the replacement, if this token was rotated */
+	replacedBy: string | null;
+
+	/** Tool and capability restrictions (null = full access) */
+	scopes: MCPTokenScopes | null;
+
+	/** Daily/monthly usage quotas (null = none) */
+	quotas: UsageQuotas | null;
+
+	/** CIDR ranges the token may be used from (null = any address) */
+	allowedIps: string[] | null;
+
+	/** Last IP address that used this token */
+	lastUsedFromIp: string | null;
+
 	/** Usage count */
 	usageCount: number;
 }
@@ -60,12 +94,21 @@ export interface MCPTokenStats {
 	/** Total number of tokens */
 	totalTokens: number;
 
-	/** Number of active (non-revoked) tokens */
+	/** Number of active (non-revoked, unexpired) tokens */
 	activeTokens: number;
 
 	/** Number of revoked tokens */
 	revokedTokens: number;
 
+	/** Number of expired (non-revoked) tokens */
+	expiredTokens: number;
+
+	/** Number of active tokens expiring within TOKEN_EXPIRY_WARNING_DAYS */
+	expiringSoonTokens: number;
+
+	/** Earliest expiry among active tokens */
+	nextExpiry: string | null;
+
 	/** Total usage count across all tokens */
 	totalUsage: number;
 
@@ -80,6 +123,9 @@ export interface MCPTokenStats {
 /**
  * List all tokens for a user
  *
+ * Each item reports the token's expiry, flagging tokens that have expired
+ * or expire within TOKEN_EXPIRY_WARNING_DAYS.
+ *
  * @param userId User ID to list tokens for
  * @param env Cloudflare environment bindings
  * @returns Array of token list items
@@ -104,6 +150,7 @@ export async function listTokensForUser(
 
 	const tokenIds: string[] = JSON.parse(userTokensJson);
 	const tokens: MCPTokenListItem[] = [];
+	const now = Date.now();
 
 	for (const tokenId of tokenIds) {
 		const tokenHash = await env.OAUTH_KV.get(`token:id:${tokenId}`);
@@ -113,6 +160,9 @@ export async function listTokensForUser(
 		if (!tokenDataJson) continue;
 
 		const tokenData: MCPTokenData = JSON.parse(tokenDataJson);
+		const isRevoked = tokenData.revokedAt !== null;
+		const expiresAt = getTokenExpiry(tokenData, env);
+		const msUntilExpiry = new Date(expiresAt).getTime() - now;
 
 		tokens.push({
 			tokenId,
@@ -121,8 +171,20 @@ export async function listTokensForUser(
 			tokenPrefix: `mcp_v1_...${tokenHash.slice(-8)}`, // Show hash suffix for identification
 			createdAt: tokenData.createdAt,
 			lastUsedAt: tokenData.lastUsedAt,
-			isRevoked: tokenData.revokedAt !== null,
+			isRevoked,
 			revocationReason: tokenData.revocationReason,
+			expiresAt,
+			isExpired: msUntilExpiry <= 0,
+			expiringSoon:
+				!isRevoked &&
+				msUntilExpiry > 0 &&
+				msUntilExpiry <= TOKEN_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000,
+			rotatedFrom: tokenData.rotatedFrom ?? null,
+			replacedBy: tokenData.replacedBy ?? null,
+			scopes: tokenData.scopes ?? null,
+			quotas: tokenData.quotas ?? null,
+			allowedIps: tokenData.allowedIps ?? null,
+			lastUsedFromIp: tokenData.metadata.lastUsedFromIp,
 			usageCount: tokenData.metadata.usageCount,
 		});
 	}
@@ -208,6 +270,52 @@ export async function updateTokenDescription(
 	return { success: true };
 }
 
+/**
+ * Replace or remove a token's IP allowlist
+ *
+ * @param tokenId Token ID to update
+ * @param allowedIps CIDR ranges or single addresses (null = any address)
+ * @param env Cloudflare environment bindings
+ * @returns Success status, the normalized allowlist, and error message if failed
+ *
+ * @example
+ * const result = await updateTokenIpAllowlist("tok_abc123", ["203.0.113.0/24"], env);
+ */
+export async function updateTokenIpAllowlist(
+	tokenId: string,
+	allowedIps: string[] | null,
+	env: Env,
+): Promise<{ success: boolean; allowedIps?: string[] | null; error?: string }> {
+	// Validate required KV namespace
+	if (!env.OAUTH_KV) {
+		return { success: false, error: "OAUTH_KV namespace not configured" };
+	}
+
+	let normalized: string[] | undefined;
+	try {
+		normalized = allowedIps ? normalizeIpAllowlist(allowedIps) : undefined;
+	} catch (error) {
+		return { success: false, error: error instanceof Error ? error.message : String(error) };
+	}
+
+	const tokenHash = await env.OAUTH_KV.get(`token:id:${tokenId}`);
+	if (!tokenHash) {
+		return { success: false, error: "Token not found" };
+	}
+
+	const tokenDataJson = await env.OAUTH_KV.get(`token:hash:${tokenHash}`);
+	if (!tokenDataJson) {
+		return { success: false, error: "Token data not found" };
+	}
+
+	const tokenData: MCPTokenData = JSON.parse(tokenDataJson);
+	tokenData.allowedIps = normalized;
+
+	await env.OAUTH_KV.put(`token:hash:${tokenHash}`, JSON.stringify(tokenData));
+
+	return { success: true, allowedIps: normalized ?? null };
+}
+
 /**
  * Delete a token permanently
  *
@@ -289,11 +397,15 @@ export async function getTokenStats(
 	env: Env,
 ): Promise<MCPTokenStats> {
 	const tokens = await listTokensForUser(userId, env);
+	const active = tokens.filter((t) => !t.isRevoked && !t.isExpired);
 
 	const stats: MCPTokenStats = {
 		totalTokens: tokens.length,
-		activeTokens: tokens.filter((t) => !t.isRevoked).length,
+		activeTokens: active.length,
 		revokedTokens: tokens.filter((t) => t.isRevoked).length,
+		expiredTokens: tokens.filter((t) => !t.isRevoked && t.isExpired).length,
+		expiringSoonTokens: active.filter((t) => t.expiringSoon).length,
+		nextExpiry: active.map((t) => t.expiresAt).sort()[0] ?? null,
 		totalUsage: tokens.reduce((sum, t) => sum + t.usageCount, 0),
 		mostRecentlyUsed: null,
 	};
@@ -440,3 +552,25 @@ export function validateAdminAccess(
 	if (!email) return false;
 	return email.endsWith(`@${requiredDomain}`);
 }
+
+/**
+ * Check whether an email is listed in ADMIN_EMAILS
+ *
+ * Comparison is case-insensitive. Returns false when ADMIN_EMAILS is unset.
+ *
+ * @param email User's email from OAuth
+ * @param env Environment bindings
+ * @returns True if the email belongs to a configured admin
+ *
+ * @example
+ * if (isAdminEmail(authResult.user.email, env)) {
+ *   registerGetCacheStatsTool(server, cache);
+ * }
+ */
+export function isAdminEmail(email: string | undefined, env: Env): boolean {
+	if (!email || !env.ADMIN_EMAILS) return false;
+	const admins = env.ADMIN_EMAILS.split(",")
+		.map((admin) => admin.trim().toLowerCase())
+		.filter(Boolean);
+	return admins.includes(email.toLowerCase());
+}
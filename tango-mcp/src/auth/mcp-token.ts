@@ -15,9 +15,22 @@
  * - SHA-256 hashing for storage (no plaintext tokens)
  * - Constant-time comparison for validation
  * - Usage tracking and metadata
+ * - Expiry (MCP_TOKEN_EXPIRY_DAYS, default 365 days) and rotation with a
+ *   grace period for the replaced token (MCP_TOKEN_ROTATION_GRACE_HOURS,
+ *   default 24 hours)
+ * - Optional scopes restricting tools, exports and result limits
+ *   (see token-scopes.ts)
+ * - Optional daily/monthly usage quotas (see security/usage-quota.ts)
+ * - Optional IPv4/IPv6 CIDR allowlist (see ip-allowlist.ts); rejections and
+ *   uses from an address outside the token's recent history are audited as
+ *   security events
  */
 
 import type { Env } from "../types/env.js";
+import { getAuditLogger } from "../security/audit-logging.js";
+import { normalizeUsageQuotas, type UsageQuotas } from "../security/usage-quota.js";
+import { isIpAllowed, normalizeIpAllowlist } from "./ip-allowlist.js";
+import { type MCPTokenScopes, normalizeTokenScopes } from "./token-scopes.js";
 
 // ============================================================================
 // Token Data Structures
@@ -48,6 +61,32 @@ export interface MCPTokenData {
 	/** Reason for revocation (null if active) */
 	revocationReason: string | null;
 
+	/**
+	 * ISO 8601 timestamp when token expires
+	 *
+	 * Missing on tokens created before expiry was enforced; their expiry is
+	 * derived from createdAt (see getTokenExpiry).
+	 */
+	expiresAt?: string;
+
+	/** Token ID this token replaced (set on rotation) */
+	rotatedFrom?: string;
+
+	/** Token ID of the replacement (set on the old token when rotated) */
+	replacedBy?: string;
+
+	/** ISO 8601 timestamp when token was rotated */
+	rotatedAt?: string;
+
+	/** Tool and capability restrictions (missing = full access) */
+	scopes?: MCPTokenScopes;
+
+	/** Daily/monthly usage quotas for this token (missing = none) */
+	quotas?: UsageQuotas;
+
+	/** CIDR ranges the token may be used from (missing = any address) */
+	allowedIps?: string[];
+
 	/** Token metadata for tracking and auditing */
 	metadata: {
 		/** IP address where token was created */
@@ -61,6 +100,12 @@ export interface MCPTokenData {
 
 		/** Last IP address that used this token */
 		lastUsedFromIp: string | null;
+
+		/**
+		 * Distinct IP addresses that recently used this token, most recent
+		 * first (at most RECENT_IP_HISTORY; missing on older tokens)
+		 */
+		recentIps?: string[];
 	};
 }
 
@@ -83,6 +128,18 @@ export interface MCPTokenGenerationResult {
 	/** When token was created */
 	createdAt: string;
 
+	/** When token expires */
+	expiresAt: string;
+
+	/** Token scopes (undefined = full access) */
+	scopes?: MCPTokenScopes;
+
+	/** Token usage quotas (undefined = none) */
+	quotas?: UsageQuotas;
+
+	/** Token IP allowlist (undefined = any address) */
+	allowedIps?: string[];
+
 	/** Warning message to user */
 	warning: string;
 }
@@ -101,12 +158,104 @@ export interface MCPTokenValidationResult {
 	userId?: string;
 
 	/** Reason for invalidity (if invalid) */
-	reason?: "invalid" | "revoked" | "not_found" | "malformed";
+	reason?: "invalid" | "revoked" | "expired" | "not_found" | "malformed" | "ip_not_allowed";
 
 	/** Token data (if valid) */
 	tokenData?: MCPTokenData;
 }
 
+/**
+ * Token generation options
+ */
+export interface MCPTokenGenerationOptions {
+	/** Days until the token expires (default: MCP_TOKEN_EXPIRY_DAYS) */
+	expiresInDays?: number;
+
+	/** Token ID this token replaces (rotation) */
+	rotatedFrom?: string;
+
+	/** Tool and capability restrictions (default: full access) */
+	scopes?: MCPTokenScopes;
+
+	/** Daily/monthly usage quotas (default: none; the owner's quotas still apply) */
+	quotas?: UsageQuotas;
+
+	/** CIDR ranges the token may be used from (default: any address) */
+	allowedIps?: string[];
+}
+
+/**
+ * Token rotation result
+ */
+export interface MCPTokenRotationResult {
+	/** Whether rotation succeeded */
+	success: boolean;
+
+	/** Replacement token (raw token shown only once) */
+	replacement?: MCPTokenGenerationResult;
+
+	/** When the old token stops working */
+	previousTokenExpiresAt?: string;
+
+	/** Error message (if failed) */
+	error?: string;
+}
+
+// ============================================================================
+// Token Expiry
+// ============================================================================
+
+/** Default token lifetime */
+export const DEFAULT_TOKEN_EXPIRY_DAYS = 365;
+
+/** Default time the old token keeps working after rotation */
+export const DEFAULT_ROTATION_GRACE_HOURS = 24;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Number of distinct recent IP addresses remembered per token */
+export const RECENT_IP_HISTORY = 10;
+
+/**
+ * Resolve the configured token lifetime
+ *
+ * @param env Cloudflare environment bindings
+ * @returns Token lifetime in days (MCP_TOKEN_EXPIRY_DAYS, default 365)
+ */
+export function resolveTokenExpiryDays(env: Env): number {
+	const days = Number.parseInt(env.MCP_TOKEN_EXPIRY_DAYS ?? "", 10);
+	return days > 0 ? days : DEFAULT_TOKEN_EXPIRY_DAYS;
+}
+
+/**
+ * Resolve the configured rotation grace period
+ *
+ * @param env Cloudflare environment bindings
+ * @returns Grace period in hours (MCP_TOKEN_ROTATION_GRACE_HOURS, default 24)
+ */
+export function resolveRotationGraceHours(env: Env): number {
+	const hours = Number.parseInt(env.MCP_TOKEN_ROTATION_GRACE_HOURS ?? "", 10);
+	return hours >= 0 ? hours : DEFAULT_ROTATION_GRACE_HOURS;
+}
+
+/**
+ * Get a token's expiry
+ *
+ * Tokens created before expiry was enforced expire MCP_TOKEN_EXPIRY_DAYS
+ * after creation.
+ *
+ * @param tokenData Stored token data
+ * @param env Cloudflare environment bindings
+ * @returns ISO 8601 expiry timestamp
+ */
+export function getTokenExpiry(tokenData: MCPTokenData, env: Env): string {
+	if (tokenData.expiresAt) {
+		return tokenData.expiresAt;
+	}
+	const createdAt = new Date(tokenData.createdAt).getTime();
+	return new Date(createdAt + resolveTokenExpiryDays(env) * DAY_MS).toISOString();
+}
+
 // ============================================================================
 // Base58 Encoding (Bitcoin alphabet)
 // ============================================================================
@@ -192,6 +341,8 @@ function constantTimeEqual(a: string, b: string): boolean {
  * @param env Cloudflare environment bindings
  * @param createdFromIp IP address where token was created (optional)
  * @param createdFromUserAgent User agent where token was created (optional)
+ * @param options Expiry override, rotation link, scopes, quotas and IP allowlist (optional)
+ * @throws Error if OAUTH_KV is missing or the scopes, quotas or IP allowlist are invalid
  * @returns Token generation result with raw token (only shown once)
  *
  * @example
@@ -210,12 +361,17 @@ export async function generateMcpAccessToken(
 	env: Env,
 	createdFromIp = "unknown",
 	createdFromUserAgent = "unknown",
+	options: MCPTokenGenerationOptions = {},
 ): Promise<MCPTokenGenerationResult> {
 	// Validate required KV namespace
 	if (!env.OAUTH_KV) {
 		throw new Error("OAUTH_KV namespace not configured");
 	}
 
+	const scopes = options.scopes ? normalizeTokenScopes(options.scopes) : undefined;
+	const quotas = options.quotas ? normalizeUsageQuotas(options.quotas) : undefined;
+	const allowedIps = options.allowedIps ? normalizeIpAllowlist(options.allowedIps) : undefined;
+
 	// 1. Generate 32 random bytes (256-bit entropy)
 	const randomBytes = new Uint8Array(32);
 	crypto.getRandomValues(randomBytes);
@@ -236,6 +392,8 @@ export async function generateMcpAccessToken(
 
 	// 6. Create token data
 	const now = new Date().toISOString();
+	const expiresInDays = options.expiresInDays ?? resolveTokenExpiryDays(env);
+	const expiresAt = new Date(Date.parse(now) + expiresInDays * DAY_MS).toISOString();
 	const tokenData: MCPTokenData = {
 		tokenHash,
 		userId,
@@ -244,6 +402,11 @@ export async function generateMcpAccessToken(
 		lastUsedAt: null,
 		revokedAt: null,
 		revocationReason: null,
+		expiresAt,
+		rotatedFrom: options.rotatedFrom,
+		scopes,
+		quotas,
+		allowedIps,
 		metadata: {
 			createdFromIp,
 			createdFromUserAgent,
@@ -272,6 +435,10 @@ export async function generateMcpAccessToken(
 		userId,
 		description,
 		createdAt: now,
+		expiresAt,
+		scopes,
+		quotas,
+		allowedIps,
 		warning:
 			"Save this token now. For security reasons, it will never be shown again.",
 	};
@@ -284,12 +451,14 @@ export async function generateMcpAccessToken(
 /**
  * Validate an MCP access token
  *
- * Checks token format, verifies it exists in KV, ensures it's not revoked,
- * and updates usage metadata.
+ * Checks token format, verifies it exists in KV, ensures it's not revoked
+ * or expired, checks the request IP against the token's allowlist, and
+ * updates usage metadata.
  *
  * @param token The raw token to validate
  * @param env Cloudflare environment bindings
- * @param requestIp IP address of the request (optional)
+ * @param requestIp IP address of the request (optional; tokens with an
+ *   allowlist are rejected when it is unknown)
  * @returns Validation result with user ID if valid
  *
  * @example
@@ -333,14 +502,34 @@ export async function verifyMcpAccessToken(
 		return { valid: false, reason: "revoked" };
 	}
 
-	// 8. Update usage metadata (fire-and-forget to avoid blocking)
-	updateTokenUsage(env, tokenHash, tokenData, requestIp).catch((err) => {
-		console.error("Failed to update token usage:", err);
-	});
+	// Check expiry (includes the grace period of rotated tokens)
+	if (Date.now() >= new Date(getTokenExpiry(tokenData, env)).getTime()) {
+		return { valid: false, reason: "expired" };
+	}
 
-	// 9. Get token ID
+	// Get token ID
 	const tokenId = await getTokenIdFromHash(env, tokenHash);
 
+	// Check the IP allowlist
+	if (tokenData.allowedIps && !isIpAllowed(requestIp, tokenData.allowedIps)) {
+		await getAuditLogger().logTokenSecurityEvent(
+			"token_ip_not_allowed",
+			"warning",
+			tokenId,
+			tokenData.userId,
+			requestIp,
+			{ allowed_ips: tokenData.allowedIps },
+		);
+		return { valid: false, reason: "ip_not_allowed" };
+	}
+
+	// 8. Update usage metadata (returned copy now, stored record fire-and-forget to avoid blocking)
+	const usedAt = new Date().toISOString();
+	applyTokenUsage(tokenData, requestIp, usedAt);
+	updateTokenUsage(env, tokenHash, requestIp, usedAt, tokenId).catch((err) => {
+		console.error("Failed to update token usage:", err);
+	});
+
 	// 10. Return valid result
 	return {
 		valid: true,
@@ -351,29 +540,74 @@ export async function verifyMcpAccessToken(
 }
 
 /**
- * Update token usage metadata
- * Updates lastUsedAt, usageCount, and lastUsedFromIp
+ * Apply one use of a token to its usage fields
+ * Updates lastUsedAt, usageCount, lastUsedFromIp and the recent IP history
+ *
+ * @param tokenData Token data to update in place
+ * @param requestIp IP address of the request
+ * @param usedAt ISO 8601 timestamp of the use
+ * @returns Recent IP history before this use
+ */
+function applyTokenUsage(tokenData: MCPTokenData, requestIp: string, usedAt: string): string[] {
+	const recentIps = tokenData.metadata.recentIps ?? [];
+
+	tokenData.lastUsedAt = usedAt;
+	tokenData.metadata.usageCount += 1;
+	tokenData.metadata.lastUsedFromIp = requestIp;
+	if (requestIp !== "unknown") {
+		tokenData.metadata.recentIps = [requestIp, ...recentIps.filter((ip) => ip !== requestIp)].slice(
+			0,
+			RECENT_IP_HISTORY,
+		);
+	}
+
+	return recentIps;
+}
+
+/**
+ * Update token usage metadata in KV
+ *
+ * The token record is re-read right before the write and only the usage
+ * fields are merged in, so a revocation or rotation that landed while the
+ * request was being verified is not overwritten with the stale copy.
+ *
+ * A use from an address outside the recent history (once the token has a
+ * history) is audited as a critical "token_new_ip" security event so it can
+ * drive alerts.
  *
  * @param env Cloudflare environment bindings
  * @param tokenHash SHA-256 hash of the token
- * @param tokenData Current token data
  * @param requestIp IP address of the request
+ * @param usedAt ISO 8601 timestamp of the use
+ * @param tokenId Token ID (for the audit event)
  */
 async function updateTokenUsage(
 	env: Env,
 	tokenHash: string,
-	tokenData: MCPTokenData,
 	requestIp: string,
+	usedAt: string,
+	tokenId?: string,
 ): Promise<void> {
 	if (!env.OAUTH_KV) return;
 
-	const now = new Date().toISOString();
+	const tokenDataJson = await env.OAUTH_KV.get(`token:hash:${tokenHash}`);
+	if (!tokenDataJson) return;
 
-	tokenData.lastUsedAt = now;
-	tokenData.metadata.usageCount += 1;
-	tokenData.metadata.lastUsedFromIp = requestIp;
+	const tokenData: MCPTokenData = JSON.parse(tokenDataJson);
+	const recentIps = applyTokenUsage(tokenData, requestIp, usedAt);
 
 	await env.OAUTH_KV.put(`token:hash:${tokenHash}`, JSON.stringify(tokenData));
+
+	if (requestIp !== "unknown" && recentIps.length > 0 && !recentIps.includes(requestIp)) {
+		await getAuditLogger().logTokenSecurityEvent(
+			"token_new_ip",
+			"critical",
+			tokenId,
+			tokenData.userId,
+			requestIp,
+			{ recent_ips: recentIps },
+		);
+	}
 }
 
 /**
@@ -469,3 +703,94 @@ export async function revokeMcpAccessToken(
 
 	return { success: true };
 }
+
+// ============================================================================
+// Token Rotation
+// ============================================================================
+
+/**
+ * Rotate a token
+ *
+ * Issues a replacement token for the same user (same description and
+ * scopes, fresh expiry) linked to the old token ID. The old token keeps working for the
+ * grace period so clients can switch over, then expires.
+ *
+ * @param tokenId Token ID to rotate
+ * @param env Cloudflare environment bindings
+ * @param graceHours Hours the old token stays valid (default: MCP_TOKEN_ROTATION_GRACE_HOURS)
+ * @param createdFromIp IP address requesting the rotation (optional)
+ * @param createdFromUserAgent User agent requesting the rotation (optional)
+ * @returns Replacement token (raw token shown only once) or error
+ *
+ * @example
+ * const result = await rotateMcpAccessToken("tok_abc123", env);
+ * if (result.success) {
+ *   console.log(`New token: ${result.replacement?.token}`);
+ *   console.log(`Old token valid until: ${result.previousTokenExpiresAt}`);
+ * }
+ */
+export async function rotateMcpAccessToken(
+	tokenId: string,
+	env: Env,
+	graceHours = resolveRotationGraceHours(env),
+	createdFromIp = "unknown",
+	createdFromUserAgent = "unknown",
+): Promise<MCPTokenRotationResult> {
+	// Validate required KV namespace
+	if (!env.OAUTH_KV) {
+		return { success: false, error: "OAUTH_KV namespace not configured" };
+	}
+
+	const tokenHash = await env.OAUTH_KV.get(`token:id:${tokenId}`);
+	if (!tokenHash) {
+		return { success: false, error: "Token not found" };
+	}
+
+	const tokenDataJson = await env.OAUTH_KV.get(`token:hash:${tokenHash}`);
+	if (!tokenDataJson) {
+		return { success: false, error: "Token data not found" };
+	}
+
+	const tokenData: MCPTokenData = JSON.parse(tokenDataJson);
+
+	if (tokenData.revokedAt !== null) {
+		return { success: false, error: "Token is revoked" };
+	}
+	if (tokenData.replacedBy) {
+		return { success: false, error: `Token already rotated (replaced by ${tokenData.replacedBy})` };
+	}
+
+	const currentExpiry = new Date(getTokenExpiry(tokenData, env)).getTime();
+	if (Date.now() >= currentExpiry) {
+		return { success: false, error: "Token has expired" };
+	}
+
+	// Issue the replacement
+	const replacement = await generateMcpAccessToken(
+		tokenData.userId,
+		tokenData.description,
+		env,
+		createdFromIp,
+		createdFromUserAgent,
+		{
+			rotatedFrom: tokenId,
+			scopes: tokenData.scopes,
+			quotas: tokenData.quotas,
+			allowedIps: tokenData.allowedIps,
+		},
+	);
+
+	// Shorten the old token's life to the grace period
+	const now = Date.now();
+	tokenData.replacedBy = replacement.tokenId;
+	tokenData.rotatedAt = new Date(now).toISOString();
+	tokenData.expiresAt = new Date(Math.min(currentExpiry, now + graceHours * 60 * 60 * 1000)).toISOString();
+
+	await env.OAUTH_KV.put(`token:hash:${tokenHash}`, JSON.stringify(tokenData));
+
+	return {
+		success: true,
+		replacement,
+		previousTokenExpiresAt: tokenData.expiresAt,
+	};
+}
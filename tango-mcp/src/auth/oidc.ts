@@ -0,0 +1,311 @@
+/**
+ * OpenID Connect Client
+ *
+ * Discovery (.well-known/openid-configuration), authorization code exchange
+ * and ID token verification against the issuer's JWKS, for upstream
+ * identity providers such as Microsoft Entra ID or Okta.
+ *
+ * ID tokens are accepted only if:
+ * - the signature verifies with a key from the issuer's JWKS (RS256/384/512,
+ *   PS256/384/512 or ES256/384); a JWKS is refetched once on an unknown key ID
+ *   to follow key rotation
+ * - `iss` matches the discovered issuer and `aud` contains the client ID
+ *   (with `azp` equal to the client ID when there are several audiences)
+ * - `exp`, `nbf` and `iat` are valid within CLOCK_SKEW_SECONDS
+ * - `nonce` matches the nonce sent with the authorization request
+ *
+ * Discovery documents and JWKS are cached per isolate for METADATA_CACHE_MS.
+ */
+
+import { OAuthError } from "./workers-oauth-utils.js";
+
+/**
+ * Subset of the OIDC discovery document used by this server
+ */
+export interface OidcDiscovery {
+	issuer: string;
+	authorization_endpoint: string;
+	token_endpoint: string;
+	jwks_uri: string;
+	userinfo_endpoint?: string;
+}
+
+/**
+ * Verified ID token claims
+ */
+export interface IdTokenClaims {
+	iss: string;
+	sub: string;
+	aud: string | string[];
+	exp: number;
+	iat: number;
+	nbf?: number;
+	nonce?: string;
+	azp?: string;
+	email?: string;
+	email_verified?: boolean | string;
+	/** Microsoft Entra ID optional claim: email domain owner verified (Entra sends no email_verified) */
+	xms_edov?: boolean | string;
+	name?: string;
+	preferred_username?: string;
+	upn?: string;
+	[claim: string]: unknown;
+}
+
+/**
+ * Options for ID token verification
+ */
+export interface VerifyIdTokenOptions {
+	/** Expected issuer (from discovery) */
+	issuer: string;
+
+	/** JWKS URI (from discovery) */
+	jwksUri: string;
+
+	/** OAuth client ID (expected audience) */
+	clientId: string;
+
+	/** Nonce sent with the authorization request */
+	nonce: string;
+
+	/** Current time in milliseconds (default: Date.now()) */
+	now?: number;
+}
+
+interface JsonWebKeyWithId extends JsonWebKey {
+	kid?: string;
+	use?: string;
+}
+
+/** Allowed clock skew for exp/nbf/iat checks */
+export const CLOCK_SKEW_SECONDS = 60;
+
+/** How long discovery documents and JWKS are cached */
+const METADATA_CACHE_MS = 60 * 60 * 1000;
+
+/** Signature algorithms accepted in ID tokens */
+const SUPPORTED_ALGORITHMS: Record<
+	string,
+	{ import: SubtleCryptoImportKeyAlgorithm; verify: string | SubtleCryptoSignAlgorithm }
+> = {
+	RS256: { import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, verify: "RSASSA-PKCS1-v1_5" },
+	RS384: { import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-384" }, verify: "RSASSA-PKCS1-v1_5" },
+	RS512: { import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-512" }, verify: "RSASSA-PKCS1-v1_5" },
+	PS256: { import: { name: "RSA-PSS", hash: "SHA-256" }, verify: { name: "RSA-PSS", saltLength: 32 } },
+	PS384: { import: { name: "RSA-PSS", hash: "SHA-384" }, verify: { name: "RSA-PSS", saltLength: 48 } },
+	PS512: { import: { name: "RSA-PSS", hash: "SHA-512" }, verify: { name: "RSA-PSS", saltLength: 64 } },
+	ES256: { import: { name: "ECDSA", namedCurve: "P-256" }, verify: { name: "ECDSA", hash: "SHA-256" } },
+	ES384: { import: { name: "ECDSA", namedCurve: "P-384" }, verify: { name: "ECDSA", hash: "SHA-384" } },
+};
+
+const discoveryCache = new Map<string, { value: OidcDiscovery; expiresAt: number }>();
+const jwksCache = new Map<string, { keys: JsonWebKeyWithId[]; expiresAt: number }>();
+
+/**
+ * Clear cached discovery documents and JWKS (for tests)
+ */
+export function clearOidcCache(): void {
+	discoveryCache.clear();
+	jwksCache.clear();
+}
+
+/**
+ * Fetch and cache an issuer's discovery document
+ *
+ * @param issuer Issuer URL (e.g., "https://login.microsoftonline.com/{tenant}/v2.0")
+ * @returns Discovery document
+ * @throws OAuthError if the document cannot be fetched, is incomplete or
+ *   names a different issuer
+ */
+export async function discoverOidcProvider(issuer: string): Promise<OidcDiscovery> {
+	const cached = discoveryCache.get(issuer);
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.value;
+	}
+
+	const url = `${issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`;
+	const response = await fetch(url, { headers: { Accept: "application/json" } });
+	if (!response.ok) {
+		throw new OAuthError("server_error", `OIDC discovery failed for ${issuer} (HTTP ${response.status})`, 502);
+	}
+
+	const document = (await response.json()) as Partial<OidcDiscovery>;
+	if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+		throw new OAuthError("server_error", `OIDC discovery document for ${issuer} is missing required endpoints`, 502);
+	}
+	if (document.issuer !== issuer) {
+		throw new OAuthError(
+			"server_error",
+			`OIDC discovery issuer mismatch: expected ${issuer}, got ${document.issuer}`,
+			502,
+		);
+	}
+
+	const value = document as OidcDiscovery;
+	discoveryCache.set(issuer, { value, expiresAt: Date.now() + METADATA_CACHE_MS });
+	return value;
+}
+
+/**
+ * Exchange an authorization code for tokens at the provider's token endpoint
+ *
+ * @returns The access token and ID token
+ * @throws OAuthError if the exchange fails or no ID token is returned
+ */
+export async function exchangeOidcCode({
+	tokenEndpoint,
+	clientId,
+	clientSecret,
+	code,
+	redirectUri,
+}: {
+	tokenEndpoint: string;
+	clientId: string;
+	clientSecret: string;
+	code: string;
+	redirectUri: string;
+}): Promise<{ accessToken: string; idToken: string }> {
+	const response = await fetch(tokenEndpoint, {
+		method: "POST",
+		headers: {
+			Accept: "application/json",
+			"Content-Type": "application/x-www-form-urlencoded",
+		},
+		body: new URLSearchParams({
+			grant_type: "authorization_code",
+			client_id: clientId,
+			client_secret: clientSecret,
+			code,
+			redirect_uri: redirectUri,
+		}).toString(),
+	});
+	if (!response.ok) {
+		console.log(await response.text());
+		throw new OAuthError("server_error", "Failed to fetch access token", 500);
+	}
+
+	const body = (await response.json()) as { access_token?: string; id_token?: string };
+	if (!body.id_token) {
+		throw new OAuthError("server_error", "Missing ID token", 502);
+	}
+	return { accessToken: body.access_token ?? "", idToken: body.id_token };
+}
+
+/**
+ * Verify an ID token's signature and claims
+ *
+ * @param idToken Compact JWS
+ * @param options Expected issuer, audience and nonce
+ * @returns Verified claims
+ * @throws OAuthError ("access_denied", 401) if the token is invalid
+ */
+export async function verifyIdToken(idToken: string, options: VerifyIdTokenOptions): Promise<IdTokenClaims> {
+	const parts = idToken.split(".");
+	if (parts.length !== 3) {
+		throw invalidIdToken("malformed token");
+	}
+	const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+	let header: { alg?: string; kid?: string };
+	let claims: IdTokenClaims;
+	try {
+		header = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedHeader)));
+		claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload)));
+	} catch {
+		throw invalidIdToken("malformed token");
+	}
+
+	const algorithm = header.alg ? SUPPORTED_ALGORITHMS[header.alg] : undefined;
+	if (!algorithm) {
+		throw invalidIdToken(`unsupported algorithm ${header.alg}`);
+	}
+
+	const jwk = await findSigningKey(options.jwksUri, header.kid, header.alg as string);
+	const key = await crypto.subtle.importKey("jwk", jwk, algorithm.import, false, ["verify"]);
+	const verified = await crypto.subtle.verify(
+		algorithm.verify,
+		key,
+		base64UrlDecode(encodedSignature),
+		new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`),
+	);
+	if (!verified) {
+		throw invalidIdToken("signature verification failed");
+	}
+
+	const now = Math.floor((options.now ?? Date.now()) / 1000);
+	const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+	if (claims.iss !== options.issuer) {
+		throw invalidIdToken("issuer mismatch");
+	}
+	if (!audiences.includes(options.clientId)) {
+		throw invalidIdToken("audience mismatch");
+	}
+	if (audiences.length > 1 && claims.azp !== options.clientId) {
+		throw invalidIdToken("authorized party mismatch");
+	}
+	if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS <= now) {
+		throw invalidIdToken("token expired");
+	}
+	if (typeof claims.nbf === "number" && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+		throw invalidIdToken("token not yet valid");
+	}
+	if (typeof claims.iat !== "number" || claims.iat - CLOCK_SKEW_SECONDS > now) {
+		throw invalidIdToken("invalid issued-at time");
+	}
+	if (claims.nonce !== options.nonce) {
+		throw invalidIdToken("nonce mismatch");
+	}
+	if (typeof claims.sub !== "string" || !claims.sub) {
+		throw invalidIdToken("missing subject");
+	}
+
+	return claims;
+}
+
+/**
+ * Find the JWKS key for a token, refetching the JWKS once when the key ID
+ * is unknown (signing key rotation)
+ */
+async function findSigningKey(jwksUri: string, kid: string | undefined, alg: string): Promise<JsonWebKey> {
+	const match = (keys: JsonWebKeyWithId[]) =>
+		keys.find(
+			(key) =>
+				(kid === undefined || key.kid === kid) &&
+				(key.use === undefined || key.use === "sig") &&
+				(key.alg === undefined || key.alg === alg) &&
+				key.kty === (alg.startsWith("ES") ? "EC" : "RSA"),
+		);
+
+	const cached = jwksCache.get(jwksUri);
+	const cachedKey = cached && cached.expiresAt > Date.now() ? match(cached.keys) : undefined;
+	if (cachedKey) {
+		return cachedKey;
+	}
+
+	const response = await fetch(jwksUri, { headers: { Accept: "application/json" } });
+	if (!response.ok) {
+		throw new OAuthError("server_error", `Failed to fetch JWKS (HTTP ${response.status})`, 502);
+	}
+	const { keys = [] } = (await response.json()) as { keys?: JsonWebKeyWithId[] };
+	jwksCache.set(jwksUri, { keys, expiresAt: Date.now() + METADATA_CACHE_MS });
+
+	const key = match(keys);
+	if (!key) {
+		throw invalidIdToken(`no signing key found for kid ${kid}`);
+	}
+	return key;
+}
+
+function invalidIdToken(reason: string): OAuthError {
+	return new OAuthError("access_denied", `Invalid ID token: ${reason}`, 401);
+}
+
+/**
+ * Decode base64url (RFC 4648 §5) without padding
+ */
+function base64UrlDecode(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+	const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+	return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
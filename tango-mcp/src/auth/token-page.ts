@@ -0,0 +1,519 @@
+// token-page.ts
+// Self-service MCP access token page for OAuth-authenticated users
+
+import type { AuthRequest } from "@cloudflare/workers-oauth-provider";
+import type { ConnectedApp } from "./connected-apps.js";
+import type { MCPTokenGenerationResult } from "./mcp-token.js";
+import type { MCPTokenListItem } from "./mcp-token-admin.js";
+import { sanitizeText, signData, verifySignature } from "./workers-oauth-utils.js";
+
+/**
+ * Path of the self-service token page
+ */
+export const TOKEN_PAGE_PATH = "/tokens";
+
+/**
+ * Maximum active (non-revoked, non-expired) tokens a user can create themselves
+ */
+export const MAX_SELF_SERVICE_TOKENS = 10;
+
+/**
+ * Client ID marking an OAuth state as a token page sign-in rather than an
+ * MCP client authorization. The Google callback uses it to start a token page
+ * session instead of completing an OAuth grant.
+ */
+const TOKEN_PAGE_CLIENT_ID = "tango-mcp:token-page";
+
+const TOKEN_PAGE_SESSION_COOKIE = "__Host-TOKEN_PAGE_SESSION";
+const TOKEN_PAGE_SESSION_TTL_SECONDS = 3600;
+
+/**
+ * Signed-in token page user
+ */
+export interface TokenPageSession {
+	/**
+	 * Google account email (also the user ID of tokens created on the page)
+	 */
+	email: string;
+
+	/**
+	 * Display name
+	 */
+	name: string;
+
+	/**
+	 * Session expiry (Unix time in milliseconds)
+	 */
+	expiresAt: number;
+}
+
+/**
+ * Configuration for the token page
+ */
+export interface TokenPageOptions {
+	/**
+	 * Signed-in user
+	 */
+	session: TokenPageSession;
+
+	/**
+	 * The user's tokens
+	 */
+	tokens: MCPTokenListItem[];
+
+	/**
+	 * OAuth clients the user has approved
+	 */
+	apps?: ConnectedApp[];
+
+	/**
+	 * CSRF token to include in every form
+	 */
+	csrfToken: string;
+
+	/**
+	 * Set-Cookie header for the CSRF token
+	 */
+	setCookie: string;
+
+	/**
+	 * Newly created token, shown once
+	 */
+	created?: MCPTokenGenerationResult;
+
+	/**
+	 * Confirmation message (e.g., "Token revoked")
+	 */
+	notice?: string;
+
+	/**
+	 * Error message
+	 */
+	error?: string;
+
+	/**
+	 * HTTP status code (defaults to 200)
+	 */
+	status?: number;
+}
+
+/**
+ * Builds the OAuth request stored with the state of a token page sign-in
+ * @returns OAuth request info recognized by isTokenPageLogin
+ */
+export function tokenPageLoginRequest(): AuthRequest {
+	return {
+		responseType: "code",
+		clientId: TOKEN_PAGE_CLIENT_ID,
+		redirectUri: TOKEN_PAGE_PATH,
+		scope: [],
+		state: "",
+	};
+}
+
+/**
+ * Checks whether OAuth state belongs to a token page sign-in
+ * @param oauthReqInfo - OAuth request info from the validated state
+ * @returns True if the callback should start a token page session
+ */
+export function isTokenPageLogin(oauthReqInfo: AuthRequest): boolean {
+	return oauthReqInfo.clientId === TOKEN_PAGE_CLIENT_ID;
+}
+
+/**
+ * Creates a signed token page session cookie
+ * @param email - Google account email
+ * @param name - Display name
+ * @param cookieSecret - Secret key used for signing the cookie
+ * @returns Set-Cookie header value
+ */
+export async function createTokenPageSession(
+	email: string,
+	name: string,
+	cookieSecret: string,
+): Promise<string> {
+	const session: TokenPageSession = {
+		email,
+		name,
+		expiresAt: Date.now() + TOKEN_PAGE_SESSION_TTL_SECONDS * 1000,
+	};
+	const payload = JSON.stringify(session);
+	const signature = await signData(payload, cookieSecret);
+	const cookieValue = `${signature}.${encodeBase64Utf8(payload)}`;
+
+	return `${TOKEN_PAGE_SESSION_COOKIE}=${cookieValue}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=${TOKEN_PAGE_SESSION_TTL_SECONDS}`;
+}
+
+/**
+ * Reads and verifies the token page session cookie
+ * @param request - The HTTP request containing cookies
+ * @param cookieSecret - Secret key used for verifying the cookie
+ * @returns The session, or null if missing, tampered with or expired
+ */
+export async function getTokenPageSession(
+	request: Request,
+	cookieSecret: string,
+): Promise<TokenPageSession | null> {
+	const cookieHeader = request.headers.get("Cookie");
+	if (!cookieHeader) return null;
+
+	const cookies = cookieHeader.split(";").map((c) => c.trim());
+	const sessionCookie = cookies.find((c) =>
+		c.startsWith(`${TOKEN_PAGE_SESSION_COOKIE}=`),
+	);
+	if (!sessionCookie) return null;
+
+	const parts = sessionCookie
+		.substring(TOKEN_PAGE_SESSION_COOKIE.length + 1)
+		.split(".");
+	if (parts.length !== 2) return null;
+
+	const [signatureHex, base64Payload] = parts;
+	let payload: string;
+	try {
+		payload = decodeBase64Utf8(base64Payload);
+	} catch (_e) {
+		return null;
+	}
+
+	if (!(await verifySignature(signatureHex, payload, cookieSecret))) {
+		return null;
+	}
+
+	try {
+		const session = JSON.parse(payload) as TokenPageSession;
+		if (
+			typeof session.email !== "string" ||
+			typeof session.expiresAt !== "number" ||
+			session.expiresAt <= Date.now()
+		) {
+			return null;
+		}
+		return session;
+	} catch (_e) {
+		return null;
+	}
+}
+
+/**
+ * Base64-encodes a string as UTF-8 (btoa only accepts Latin-1, and display
+ * names can hold any character)
+ * @param value - String to encode
+ * @returns Base64 of the UTF-8 bytes
+ */
+function encodeBase64Utf8(value: string): string {
+	let binary = "";
+	for (const byte of new TextEncoder().encode(value)) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+/**
+ * Decodes base64 produced by encodeBase64Utf8
+ * @param value - Base64 string
+ * @returns Decoded string
+ * @throws Error if the value is not valid base64
+ */
+function decodeBase64Utf8(value: string): string {
+	const bytes = Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+	return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Renders the token page: a create form, the raw token of a newly created
+ * token (shown once), and the user's tokens with revoke buttons. Every form
+ * carries the CSRF token.
+ *
+ * @param options - Page content
+ * @returns A Response containing the HTML page
+ */
+export function renderTokenPage(options: TokenPageOptions): Response {
+	const {
+		session,
+		tokens,
+		apps = [],
+		csrfToken,
+		setCookie,
+		created,
+		notice,
+		error,
+	} = options;
+
+	const userName = sanitizeText(session.name || session.email);
+	const userEmail = sanitizeText(session.email);
+	const csrfInput = `<input type="hidden" name="csrf_token" value="${sanitizeText(csrfToken)}">`;
+
+	const rows = tokens
+		.map((token) => {
+			const status = token.isRevoked
+				? "Revoked"
+				: token.isExpired
+					? "Expired"
+					: token.expiringSoon
+						? "Expiring soon"
+						: "Active";
+			const action =
+				token.isRevoked || token.isExpired
+					? ""
+					: `<form method="post" action="${TOKEN_PAGE_PATH}/${encodeURIComponent(token.tokenId)}/revoke">
+              ${csrfInput}
+              <button type="submit" class="button button-danger">Revoke</button>
+            </form>`;
+			return `
+          <tr>
+            <td>${sanitizeText(token.description)}<div class="muted mono">${sanitizeText(token.tokenPrefix)}…</div></td>
+            <td>${sanitizeText(token.createdAt.slice(0, 10))}</td>
+            <td>${token.lastUsedAt ? sanitizeText(token.lastUsedAt.replace("T", " ").slice(0, 16)) : "Never"}</td>
+            <td>${token.usageCount}</td>
+            <td>${sanitizeText(token.expiresAt.slice(0, 10))}</td>
+            <td>${status}</td>
+            <td>${action}</td>
+          </tr>`;
+		})
+		.join("");
+
+	const appRows = apps
+		.map((app) => {
+			const props = [
+				app.props.email,
+				app.props.name,
+				app.props.provider && `via ${app.props.provider}`,
+				app.props.role && `role ${app.props.role}`,
+			].filter(Boolean);
+			return `
+          <tr>
+            <td>${sanitizeText(app.clientName)}<div class="muted mono">${sanitizeText(app.clientId)}</div></td>
+            <td>${sanitizeText(app.approvedAt.slice(0, 10))}</td>
+            <td>${app.lastUsedAt ? sanitizeText(app.lastUsedAt.replace("T", " ").slice(0, 16)) : "Never"}</td>
+            <td>${sanitizeText(props.join(", ") || "—")}${app.scopes.length > 0 ? `<div class="muted">Scopes: ${sanitizeText(app.scopes.join(" "))}</div>` : ""}</td>
+            <td>
+              <form method="post" action="${TOKEN_PAGE_PATH}/apps/${encodeURIComponent(app.clientId)}/revoke">
+                ${csrfInput}
+                <button type="submit" class="button button-danger">Revoke</button>
+              </form>
+            </td>
+          </tr>`;
+		})
+		.join("");
+
+	const htmlContent = `
+    <!DOCTYPE html>
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Tango MCP Server | Access Tokens</title>
+        <style>
+          :root {
+            --primary-color: #0070f3;
+            --error-color: #f44336;
+            --success-color: #16a34a;
+            --border-color: #e5e7eb;
+            --text-color: #333;
+            --background-color: #fff;
+            --card-shadow: 0 8px 36px 8px rgba(0, 0, 0, 0.1);
+          }
+
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto,
+                         Helvetica, Arial, sans-serif;
+            line-height: 1.6;
+            color: var(--text-color);
+            background-color: #f9fafb;
+            margin: 0;
+            padding: 0;
+          }
+
+          .container {
+            max-width: 900px;
+            margin: 2rem auto;
+            padding: 1rem;
+          }
+
+          .card {
+            background-color: var(--background-color);
+            border-radius: 8px;
+            box-shadow: var(--card-shadow);
+            padding: 2rem;
+            margin-bottom: 1.5rem;
+          }
+
+          .title {
+            margin: 0 0 0.5rem 0;
+            font-size: 1.3rem;
+            font-weight: 400;
+          }
+
+          .muted {
+            color: #6b7280;
+            font-size: 0.85em;
+          }
+
+          .mono {
+            font-family: SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace;
+            word-break: break-all;
+          }
+
+          .message {
+            border-radius: 6px;
+            padding: 1rem;
+            margin-bottom: 1.5rem;
+            border: 1px solid var(--border-color);
+          }
+
+          .message-error {
+            border-color: var(--error-color);
+            color: var(--error-color);
+          }
+
+          .message-success {
+            border-color: var(--success-color);
+          }
+
+          .token-value {
+            background-color: #f3f4f6;
+            border-radius: 6px;
+            padding: 0.75rem;
+            margin: 0.5rem 0;
+          }
+
+          form.inline {
+            display: flex;
+            gap: 1rem;
+          }
+
+          input[type="text"] {
+            flex: 1;
+            padding: 0.75rem;
+            border: 1px solid var(--border-color);
+            border-radius: 6px;
+            font-size: 1rem;
+          }
+
+          table {
+            width: 100%;
+            border-collapse: collapse;
+          }
+
+          th, td {
+            text-align: left;
+            padding: 0.5rem;
+            border-bottom: 1px solid var(--border-color);
+            vertical-align: top;
+          }
+
+          .button {
+            padding: 0.75rem 1.5rem;
+            border-radius: 6px;
+            font-weight: 500;
+            cursor: pointer;
+            border: none;
+            font-size: 1rem;
+          }
+
+          .button-primary {
+            background-color: var(--primary-color);
+            color: white;
+          }
+
+          .button-danger {
+            padding: 0.25rem 0.75rem;
+            background-color: transparent;
+            border: 1px solid var(--error-color);
+            color: var(--error-color);
+            font-size: 0.85rem;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="card">
+            <h1 class="title"><strong>Tango MCP Server</strong> access tokens</h1>
+            <p class="muted">Signed in as ${userName} (${userEmail}). Use these tokens with the <span class="mono">x-mcp-access-token</span> header for the Agent SDK and other clients without OAuth.</p>
+
+            ${error ? `<div class="message message-error">${sanitizeText(error)}</div>` : ""}
+            ${notice ? `<div class="message message-success">${sanitizeText(notice)}</div>` : ""}
+            ${
+							created
+								? `
+            <div class="message message-success">
+              <strong>${sanitizeText(created.description)}</strong> created. ${sanitizeText(created.warning)}
+              <div class="token-value mono">${sanitizeText(created.token)}</div>
+              <div class="muted">Expires ${sanitizeText(created.expiresAt.slice(0, 10))}</div>
+            </div>
+            `
+								: ""
+						}
+
+            <form method="post" action="${TOKEN_PAGE_PATH}" class="inline">
+              ${csrfInput}
+              <input type="text" name="description" placeholder="Description (e.g., Laptop Agent SDK)" maxlength="200" required>
+              <button type="submit" class="button button-primary">Create token</button>
+            </form>
+          </div>
+
+          <div class="card">
+            <h2 class="title">Your tokens</h2>
+            ${
+							tokens.length > 0
+								? `
+            <table>
+              <thead>
+                <tr>
+                  <th>Description</th>
+                  <th>Created</th>
+                  <th>Last used</th>
+                  <th>Uses</th>
+                  <th>Expires</th>
+                  <th>Status</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>${rows}
+              </tbody>
+            </table>
+            `
+								: `<p class="muted">You have no access tokens yet.</p>`
+						}
+          </div>
+
+          <div class="card">
+            <h2 class="title">Connected apps</h2>
+            <p class="muted">MCP clients you have approved with OAuth. Revoking an app signs it out; it must ask for approval again.</p>
+            ${
+							apps.length > 0
+								? `
+            <table>
+              <thead>
+                <tr>
+                  <th>App</th>
+                  <th>Approved</th>
+                  <th>Last used</th>
+                  <th>Shared with the app</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>${appRows}
+              </tbody>
+            </table>
+            `
+								: `<p class="muted">No apps are connected to your account.</p>`
+						}
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+
+	return new Response(htmlContent, {
+		status: options.status ?? 200,
+		headers: {
+			"Cache-Control": "no-store",
+			"Content-Security-Policy": "frame-ancestors 'none'",
+			"Content-Type": "text/html; charset=utf-8",
+			"Set-Cookie": setCookie,
+			"X-Frame-Options": "DENY",
+		},
+	});
+}
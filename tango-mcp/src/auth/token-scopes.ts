@@ -0,0 +1,296 @@
+/**
+ * MCP Access Token Scopes
+ *
+ * Restricts what an MCP access token may do. Scopes are stored with the
+ * token (MCPTokenData.scopes); tokens without scopes keep full access.
+ *
+ * Scopes:
+ * - tools: allowed tool names (omit for all tools)
+ * - profile: "analytics_read_only" limits the token to aggregate analytics
+ *   tools (ANALYTICS_PROFILE_TOOLS), combined with `tools` if both are set
+ * - allowExport: false rejects CSV exports (export_format: "csv")
+ * - maxLimit: rejects calls with an explicit `limit` (`history_limit` for
+ *   get_vendor_profile) above this value; calls without one run with the
+ *   tool's default limit capped at this value
+ *
+ * Enforced twice: disallowed tools are never registered for the session,
+ * and every call is checked against the scopes before the tool runs.
+ * Self-service tools (UNSCOPED_TOOLS) are available to every token.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GET_AGENCY_ANALYTICS_DEFAULT_LIMIT } from "../tools/get-agency-analytics.js";
+import { GET_SPENDING_SUMMARY_DEFAULT_LIMIT } from "../tools/get-spending-summary.js";
+import { GET_VENDOR_PROFILE_DEFAULT_HISTORY_LIMIT } from "../tools/get-vendor-profile.js";
+import { LOOKUP_AGENCY_DEFAULT_LIMIT } from "../tools/lookup-agency.js";
+import { SEARCH_CONTRACTS_DEFAULT_LIMIT } from "../tools/search-contracts.js";
+import { SEARCH_FORECASTS_DEFAULT_LIMIT } from "../tools/search-forecasts.js";
+import { SEARCH_GRANTS_DEFAULT_LIMIT } from "../tools/search-grants.js";
+import { SEARCH_IDVS_DEFAULT_LIMIT } from "../tools/search-idvs.js";
+import { SEARCH_OPPORTUNITIES_DEFAULT_LIMIT } from "../tools/search-opportunities.js";
+import { SEARCH_SUBAWARDS_DEFAULT_LIMIT } from "../tools/search-subawards.js";
+import { TangoScopeDeniedError } from "../types/errors.js";
+import { getLogger } from "../utils/logger.js";
+import { filterToolRegistrations, wrapToolHandlers } from "../utils/tool-middleware.js";
+import { getTraceId } from "../utils/trace-context.js";
+
+/**
+ * Scope profile
+ */
+export type MCPTokenScopeProfile = "full" | "analytics_read_only";
+
+/**
+ * Scopes stored with an MCP access token
+ */
+export interface MCPTokenScopes {
+	/** Allowed tool names (omit for all tools) */
+	tools?: string[];
+
+	/** Access profile (default: "full") */
+	profile?: MCPTokenScopeProfile;
+
+	/** Whether CSV exports are allowed (default: true) */
+	allowExport?: boolean;
+
+	/** Maximum `limit` argument (omit for the tools' own maximums) */
+	maxLimit?: number;
+}
+
+/** Tools that can be granted to MCP access tokens (admin tools never are) */
+export const SCOPEABLE_TOOLS = [
+	"health",
+	"search_contracts",
+	"search_idvs",
+	"search_subawards",
+	"search_grants",
+	"get_vendor_profile",
+	"search_opportunities",
+	"get_spending_summary",
+	"get_contract_detail",
+	"get_grant_detail",
+	"get_opportunity_detail",
+	"get_agency_analytics",
+	"search_forecasts",
+	"get_forecast_detail",
+	"lookup_agency",
+	"get_company_intelligence",
+] as const;
+
+/** Tools available under the analytics_read_only profile */
+export const ANALYTICS_PROFILE_TOOLS = [
+	"health",
+	"lookup_agency",
+	"get_spending_summary",
+	"get_agency_analytics",
+] as const;
+
+/** Tools every token may use regardless of its scopes */
+export const UNSCOPED_TOOLS = ["get_my_usage"] as const;
+
+/**
+ * Result size parameter of a tool, and the value the tool uses when a call
+ * omits it
+ */
+export interface ToolLimitParam {
+	name: string;
+	defaultLimit: number;
+}
+
+/** Result size parameters capped by maxLimit (defaults exported by the tools) */
+export const TOOL_LIMIT_PARAMS: Readonly<Record<string, ToolLimitParam>> = {
+	search_contracts: { name: "limit", defaultLimit: SEARCH_CONTRACTS_DEFAULT_LIMIT },
+	search_idvs: { name: "limit", defaultLimit: SEARCH_IDVS_DEFAULT_LIMIT },
+	search_subawards: { name: "limit", defaultLimit: SEARCH_SUBAWARDS_DEFAULT_LIMIT },
+	search_grants: { name: "limit", defaultLimit: SEARCH_GRANTS_DEFAULT_LIMIT },
+	search_opportunities: { name: "limit", defaultLimit: SEARCH_OPPORTUNITIES_DEFAULT_LIMIT },
+	get_spending_summary: { name: "limit", defaultLimit: GET_SPENDING_SUMMARY_DEFAULT_LIMIT },
+	get_agency_analytics: { name: "limit", defaultLimit: GET_AGENCY_ANALYTICS_DEFAULT_LIMIT },
+	search_forecasts: { name: "limit", defaultLimit: SEARCH_FORECASTS_DEFAULT_LIMIT },
+	lookup_agency: { name: "limit", defaultLimit: LOOKUP_AGENCY_DEFAULT_LIMIT },
+	get_vendor_profile: { name: "history_limit", defaultLimit: GET_VENDOR_PROFILE_DEFAULT_HISTORY_LIMIT },
+};
+
+/**
+ * Validate and normalize token scopes
+ *
+ * @param scopes Requested scopes
+ * @returns Normalized scopes (tool names deduplicated)
+ * @throws Error if a tool name, profile or limit is invalid
+ *
+ * @example
+ * normalizeTokenScopes({ tools: ["search_opportunities", "get_opportunity_detail"] });
+ */
+export function normalizeTokenScopes(scopes: MCPTokenScopes): MCPTokenScopes {
+	const normalized: MCPTokenScopes = {};
+
+	if (scopes.tools !== undefined) {
+		const unknown = scopes.tools.filter((tool) => !(SCOPEABLE_TOOLS as readonly string[]).includes(tool));
+		if (unknown.length > 0) {
+			throw new Error(`Unknown tool(s) in token scopes: ${unknown.join(", ")}`);
+		}
+		normalized.tools = [...new Set(scopes.tools)];
+	}
+
+	if (scopes.profile !== undefined) {
+		if (scopes.profile !== "full" && scopes.profile !== "analytics_read_only") {
+			throw new Error(`Invalid token scope profile: '${scopes.profile}'`);
+		}
+		normalized.profile = scopes.profile;
+	}
+
+	if (scopes.allowExport !== undefined) {
+		normalized.allowExport = scopes.allowExport;
+	}
+
+	if (scopes.maxLimit !== undefined) {
+		if (!Number.isInteger(scopes.maxLimit) || scopes.maxLimit < 1) {
+			throw new Error(`Token scope maxLimit must be a positive integer. Got: ${scopes.maxLimit}`);
+		}
+		normalized.maxLimit = scopes.maxLimit;
+	}
+
+	return normalized;
+}
+
+/**
+ * Check whether scopes allow a tool
+ *
+ * @param scopes Token scopes (undefined = full access)
+ * @param toolName Tool name
+ * @returns True if the tool may be used
+ */
+export function isToolAllowed(scopes: MCPTokenScopes | undefined, toolName: string): boolean {
+	if (!scopes || (UNSCOPED_TOOLS as readonly string[]).includes(toolName)) {
+		return true;
+	}
+	if (scopes.tools && !scopes.tools.includes(toolName)) {
+		return false;
+	}
+	if (
+		scopes.profile === "analytics_read_only" &&
+		!(ANALYTICS_PROFILE_TOOLS as readonly string[]).includes(toolName)
+	) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Check a tool call against token scopes
+ *
+ * @param scopes Token scopes (undefined = full access)
+ * @param toolName Tool name
+ * @param args Tool arguments
+ * @returns Scope error, or undefined if the call is allowed
+ */
+export function checkToolCallScope(
+	scopes: MCPTokenScopes | undefined,
+	toolName: string,
+	args: unknown,
+): TangoScopeDeniedError | undefined {
+	if (!scopes) {
+		return undefined;
+	}
+
+	if (!isToolAllowed(scopes, toolName)) {
+		return new TangoScopeDeniedError("tools", `Access token is not permitted to use ${toolName}`, {
+			tool: toolName,
+		});
+	}
+
+	const params = (typeof args === "object" && args !== null ? args : {}) as Record<string, unknown>;
+
+	if (scopes.allowExport === false && params.export_format === "csv") {
+		return new TangoScopeDeniedError("export", "Access token is not permitted to export CSV", {
+			tool: toolName,
+		});
+	}
+
+	const limitName = TOOL_LIMIT_PARAMS[toolName]?.name ?? "limit";
+	const limit = params[limitName];
+	if (scopes.maxLimit !== undefined && typeof limit === "number" && limit > scopes.maxLimit) {
+		return new TangoScopeDeniedError(
+			"max_limit",
+			`${limitName} ${limit} exceeds this access token's maximum of ${scopes.maxLimit}`,
+			{ tool: toolName, parameter: limitName, max_limit: scopes.maxLimit, provided: limit },
+		);
+	}
+
+	return undefined;
+}
+
+/**
+ * Cap the limit of a tool call that omits its limit parameter
+ *
+ * Tools fall back to their default limit (TOOL_LIMIT_PARAMS), which may be
+ * above maxLimit, so such calls get the smaller of the two.
+ *
+ * @param scopes Token scopes (undefined = full access)
+ * @param toolName Tool name
+ * @param args Tool arguments
+ * @returns Arguments to run the tool with
+ */
+export function applyMaxLimit(scopes: MCPTokenScopes | undefined, toolName: string, args: unknown): unknown {
+	const limitParam = TOOL_LIMIT_PARAMS[toolName];
+	if (scopes?.maxLimit === undefined || limitParam === undefined || typeof args !== "object" || args === null) {
+		return args;
+	}
+
+	const params = args as Record<string, unknown>;
+	if (typeof params[limitParam.name] === "number" || limitParam.defaultLimit <= scopes.maxLimit) {
+		return args;
+	}
+	return { ...params, [limitParam.name]: scopes.maxLimit };
+}
+
+/**
+ * Enforce token scopes on a server
+ *
+ * Must be called before tools are registered: disallowed tools are not
+ * registered, and each call to the remaining tools is checked.
+ *
+ * @param server MCP server
+ * @param scopes Token scopes (undefined = full access, nothing installed)
+ */
+export function enforceTokenScopes(server: McpServer, scopes: MCPTokenScopes | undefined): void {
+	if (!scopes) {
+		return;
+	}
+
+	filterToolRegistrations(server, (toolName) => isToolAllowed(scopes, toolName));
+
+	wrapToolHandlers(server, (handler, toolName) => async (...handlerArgs) => {
+		const startTime = Date.now();
+		const denied = checkToolCallScope(scopes, toolName, handlerArgs.length > 1 ? handlerArgs[0] : undefined);
+		if (!denied) {
+			if (handlerArgs.length > 1) {
+				handlerArgs[0] = applyMaxLimit(scopes, toolName, handlerArgs[0]);
+			}
+			return handler(...handlerArgs);
+		}
+
+		getLogger().warn("Tool call denied by token scopes", {
+			tool: toolName,
+			scope: denied.scope,
+		});
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: JSON.stringify(
+						{
+							...denied.toErrorResponse(),
+							execution: {
+								duration_ms: Date.now() - startTime,
+								trace_id: getTraceId(),
+							},
+						},
+						null,
+						2,
+					),
+				},
+			],
+		};
+	});
+}
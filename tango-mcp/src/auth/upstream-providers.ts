@@ -0,0 +1,366 @@
+/**
+ * Upstream Identity Providers
+ *
+ * Users sign in through an upstream identity provider before the server
+ * issues its own OAuth grant (or token page session). Providers:
+ * - "google": Google OAuth (GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET,
+ *   HOSTED_DOMAIN), identity from the userinfo endpoint
+ * - Any OpenID Connect issuer listed in OIDC_PROVIDERS (e.g., Microsoft
+ *   Entra ID, Okta), configured through discovery; identity from the
+ *   JWKS-verified ID token (see oidc.ts)
+ *
+ * OIDC_PROVIDERS is a JSON array of
+ * { id, name, issuer, clientId, allowedDomains, scopes? }. Each provider's
+ * client secret is a separate secret named OIDC_<ID>_CLIENT_SECRET (ID
+ * uppercased, dashes as underscores).
+ *
+ * OIDC identities come only from a verified `email` claim (email_verified,
+ * or Entra ID's xms_edov). Every provider must list the email domains it
+ * is trusted for in allowedDomains; other domains are rejected, so a
+ * multi-tenant issuer cannot sign in an address that holds a role (e.g.
+ * ADMIN_EMAILS or an admin assignment) in a domain it doesn't own.
+ *
+ * Every provider uses the same /callback redirect URI; the OAuth state
+ * records which provider the user picked and the OIDC nonce.
+ */
+
+import type { Env } from "../types/env.js";
+import { discoverOidcProvider, exchangeOidcCode, type IdTokenClaims, verifyIdToken } from "./oidc.js";
+import { fetchUpstreamAuthToken, getUpstreamAuthorizeUrl } from "./utils.js";
+import { OAuthError } from "./workers-oauth-utils.js";
+
+/** ID of the built-in Google provider */
+export const GOOGLE_PROVIDER_ID = "google";
+
+/** Default scopes requested from OIDC providers */
+const DEFAULT_OIDC_SCOPES = "openid email profile";
+
+/** Expected OIDC_PROVIDERS shape, for error messages */
+const OIDC_PROVIDERS_FORMAT =
+	"OIDC_PROVIDERS must be a JSON array of { id, name, issuer, clientId, allowedDomains, scopes? }";
+
+/**
+ * OIDC provider entry in OIDC_PROVIDERS
+ */
+export interface OidcProviderConfig {
+	/** Provider ID (lowercase letters, digits and dashes), shown in the OAuth state */
+	id: string;
+
+	/** Display name on the sign-in buttons */
+	name: string;
+
+	/** Issuer URL; discovery is read from {issuer}/.well-known/openid-configuration */
+	issuer: string;
+
+	/** OAuth client ID registered with the provider */
+	clientId: string;
+
+	/** Requested scopes (default: "openid email profile") */
+	scopes?: string;
+
+	/** Email domains the provider is trusted to sign in (lowercase) */
+	allowedDomains: string[];
+}
+
+/**
+ * Signed-in user returned by a provider
+ */
+export interface UpstreamIdentity {
+	/** Stable user ID (Google account ID, or "{provider}:{sub}" for OIDC) */
+	id: string;
+
+	/** Email address */
+	email: string;
+
+	/** Display name */
+	name: string;
+
+	/** Provider access token */
+	accessToken: string;
+}
+
+/**
+ * An upstream identity provider
+ */
+export interface UpstreamProvider {
+	/** Provider ID */
+	id: string;
+
+	/** Display name */
+	name: string;
+
+	/**
+	 * Build the provider's authorization URL
+	 */
+	getAuthorizeUrl(options: { redirectUri: string; state: string; nonce: string }): Promise<string>;
+
+	/**
+	 * Exchange the authorization code and return the signed-in user
+	 *
+	 * @throws OAuthError if the exchange or identity verification fails
+	 */
+	completeLogin(options: { code: string; redirectUri: string; nonce: string }): Promise<UpstreamIdentity>;
+}
+
+/**
+ * Name of the secret holding an OIDC provider's client secret
+ *
+ * @param id Provider ID
+ * @returns e.g., "OIDC_ENTRA_CLIENT_SECRET" for "entra"
+ */
+export function oidcClientSecretName(id: string): string {
+	return `OIDC_${id.toUpperCase().replace(/-/g, "_")}_CLIENT_SECRET`;
+}
+
+/**
+ * Parse and validate OIDC_PROVIDERS
+ *
+ * @param value OIDC_PROVIDERS JSON (undefined or empty = no providers)
+ * @returns Provider configurations
+ * @throws Error describing the first invalid entry
+ */
+export function parseOidcProviders(value: string | undefined): OidcProviderConfig[] {
+	if (!value?.trim()) {
+		return [];
+	}
+
+	let entries: unknown;
+	try {
+		entries = JSON.parse(value);
+	} catch {
+		throw new Error(OIDC_PROVIDERS_FORMAT);
+	}
+	if (!Array.isArray(entries)) {
+		throw new Error(OIDC_PROVIDERS_FORMAT);
+	}
+
+	const seen = new Set<string>();
+	return entries.map((entry, index) => {
+		const { id, name, issuer, clientId, scopes, allowedDomains } = (entry ?? {}) as Record<string, unknown>;
+		if (typeof id !== "string" || !/^[a-z0-9][a-z0-9-]{0,31}$/.test(id) || id === GOOGLE_PROVIDER_ID) {
+			throw new Error(
+				`OIDC_PROVIDERS[${index}].id must be 1-32 lowercase letters, digits or dashes (not "${GOOGLE_PROVIDER_ID}")`,
+			);
+		}
+		if (seen.has(id)) {
+			throw new Error(`OIDC_PROVIDERS contains duplicate id '${id}'`);
+		}
+		seen.add(id);
+		if (typeof name !== "string" || !name.trim()) {
+			throw new Error(`OIDC_PROVIDERS[${index}].name is required`);
+		}
+		if (typeof issuer !== "string" || !isHttpsUrl(issuer)) {
+			throw new Error(`OIDC_PROVIDERS[${index}].issuer must be an https URL`);
+		}
+		if (typeof clientId !== "string" || !clientId) {
+			throw new Error(`OIDC_PROVIDERS[${index}].clientId is required`);
+		}
+		if (scopes !== undefined && (typeof scopes !== "string" || !scopes.split(" ").includes("openid"))) {
+			throw new Error(`OIDC_PROVIDERS[${index}].scopes must be a space-separated string including 'openid'`);
+		}
+		if (
+			!Array.isArray(allowedDomains) ||
+			allowedDomains.length === 0 ||
+			!allowedDomains.every((domain) => typeof domain === "string" && /^[a-z0-9.-]+\.[a-z]{2,}$/i.test(domain))
+		) {
+			throw new Error(`OIDC_PROVIDERS[${index}].allowedDomains must be a non-empty array of domain names`);
+		}
+		return {
+			id,
+			name: name.trim(),
+			issuer,
+			clientId,
+			allowedDomains: allowedDomains.map((domain: string) => domain.toLowerCase()),
+			scopes,
+		};
+	});
+}
+
+/**
+ * Get the configured upstream providers
+ *
+ * Google comes first when GOOGLE_CLIENT_ID is set, followed by the
+ * OIDC_PROVIDERS entries in order. An invalid OIDC_PROVIDERS value is
+ * logged and ignored (environment validation reports it at startup).
+ *
+ * @param env Cloudflare environment bindings
+ * @returns Providers, in display order
+ */
+export function getUpstreamProviders(env: Env): UpstreamProvider[] {
+	const providers: UpstreamProvider[] = [];
+	if (env.GOOGLE_CLIENT_ID) {
+		providers.push(createGoogleProvider(env));
+	}
+
+	try {
+		for (const config of parseOidcProviders(env.OIDC_PROVIDERS)) {
+			providers.push(createOidcProvider(config, env));
+		}
+	} catch (error) {
+		console.error("[OAuth] Ignoring invalid OIDC_PROVIDERS:", error instanceof Error ? error.message : error);
+	}
+
+	return providers;
+}
+
+/**
+ * Get an upstream provider by ID
+ *
+ * @param env Cloudflare environment bindings
+ * @param id Provider ID (default: the first configured provider)
+ * @returns The provider, or undefined if it is not configured
+ */
+export function getUpstreamProvider(env: Env, id?: string): UpstreamProvider | undefined {
+	const providers = getUpstreamProviders(env);
+	return id === undefined ? providers[0] : providers.find((provider) => provider.id === id);
+}
+
+/**
+ * Google OAuth provider (userinfo-based identity)
+ */
+function createGoogleProvider(env: Env): UpstreamProvider {
+	return {
+		id: GOOGLE_PROVIDER_ID,
+		name: "Google",
+
+		async getAuthorizeUrl({ redirectUri, state }) {
+			return getUpstreamAuthorizeUrl({
+				clientId: env.GOOGLE_CLIENT_ID as string,
+				hostedDomain: env.HOSTED_DOMAIN,
+				redirectUri,
+				scope: "email profile",
+				state,
+				upstreamUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+			});
+		},
+
+		async completeLogin({ code, redirectUri }) {
+			if (!env.GOOGLE_CLIENT_ID || !env.GOOGLE_CLIENT_SECRET) {
+				throw new OAuthError("server_error", "Google OAuth not configured", 500);
+			}
+
+			const [accessToken, errorResponse] = await fetchUpstreamAuthToken({
+				clientId: env.GOOGLE_CLIENT_ID,
+				clientSecret: env.GOOGLE_CLIENT_SECRET,
+				code,
+				grantType: "authorization_code",
+				redirectUri,
+				upstreamUrl: "https://accounts.google.com/o/oauth2/token",
+			});
+			if (errorResponse) {
+				throw new OAuthError("server_error", await errorResponse.text(), errorResponse.status);
+			}
+
+			const userResponse = await fetch("https://www.googleapis.com/oauth2/v2/userinfo", {
+				headers: {
+					Authorization: `Bearer ${accessToken}`,
+				},
+			});
+			if (!userResponse.ok) {
+				const errorText = await userResponse.text();
+				throw new OAuthError("server_error", `Failed to fetch user info: ${errorText}`, 500);
+			}
+
+			const { id, name, email } = (await userResponse.json()) as {
+				id: string;
+				name: string;
+				email: string;
+			};
+			return { id, name, email, accessToken };
+		},
+	};
+}
+
+/**
+ * OpenID Connect provider (discovery and JWKS-verified ID tokens)
+ */
+function createOidcProvider(config: OidcProviderConfig, env: Env): UpstreamProvider {
+	return {
+		id: config.id,
+		name: config.name,
+
+		async getAuthorizeUrl({ redirectUri, state, nonce }) {
+			const discovery = await discoverOidcProvider(config.issuer);
+			const url = new URL(discovery.authorization_endpoint);
+			url.searchParams.set("client_id", config.clientId);
+			url.searchParams.set("redirect_uri", redirectUri);
+			url.searchParams.set("scope", config.scopes ?? DEFAULT_OIDC_SCOPES);
+			url.searchParams.set("response_type", "code");
+			url.searchParams.set("state", state);
+			url.searchParams.set("nonce", nonce);
+			return url.href;
+		},
+
+		async completeLogin({ code, redirectUri, nonce }) {
+			const clientSecret = (env as unknown as Record<string, unknown>)[oidcClientSecretName(config.id)];
+			if (typeof clientSecret !== "string" || !clientSecret) {
+				throw new OAuthError(
+					"server_error",
+					`OIDC provider '${config.id}' not configured - missing ${oidcClientSecretName(config.id)}`,
+					500,
+				);
+			}
+
+			const discovery = await discoverOidcProvider(config.issuer);
+			const { accessToken, idToken } = await exchangeOidcCode({
+				tokenEndpoint: discovery.token_endpoint,
+				clientId: config.clientId,
+				clientSecret,
+				code,
+				redirectUri,
+			});
+			const claims = await verifyIdToken(idToken, {
+				issuer: discovery.issuer,
+				jwksUri: discovery.jwks_uri,
+				clientId: config.clientId,
+				nonce,
+			});
+
+			// Only the verified email claim: preferred_username/upn are not verified addresses
+			const email = claims.email;
+			if (typeof email !== "string" || !email.includes("@")) {
+				throw new OAuthError("access_denied", "ID token has no email address", 403);
+			}
+			if (!isVerifiedEmail(claims)) {
+				throw new OAuthError("access_denied", "Email address is not verified by the identity provider", 403);
+			}
+			const domain = email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+			if (!config.allowedDomains.includes(domain)) {
+				throw new OAuthError(
+					"access_denied",
+					`${config.name} is not permitted to sign in ${domain} accounts`,
+					403,
+				);
+			}
+
+			return {
+				id: `${config.id}:${claims.sub}`,
+				email,
+				name: typeof claims.name === "string" && claims.name ? claims.name : email,
+				accessToken,
+			};
+		},
+	};
+}
+
+/**
+ * Check whether the ID token's email claim is verified
+ *
+ * Uses email_verified, or Entra ID's xms_edov optional claim when
+ * email_verified is absent (Entra ID v2 tokens never carry it).
+ *
+ * @param claims Verified ID token claims
+ * @returns True if the provider vouches for the email address
+ */
+function isVerifiedEmail(claims: IdTokenClaims): boolean {
+	const verified = claims.email_verified ?? claims.xms_edov;
+	return verified === true || verified === "true";
+}
+
+function isHttpsUrl(value: string): boolean {
+	try {
+		return new URL(value).protocol === "https:";
+	} catch {
+		return false;
+	}
+}
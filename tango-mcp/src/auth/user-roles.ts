@@ -0,0 +1,363 @@
+/**
+ * Role-Based Authorization for OAuth Users
+ *
+ * Every OAuth user has one role, which decides which tools are registered
+ * for their sessions and which arguments they may use:
+ * - viewer: aggregate analytics, lookups and detail tools; no CSV export;
+ *   limit up to 25
+ * - analyst: all data tools; no CSV export; limit up to 50
+ * - exporter: all data tools, CSV export and the tools' own maximums
+ * - admin: exporter, plus admin tools and the /admin/ HTTP API
+ *
+ * Resolution (first match wins):
+ * 1. ADMIN_EMAILS → admin
+ * 2. Role assigned to the email (KV)
+ * 3. Role assigned to the email's domain (KV)
+ * 4. @agile6.com accounts → DEFAULT_USER_ROLE (default: "exporter")
+ *
+ * Users matching none of these are not allowed to sign in, so a domain
+ * assignment is also how another Workspace/OIDC domain is admitted.
+ *
+ * Restrictions are expressed as token scopes (see token-scopes.ts), and
+ * enforced the same way: disallowed tools are never registered, and every
+ * call is checked before the tool runs; calls without a `limit` (or
+ * get_vendor_profile's `history_limit`) run with the tool's default capped
+ * at the role's maximum. Tokens created on the self-service
+ * token page carry their creator's restrictions.
+ *
+ * KV layout:
+ * - role:email:{email} → UserRoleAssignment (also stored as metadata)
+ * - role:domain:{domain} → UserRoleAssignment (also stored as metadata)
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Env } from "../types/env.js";
+import { TangoRoleDeniedError } from "../types/errors.js";
+import { getLogger } from "../utils/logger.js";
+import { filterToolRegistrations, wrapToolHandlers } from "../utils/tool-middleware.js";
+import { getTraceId } from "../utils/trace-context.js";
+import { isAdminEmail } from "./mcp-token-admin.js";
+import { applyMaxLimit, checkToolCallScope, isToolAllowed, type MCPTokenScopes } from "./token-scopes.js";
+
+/** Roles, from least to most privileged */
+export const USER_ROLES = ["viewer", "analyst", "exporter", "admin"] as const;
+
+/**
+ * User role
+ */
+export type UserRole = (typeof USER_ROLES)[number];
+
+/** Domain whose users get DEFAULT_USER_ROLE without an assignment */
+export const DEFAULT_ROLE_DOMAIN = "agile6.com";
+
+/** Tools available to viewers */
+export const VIEWER_TOOLS = [
+	"health",
+	"lookup_agency",
+	"get_spending_summary",
+	"get_agency_analytics",
+	"get_vendor_profile",
+	"get_contract_detail",
+	"get_grant_detail",
+	"get_opportunity_detail",
+	"get_forecast_detail",
+] as const;
+
+/** Restrictions per role (undefined = full data access) */
+export const ROLE_SCOPES: Record<UserRole, MCPTokenScopes | undefined> = {
+	viewer: { tools: [...VIEWER_TOOLS], allowExport: false, maxLimit: 25 },
+	analyst: { allowExport: false, maxLimit: 50 },
+	exporter: undefined,
+	admin: undefined,
+};
+
+/**
+ * Role assignment stored in KV
+ */
+export interface UserRoleAssignment {
+	/** Whether the assignment applies to one email or a whole domain */
+	kind: "email" | "domain";
+
+	/** Email address or domain (lowercase) */
+	subject: string;
+
+	/** Assigned role */
+	role: UserRole;
+
+	/** Email of the admin who made the assignment */
+	assignedBy: string;
+
+	/** ISO 8601 timestamp of the assignment */
+	assignedAt: string;
+}
+
+/**
+ * A user's effective role and where it came from
+ */
+export interface ResolvedUserRole {
+	role: UserRole;
+	source: "admin_emails" | "email" | "domain" | "default";
+}
+
+/**
+ * Check whether a value is a role name
+ */
+export function isUserRole(value: unknown): value is UserRole {
+	return typeof value === "string" && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Normalize and validate an assignment subject
+ *
+ * @throws Error if the subject is not a valid email address or domain
+ */
+function normalizeSubject(kind: UserRoleAssignment["kind"], subject: string): string {
+	const normalized = subject.trim().toLowerCase();
+	const valid =
+		kind === "email"
+			? /^[^\s@]+@[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(normalized)
+			: /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(normalized);
+	if (!valid) {
+		throw new Error(`Invalid role assignment ${kind}: '${subject}'`);
+	}
+	return normalized;
+}
+
+/**
+ * Get a role assignment
+ *
+ * @param kind Email or domain assignment
+ * @param subject Email address or domain
+ * @param env Environment configuration
+ * @returns The assignment, or null if there is none
+ */
+export async function getUserRoleAssignment(
+	kind: UserRoleAssignment["kind"],
+	subject: string,
+	env: Env,
+): Promise<UserRoleAssignment | null> {
+	const json = await env.OAUTH_KV?.get(`role:${kind}:${subject.trim().toLowerCase()}`);
+	return json ? (JSON.parse(json) as UserRoleAssignment) : null;
+}
+
+/**
+ * Assign a role to an email address or domain
+ *
+ * @param kind Email or domain assignment
+ * @param subject Email address or domain
+ * @param role Role to assign
+ * @param assignedBy Email of the admin making the assignment
+ * @param env Environment configuration
+ * @returns The stored assignment
+ * @throws Error if OAUTH_KV is missing, or the role or subject is invalid
+ */
+export async function setUserRoleAssignment(
+	kind: UserRoleAssignment["kind"],
+	subject: string,
+	role: UserRole,
+	assignedBy: string,
+	env: Env,
+): Promise<UserRoleAssignment> {
+	if (!env.OAUTH_KV) {
+		throw new Error("OAUTH_KV namespace not configured");
+	}
+	if (!isUserRole(role)) {
+		throw new Error(`Invalid role: '${role}'`);
+	}
+
+	const assignment: UserRoleAssignment = {
+		kind,
+		subject: normalizeSubject(kind, subject),
+		role,
+		assignedBy,
+		assignedAt: new Date().toISOString(),
+	};
+	await env.OAUTH_KV.put(`role:${kind}:${assignment.subject}`, JSON.stringify(assignment), {
+		metadata: assignment,
+	});
+	return assignment;
+}
+
+/**
+ * Remove a role assignment
+ *
+ * @param kind Email or domain assignment
+ * @param subject Email address or domain
+ * @param env Environment configuration
+ * @returns True if an assignment was removed
+ * @throws Error if OAUTH_KV is missing
+ */
+export async function removeUserRoleAssignment(
+	kind: UserRoleAssignment["kind"],
+	subject: string,
+	env: Env,
+): Promise<boolean> {
+	if (!env.OAUTH_KV) {
+		throw new Error("OAUTH_KV namespace not configured");
+	}
+	const existing = await getUserRoleAssignment(kind, subject, env);
+	if (!existing) {
+		return false;
+	}
+	await env.OAUTH_KV.delete(`role:${kind}:${existing.subject}`);
+	return true;
+}
+
+/**
+ * List all role assignments
+ *
+ * @param env Environment configuration
+ * @returns Assignments, email assignments first, sorted by subject
+ */
+export async function listUserRoleAssignments(env: Env): Promise<UserRoleAssignment[]> {
+	if (!env.OAUTH_KV) {
+		return [];
+	}
+
+	const assignments: UserRoleAssignment[] = [];
+	let cursor: string | undefined;
+	do {
+		const page = await env.OAUTH_KV.list<UserRoleAssignment>({ prefix: "role:", cursor });
+		for (const key of page.keys) {
+			if (key.metadata) {
+				assignments.push(key.metadata);
+			}
+		}
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+
+	return assignments.sort((a, b) => a.kind.localeCompare(b.kind) || a.subject.localeCompare(b.subject));
+}
+
+/**
+ * Resolve an OAuth user's role
+ *
+ * KV errors are logged and skipped, so ADMIN_EMAILS and the default domain
+ * keep working when KV is unavailable.
+ *
+ * @param email User's email
+ * @param env Environment configuration (optional; without it only the
+ *   default domain resolves)
+ * @returns The role and its source, or null if the user has no role
+ */
+export async function resolveUserRole(email: string, env?: Env): Promise<ResolvedUserRole | null> {
+	// Not trimmed: an email with trailing characters must not match a domain
+	const normalized = email.toLowerCase();
+	const domain = normalized.includes("@") ? normalized.slice(normalized.lastIndexOf("@") + 1) : "";
+
+	if (env && isAdminEmail(normalized, env)) {
+		return { role: "admin", source: "admin_emails" };
+	}
+
+	if (env?.OAUTH_KV) {
+		try {
+			const byEmail = await getUserRoleAssignment("email", normalized, env);
+			if (byEmail && isUserRole(byEmail.role)) {
+				return { role: byEmail.role, source: "email" };
+			}
+			const byDomain = domain ? await getUserRoleAssignment("domain", domain, env) : null;
+			if (byDomain && isUserRole(byDomain.role)) {
+				return { role: byDomain.role, source: "domain" };
+			}
+		} catch (error) {
+			getLogger().warn("Role assignment lookup failed", {
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+
+	if (domain === DEFAULT_ROLE_DOMAIN) {
+		return { role: getDefaultUserRole(env), source: "default" };
+	}
+	return null;
+}
+
+/**
+ * Role of @agile6.com users without an assignment
+ *
+ * @param env Environment configuration
+ * @returns DEFAULT_USER_ROLE, or "exporter" if unset or invalid
+ */
+export function getDefaultUserRole(env?: Env): UserRole {
+	return isUserRole(env?.DEFAULT_USER_ROLE) ? env.DEFAULT_USER_ROLE : "exporter";
+}
+
+/**
+ * Check a tool call against a role
+ *
+ * @param role User's role
+ * @param toolName Tool name
+ * @param args Tool arguments
+ * @returns Role error, or undefined if the call is allowed
+ */
+export function checkRoleToolCall(
+	role: UserRole,
+	toolName: string,
+	args: unknown,
+): TangoRoleDeniedError | undefined {
+	const denied = checkToolCallScope(ROLE_SCOPES[role], toolName, args);
+	if (!denied) {
+		return undefined;
+	}
+
+	const messages = {
+		tools: `Role '${role}' is not permitted to use ${toolName}`,
+		export: `Role '${role}' is not permitted to export CSV`,
+		max_limit: `${denied.context.parameter} ${denied.context.provided} exceeds the maximum of ${denied.context.max_limit} for role '${role}'`,
+	};
+	return new TangoRoleDeniedError(role, denied.scope, messages[denied.scope], denied.context);
+}
+
+/**
+ * Enforce a role on a server
+ *
+ * Must be called before tools are registered: disallowed tools are not
+ * registered, and each call to the remaining tools is checked.
+ *
+ * @param server MCP server
+ * @param role User's role (undefined = no role restrictions, e.g. MCP tokens)
+ */
+export function enforceUserRole(server: McpServer, role: UserRole | undefined): void {
+	const scopes = role ? ROLE_SCOPES[role] : undefined;
+	if (!role || !scopes) {
+		return;
+	}
+
+	filterToolRegistrations(server, (toolName) => isToolAllowed(scopes, toolName));
+
+	wrapToolHandlers(server, (handler, toolName) => async (...handlerArgs) => {
+		const startTime = Date.now();
+		const denied = checkRoleToolCall(role, toolName, handlerArgs.length > 1 ? handlerArgs[0] : undefined);
+		if (!denied) {
+			if (handlerArgs.length > 1) {
+				handlerArgs[0] = applyMaxLimit(scopes, toolName, handlerArgs[0]);
+			}
+			return handler(...handlerArgs);
+		}
+
+		getLogger().warn("Tool call denied by user role", {
+			tool: toolName,
+			role,
+			restriction: denied.restriction,
+		});
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: JSON.stringify(
+						{
+							...denied.toErrorResponse(),
+							execution: {
+								duration_ms: Date.now() - startTime,
+								trace_id: getTraceId(),
+							},
+						},
+						null,
+						2,
+					),
+				},
+			],
+		};
+	});
+}
@@ -105,4 +105,10 @@ export type Props = {
 	name: string;
 	email: string;
 	accessToken: string;
+	/** Upstream identity provider ID ("google" or an OIDC_PROVIDERS id) */
+	provider?: string;
+	/** Role at sign-in (see user-roles.ts) */
+	role?: string;
+	/** OAuth client the grant was issued to (see connected-apps.ts) */
+	clientId?: string;
 };
@@ -6,8 +6,12 @@
  */
 
 import type { MCPProps } from "../index.js";
+import type { UsageQuotas } from "../security/usage-quota.js";
 import type { Env } from "../types/env.js";
+import { isClientPermitted } from "./connected-apps.js";
 import { verifyMcpAccessToken } from "./mcp-token.js";
+import type { MCPTokenScopes } from "./token-scopes.js";
+import { resolveUserRole, type UserRole } from "./user-roles.js";
 
 /**
  * Result of authentication validation
@@ -25,14 +29,24 @@ export interface AuthValidationResult {
 		name?: string;
 		/** MCP token ID for logging (MCP token only) */
 		tokenId?: string;
+		/** Token owner's user ID (MCP token only) */
+		userId?: string;
 	};
+	/** Token scopes (MCP token only; undefined = full access) */
+	scopes?: MCPTokenScopes;
+	/** Token usage quotas (MCP token only; undefined = none) */
+	quotas?: UsageQuotas;
+	/** User's current role (OAuth only) */
+	role?: UserRole;
 }
 
 /**
  * Validates that request has valid authentication
  *
  * Gateway Model enforcement:
- * 1. Check OAuth first (accessToken + email ending with @agile6.com)
+ * 1. Check OAuth first (accessToken + an email with a role: @agile6.com, or
+ *    an email/domain role assignment; see user-roles.ts), issued to a
+ *    client that is still permitted (see connected-apps.ts)
  * 2. Check MCP token second (mcpAccessToken with full validation)
  * 3. Throw clear error if no valid authentication found
  *
@@ -54,11 +68,19 @@ export async function validateAuthentication(
 			);
 		}
 
-		// Validate email domain (case-insensitive)
-		const emailLower = props.email.toLowerCase();
-		if (!emailLower.endsWith("@agile6.com")) {
+		// Resolve the current role (assignments may have changed since sign-in);
+		// accounts without one are not allowed
+		const resolved = await resolveUserRole(props.email, env);
+		if (!resolved) {
 			throw new Error(
-				`Unauthorized: Only @agile6.com accounts are allowed. Your account: ${props.email}`,
+				`Unauthorized: Only @agile6.com accounts are allowed, unless an administrator has assigned a role to your account or domain. Your account: ${props.email}`,
+			);
+		}
+
+		// Admins may block a client (or stop allowing it) after approval
+		if (props.clientId && env && !(await isClientPermitted(props.clientId, env))) {
+			throw new Error(
+				"Unauthorized: This app has been blocked by an administrator. Use another MCP client or ask an administrator to allow it.",
 			);
 		}
 
@@ -70,6 +92,7 @@ export async function validateAuthentication(
 				email: props.email,
 				name: props.name,
 			},
+			role: resolved.role,
 		};
 	}
 
@@ -79,7 +102,7 @@ export async function validateAuthentication(
 		const validation = await verifyMcpAccessToken(
 			props.mcpAccessToken,
 			env,
-			"unknown",
+			props.clientIp || "unknown",
 		);
 
 		if (!validation.valid) {
@@ -88,7 +111,9 @@ export async function validateAuthentication(
 				malformed: "Invalid token format. Expected format: mcp_v1_...",
 				not_found: "Token not found. It may have been deleted.",
 				revoked: "Token has been revoked and is no longer valid.",
+				expired: "Token has expired. Request a new token from your administrator.",
 				invalid: "Token validation failed.",
+				ip_not_allowed: "Token cannot be used from this IP address.",
 			};
 
 			const errorMessage =
@@ -103,7 +128,10 @@ export async function validateAuthentication(
 			method: "mcp-token",
 			user: {
 				tokenId: validation.tokenId || "unknown",
+				userId: validation.userId,
 			},
+			scopes: validation.tokenData?.scopes,
+			quotas: validation.tokenData?.quotas,
 		};
 	}
 
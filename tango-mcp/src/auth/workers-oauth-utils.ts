@@ -6,6 +6,12 @@ import type {
 	ClientInfo,
 } from "@cloudflare/workers-oauth-provider";
 
+/** Cookie holding the signed list of clients the user has approved */
+const APPROVED_CLIENTS_COOKIE = "__Host-APPROVED_CLIENTS";
+
+/** Lifetime of the approved clients cookie (30 days) */
+const APPROVED_CLIENTS_MAX_AGE_SECONDS = 2592000;
+
 /**
  * OAuth 2.1 compliant error class.
  * Represents errors that occur during OAuth operations with standardized error codes and descriptions.
@@ -54,6 +60,21 @@ export interface OAuthStateResult {
 	stateToken: string;
 }
 
+/**
+ * Upstream sign-in details stored with an OAuth state
+ */
+export interface UpstreamLoginState {
+	/**
+	 * ID of the upstream identity provider the user signed in with
+	 */
+	provider: string;
+
+	/**
+	 * OIDC nonce sent with the authorization request
+	 */
+	nonce: string;
+}
+
 /**
  * Result from validateOAuthState containing the original OAuth request info and cookie to clear
  */
@@ -67,6 +88,11 @@ export interface ValidateStateResult {
 	 * Set-Cookie header value to clear the state cookie
 	 */
 	clearCookie: string;
+
+	/**
+	 * Upstream sign-in details (missing on states created without them)
+	 */
+	upstream?: UpstreamLoginState;
 }
 
 /**
@@ -260,19 +286,25 @@ export function validateCSRFToken(
  * @param oauthReqInfo - OAuth request information to store with the state
  * @param kv - Cloudflare KV namespace for storing OAuth state data
  * @param stateTTL - Time-to-live for OAuth state in seconds (defaults to 600)
+ * @param upstream - Upstream provider and nonce for the callback (optional)
  * @returns Object containing the state token (KV-only validation, no cookie needed)
  */
 export async function createOAuthState(
 	oauthReqInfo: AuthRequest,
 	kv: KVNamespace,
 	stateTTL = 600,
+	upstream?: UpstreamLoginState,
 ): Promise<OAuthStateResult> {
 	const stateToken = crypto.randomUUID();
 
 	// Store state in KV (secure, one-time use, with TTL)
-	await kv.put(`oauth:state:${stateToken}`, JSON.stringify(oauthReqInfo), {
-		expirationTtl: stateTTL,
-	});
+	await kv.put(
+		`oauth:state:${stateToken}`,
+		JSON.stringify(upstream ? { ...oauthReqInfo, upstream } : oauthReqInfo),
+		{
+			expirationTtl: stateTTL,
+		},
+	);
 
 	return { stateToken };
 }
@@ -379,8 +411,11 @@ export async function validateOAuthState(
 	}
 
 	let oauthReqInfo: AuthRequest;
+	let upstream: UpstreamLoginState | undefined;
 	try {
-		oauthReqInfo = JSON.parse(storedDataJson) as AuthRequest;
+		({ upstream, ...oauthReqInfo } = JSON.parse(storedDataJson) as AuthRequest & {
+			upstream?: UpstreamLoginState;
+		});
 	} catch (_e) {
 		throw new OAuthError("server_error", "Invalid state data", 500);
 	}
@@ -391,7 +426,7 @@ export async function validateOAuthState(
 	// Clear the session binding cookie (one-time use per OAuth flow)
 	const clearCookie = `${consentedStateCookieName}=; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=0`;
 
-	return { oauthReqInfo, clearCookie };
+	return { oauthReqInfo, clearCookie, upstream };
 }
 
 /**
@@ -425,20 +460,52 @@ export async function addApprovedClient(
 	clientId: string,
 	cookieSecret: string,
 ): Promise<string> {
-	const approvedClientsCookieName = "__Host-APPROVED_CLIENTS";
-	const THIRTY_DAYS_IN_SECONDS = 2592000;
-
 	const existingApprovedClients =
 		(await getApprovedClientsFromCookie(request, cookieSecret)) || [];
 	const updatedApprovedClients = Array.from(
 		new Set([...existingApprovedClients, clientId]),
 	);
 
-	const payload = JSON.stringify(updatedApprovedClients);
+	return approvedClientsCookie(updatedApprovedClients, cookieSecret);
+}
+
+/**
+ * Removes a client from the user's list of approved clients, so the next
+ * authorization shows the approval dialog again
+ * @param request - The HTTP request containing existing cookies
+ * @param clientId - The OAuth client ID to remove
+ * @param cookieSecret - Secret key used for signing and verifying cookie data
+ * @returns Set-Cookie header value with the updated approved clients list
+ */
+export async function removeApprovedClient(
+	request: Request,
+	clientId: string,
+	cookieSecret: string,
+): Promise<string> {
+	const existingApprovedClients =
+		(await getApprovedClientsFromCookie(request, cookieSecret)) || [];
+	const updatedApprovedClients = existingApprovedClients.filter(
+		(approvedClientId) => approvedClientId !== clientId,
+	);
+
+	return approvedClientsCookie(updatedApprovedClients, cookieSecret);
+}
+
+/**
+ * Builds the Set-Cookie header value for a list of approved clients
+ * @param approvedClients - Client IDs the user has approved
+ * @param cookieSecret - Secret key used for signing the cookie data
+ * @returns Set-Cookie header value
+ */
+async function approvedClientsCookie(
+	approvedClients: string[],
+	cookieSecret: string,
+): Promise<string> {
+	const payload = JSON.stringify(approvedClients);
 	const signature = await signData(payload, cookieSecret);
 	const cookieValue = `${signature}.${btoa(payload)}`;
 
-	return `${approvedClientsCookieName}=${cookieValue}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=${THIRTY_DAYS_IN_SECONDS}`;
+	return `${APPROVED_CLIENTS_COOKIE}=${cookieValue}; HttpOnly; Secure; Path=/; SameSite=Lax; Max-Age=${APPROVED_CLIENTS_MAX_AGE_SECONDS}`;
 }
 
 /**
@@ -470,6 +537,11 @@ export interface ApprovalDialogOptions {
 	 * Set-Cookie header for the CSRF token
 	 */
 	setCookie: string;
+	/**
+	 * Upstream identity providers to sign in with. With more than one, the
+	 * dialog shows a button per provider that submits its ID as "provider".
+	 */
+	providers?: Array<{ id: string; name: string }>;
 }
 
 /**
@@ -485,7 +557,7 @@ export function renderApprovalDialog(
 	request: Request,
 	options: ApprovalDialogOptions,
 ): Response {
-	const { client, server, state, csrfToken, setCookie } = options;
+	const { client, server, state, csrfToken, setCookie, providers = [] } = options;
 
 	const encodedState = btoa(JSON.stringify(state));
 
@@ -648,6 +720,7 @@ export function renderApprovalDialog(
           .actions {
             display: flex;
             justify-content: flex-end;
+            flex-wrap: wrap;
             gap: 1rem;
             margin-top: 2rem;
           }
@@ -802,7 +875,16 @@ export function renderApprovalDialog(
 
               <div class="actions">
                 <button type="button" class="button button-secondary" onclick="window.history.back()">Cancel</button>
-                <button type="submit" class="button button-primary">Approve</button>
+                ${
+									providers.length > 1
+										? providers
+												.map(
+													(provider) =>
+														`<button type="submit" name="provider" value="${sanitizeText(provider.id)}" class="button button-primary">Approve with ${sanitizeText(provider.name)}</button>`,
+												)
+												.join("")
+										: `<button type="submit" class="button button-primary">Approve</button>`
+								}
               </div>
             </form>
           </div>
@@ -827,20 +909,18 @@ async function getApprovedClientsFromCookie(
 	request: Request,
 	cookieSecret: string,
 ): Promise<string[] | null> {
-	const approvedClientsCookieName = "__Host-APPROVED_CLIENTS";
-
 	const cookieHeader = request.headers.get("Cookie");
 	if (!cookieHeader) return null;
 
 	const cookies = cookieHeader.split(";").map((c) => c.trim());
 	const targetCookie = cookies.find((c) =>
-		c.startsWith(`${approvedClientsCookieName}=`),
+		c.startsWith(`${APPROVED_CLIENTS_COOKIE}=`),
 	);
 
 	if (!targetCookie) return null;
 
 	const cookieValue = targetCookie.substring(
-		approvedClientsCookieName.length + 1,
+		APPROVED_CLIENTS_COOKIE.length + 1,
 	);
 	const parts = cookieValue.split(".");
 
@@ -867,7 +947,13 @@ async function getApprovedClientsFromCookie(
 	}
 }
 
-async function signData(data: string, secret: string): Promise<string> {
+/**
+ * Signs data with HMAC-SHA256
+ * @param data - The data to sign
+ * @param secret - Secret key used for signing
+ * @returns Hex-encoded signature
+ */
+export async function signData(data: string, secret: string): Promise<string> {
 	const key = await importKey(secret);
 	const enc = new TextEncoder();
 	const signatureBuffer = await crypto.subtle.sign(
@@ -880,7 +966,14 @@ async function signData(data: string, secret: string): Promise<string> {
 		.join("");
 }
 
-async function verifySignature(
+/**
+ * Verifies an HMAC-SHA256 signature created by signData
+ * @param signatureHex - Hex-encoded signature
+ * @param data - The signed data
+ * @param secret - Secret key used for signing
+ * @returns True if the signature is valid
+ */
+export async function verifySignature(
 	signatureHex: string,
 	data: string,
 	secret: string,
@@ -0,0 +1,411 @@
+/**
+ * Cache Statistics
+ *
+ * Incremental cache counters, so health checks and the admin stats view
+ * never have to list every key in the namespace.
+ *
+ * Design:
+ * - Each isolate counts hits, misses, stale hits, memory-tier hits, writes
+ *   and evictions by key prefix (tool name) in memory
+ * - Counters are flushed to KV under "cache_stats:{isolate_id}" at most
+ *   every 30 seconds (in the background, via ctx.waitUntil); snapshots
+ *   expire after 24 hours of inactivity
+ * - Readers merge the per-isolate snapshots, so each isolate only ever
+ *   writes its own key (no read-modify-write races); the merge of other
+ *   isolates' snapshots is reused for 30 seconds
+ * - Key counts come from a single sampled KV list page, cached for 5 minutes
+ */
+
+import { SCHEMA_DRIFT_KEY_PREFIX } from "@/api/schema-drift";
+import { FIXTURE_KEY_PREFIX } from "@/api/transport";
+
+/**
+ * Cache tier that served a hit
+ */
+export type CacheTier = "memory" | "kv";
+
+/**
+ * Countable cache events
+ */
+export type CacheEvent = "hit" | "stale_hit" | "miss" | "write" | "eviction";
+
+/**
+ * Counters for one key prefix
+ */
+export interface CacheCounters {
+	hits: number;
+	misses: number;
+	stale_hits: number;
+	/** Hits served by the memory tier (subset of hits) */
+	memory_hits: number;
+	writes: number;
+	/** Memory tier evictions (KV expiry is not observable) */
+	evictions: number;
+}
+
+/**
+ * Cache metrics snapshot
+ */
+export interface CacheMetrics extends CacheCounters {
+	/** Hits divided by lookups (0 when there were no lookups) */
+	hit_rate: number;
+	/** Counters by key prefix (tool name) */
+	by_prefix: Record<string, CacheCounters & { hit_rate: number }>;
+	/** When counting started (ISO 8601) */
+	since: string;
+}
+
+/**
+ * Metrics merged across isolates
+ */
+export interface AggregatedCacheMetrics extends CacheMetrics {
+	/** Number of isolate snapshots merged */
+	isolates: number;
+}
+
+/**
+ * Sampled key counts
+ */
+export interface KeyCountSample {
+	/** Keys seen in the sample */
+	sampled_keys: number;
+	/** Sampled keys by prefix */
+	by_prefix: Record<string, number>;
+	/** True if the sample covered the whole namespace */
+	complete: boolean;
+	/** When the sample was taken (ISO 8601) */
+	sampled_at: string;
+}
+
+/**
+ * KV key prefix for per-isolate counter snapshots
+ */
+export const CACHE_STATS_KEY_PREFIX = "cache_stats:";
+
+/** Minimum time between counter flushes per isolate */
+const FLUSH_INTERVAL_MS = 30_000;
+
+/** Snapshot lifetime in KV */
+const SNAPSHOT_TTL_SECONDS = 86400;
+
+/** Keys listed per key-count sample (one KV list page) */
+const KEY_SAMPLE_LIMIT = 1000;
+
+/** How long a key-count sample is reused */
+const KEY_SAMPLE_TTL_MS = 5 * 60 * 1000;
+
+/** How long the merged snapshots of other isolates are reused */
+const PEER_SNAPSHOTS_TTL_MS = 30_000;
+
+/**
+ * Stored counter snapshot
+ */
+interface CounterSnapshot {
+	total: CacheCounters;
+	by_prefix: Record<string, CacheCounters>;
+	since: string;
+	updated_at: string;
+}
+
+/**
+ * Counters merged from other isolates' snapshots
+ */
+interface PeerSnapshots {
+	total: CacheCounters;
+	by_prefix: Map<string, CacheCounters>;
+	/** Earliest snapshot start (ms), if any */
+	since?: number;
+	isolates: number;
+}
+
+/**
+ * Identifies this isolate's snapshot key
+ * Generated lazily: Workers don't allow random values in global scope
+ */
+let isolateId: string | undefined;
+
+/**
+ * Get this isolate's snapshot key
+ */
+function ownSnapshotKey(): string {
+	isolateId ??= crypto.randomUUID();
+	return `${CACHE_STATS_KEY_PREFIX}${isolateId}`;
+}
+
+/**
+ * Per-isolate counters
+ */
+let counterState = createCounterState();
+
+/** Cached key-count sample */
+let keySample: { sample: KeyCountSample; takenAt: number } | undefined;
+
+/** Cached merge of other isolates' snapshots */
+let peerSnapshots: { merged: PeerSnapshots; takenAt: number } | undefined;
+
+/**
+ * Create empty counter state
+ */
+function createCounterState(): {
+	total: CacheCounters;
+	byPrefix: Map<string, CacheCounters>;
+	since: number;
+	lastFlushAt: number;
+	dirty: boolean;
+} {
+	return {
+		total: emptyCounters(),
+		byPrefix: new Map<string, CacheCounters>(),
+		since: Date.now(),
+		lastFlushAt: Date.now(),
+		dirty: false,
+	};
+}
+
+/**
+ * Create a zeroed counter set
+ */
+function emptyCounters(): CacheCounters {
+	return { hits: 0, misses: 0, stale_hits: 0, memory_hits: 0, writes: 0, evictions: 0 };
+}
+
+/**
+ * Compute hit rate rounded to three decimals
+ */
+function hitRate(counters: CacheCounters): number {
+	const lookups = counters.hits + counters.misses;
+	return lookups === 0 ? 0 : Math.round((counters.hits / lookups) * 1000) / 1000;
+}
+
+/**
+ * Add counters from one set into another
+ */
+function addCounters(target: CacheCounters, source: CacheCounters): void {
+	for (const field of Object.keys(target) as Array<keyof CacheCounters>) {
+		target[field] += source[field] ?? 0;
+	}
+}
+
+/**
+ * Build a metrics snapshot from totals and per-prefix counters
+ */
+function toMetrics(
+	total: CacheCounters,
+	byPrefix: Iterable<[string, CacheCounters]>,
+	since: number,
+): CacheMetrics {
+	const prefixes: CacheMetrics["by_prefix"] = {};
+	for (const [prefix, counters] of byPrefix) {
+		prefixes[prefix] = { ...counters, hit_rate: hitRate(counters) };
+	}
+
+	return {
+		...total,
+		hit_rate: hitRate(total),
+		by_prefix: prefixes,
+		since: new Date(since).toISOString(),
+	};
+}
+
+/**
+ * Record a cache event
+ *
+ * @param key Cache key the event applies to
+ * @param event Event type
+ * @param tier Tier that served the hit (hits only)
+ */
+export function recordCacheEvent(key: string, event: CacheEvent, tier?: CacheTier): void {
+	const prefix = key.split(":")[0];
+	let prefixCounters = counterState.byPrefix.get(prefix);
+	if (!prefixCounters) {
+		prefixCounters = emptyCounters();
+		counterState.byPrefix.set(prefix, prefixCounters);
+	}
+
+	for (const counters of [counterState.total, prefixCounters]) {
+		switch (event) {
+			case "miss":
+				counters.misses++;
+				break;
+			case "write":
+				counters.writes++;
+				break;
+			case "eviction":
+				counters.evictions++;
+				break;
+			default:
+				counters.hits++;
+				if (event === "stale_hit") {
+					counters.stale_hits++;
+				}
+				if (tier === "memory") {
+					counters.memory_hits++;
+				}
+		}
+	}
+	counterState.dirty = true;
+}
+
+/**
+ * Get cache metrics for this isolate
+ *
+ * @returns Metrics snapshot
+ */
+export function getCacheMetrics(): CacheMetrics {
+	return toMetrics(counterState.total, counterState.byPrefix, counterState.since);
+}
+
+/**
+ * Reset cache metrics and the key-count sample (for testing only)
+ * Should not be used in production code
+ */
+export function resetCacheMetrics(): void {
+	counterState = createCounterState();
+	keySample = undefined;
+	peerSnapshots = undefined;
+}
+
+/**
+ * Check whether this isolate has unflushed counters older than the flush interval
+ */
+export function isCacheStatsFlushDue(): boolean {
+	return counterState.dirty && Date.now() - counterState.lastFlushAt >= FLUSH_INTERVAL_MS;
+}
+
+/**
+ * Write this isolate's counters to KV
+ *
+ * @param kv KV namespace holding the snapshots
+ */
+export async function flushCacheStats(kv: KVNamespace): Promise<void> {
+	counterState.lastFlushAt = Date.now();
+	counterState.dirty = false;
+
+	const snapshot: CounterSnapshot = {
+		total: counterState.total,
+		by_prefix: Object.fromEntries(counterState.byPrefix),
+		since: new Date(counterState.since).toISOString(),
+		updated_at: new Date().toISOString(),
+	};
+
+	await kv.put(ownSnapshotKey(), JSON.stringify(snapshot), {
+		expirationTtl: SNAPSHOT_TTL_SECONDS,
+	});
+}
+
+/**
+ * Merge the stored snapshots of every other isolate
+ *
+ * Lists every snapshot key (all pages) and reads each snapshot; the result
+ * is reused for 30 seconds so frequent health checks don't repeat the reads.
+ *
+ * @param kv KV namespace holding the snapshots
+ * @returns Merged counters
+ */
+async function readPeerSnapshots(kv: KVNamespace): Promise<PeerSnapshots> {
+	if (peerSnapshots && Date.now() - peerSnapshots.takenAt < PEER_SNAPSHOTS_TTL_MS) {
+		return peerSnapshots.merged;
+	}
+
+	const merged: PeerSnapshots = { total: emptyCounters(), by_prefix: new Map(), isolates: 0 };
+	const ownKey = ownSnapshotKey();
+	let cursor: string | undefined;
+	do {
+		const page: KVNamespaceListResult<unknown> = await kv.list({ prefix: CACHE_STATS_KEY_PREFIX, cursor });
+		const snapshots = await Promise.all(
+			page.keys
+				.filter((key) => key.name !== ownKey)
+				.map((key) => kv.get<CounterSnapshot>(key.name, "json")),
+		);
+
+		for (const snapshot of snapshots) {
+			if (!snapshot) {
+				continue;
+			}
+			merged.isolates++;
+			addCounters(merged.total, snapshot.total);
+			for (const [prefix, counters] of Object.entries(snapshot.by_prefix)) {
+				const existing = merged.by_prefix.get(prefix) ?? emptyCounters();
+				addCounters(existing, counters);
+				merged.by_prefix.set(prefix, existing);
+			}
+			const snapshotSince = Date.parse(snapshot.since);
+			if (!Number.isNaN(snapshotSince)) {
+				merged.since = Math.min(merged.since ?? snapshotSince, snapshotSince);
+			}
+		}
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+
+	peerSnapshots = { merged, takenAt: Date.now() };
+	return merged;
+}
+
+/**
+ * Read counters merged across all isolates
+ *
+ * Uses this isolate's live counters in place of its (possibly older)
+ * stored snapshot; other isolates' snapshots may be up to 30 seconds old.
+ *
+ * @param kv KV namespace holding the snapshots
+ * @returns Aggregated metrics
+ */
+export async function readAggregatedCacheMetrics(kv: KVNamespace): Promise<AggregatedCacheMetrics> {
+	const peers = await readPeerSnapshots(kv);
+
+	const total = { ...counterState.total };
+	addCounters(total, peers.total);
+	const byPrefix = new Map<string, CacheCounters>();
+	for (const [prefix, counters] of counterState.byPrefix) {
+		byPrefix.set(prefix, { ...counters });
+	}
+	for (const [prefix, counters] of peers.by_prefix) {
+		const existing = byPrefix.get(prefix) ?? emptyCounters();
+		addCounters(existing, counters);
+		byPrefix.set(prefix, existing);
+	}
+	const since = Math.min(counterState.since, peers.since ?? counterState.since);
+
+	return { ...toMetrics(total, byPrefix, since), isolates: peers.isolates + 1 };
+}
+
+/**
+ * Count keys by prefix from a single sampled KV list page
+ *
+ * The sample is reused for 5 minutes. Counter snapshots, schema drift
+ * snapshots and recorded transport fixtures are excluded.
+ *
+ * @param kv KV namespace to sample
+ * @returns Key-count sample
+ */
+export async function sampleKeyCounts(kv: KVNamespace): Promise<KeyCountSample> {
+	if (keySample && Date.now() - keySample.takenAt < KEY_SAMPLE_TTL_MS) {
+		return keySample.sample;
+	}
+
+	const list = await kv.list({ limit: KEY_SAMPLE_LIMIT });
+	const byPrefix: Record<string, number> = {};
+	let sampledKeys = 0;
+
+	for (const key of list.keys) {
+		if (
+			key.name.startsWith(CACHE_STATS_KEY_PREFIX) ||
+			key.name.startsWith(SCHEMA_DRIFT_KEY_PREFIX) ||
+			key.name.startsWith(FIXTURE_KEY_PREFIX)
+		) {
+			continue;
+		}
+		sampledKeys++;
+		const prefix = key.name.split(":")[0];
+		byPrefix[prefix] = (byPrefix[prefix] || 0) + 1;
+	}
+
+	const sample: KeyCountSample = {
+		sampled_keys: sampledKeys,
+		by_prefix: byPrefix,
+		complete: list.list_complete,
+		sampled_at: new Date().toISOString(),
+	};
+	keySample = { sample, takenAt: Date.now() };
+	return sample;
+}
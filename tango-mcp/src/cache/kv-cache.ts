@@ -4,15 +4,62 @@
  * Manages caching of API responses in Cloudflare KV storage.
  * Features:
  * - Cache-aside pattern
+ * - Two tiers: in-isolate memory LRU (see memory-tier.ts) in front of KV
  * - Configurable TTL (default 300s from environment)
+ * - Per-endpoint TTL policy (see ttl-policy.ts), overridable via env or KV
+ * - Soft/hard TTL: entries past the soft TTL are served as stale until the hard TTL
+ * - Background revalidation via ctx.waitUntil (stale-while-revalidate)
  * - JSON serialization/deserialization
  * - Graceful error handling
  * - Pattern-based invalidation
+ * - Incremental hit/miss/write/eviction counters (see cache-stats.ts)
  *
  * Design: Defense in depth - cache failures should never break the application
  */
 
 import type { Env } from "@/types/env";
+import {
+	DEFAULT_TTL_RULES,
+	parseTtlRules,
+	resolveTtl,
+	TTL_POLICY_KV_KEY,
+	type TtlPolicy,
+	type TtlRules,
+} from "@/cache/ttl-policy";
+import { getMemoryTier, type MemoryTier, type MemoryTierSnapshot } from "@/cache/memory-tier";
+import {
+	type AggregatedCacheMetrics,
+	type CacheTier,
+	flushCacheStats,
+	isCacheStatsFlushDue,
+	type KeyCountSample,
+	readAggregatedCacheMetrics,
+	recordCacheEvent,
+	sampleKeyCounts,
+} from "@/cache/cache-stats";
+
+export type { CacheTier } from "@/cache/cache-stats";
+
+/**
+ * Cache statistics for health checks and the admin stats view
+ */
+export interface CacheStats {
+	/** Keys in the sampled list page */
+	total_keys: number;
+	/** Sampled keys by prefix (tool name) */
+	by_prefix: Record<string, number>;
+	/** Key-count sample details */
+	key_sample: Pick<KeyCountSample, "complete" | "sampled_at">;
+	/** Hit/miss/write/eviction counters merged across isolates */
+	metrics?: AggregatedCacheMetrics;
+	/** Memory tier occupancy for this isolate */
+	memory_tier: MemoryTierSnapshot;
+}
+
+/**
+ * How long a loaded TTL policy is reused before re-reading KV overrides
+ */
+const TTL_POLICY_REFRESH_MS = 5 * 60 * 1000;
 
 /**
  * Cache entry metadata
@@ -22,8 +69,10 @@ interface CacheEntry<T> {
 	data: T;
 	/** Timestamp when cached (ISO 8601) */
 	cached_at: string;
-	/** TTL in seconds */
+	/** Soft TTL in seconds (entry is fresh until this age) */
 	ttl_seconds: number;
+	/** Hard TTL in seconds (KV expiration; stale entries are servable until this age) */
+	hard_ttl_seconds?: number;
 }
 
 /**
@@ -36,10 +85,24 @@ interface CacheResult<T> {
 	data?: T;
 	/** Whether this was a cache hit */
 	hit?: boolean;
+	/** Whether the hit is past its soft TTL (servable, but should be refreshed) */
+	stale?: boolean;
+	/** Age of the cached entry in seconds (for hits) */
+	age_seconds?: number;
+	/** Tier that served the hit */
+	tier?: CacheTier;
 	/** Error message (if failed) */
 	error?: string;
 }
 
+/**
+ * Minimal execution context for scheduling background work
+ * Satisfied by both ExecutionContext and DurableObjectState
+ */
+export interface BackgroundContext {
+	waitUntil(promise: Promise<unknown>): void;
+}
+
 /**
  * Cache Manager for KV storage
  *
@@ -48,26 +111,47 @@ interface CacheResult<T> {
  */
 export class CacheManager {
 	private readonly kv: KVNamespace;
+	private readonly memory: MemoryTier;
 	private readonly defaultTtl: number;
+	private readonly staleTtl: number;
+	private readonly envTtlRules?: TtlRules;
+	private readonly ctx?: BackgroundContext;
+	private ttlPolicy?: { policy: TtlPolicy; loadedAt: number };
 
 	/**
 	 * Create a new CacheManager instance
 	 *
 	 * @param env Cloudflare Workers environment bindings
+	 * @param ctx Optional execution context for background revalidation
 	 */
-	constructor(env: Env) {
+	constructor(env: Env, ctx?: BackgroundContext) {
 		this.kv = env.TANGO_CACHE;
+		this.memory = getMemoryTier(env);
+		this.ctx = ctx;
 		// Parse TTL from environment or use default (5 minutes)
 		this.defaultTtl = env.CACHE_TTL_SECONDS
 			? Number.parseInt(env.CACHE_TTL_SECONDS, 10)
 			: 300;
+		// Stale window past the soft TTL (default 1 hour)
+		this.staleTtl = env.CACHE_STALE_TTL_SECONDS
+			? Number.parseInt(env.CACHE_STALE_TTL_SECONDS, 10)
+			: 3600;
+		// Per-endpoint TTL overrides from environment (JSON object)
+		this.envTtlRules = env.CACHE_TTL_POLICY
+			? parseTtlRules(env.CACHE_TTL_POLICY)
+			: undefined;
 	}
 
 	/**
 	 * Get value from cache
 	 *
+	 * Checks the in-isolate memory tier first, then KV (promoting KV hits
+	 * into memory). Entries older than their soft TTL are still returned
+	 * (until they expire at the hard TTL) but flagged as stale so callers
+	 * can revalidate.
+	 *
 	 * @param key Cache key
-	 * @returns Cache result with data if found
+	 * @returns Cache result with data, staleness, age and serving tier if found
 	 *
 	 * @example
 	 * ```typescript
@@ -81,23 +165,61 @@ export class CacheManager {
 	 */
 	async get<T>(key: string): Promise<CacheResult<T>> {
 		try {
-			// Retrieve from KV
-			const cached = await this.kv.get<CacheEntry<T>>(key, "json");
+			// Try the memory tier, then fall back to KV
+			let tier: CacheTier = "memory";
+			let raw: string | null | undefined = this.memory.get(key);
+			if (raw === undefined) {
+				tier = "kv";
+				raw = await this.kv.get(key);
+			}
 
-			if (!cached) {
+			if (!raw) {
+				recordCacheEvent(key, "miss");
 				return {
 					success: true,
 					hit: false,
 				};
 			}
 
+			const cached = JSON.parse(raw) as CacheEntry<T>;
+
+			// Compute age to decide freshness against the soft TTL
+			const cachedAt = Date.parse(cached.cached_at);
+			if (Number.isNaN(cachedAt)) {
+				recordCacheEvent(key, "hit", tier);
+				return {
+					success: true,
+					hit: true,
+					data: cached.data,
+					stale: false,
+					tier,
+				};
+			}
+			const ageSeconds = Math.max(0, Math.floor((Date.now() - cachedAt) / 1000));
+			const stale = ageSeconds >= cached.ttl_seconds;
+			recordCacheEvent(key, stale ? "stale_hit" : "hit", tier);
+			this.scheduleStatsFlush();
+
+			// Promote KV hits into memory for the rest of the entry's lifetime
+			if (tier === "kv") {
+				const remaining = (cached.hard_ttl_seconds ?? cached.ttl_seconds) - ageSeconds;
+				if (remaining > 0) {
+					this.memory.set(key, raw, remaining);
+				}
+			}
+
 			// Return cached data
 			return {
 				success: true,
 				hit: true,
 				data: cached.data,
+				stale,
+				age_seconds: ageSeconds,
+				tier,
 			};
 		} catch (error) {
+			recordCacheEvent(key, "miss");
+
 			// Log error but don't fail - cache misses should be transparent
 			console.error("Cache get error:", {
 				key,
@@ -115,9 +237,13 @@ export class CacheManager {
 	/**
 	 * Set value in cache
 	 *
+	 * The soft TTL controls freshness; the entry stays in KV for an extra
+	 * stale window (CACHE_STALE_TTL_SECONDS) so it can be served on upstream
+	 * failure or while revalidating.
+	 *
 	 * @param key Cache key
 	 * @param value Value to cache
-	 * @param ttl Time-to-live in seconds (optional, uses default if not provided)
+	 * @param ttl Soft time-to-live in seconds (optional, uses default if not provided)
 	 * @returns Success status
 	 *
 	 * @example
@@ -127,17 +253,26 @@ export class CacheManager {
 	 */
 	async set<T>(key: string, value: T, ttl?: number): Promise<CacheResult<T>> {
 		try {
+			const softTtl = ttl ?? this.defaultTtl;
+			// KV requires expirationTtl >= 60 seconds
+			const hardTtl = Math.max(60, softTtl + this.staleTtl);
+
 			// Create cache entry with metadata
 			const entry: CacheEntry<T> = {
 				data: value,
 				cached_at: new Date().toISOString(),
-				ttl_seconds: ttl ?? this.defaultTtl,
+				ttl_seconds: softTtl,
+				hard_ttl_seconds: hardTtl,
 			};
 
-			// Store in KV with expiration
-			await this.kv.put(key, JSON.stringify(entry), {
-				expirationTtl: ttl ?? this.defaultTtl,
+			// Store in both tiers with hard expiration
+			const serialized = JSON.stringify(entry);
+			this.memory.set(key, serialized, hardTtl);
+			await this.kv.put(key, serialized, {
+				expirationTtl: hardTtl,
 			});
+			recordCacheEvent(key, "write");
+			this.scheduleStatsFlush();
 
 			return {
 				success: true,
@@ -157,6 +292,92 @@ export class CacheManager {
 		}
 	}
 
+	/**
+	 * Get configured TTL settings
+	 *
+	 * @returns Soft TTL and stale window in seconds
+	 */
+	getTtlSettings(): { ttl_seconds: number; stale_ttl_seconds: number } {
+		return {
+			ttl_seconds: this.defaultTtl,
+			stale_ttl_seconds: this.staleTtl,
+		};
+	}
+
+	/**
+	 * Get the active per-endpoint TTL policy
+	 *
+	 * Merges default rules, CACHE_TTL_POLICY and the KV override entry
+	 * (in that order). The KV entry is re-read at most every 5 minutes.
+	 *
+	 * @returns Resolved TTL policy
+	 */
+	async getTtlPolicy(): Promise<TtlPolicy> {
+		if (this.ttlPolicy && Date.now() - this.ttlPolicy.loadedAt < TTL_POLICY_REFRESH_MS) {
+			return this.ttlPolicy.policy;
+		}
+
+		const policy: TtlPolicy = {
+			default_ttl_seconds: this.defaultTtl,
+			rules: { ...DEFAULT_TTL_RULES },
+			sources: ["defaults"],
+		};
+
+		if (this.envTtlRules) {
+			Object.assign(policy.rules, this.envTtlRules);
+			policy.sources.push("env");
+		}
+
+		try {
+			const kvRules = parseTtlRules(await this.kv.get(TTL_POLICY_KV_KEY));
+			if (kvRules) {
+				Object.assign(policy.rules, kvRules);
+				policy.sources.push("kv");
+			}
+		} catch (error) {
+			// Fall back to defaults/env - a broken override must not break caching
+			console.error("Cache TTL policy load error:", {
+				error: String(error),
+			});
+		}
+
+		this.ttlPolicy = { policy, loadedAt: Date.now() };
+		return policy;
+	}
+
+	/**
+	 * Get the TTL for an endpoint according to the active policy
+	 *
+	 * @param toolName Tool name derived from the endpoint (e.g., "contracts_ABC123")
+	 * @returns TTL in seconds
+	 */
+	async getTtlFor(toolName: string): Promise<number> {
+		return resolveTtl(await this.getTtlPolicy(), toolName);
+	}
+
+	/**
+	 * Schedule background work (e.g., revalidating a stale entry)
+	 *
+	 * Uses ctx.waitUntil so the work outlives the current response.
+	 *
+	 * @param task Function starting the work (only called if it can be scheduled)
+	 * @returns True if scheduled, false if no execution context is available
+	 */
+	runInBackground(task: () => Promise<unknown>): boolean {
+		if (!this.ctx) {
+			return false;
+		}
+
+		this.ctx.waitUntil(
+			task().catch((error) => {
+				console.error("Cache background task error:", {
+					error: String(error),
+				});
+			}),
+		);
+		return true;
+	}
+
 	/**
 	 * Invalidate (delete) a specific cache entry
 	 *
@@ -170,6 +391,7 @@ export class CacheManager {
 	 */
 	async invalidate(key: string): Promise<CacheResult<never>> {
 		try {
+			this.memory.delete(key);
 			await this.kv.delete(key);
 
 			return {
@@ -208,6 +430,8 @@ export class CacheManager {
 			let count = 0;
 			let cursor: string | undefined;
 
+			this.memory.deletePrefix(pattern);
+
 			// List all keys with prefix
 			do {
 				const list = await this.kv.list({ prefix: pattern, cursor });
@@ -242,39 +466,26 @@ export class CacheManager {
 	/**
 	 * Get cache statistics
 	 *
-	 * Note: KV doesn't provide native stats, so this lists all keys
-	 * which can be slow. Use sparingly or only in health checks.
+	 * Reads incremental counters and a sampled key count rather than listing
+	 * every key, so it is cheap enough to call from every health probe.
 	 *
 	 * @returns Cache statistics
 	 */
-	async getStats(): Promise<{
-		total_keys: number;
-		by_prefix: Record<string, number>;
-	}> {
-		try {
-			let totalKeys = 0;
-			const byPrefix: Record<string, number> = {};
-			let cursor: string | undefined;
-
-			// List all keys
-			do {
-				const list = await this.kv.list({ cursor });
-
-				for (const key of list.keys) {
-					totalKeys++;
-
-					// Extract prefix (before first colon)
-					const prefix = key.name.split(":")[0];
-					byPrefix[prefix] = (byPrefix[prefix] || 0) + 1;
-				}
+	async getStats(): Promise<CacheStats> {
+		const memoryTier = this.memory.getSnapshot();
 
-				// Check if there are more results
-				cursor = list.list_complete ? undefined : list.cursor;
-			} while (cursor);
+		try {
+			const [sample, metrics] = await Promise.all([
+				sampleKeyCounts(this.kv),
+				readAggregatedCacheMetrics(this.kv),
+			]);
 
 			return {
-				total_keys: totalKeys,
-				by_prefix: byPrefix,
+				total_keys: sample.sampled_keys,
+				by_prefix: sample.by_prefix,
+				key_sample: { complete: sample.complete, sampled_at: sample.sampled_at },
+				metrics,
+				memory_tier: memoryTier,
 			};
 		} catch (error) {
 			console.error("Cache getStats error:", error);
@@ -282,10 +493,24 @@ export class CacheManager {
 			return {
 				total_keys: 0,
 				by_prefix: {},
+				key_sample: { complete: false, sampled_at: new Date().toISOString() },
+				memory_tier: memoryTier,
 			};
 		}
 	}
 
+	/**
+	 * Flush this isolate's counters to KV in the background when due
+	 *
+	 * Only runs with an execution context, so flushes never add latency
+	 * to the request that triggered them.
+	 */
+	private scheduleStatsFlush(): void {
+		if (this.ctx && isCacheStatsFlushDue()) {
+			this.runInBackground(() => flushCacheStats(this.kv));
+		}
+	}
+
 	/**
 	 * Check if cache is available and operational
 	 *
@@ -312,8 +537,9 @@ export class CacheManager {
  * Create a CacheManager instance
  *
  * @param env Cloudflare Workers environment bindings
+ * @param ctx Optional execution context for background revalidation
  * @returns CacheManager instance
  */
-export function createCacheManager(env: Env): CacheManager {
-	return new CacheManager(env);
+export function createCacheManager(env: Env, ctx?: BackgroundContext): CacheManager {
+	return new CacheManager(env, ctx);
 }
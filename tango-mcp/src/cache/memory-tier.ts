@@ -0,0 +1,224 @@
+/**
+ * In-Isolate Memory Cache Tier
+ *
+ * Bounded LRU held in isolate memory, layered in front of Workers KV by
+ * CacheManager. Repeated lookups for keys this isolate has already read or
+ * written skip the KV round trip and read cost.
+ *
+ * Design:
+ * - Bounded by entry count and by total serialized size in bytes
+ * - Least recently used entries are evicted first (Map insertion order)
+ * - Values are stored serialized, so callers can't mutate shared entries
+ * - Entries expire at their hard expiry, like the KV copy
+ * - Per isolate (not shared across Workers), like the rate limiter
+ */
+
+import type { Env } from "@/types/env";
+import { recordCacheEvent } from "@/cache/cache-stats";
+
+/**
+ * Memory tier limits
+ */
+export interface MemoryTierConfig {
+	/** Maximum number of entries (0 disables the tier) */
+	maxEntries: number;
+	/** Maximum total serialized size in bytes */
+	maxBytes: number;
+}
+
+/**
+ * Memory tier status for health reporting
+ */
+export interface MemoryTierSnapshot {
+	entries: number;
+	bytes: number;
+	max_entries: number;
+	max_bytes: number;
+	evictions: number;
+}
+
+/**
+ * Default limits: 500 entries or 8 MiB, whichever is reached first
+ */
+export const DEFAULT_MEMORY_TIER_CONFIG: MemoryTierConfig = {
+	maxEntries: 500,
+	maxBytes: 8 * 1024 * 1024,
+};
+
+/**
+ * Stored entry
+ */
+interface MemoryEntry {
+	/** Serialized value */
+	json: string;
+	/** Size of the serialized value in bytes */
+	bytes: number;
+	/** Expiry timestamp in milliseconds */
+	expiresAt: number;
+}
+
+/**
+ * Bounded LRU cache of serialized values
+ */
+export class MemoryTier {
+	private readonly entries = new Map<string, MemoryEntry>();
+	private totalBytes = 0;
+	private evictions = 0;
+
+	/**
+	 * @param config Tier limits
+	 * @param onEvict Called with the key of each entry evicted for space
+	 */
+	constructor(
+		private readonly config: MemoryTierConfig = DEFAULT_MEMORY_TIER_CONFIG,
+		private readonly onEvict?: (key: string) => void,
+	) {}
+
+	/**
+	 * Get a serialized value and mark it most recently used
+	 *
+	 * @param key Cache key
+	 * @returns Serialized value, or undefined if missing or expired
+	 */
+	get(key: string): string | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) {
+			return undefined;
+		}
+
+		if (Date.now() >= entry.expiresAt) {
+			this.remove(key);
+			return undefined;
+		}
+
+		// Re-insert to move to the most recently used position
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry.json;
+	}
+
+	/**
+	 * Store a serialized value, evicting least recently used entries as needed
+	 *
+	 * Values larger than the whole byte budget are not stored.
+	 *
+	 * @param key Cache key
+	 * @param json Serialized value
+	 * @param ttlSeconds Seconds until the entry expires
+	 */
+	set(key: string, json: string, ttlSeconds: number): void {
+		if (this.config.maxEntries < 1) {
+			return;
+		}
+
+		const bytes = new TextEncoder().encode(json).byteLength;
+		this.remove(key);
+		if (bytes > this.config.maxBytes) {
+			return;
+		}
+
+		while (
+			this.entries.size > 0 &&
+			(this.entries.size >= this.config.maxEntries ||
+				this.totalBytes + bytes > this.config.maxBytes)
+		) {
+			const oldest = this.entries.keys().next().value as string;
+			this.remove(oldest);
+			this.evictions++;
+			this.onEvict?.(oldest);
+		}
+
+		this.entries.set(key, { json, bytes, expiresAt: Date.now() + ttlSeconds * 1000 });
+		this.totalBytes += bytes;
+	}
+
+	/**
+	 * Remove an entry
+	 *
+	 * @param key Cache key
+	 */
+	delete(key: string): void {
+		this.remove(key);
+	}
+
+	/**
+	 * Remove all entries whose key starts with a prefix
+	 *
+	 * @param prefix Key prefix
+	 */
+	deletePrefix(prefix: string): void {
+		for (const key of Array.from(this.entries.keys())) {
+			if (key.startsWith(prefix)) {
+				this.remove(key);
+			}
+		}
+	}
+
+	/**
+	 * Get tier status for health reporting
+	 */
+	getSnapshot(): MemoryTierSnapshot {
+		return {
+			entries: this.entries.size,
+			bytes: this.totalBytes,
+			max_entries: this.config.maxEntries,
+			max_bytes: this.config.maxBytes,
+			evictions: this.evictions,
+		};
+	}
+
+	private remove(key: string): void {
+		const entry = this.entries.get(key);
+		if (entry) {
+			this.entries.delete(key);
+			this.totalBytes -= entry.bytes;
+		}
+	}
+}
+
+/**
+ * Shared memory tier for this isolate
+ * Created lazily so configuration can come from the first env seen
+ */
+let memoryTier: MemoryTier | undefined;
+
+/**
+ * Get the shared memory tier
+ *
+ * @param env Cloudflare Workers environment bindings (used on first call)
+ * @returns Shared MemoryTier instance
+ */
+export function getMemoryTier(env?: Env): MemoryTier {
+	if (!memoryTier) {
+		memoryTier = new MemoryTier(resolveMemoryTierConfig(env), (key) =>
+			recordCacheEvent(key, "eviction"),
+		);
+	}
+	return memoryTier;
+}
+
+/**
+ * Reset the shared memory tier (for testing only)
+ * Should not be used in production code
+ */
+export function resetMemoryTier(): void {
+	memoryTier = undefined;
+}
+
+/**
+ * Build memory tier configuration from environment
+ *
+ * @param env Cloudflare Workers environment bindings
+ * @returns Resolved configuration
+ */
+function resolveMemoryTierConfig(env?: Env): MemoryTierConfig {
+	const parse = (value: string | undefined, fallback: number): number => {
+		const parsed = value ? Number.parseInt(value, 10) : Number.NaN;
+		return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+	};
+
+	return {
+		maxEntries: parse(env?.CACHE_MEMORY_MAX_ENTRIES, DEFAULT_MEMORY_TIER_CONFIG.maxEntries),
+		maxBytes: parse(env?.CACHE_MEMORY_MAX_BYTES, DEFAULT_MEMORY_TIER_CONFIG.maxBytes),
+	};
+}
@@ -0,0 +1,107 @@
+/**
+ * Cache TTL Policy
+ *
+ * Declarative TTLs keyed by endpoint prefix. The prefix is matched against
+ * the tool name derived from the endpoint in TangoApiClient.get, e.g.:
+ * - "/agencies/" -> "agencies"
+ * - "/contracts/ABC123/" -> "contracts_ABC123"
+ * - "/entities/J3RW5C5KVLZ1/contracts/" -> "entities_J3RW5C5KVLZ1_contracts"
+ *
+ * The longest matching prefix wins, so "contracts_" (detail lookups) takes
+ * precedence over "contracts" (searches). Endpoints with no matching rule
+ * use the default TTL (CACHE_TTL_SECONDS).
+ *
+ * Rules can be overridden (merged on top of the defaults) from:
+ * 1. CACHE_TTL_POLICY environment variable (JSON object)
+ * 2. KV config entry "config:cache_ttl_policy" in TANGO_CACHE (JSON object)
+ * KV overrides win over env overrides, so TTLs can be tuned without a deploy.
+ */
+
+/**
+ * TTL rules: endpoint prefix -> TTL in seconds
+ */
+export type TtlRules = Record<string, number>;
+
+/**
+ * Resolved TTL policy
+ */
+export interface TtlPolicy {
+	/** TTL for endpoints without a matching rule */
+	default_ttl_seconds: number;
+	/** Prefix rules (defaults merged with overrides) */
+	rules: TtlRules;
+	/** Where the rules came from, in merge order */
+	sources: Array<"defaults" | "env" | "kv">;
+}
+
+/**
+ * KV key holding TTL rule overrides
+ */
+export const TTL_POLICY_KV_KEY = "config:cache_ttl_policy";
+
+/**
+ * Default TTL rules
+ *
+ * Reference data (agencies, contract and vendor records) changes rarely;
+ * opportunity and grant searches change throughout the day.
+ */
+export const DEFAULT_TTL_RULES: TtlRules = {
+	agencies: 86400, // 24 hours - agency reference data
+	contracts_: 86400, // 24 hours - contract detail (awarded records)
+	entities_: 21600, // 6 hours - vendor profiles and history
+	forecasts: 1800, // 30 minutes - forecast searches
+	forecasts_: 3600, // 1 hour - forecast detail
+	grants: 900, // 15 minutes - grant searches
+	grants_: 3600, // 1 hour - grant detail
+	opportunities: 600, // 10 minutes - opportunity searches (change hourly)
+	opportunities_: 1800, // 30 minutes - opportunity detail
+	company_rag: 3600, // 1 hour - company intelligence
+};
+
+/**
+ * Parse TTL rule overrides from JSON
+ *
+ * Entries that are not non-negative integers are dropped.
+ *
+ * @param raw JSON string or already-parsed value
+ * @returns Valid rules, or undefined if the input is not a JSON object
+ */
+export function parseTtlRules(raw: unknown): TtlRules | undefined {
+	let value = raw;
+	if (typeof raw === "string") {
+		try {
+			value = JSON.parse(raw);
+		} catch {
+			return undefined;
+		}
+	}
+
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return undefined;
+	}
+
+	const rules: TtlRules = {};
+	for (const [prefix, ttl] of Object.entries(value as Record<string, unknown>)) {
+		if (typeof ttl === "number" && Number.isInteger(ttl) && ttl >= 0) {
+			rules[prefix] = ttl;
+		}
+	}
+	return rules;
+}
+
+/**
+ * Resolve the TTL for a tool name
+ *
+ * @param policy Active TTL policy
+ * @param toolName Tool name derived from the endpoint
+ * @returns TTL in seconds from the longest matching prefix, or the default
+ */
+export function resolveTtl(policy: TtlPolicy, toolName: string): number {
+	let matched: string | undefined;
+	for (const prefix of Object.keys(policy.rules)) {
+		if (toolName.startsWith(prefix) && (!matched || prefix.length > matched.length)) {
+			matched = prefix;
+		}
+	}
+	return matched !== undefined ? policy.rules[matched] : policy.default_ttl_seconds;
+}
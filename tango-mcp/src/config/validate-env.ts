@@ -10,6 +10,14 @@
  */
 
 import type { Env } from "../types/env.js";
+import { parseTtlRules } from "../cache/ttl-policy.js";
+import {
+	type OidcProviderConfig,
+	oidcClientSecretName,
+	parseOidcProviders,
+} from "../auth/upstream-providers.js";
+import { isUserRole, USER_ROLES } from "../auth/user-roles.js";
+import { OAUTH_CLIENT_POLICIES } from "../auth/connected-apps.js";
 
 /**
  * Result of environment validation
@@ -76,14 +84,45 @@ export function validateEnvironment(env: Env): ValidationResult {
 	const hasOAuthClientSecret = !!env.GOOGLE_CLIENT_SECRET;
 	const hasCookieKey = !!env.COOKIE_ENCRYPTION_KEY;
 
-	// Check for partial OAuth configuration
+	// Additional OIDC identity providers
+	let oidcProviders: OidcProviderConfig[] = [];
+	try {
+		oidcProviders = parseOidcProviders(env.OIDC_PROVIDERS);
+	} catch (error) {
+		errors.push(
+			`${error instanceof Error ? error.message : String(error)}. ` +
+				`Got: '${env.OIDC_PROVIDERS}'`,
+		);
+	}
+	for (const provider of oidcProviders) {
+		const secretName = oidcClientSecretName(provider.id);
+		if (!(env as unknown as Record<string, unknown>)[secretName]) {
+			errors.push(
+				`${secretName} is required for OIDC provider '${provider.id}'. ` +
+					`Set via: wrangler secret put ${secretName}`,
+			);
+		}
+	}
+	const hasOidcProviders = oidcProviders.length > 0;
+
+	if (hasOidcProviders && !hasCookieKey && !hasOAuthClientId && !hasOAuthClientSecret) {
+		errors.push(
+			"COOKIE_ENCRYPTION_KEY is required when OIDC_PROVIDERS is configured. " +
+				"Generate with: openssl rand -base64 32, then set via: wrangler secret put COOKIE_ENCRYPTION_KEY",
+		);
+	}
+
+	// Check for partial OAuth configuration (COOKIE_ENCRYPTION_KEY alone is
+	// complete when only OIDC providers are configured)
 	const oauthFieldsConfigured = [
 		hasOAuthClientId,
 		hasOAuthClientSecret,
 		hasCookieKey,
 	].filter(Boolean).length;
+	const onlyOidcConfigured =
+		hasOidcProviders && hasCookieKey && !hasOAuthClientId && !hasOAuthClientSecret;
 
-	if (oauthFieldsConfigured > 0 && oauthFieldsConfigured < 3) {
+	if (oauthFieldsConfigured > 0 && oauthFieldsConfigured < 3 && !onlyOidcConfigured) {
 		// Partial OAuth config - require all OAuth fields
 		if (!hasOAuthClientId) {
 			errors.push(
@@ -126,11 +165,11 @@ export function validateEnvironment(env: Env): ValidationResult {
 		);
 	}
 
-	if (requireAuth && !hasOAuthClientId) {
+	if (requireAuth && !hasOAuthClientId && !hasOidcProviders) {
 		warnings.push(
 			"Authentication is required but OAuth is not configured. " +
 				"Users won't be able to authenticate via Claude Code/Web. " +
-				"Configure GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, and COOKIE_ENCRYPTION_KEY to enable OAuth.",
+				"Configure GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, and COOKIE_ENCRYPTION_KEY (or OIDC_PROVIDERS) to enable OAuth.",
 		);
 	}
 
@@ -162,6 +201,16 @@ export function validateEnvironment(env: Env): ValidationResult {
 		}
 	}
 
+	if (env.MCP_TOKEN_ROTATION_GRACE_HOURS) {
+		const hours = Number.parseInt(env.MCP_TOKEN_ROTATION_GRACE_HOURS, 10);
+		if (Number.isNaN(hours) || hours < 0) {
+			errors.push(
+				"MCP_TOKEN_ROTATION_GRACE_HOURS must be a non-negative integer (hours). " +
+					`Got: '${env.MCP_TOKEN_ROTATION_GRACE_HOURS}'`,
+			);
+		}
+	}
+
 	if (env.ADMIN_EMAILS) {
 		const emails = env.ADMIN_EMAILS.split(",").map((e) => e.trim());
 		const invalidEmails = emails.filter(
@@ -190,6 +239,23 @@ export function validateEnvironment(env: Env): ValidationResult {
 		}
 	}
 
+	if (env.DEFAULT_USER_ROLE !== undefined && !isUserRole(env.DEFAULT_USER_ROLE)) {
+		errors.push(
+			`DEFAULT_USER_ROLE must be one of: ${USER_ROLES.join(", ")}. ` +
+				`Got: '${env.DEFAULT_USER_ROLE}'`,
+		);
+	}
+
+	if (
+		env.OAUTH_CLIENT_POLICY !== undefined &&
+		!(OAUTH_CLIENT_POLICIES as readonly string[]).includes(env.OAUTH_CLIENT_POLICY)
+	) {
+		errors.push(
+			`OAUTH_CLIENT_POLICY must be one of: ${OAUTH_CLIENT_POLICIES.join(", ")}. ` +
+				`Got: '${env.OAUTH_CLIENT_POLICY}'`,
+		);
+	}
+
 	// ==========================================
 	// ALLOWED AUTH METHODS
 	// ==========================================
@@ -226,6 +292,137 @@ export function validateEnvironment(env: Env): ValidationResult {
 		}
 	}
 
+	// Validate CACHE_STALE_TTL_SECONDS
+	if (env.CACHE_STALE_TTL_SECONDS) {
+		const staleTtl = Number.parseInt(env.CACHE_STALE_TTL_SECONDS, 10);
+		if (Number.isNaN(staleTtl) || staleTtl < 0) {
+			errors.push(
+				"CACHE_STALE_TTL_SECONDS must be a non-negative integer (seconds). " +
+					`Got: '${env.CACHE_STALE_TTL_SECONDS}'`,
+			);
+		}
+	}
+
+	// Validate CACHE_TTL_POLICY
+	if (env.CACHE_TTL_POLICY) {
+		const rules = parseTtlRules(env.CACHE_TTL_POLICY);
+		if (!rules) {
+			errors.push(
+				"CACHE_TTL_POLICY must be a JSON object mapping endpoint prefixes to TTL seconds. " +
+					`Got: '${env.CACHE_TTL_POLICY}'`,
+			);
+		} else if (Object.keys(rules).length < Object.keys(JSON.parse(env.CACHE_TTL_POLICY)).length) {
+			warnings.push(
+				"CACHE_TTL_POLICY contains entries that are not non-negative integers. " +
+					"These entries will be ignored.",
+			);
+		}
+	}
+
+	// Validate memory cache tier limits (0 disables the tier)
+	for (const setting of ["CACHE_MEMORY_MAX_ENTRIES", "CACHE_MEMORY_MAX_BYTES"] as const) {
+		const value = env[setting];
+		if (value) {
+			const parsed = Number.parseInt(value, 10);
+			if (Number.isNaN(parsed) || parsed < 0) {
+				errors.push(`${setting} must be a non-negative integer. Got: '${value}'`);
+			}
+		}
+	}
+
+	if (env.CACHE_MEMORY_MAX_BYTES) {
+		const maxBytes = Number.parseInt(env.CACHE_MEMORY_MAX_BYTES, 10);
+		if (maxBytes > 64 * 1024 * 1024) {
+			warnings.push(
+				`CACHE_MEMORY_MAX_BYTES is set to ${maxBytes} (> 64 MiB). ` +
+					"Workers isolates are limited to 128 MB of memory.",
+			);
+		}
+	}
+
+	// Validate retry policy, circuit breaker, CSV export and quota settings
+	const upstreamSettings = [
+		"TANGO_RETRY_MAX_ATTEMPTS",
+		"TANGO_RETRY_BASE_DELAY_MS",
+		"TANGO_RETRY_MAX_DELAY_MS",
+		"TANGO_CIRCUIT_FAILURE_THRESHOLD",
+		"TANGO_CIRCUIT_OPEN_MS",
+		"TANGO_CSV_MAX_BYTES",
+		"TANGO_QUOTA_PER_SECOND",
+	] as const;
+
+	for (const setting of upstreamSettings) {
+		const value = env[setting];
+		if (value) {
+			const parsed = Number.parseInt(value, 10);
+			if (Number.isNaN(parsed) || parsed < 1) {
+				errors.push(`${setting} must be a positive integer. Got: '${value}'`);
+			}
+		}
+	}
+
+	if (env.TANGO_QUOTA_PER_DAY) {
+		const perDay = Number.parseInt(env.TANGO_QUOTA_PER_DAY, 10);
+		if (Number.isNaN(perDay) || perDay < 0) {
+			errors.push(
+				`TANGO_QUOTA_PER_DAY must be a non-negative integer (0 = unlimited). Got: '${env.TANGO_QUOTA_PER_DAY}'`,
+			);
+		}
+	}
+
+	if (env.TANGO_TRANSPORT) {
+		const mode = env.TANGO_TRANSPORT.trim().toLowerCase();
+		if (!["live", "record", "replay"].includes(mode)) {
+			errors.push(
+				`TANGO_TRANSPORT must be 'live', 'record' or 'replay'. Got: '${env.TANGO_TRANSPORT}'`,
+			);
+		} else if (mode !== "live") {
+			warnings.push(
+				`TANGO_TRANSPORT is set to '${mode}'. ` +
+					"Record/replay is for local development and tests only; use 'live' in production.",
+			);
+		}
+	}
+
+	if (env.AUDIT_SINK) {
+		const sink = env.AUDIT_SINK.trim().toLowerCase();
+		if (!["r2", "d1", "console"].includes(sink)) {
+			errors.push(`AUDIT_SINK must be 'r2', 'd1' or 'console'. Got: '${env.AUDIT_SINK}'`);
+		} else if ((sink === "r2" && !env.AUDIT_LOG_BUCKET) || (sink === "d1" && !env.AUDIT_DB)) {
+			warnings.push(
+				`AUDIT_SINK is set to '${sink}' but ${sink === "r2" ? "AUDIT_LOG_BUCKET" : "AUDIT_DB"} is not bound. ` +
+					"Audit events will only be written to Workers Logs.",
+			);
+		}
+	}
+
+	if (env.AUDIT_RETENTION_DAYS) {
+		const days = Number.parseInt(env.AUDIT_RETENTION_DAYS, 10);
+		if (Number.isNaN(days) || days < 1) {
+			errors.push(`AUDIT_RETENTION_DAYS must be a positive integer. Got: '${env.AUDIT_RETENTION_DAYS}'`);
+		}
+	}
+
+	if (env.TANGO_CSV_MAX_BYTES) {
+		const maxBytes = Number.parseInt(env.TANGO_CSV_MAX_BYTES, 10);
+		if (maxBytes > 25 * 1024 * 1024) {
+			warnings.push(
+				`TANGO_CSV_MAX_BYTES is set to ${maxBytes} (> 25 MiB). ` +
+					"Exports above the 25 MiB KV value limit cannot be cached.",
+			);
+		}
+	}
+
+	if (env.TANGO_RETRY_MAX_ATTEMPTS) {
+		const attempts = Number.parseInt(env.TANGO_RETRY_MAX_ATTEMPTS, 10);
+		if (attempts > 5) {
+			warnings.push(
+				`TANGO_RETRY_MAX_ATTEMPTS is set to ${attempts} (> 5). ` +
+					"Many retries can hold tool calls open for a long time and amplify upstream load.",
+			);
+		}
+	}
+
 	// Validate OAUTH_TOKEN_TTL_SECONDS
 	if (env.OAUTH_TOKEN_TTL_SECONDS) {
 		const ttl = Number.parseInt(env.OAUTH_TOKEN_TTL_SECONDS, 10);
@@ -264,6 +461,24 @@ export function validateEnvironment(env: Env): ValidationResult {
 		}
 	}
 
+	// Validate usage quota defaults
+	const usageQuotaVars = [
+		"USAGE_QUOTA_DAILY_TOOL_CALLS",
+		"USAGE_QUOTA_MONTHLY_TOOL_CALLS",
+		"USAGE_QUOTA_DAILY_UPSTREAM_REQUESTS",
+		"USAGE_QUOTA_MONTHLY_UPSTREAM_REQUESTS",
+	] as const;
+
+	for (const name of usageQuotaVars) {
+		const value = env[name];
+		if (value) {
+			const quota = Number.parseInt(value, 10);
+			if (Number.isNaN(quota) || quota < 1) {
+				errors.push(`${name} must be a positive integer. Got: '${value}'`);
+			}
+		}
+	}
+
 	// ==========================================
 	// BOOLEAN CONFIGURATION VALUES
 	// ==========================================
@@ -22,19 +22,42 @@ import { registerSearchForecastsTool } from "./tools/search-forecasts.js";
 import { registerGetForecastDetailTool } from "./tools/get-forecast-detail.js";
 import { registerLookupAgencyTool } from "./tools/lookup-agency.js";
 import { registerGetCompanyIntelligenceTool } from "./tools/get-company-intelligence.js";
-import { createCacheManager } from "./cache/kv-cache.js";
+import { registerGetCacheStatsTool } from "./tools/get-cache-stats.js";
+import { registerGetSchemaDriftTool } from "./tools/get-schema-drift.js";
+import { registerQueryAuditLogTool } from "./tools/query-audit-log.js";
+import { registerGetMyUsageTool } from "./tools/get-my-usage.js";
+import { type CacheStats, createCacheManager } from "./cache/kv-cache.js";
+import type { TtlPolicy } from "./cache/ttl-policy.js";
+import { getUpstreamCircuitBreaker, type CircuitBreakerSnapshot } from "./api/circuit-breaker.js";
 // <mcp-auth:imports>
 import OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { GoogleHandler } from "./auth/google-handler.js";
+import { AdminTokenHandler } from "./auth/admin-token-routes.js";
 import type { Props as OAuthProps } from "./auth/utils.js";
 import { detectAuthMethod, getAuthToken, getUserIdentifier } from "./auth/auth-detector.js";
-import { validateAuthentication, getUserIdentifierFromAuth } from "./auth/validate-authentication.js";
+import { recordAppUse } from "./auth/connected-apps.js";
+import {
+	type AuthValidationResult,
+	validateAuthentication,
+	getUserIdentifierFromAuth,
+} from "./auth/validate-authentication.js";
+import { enforceTokenScopes } from "./auth/token-scopes.js";
+import { enforceUserRole, type UserRole } from "./auth/user-roles.js";
 import { createMcpRouter } from "./router/mcp-router.js";
 // </mcp-auth:imports>
 // <mcp-bindings:imports>
 // Binding helper imports will be added here by add binding command
 // </mcp-bindings:imports>
 import { initializeEnvironment, validateEnvironment } from "./config/validate-env.js";
+import { traceToolHandlers } from "./utils/trace-context.js";
+import { getToolRateLimitKey, limitToolCalls } from "./security/tool-rate-limit.js";
+import { auditToolCalls } from "./security/tool-audit.js";
+import { configureAuditSink } from "./security/audit-sink.js";
+import { isUsageMeteringEnabled, meterToolCalls, resolveUsageSubjects } from "./security/usage-quota.js";
+
+// Durable Object classes must be exported from the Worker entry point
+export { UpstreamQuotaLimiter } from "./api/upstream-quota-limiter.js";
+export { UsageMeter } from "./security/usage-meter.js";
 
 /**
  * Props interface for per-user configuration
@@ -60,8 +83,27 @@ export interface MCPProps extends Record<string, unknown> {
 	 */
 	mcpAccessToken?: string;
 
+	/**
+	 * Client IP of the MCP token request (CF-Connecting-IP), checked against
+	 * the token's IP allowlist
+	 */
+	clientIp?: string;
+
 	/** Authentication method used for this session */
 	authMethod?: "oauth" | "mcp-token" | "none";
+
+	/**
+	 * OAuth user's role at sign-in (see auth/user-roles.ts); each session
+	 * re-resolves the current role, so assignment changes apply without
+	 * re-authorizing
+	 */
+	role?: UserRole;
+
+	/** Upstream identity provider ID (OAuth only) */
+	provider?: string;
+
+	/** OAuth client the grant was issued to (OAuth only) */
+	clientId?: string;
 }
 
 /**
@@ -113,8 +155,11 @@ export class MCPServerAgent extends McpAgent<Env, Record<string, never>, MCPProp
 		// STEP 2: GATEWAY MODEL: Validate authentication
 		// Every request must be authenticated (OAuth OR MCP token)
 		let validatedUser: string;
+		let authResult: AuthValidationResult;
+		let isAdmin = false;
 		try {
-			const authResult = await validateAuthentication(this.props, env);
+			authResult = await validateAuthentication(this.props, env);
+			isAdmin = authResult.role === "admin";
 			validatedUser = getUserIdentifierFromAuth(authResult);
 			console.log(`[Tango MCP] Authentication successful: ${authResult.method}`);
 			console.log(`[Tango MCP] User: ${validatedUser}`);
@@ -132,11 +177,48 @@ export class MCPServerAgent extends McpAgent<Env, Record<string, never>, MCPProp
 		// uses its own API key to make requests to Tango API on their behalf
 		const authToken = env.TANGO_API_KEY;
 
-		// Initialize cache manager
-		const cache = env.TANGO_CACHE ? createCacheManager(env) : undefined;
+		// Initialize cache manager (Durable Object ctx enables background revalidation)
+		const ctx = (this as unknown as { ctx?: DurableObjectState }).ctx;
+		const cache = env.TANGO_CACHE ? createCacheManager(env, ctx) : undefined;
+
+		// Connected apps: record the client's last use
+		if (authResult.method === "oauth" && authResult.user.email && this.props?.clientId) {
+			const recordUse = recordAppUse(authResult.user.email, this.props.clientId, env).catch((error) =>
+				console.warn("[Tango MCP] Failed to record app use:", error),
+			);
+			if (ctx) {
+				ctx.waitUntil(recordUse);
+			} else {
+				await recordUse;
+			}
+		}
+
+		// Run each tool call inside the trace context forwarded by the router
+		traceToolHandlers(this.server);
+
+		// Audit every tool call (user, token, tool, arguments, result size, duration)
+		configureAuditSink(env);
+		auditToolCalls(this.server, authResult.user, ctx ? (promise) => ctx.waitUntil(promise) : undefined);
+
+		// MCP token scopes: hide disallowed tools and check every call
+		enforceTokenScopes(this.server, authResult.scopes);
+
+		// OAuth user role: same enforcement (tools, CSV export, limits)
+		enforceUserRole(this.server, authResult.role);
+
+		// Per-user tool rate limit (OAuth email or MCP token ID)
+		if (env.OAUTH_KV) {
+			limitToolCalls(this.server, env, getToolRateLimitKey(authResult));
+		}
+
+		// Usage metering and daily/monthly quotas (user, and MCP token if any)
+		const usageSubjects = isUsageMeteringEnabled(env) ? await resolveUsageSubjects(authResult, env) : undefined;
+		if (usageSubjects) {
+			meterToolCalls(this.server, env, usageSubjects, ctx ? (promise) => ctx.waitUntil(promise) : undefined);
+		}
 
 		// Register all tools with server's API key (from env.TANGO_API_KEY only)
-		registerHealthTool(this.server);
+		registerHealthTool(this.server, env);
 		registerSearchContractsTool(this.server, env, cache, authToken);
 		registerSearchIDVsTool(this.server, env, cache, authToken);
 		registerSearchSubawardsTool(this.server, env, cache, authToken);
@@ -152,6 +234,19 @@ export class MCPServerAgent extends McpAgent<Env, Record<string, never>, MCPProp
 		registerGetForecastDetailTool(this.server, env, cache, authToken);
 		registerLookupAgencyTool(this.server, env, cache, authToken);
 		registerGetCompanyIntelligenceTool(this.server, env, cache, authToken);
+		if (usageSubjects) {
+			registerGetMyUsageTool(this.server, env, usageSubjects);
+		}
+
+		// Admin-only tools (OAuth users with the admin role)
+		if (isAdmin) {
+			// Cache stats and schema drift are read from TANGO_CACHE
+			if (cache) {
+				registerGetCacheStatsTool(this.server, cache);
+				registerGetSchemaDriftTool(this.server, env);
+			}
+			registerQueryAuditLogTool(this.server);
+		}
 	}
 }
 
@@ -178,9 +273,15 @@ const staticRoutesHandler = {
 				cache?: {
 					enabled: boolean;
 					ttl_seconds: number;
+					stale_ttl_seconds?: number;
+					ttl_policy?: TtlPolicy;
 					total_keys?: number;
 					by_tool?: Record<string, number>;
+					key_sample?: CacheStats["key_sample"];
+					metrics?: CacheStats["metrics"];
+					memory_tier?: CacheStats["memory_tier"];
 				};
+				circuit_breaker: CircuitBreakerSnapshot;
 			} = {
 				status: "healthy",
 				service: "tango-mcp",
@@ -191,8 +292,16 @@ const staticRoutesHandler = {
 					cache_kv: "unknown",
 					tango_api: env.TANGO_API_BASE_URL ? "configured" : "not_configured",
 				},
+				// Breaker state is per isolate; it reflects upstream calls made by this isolate
+				circuit_breaker: getUpstreamCircuitBreaker(env).getSnapshot(),
 			};
 
+			// Report degraded status while the upstream circuit is open
+			if (healthData.circuit_breaker.state === "open") {
+				healthData.services.tango_api = "circuit_open";
+				healthData.status = "degraded";
+			}
+
 			// Check KV namespace availability and get cache statistics
 			try {
 				if (env.TANGO_CACHE) {
@@ -201,18 +310,20 @@ const staticRoutesHandler = {
 					const result = await env.TANGO_CACHE.get("health_check");
 					healthData.services.cache_kv = result === "ok" ? "available" : "error";
 
-					// Get cache statistics if KV is available
+					// Get cache statistics if KV is available (counters + sampled keys, no full scan)
 					if (result === "ok") {
 						const cache = createCacheManager(env);
 						const stats = await cache.getStats();
 
 						healthData.cache = {
 							enabled: true,
-							ttl_seconds: env.CACHE_TTL_SECONDS
-								? Number.parseInt(env.CACHE_TTL_SECONDS, 10)
-								: 300,
+							...cache.getTtlSettings(),
+							ttl_policy: await cache.getTtlPolicy(),
 							total_keys: stats.total_keys,
 							by_tool: stats.by_prefix,
+							key_sample: stats.key_sample,
+							metrics: stats.metrics,
+							memory_tier: stats.memory_tier,
 						};
 					}
 				} else {
@@ -254,16 +365,22 @@ const staticRoutesHandler = {
  * OAuth Flow:
  * 1. Client discovers OAuth endpoints via /.well-known/oauth-authorization-server
  * 2. Client initiates OAuth by navigating to /authorize
- * 3. User approves access via Google OAuth
+ * 3. User approves access and signs in with Google or an OIDC provider
+ *    (OIDC_PROVIDERS, see auth/upstream-providers.ts)
  * 4. After authentication, user props (name, email, accessToken) are encrypted and passed to MCP agent
  * 5. Client accesses /sse or /mcp with authenticated credentials
  *
+ * The /admin/ token management API (auth/admin-token-routes.ts) is also an
+ * API handler: it requires an OAuth access token for a user with the admin
+ * role (ADMIN_EMAILS or a role assignment).
+ *
  * Environment variables required:
  * - GOOGLE_CLIENT_ID: Google OAuth client ID
  * - GOOGLE_CLIENT_SECRET: Google OAuth client secret
  * - OAUTH_KV: KV namespace for OAuth state storage
  * - COOKIE_ENCRYPTION_KEY: Key for encrypting session cookies
  * - HOSTED_DOMAIN (optional): Restrict to specific Google Workspace domain
+ * - OIDC_PROVIDERS (optional): Additional OpenID Connect identity providers
  */
 const oauthProvider = new OAuthProvider({
 	authorizeEndpoint: "/authorize",
@@ -272,6 +389,7 @@ const oauthProvider = new OAuthProvider({
 	apiHandlers: {
 		"/sse": MCPServerAgent.serveSSE("/sse"),
 		"/mcp": MCPServerAgent.serve("/mcp"),
+		"/admin/": AdminTokenHandler,
 	},
 	defaultHandler: GoogleHandler as any,
 });
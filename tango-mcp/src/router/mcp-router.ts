@@ -11,6 +11,10 @@
  * - MCP token requests never reach OAuth Provider (can't be blocked)
  * - OAuth requests go through OAuth Provider as normal (no changes)
  * - Props are injected into ExecutionContext before calling Agent SDK
+ * - Every request gets a trace ID (X-Request-ID), forwarded to the agent and
+ *   echoed on the response (see utils/trace-context.ts)
+ * - Audit events logged while handling the request (OAuth logins, etc.) are
+ *   flushed to the configured audit sink afterwards (see security/audit-sink.ts)
  *
  * Based on: working_documents/auth2_implementation/14-oauth-bypass-architecture.md
  *
@@ -19,7 +23,15 @@
 
 import type OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { MCPServerAgent } from "../index.js";
+import { getAuditLogger } from "../security/audit-logging.js";
+import { configureAuditSink } from "../security/audit-sink.js";
 import type { Env } from "../types/env.js";
+import {
+	createRequestTraceContext,
+	runWithTraceContext,
+	withTraceHeaders,
+	withTraceResponseHeader,
+} from "../utils/trace-context.js";
 
 /**
  * Extended ExecutionContext that allows props injection.
@@ -133,6 +145,7 @@ async function handleMcpTokenRoute(
 	const mutableCtx = ctx as MutableExecutionContext;
 	mutableCtx.props = {
 		mcpAccessToken: mcpToken,
+		clientIp: request.headers.get("CF-Connecting-IP") || "unknown",
 		authMethod: "mcp-token",
 	};
 
@@ -235,32 +248,41 @@ export function createMcpRouter(
 ): ExportedHandler<Env> {
 	return {
 		async fetch(
-			request: Request,
+			incoming: Request,
 			env: Env,
 			ctx: ExecutionContext,
 		): Promise<Response> {
+			// Assign a trace ID: forwarded to the agent, echoed on the response
+			const trace = createRequestTraceContext(incoming.headers);
+			const request = withTraceHeaders(incoming, trace);
 			const url = new URL(request.url);
+			configureAuditSink(env);
 
 			// Check if this is an MCP endpoint (/sse or /mcp)
 			const isMcpEndpoint = url.pathname === "/sse" || url.pathname === "/mcp";
 
-			// Routing Decision:
-			// MCP endpoint + MCP token → Direct to Agent SDK (bypass OAuth)
-			// Everything else → Through OAuth Provider
-			if (isMcpEndpoint && hasMcpToken(request)) {
-				// MCP Token Route: Bypass OAuth Provider
-				// - Inject MCP token into ctx.props
-				// - Call Agent SDK handler directly
-				// - Agent validates token in init()
-				return handleMcpTokenRoute(request, env, ctx, url.pathname);
-			}
+			const response = await runWithTraceContext(trace, () => {
+				// Routing Decision:
+				// MCP endpoint + MCP token → Direct to Agent SDK (bypass OAuth)
+				// Everything else → Through OAuth Provider
+				if (isMcpEndpoint && hasMcpToken(request)) {
+					// MCP Token Route: Bypass OAuth Provider
+					// - Inject MCP token into ctx.props
+					// - Call Agent SDK handler directly
+					// - Agent validates token in init()
+					return handleMcpTokenRoute(request, env, ctx, url.pathname);
+				}
 
-			// OAuth Route: Use OAuth Provider
-			// This handles:
-			// - OAuth flow endpoints (/authorize, /token, /register, /.well-known/*)
-			// - MCP endpoints with OAuth credentials (no MCP token)
-			// - Health check and static routes (via defaultHandler)
-			return handleOAuthRoute(request, env, ctx, oauthProvider);
+				// OAuth Route: Use OAuth Provider
+				// This handles:
+				// - OAuth flow endpoints (/authorize, /token, /register, /.well-known/*)
+				// - MCP endpoints with OAuth credentials (no MCP token)
+				// - Health check and static routes (via defaultHandler)
+				return handleOAuthRoute(request, env, ctx, oauthProvider);
+			});
+
+			ctx.waitUntil(getAuditLogger().flush());
+			return withTraceResponseHeader(response, trace);
 		},
 	};
 }
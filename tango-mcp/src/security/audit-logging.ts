@@ -7,9 +7,16 @@
  * - Tool usage with user context
  * - Security events
  *
+ * Entries always go to console (Workers Logs); when a sink is configured
+ * (see audit-sink.ts) they are also buffered and flushed to persistent
+ * storage.
+ *
  * SECURITY: Does not log sensitive data (no API keys, no full tokens)
  */
 
+import { getTraceContext } from "../utils/trace-context.js";
+import type { AuditQuery, AuditQueryResult, AuditSink, AuditSinkKind } from "./audit-sink.js";
+
 /**
  * Event categories for audit logging
  */
@@ -65,22 +72,142 @@ export interface AuditLogEntry {
 	parent_trace_id?: string;
 }
 
+/**
+ * Tool execution details recorded with each call
+ */
+export interface ToolExecutionDetails {
+	/** Sanitized tool arguments */
+	arguments?: Record<string, unknown>;
+	/** Size of the serialized tool result */
+	result_bytes?: number;
+	/** Wall-clock execution time */
+	duration_ms?: number;
+	/** Error code from the tool's error envelope */
+	error_code?: string;
+}
+
+/** Entries held while the sink is unavailable (oldest are dropped first) */
+const MAX_PENDING_ENTRIES = 1000;
+
+/** Minimum interval between retention purges */
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Audit logger class
  */
 export class AuditLogger {
+	private sink?: AuditSink;
+	private retentionDays = 0;
+	private pending: AuditLogEntry[] = [];
+	private lastPurgeAt = 0;
+
+	/**
+	 * Set (or clear) the persistent sink
+	 *
+	 * @param sink - Sink to write to, or undefined for console only
+	 * @param retentionDays - Days to keep entries in the sink
+	 */
+	setSink(sink: AuditSink | undefined, retentionDays: number): void {
+		this.sink = sink;
+		this.retentionDays = retentionDays;
+		this.lastPurgeAt = 0;
+		if (!sink) {
+			this.pending = [];
+		}
+	}
+
+	/**
+	 * Get the kind of the configured sink
+	 *
+	 * @returns Sink kind ("console" when none is configured)
+	 */
+	getSinkKind(): AuditSinkKind {
+		return this.sink?.kind ?? "console";
+	}
+
+	/**
+	 * Write buffered entries to the sink
+	 *
+	 * On failure the batch is kept for the next flush. Also purges expired
+	 * entries, at most once a day.
+	 */
+	async flush(): Promise<void> {
+		const sink = this.sink;
+		if (!sink) {
+			return;
+		}
+
+		const batch = this.pending;
+		this.pending = [];
+		if (batch.length > 0) {
+			try {
+				await sink.write(batch);
+			} catch (error) {
+				this.pending = [...batch, ...this.pending].slice(-MAX_PENDING_ENTRIES);
+				console.error("[AUDIT] Failed to write audit batch", {
+					sink: sink.kind,
+					entries: batch.length,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+
+		const now = Date.now();
+		if (now - this.lastPurgeAt >= PURGE_INTERVAL_MS) {
+			this.lastPurgeAt = now;
+			try {
+				await sink.purgeExpired(this.retentionDays, now);
+			} catch (error) {
+				console.error("[AUDIT] Failed to purge expired audit entries", {
+					sink: sink.kind,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+	}
+
+	/**
+	 * Query persisted audit entries
+	 *
+	 * Flushes buffered entries first so recent events are included.
+	 *
+	 * @param filter - Query filter
+	 * @returns Matching entries (newest first)
+	 * @throws Error if no sink is configured
+	 */
+	async query(filter: AuditQuery): Promise<AuditQueryResult> {
+		if (!this.sink) {
+			throw new Error("No audit sink configured");
+		}
+		await this.flush();
+		return this.sink.query(filter);
+	}
+
 	/**
 	 * Log an audit event
 	 *
+	 * Trace fields default to the active request trace context.
+	 *
 	 * @param entry - Audit log entry
 	 */
 	async log(entry: AuditLogEntry): Promise<void> {
+		const trace = getTraceContext();
+		if (trace) {
+			entry.trace_id ??= trace.trace_id;
+			entry.parent_trace_id ??= trace.parent_trace_id;
+		}
+
 		// Structured JSON logging to console
 		// In production, this will be captured by Cloudflare Workers Logs
 		// and can be forwarded to external logging services (Datadog, Splunk, etc.)
 		console.log("[AUDIT]", JSON.stringify(entry));
 
-		// Future: Could also write to Analytics Engine, KV, or external SIEM
+		if (this.sink) {
+			this.pending.push(entry);
+			if (this.pending.length > MAX_PENDING_ENTRIES) {
+				this.pending.shift();
+			}
+		}
 	}
 
 	/**
@@ -131,12 +258,14 @@ export class AuditLogger {
 	 * @param email - User email
 	 * @param request - Request object
 	 * @param errorMessage - Error message if failed
+	 * @param provider - Upstream identity provider ID
 	 */
 	async logOAuthCallback(
 		success: boolean,
 		email: string | undefined,
 		request: Request,
 		errorMessage?: string,
+		provider = "google",
 	): Promise<void> {
 		await this.log({
 			timestamp: new Date().toISOString(),
@@ -150,7 +279,7 @@ export class AuditLogger {
 			success,
 			error_message: errorMessage,
 			metadata: {
-				oauth_provider: "google",
+				oauth_provider: provider,
 			},
 		});
 	}
@@ -194,6 +323,7 @@ export class AuditLogger {
 	 * @param request - Request object
 	 * @param success - Whether execution succeeded
 	 * @param errorMessage - Error message if failed
+	 * @param details - Arguments, result size and duration
 	 */
 	async logToolExecution(
 		toolName: string,
@@ -205,6 +335,7 @@ export class AuditLogger {
 		request: Request,
 		success: boolean,
 		errorMessage?: string,
+		details?: ToolExecutionDetails,
 	): Promise<void> {
 		await this.log({
 			timestamp: new Date().toISOString(),
@@ -222,7 +353,89 @@ export class AuditLogger {
 			resource_type: "tool",
 			resource_id: toolName,
 			success,
+			error_code: details?.error_code,
+			error_message: errorMessage,
+			metadata: details && {
+				arguments: details.arguments,
+				result_bytes: details.result_bytes,
+				duration_ms: details.duration_ms,
+			},
+		});
+	}
+
+	/**
+	 * Log MCP token administration (create, revoke, rotate, ...)
+	 *
+	 * @param action - Admin action (e.g., "create", "revoke")
+	 * @param adminEmail - Email of the admin performing the action
+	 * @param tokenId - Affected token ID (if any)
+	 * @param request - Request object
+	 * @param success - Whether the action succeeded
+	 * @param details - Action details (never raw tokens)
+	 * @param errorMessage - Error message if failed
+	 */
+	async logTokenAdminAction(
+		action: string,
+		adminEmail: string,
+		tokenId: string | undefined,
+		request: Request,
+		success: boolean,
+		details?: Record<string, unknown>,
+		errorMessage?: string,
+	): Promise<void> {
+		await this.log({
+			timestamp: new Date().toISOString(),
+			event_category: "authz",
+			event_type: "token_admin",
+			event_action: action,
+			severity: success ? "info" : "warning",
+			user_email: adminEmail,
+			token_id: tokenId ? this.truncateToken(tokenId) : undefined,
+			client_ip: this.getClientIP(request),
+			user_agent: request.headers.get("User-Agent") || "unknown",
+			resource_type: "mcp_token",
+			resource_id: tokenId,
+			success,
 			error_message: errorMessage,
+			metadata: details,
+		});
+	}
+
+	/**
+	 * Log OAuth client and consent management (app revocation by a user,
+	 * allowing or blocking a client by an admin)
+	 *
+	 * @param action - Action (e.g., "revoke_app", "block_client")
+	 * @param actorEmail - Email of the user or admin performing the action
+	 * @param clientId - Affected OAuth client ID
+	 * @param request - Request object
+	 * @param success - Whether the action succeeded
+	 * @param details - Action details
+	 * @param errorMessage - Error message if failed
+	 */
+	async logOAuthClientAction(
+		action: string,
+		actorEmail: string,
+		clientId: string,
+		request: Request,
+		success: boolean,
+		details?: Record<string, unknown>,
+		errorMessage?: string,
+	): Promise<void> {
+		await this.log({
+			timestamp: new Date().toISOString(),
+			event_category: "authz",
+			event_type: "oauth_client",
+			event_action: action,
+			severity: success ? "info" : "warning",
+			user_email: actorEmail,
+			client_ip: this.getClientIP(request),
+			user_agent: request.headers.get("User-Agent") || "unknown",
+			resource_type: "oauth_client",
+			resource_id: clientId,
+			success,
+			error_message: errorMessage,
+			metadata: details,
 		});
 	}
 
@@ -253,6 +466,42 @@ export class AuditLogger {
 		});
 	}
 
+	/**
+	 * Log MCP token security event (IP allowlist rejection, use from a new IP)
+	 *
+	 * Token validation has no HTTP request, so the client IP is passed in.
+	 *
+	 * @param eventType - Type of security event
+	 * @param severity - Severity level
+	 * @param tokenId - Token ID (truncated in the entry)
+	 * @param userId - Token owner's user ID
+	 * @param clientIp - IP address the token was used from
+	 * @param details - Additional details
+	 */
+	async logTokenSecurityEvent(
+		eventType: string,
+		severity: AuditSeverity,
+		tokenId: string | undefined,
+		userId: string,
+		clientIp: string,
+		details: Record<string, unknown>,
+	): Promise<void> {
+		await this.log({
+			timestamp: new Date().toISOString(),
+			event_category: "security",
+			event_type: eventType,
+			event_action: "detected",
+			severity,
+			token_id: tokenId ? this.truncateToken(tokenId) : undefined,
+			user_id: userId,
+			client_ip: clientIp,
+			user_agent: "unknown",
+			resource_type: "mcp_token",
+			success: false,
+			metadata: details,
+		});
+	}
+
 	/**
 	 * Log rate limit violation
 	 *
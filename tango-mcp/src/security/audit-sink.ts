@@ -0,0 +1,453 @@
+/**
+ * Audit Event Sinks
+ *
+ * Persistent, append-only storage for audit events, so there is a durable
+ * record of who queried what beyond the Workers log stream.
+ *
+ * Sinks (AUDIT_SINK, default: whichever binding is present, R2 first):
+ * - r2: NDJSON batches in AUDIT_LOG_BUCKET, one object per flush, keyed
+ *   "audit/YYYY/MM/DD/{timestamp}-{batch_id}.ndjson" (never overwritten)
+ * - d1: rows in the audit_events table of AUDIT_DB (insert only)
+ * - console: no persistence (Workers logs only)
+ *
+ * Retention: entries older than AUDIT_RETENTION_DAYS (default 365) are
+ * purged opportunistically, at most once a day per isolate.
+ */
+
+import type { Env } from "../types/env.js";
+import { type AuditLogEntry, getAuditLogger } from "./audit-logging.js";
+
+/**
+ * Sink kind
+ */
+export type AuditSinkKind = "r2" | "d1" | "console";
+
+/**
+ * Audit query filter (all fields optional, combined with AND)
+ */
+export interface AuditQuery {
+	/** Earliest timestamp (ISO 8601, default: 24 hours ago) */
+	since?: string;
+	/** Latest timestamp (ISO 8601, default: now) */
+	until?: string;
+	/** User email or ID (case-insensitive) */
+	user?: string;
+	/** MCP token ID prefix */
+	token_id?: string;
+	/** Tool name (resource_id) */
+	tool?: string;
+	/** Event type (e.g., "tool_execution") */
+	event_type?: string;
+	/** Only successful or only failed events */
+	success?: boolean;
+	/** Maximum entries returned (default 100, max 500) */
+	limit?: number;
+}
+
+/**
+ * Audit query result (newest first)
+ */
+export interface AuditQueryResult {
+	entries: AuditLogEntry[];
+	/** True if more matching entries may exist beyond the limit or scan budget */
+	truncated: boolean;
+}
+
+/**
+ * Persistent audit event storage
+ */
+export interface AuditSink {
+	readonly kind: Exclude<AuditSinkKind, "console">;
+	/** Append a batch of entries */
+	write(entries: AuditLogEntry[]): Promise<void>;
+	/** Find entries matching a filter */
+	query(filter: AuditQuery): Promise<AuditQueryResult>;
+	/** Delete entries older than the retention period; returns entries or batches removed */
+	purgeExpired(retentionDays: number, now?: number): Promise<number>;
+}
+
+/** Default retention period */
+export const DEFAULT_AUDIT_RETENTION_DAYS = 365;
+
+/** Default and maximum query result sizes */
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 500;
+
+/** Default query window */
+const DEFAULT_QUERY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Longest query window (bounds R2 listing) */
+const MAX_QUERY_WINDOW_DAYS = 31;
+
+/** R2 objects read per query */
+const MAX_OBJECTS_SCANNED = 200;
+
+/** R2 batches deleted per purge run */
+const MAX_PURGED_OBJECTS = 1000;
+
+/** R2 key prefix for audit batches */
+export const AUDIT_OBJECT_PREFIX = "audit/";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Resolved query bounds
+ */
+interface QueryBounds {
+	since: number;
+	until: number;
+	limit: number;
+}
+
+/**
+ * Apply defaults and caps to a query
+ */
+function resolveBounds(filter: AuditQuery, now = Date.now()): QueryBounds {
+	const until = filter.until ? Date.parse(filter.until) : now;
+	const since = filter.since ? Date.parse(filter.since) : until - DEFAULT_QUERY_WINDOW_MS;
+	if (Number.isNaN(since) || Number.isNaN(until)) {
+		throw new Error("since and until must be ISO 8601 timestamps");
+	}
+
+	return {
+		since: Math.max(since, until - MAX_QUERY_WINDOW_DAYS * DAY_MS),
+		until,
+		limit: Math.min(Math.max(filter.limit ?? DEFAULT_QUERY_LIMIT, 1), MAX_QUERY_LIMIT),
+	};
+}
+
+/**
+ * Check whether an entry matches a query filter and bounds
+ *
+ * @param entry - Audit entry
+ * @param filter - Query filter
+ * @param bounds - Resolved time bounds
+ * @returns True if the entry matches
+ */
+export function matchesAuditQuery(
+	entry: AuditLogEntry,
+	filter: AuditQuery,
+	bounds: Pick<QueryBounds, "since" | "until">,
+): boolean {
+	const time = Date.parse(entry.timestamp);
+	if (Number.isNaN(time) || time < bounds.since || time > bounds.until) {
+		return false;
+	}
+	if (filter.user) {
+		const user = filter.user.toLowerCase();
+		if (entry.user_email?.toLowerCase() !== user && entry.user_id?.toLowerCase() !== user) {
+			return false;
+		}
+	}
+	if (filter.token_id && !entry.token_id?.startsWith(filter.token_id.replace(/\.\.\.$/, ""))) {
+		return false;
+	}
+	if (filter.tool && entry.resource_id !== filter.tool) {
+		return false;
+	}
+	if (filter.event_type && entry.event_type !== filter.event_type) {
+		return false;
+	}
+	if (filter.success !== undefined && entry.success !== filter.success) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Format a UTC day prefix ("audit/2025/01/31/")
+ */
+function dayPrefix(time: number): string {
+	const date = new Date(time).toISOString();
+	return `${AUDIT_OBJECT_PREFIX}${date.slice(0, 4)}/${date.slice(5, 7)}/${date.slice(8, 10)}/`;
+}
+
+/**
+ * Parse the day of an audit object key
+ */
+function keyDay(key: string): number {
+	const [year, month, day] = key.slice(AUDIT_OBJECT_PREFIX.length).split("/");
+	return Date.UTC(Number(year), Number(month) - 1, Number(day));
+}
+
+/**
+ * Audit sink writing NDJSON batches to R2
+ */
+export class R2AuditSink implements AuditSink {
+	readonly kind = "r2";
+
+	constructor(private readonly bucket: R2Bucket) {}
+
+	async write(entries: AuditLogEntry[]): Promise<void> {
+		if (entries.length === 0) {
+			return;
+		}
+
+		const now = Date.now();
+		const stamp = new Date(now).toISOString().replace(/[-:.]/g, "");
+		const key = `${dayPrefix(now)}${stamp}-${crypto.randomUUID()}.ndjson`;
+		const body = `${entries.map((entry) => JSON.stringify(entry)).join("\n")}\n`;
+
+		await this.bucket.put(key, body, {
+			httpMetadata: { contentType: "application/x-ndjson" },
+			customMetadata: {
+				entries: String(entries.length),
+				first_timestamp: entries[0].timestamp,
+				last_timestamp: entries[entries.length - 1].timestamp,
+			},
+		});
+	}
+
+	async query(filter: AuditQuery): Promise<AuditQueryResult> {
+		const bounds = resolveBounds(filter);
+		const entries: AuditLogEntry[] = [];
+		let scanned = 0;
+
+		// Walk days newest first; batches within a day sort by flush time
+		const firstDay = keyDay(dayPrefix(bounds.since));
+		for (let day = keyDay(dayPrefix(bounds.until)); day >= firstDay; day -= DAY_MS) {
+			const keys = await this.listKeys(dayPrefix(day));
+			for (const key of keys.reverse()) {
+				if (scanned >= MAX_OBJECTS_SCANNED) {
+					return { entries: sortNewestFirst(entries).slice(0, bounds.limit), truncated: true };
+				}
+				scanned++;
+
+				const object = await this.bucket.get(key);
+				if (!object) {
+					continue;
+				}
+				for (const line of (await object.text()).split("\n")) {
+					if (!line) {
+						continue;
+					}
+					const entry = JSON.parse(line) as AuditLogEntry;
+					if (matchesAuditQuery(entry, filter, bounds)) {
+						entries.push(entry);
+					}
+				}
+			}
+
+			// Batches are flushed shortly after their entries, so a full day is enough
+			if (entries.length >= bounds.limit) {
+				return {
+					entries: sortNewestFirst(entries).slice(0, bounds.limit),
+					truncated: entries.length > bounds.limit || day > firstDay,
+				};
+			}
+		}
+
+		return { entries: sortNewestFirst(entries), truncated: false };
+	}
+
+	async purgeExpired(retentionDays: number, now = Date.now()): Promise<number> {
+		const cutoffDay = keyDay(dayPrefix(now - retentionDays * DAY_MS));
+		let purged = 0;
+		let cursor: string | undefined;
+
+		// Keys sort oldest first, so stop at the first one inside the retention period
+		do {
+			const list = await this.bucket.list({ prefix: AUDIT_OBJECT_PREFIX, cursor });
+			const expired = list.objects
+				.map((object) => object.key)
+				.filter((key) => keyDay(key) < cutoffDay)
+				.slice(0, MAX_PURGED_OBJECTS - purged);
+			if (expired.length > 0) {
+				await this.bucket.delete(expired);
+				purged += expired.length;
+			}
+			if (expired.length < list.objects.length || purged >= MAX_PURGED_OBJECTS) {
+				break;
+			}
+			cursor = list.truncated ? list.cursor : undefined;
+		} while (cursor);
+
+		return purged;
+	}
+
+	/**
+	 * List all object keys under a prefix
+	 */
+	private async listKeys(prefix: string): Promise<string[]> {
+		const keys: string[] = [];
+		let cursor: string | undefined;
+		do {
+			const list = await this.bucket.list({ prefix, cursor });
+			keys.push(...list.objects.map((object) => object.key));
+			cursor = list.truncated ? list.cursor : undefined;
+		} while (cursor);
+		return keys.sort();
+	}
+}
+
+/**
+ * Audit sink writing rows to D1
+ */
+export class D1AuditSink implements AuditSink {
+	readonly kind = "d1";
+	private schemaReady?: Promise<void>;
+
+	constructor(private readonly db: D1Database) {}
+
+	async write(entries: AuditLogEntry[]): Promise<void> {
+		if (entries.length === 0) {
+			return;
+		}
+		await this.ensureSchema();
+
+		const insert = this.db.prepare(
+			"INSERT INTO audit_events (timestamp, event_type, user_id, token_id, resource_id, success, entry) VALUES (?, ?, ?, ?, ?, ?, ?)",
+		);
+		await this.db.batch(
+			entries.map((entry) =>
+				insert.bind(
+					entry.timestamp,
+					entry.event_type,
+					(entry.user_email ?? entry.user_id)?.toLowerCase() ?? null,
+					entry.token_id ?? null,
+					entry.resource_id ?? null,
+					entry.success ? 1 : 0,
+					JSON.stringify(entry),
+				),
+			),
+		);
+	}
+
+	async query(filter: AuditQuery): Promise<AuditQueryResult> {
+		await this.ensureSchema();
+		const bounds = resolveBounds(filter);
+
+		const conditions = ["timestamp >= ?", "timestamp <= ?"];
+		const params: unknown[] = [new Date(bounds.since).toISOString(), new Date(bounds.until).toISOString()];
+		if (filter.user) {
+			conditions.push("user_id = ?");
+			params.push(filter.user.toLowerCase());
+		}
+		if (filter.token_id) {
+			conditions.push("token_id LIKE ?");
+			params.push(`${filter.token_id.replace(/\.\.\.$/, "").replace(/[%_]/g, "")}%`);
+		}
+		if (filter.tool) {
+			conditions.push("resource_id = ?");
+			params.push(filter.tool);
+		}
+		if (filter.event_type) {
+			conditions.push("event_type = ?");
+			params.push(filter.event_type);
+		}
+		if (filter.success !== undefined) {
+			conditions.push("success = ?");
+			params.push(filter.success ? 1 : 0);
+		}
+
+		// Fetch one extra row to detect truncation
+		const { results } = await this.db
+			.prepare(
+				`SELECT entry FROM audit_events WHERE ${conditions.join(" AND ")} ORDER BY timestamp DESC, id DESC LIMIT ?`,
+			)
+			.bind(...params, bounds.limit + 1)
+			.all<{ entry: string }>();
+
+		return {
+			entries: results.slice(0, bounds.limit).map((row) => JSON.parse(row.entry) as AuditLogEntry),
+			truncated: results.length > bounds.limit,
+		};
+	}
+
+	async purgeExpired(retentionDays: number, now = Date.now()): Promise<number> {
+		await this.ensureSchema();
+		const cutoff = new Date(now - retentionDays * DAY_MS).toISOString();
+		const result = await this.db.prepare("DELETE FROM audit_events WHERE timestamp < ?").bind(cutoff).run();
+		return result.meta.changes ?? 0;
+	}
+
+	/**
+	 * Create the table and indexes on first use
+	 */
+	private ensureSchema(): Promise<void> {
+		this.schemaReady ??= this.db
+			.batch([
+				this.db.prepare(
+					"CREATE TABLE IF NOT EXISTS audit_events (id INTEGER PRIMARY KEY AUTOINCREMENT, timestamp TEXT NOT NULL, event_type TEXT NOT NULL, user_id TEXT, token_id TEXT, resource_id TEXT, success INTEGER NOT NULL, entry TEXT NOT NULL)",
+				),
+				this.db.prepare("CREATE INDEX IF NOT EXISTS audit_events_timestamp ON audit_events (timestamp)"),
+				this.db.prepare("CREATE INDEX IF NOT EXISTS audit_events_user ON audit_events (user_id, timestamp)"),
+			])
+			.then(() => undefined)
+			.catch((error) => {
+				this.schemaReady = undefined;
+				throw error;
+			});
+		return this.schemaReady;
+	}
+}
+
+/**
+ * Sort entries newest first
+ */
+function sortNewestFirst(entries: AuditLogEntry[]): AuditLogEntry[] {
+	return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * Resolve the configured sink kind
+ *
+ * @param env - Environment configuration
+ * @returns Sink kind (console when the selected binding is missing)
+ */
+export function resolveAuditSinkKind(env: Env): AuditSinkKind {
+	const requested = env.AUDIT_SINK?.trim().toLowerCase();
+	if (requested === "console") {
+		return "console";
+	}
+	if (requested === "r2" || (!requested && env.AUDIT_LOG_BUCKET)) {
+		return env.AUDIT_LOG_BUCKET ? "r2" : "console";
+	}
+	if (requested === "d1" || (!requested && env.AUDIT_DB)) {
+		return env.AUDIT_DB ? "d1" : "console";
+	}
+	return "console";
+}
+
+/**
+ * Create the configured audit sink
+ *
+ * @param env - Environment configuration
+ * @returns Sink, or undefined when audit events are only logged
+ */
+export function createAuditSink(env: Env): AuditSink | undefined {
+	switch (resolveAuditSinkKind(env)) {
+		case "r2":
+			return new R2AuditSink(env.AUDIT_LOG_BUCKET as R2Bucket);
+		case "d1":
+			return new D1AuditSink(env.AUDIT_DB as D1Database);
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Resolve the audit retention period
+ *
+ * @param env - Environment configuration
+ * @returns Retention in days
+ */
+export function resolveAuditRetentionDays(env: Env): number {
+	const days = Number.parseInt(env.AUDIT_RETENTION_DAYS ?? "", 10);
+	return days > 0 ? days : DEFAULT_AUDIT_RETENTION_DAYS;
+}
+
+/**
+ * Point the shared audit logger at the configured sink
+ *
+ * Safe to call on every request: the sink is only replaced when the
+ * configuration changes kind.
+ *
+ * @param env - Environment configuration
+ */
+export function configureAuditSink(env: Env): void {
+	const logger = getAuditLogger();
+	if (logger.getSinkKind() !== resolveAuditSinkKind(env)) {
+		logger.setSink(createAuditSink(env), resolveAuditRetentionDays(env));
+	}
+}
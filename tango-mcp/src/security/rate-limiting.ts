@@ -72,6 +72,27 @@ export const RATE_LIMIT_CONFIGS = {
 	} as RateLimitConfig,
 };
 
+/**
+ * Resolve the per-user tool execution limit
+ *
+ * RATE_LIMIT_PER_USER (requests per hour) replaces the default
+ * TOOL_EXECUTION limit when set.
+ *
+ * @param env - Environment configuration
+ * @returns Tool execution rate limit config
+ */
+export function resolveToolRateLimitConfig(env: Env): RateLimitConfig {
+	const perHour = Number.parseInt(env.RATE_LIMIT_PER_USER ?? "", 10);
+	if (perHour > 0) {
+		return {
+			...RATE_LIMIT_CONFIGS.TOOL_EXECUTION,
+			maxRequests: perHour,
+			windowMs: 60 * 60 * 1000,
+		};
+	}
+	return RATE_LIMIT_CONFIGS.TOOL_EXECUTION;
+}
+
 /**
  * Rate limiter class using Cloudflare KV for distributed tracking
  */
@@ -250,7 +271,7 @@ export function createRateLimiters(env: Env): {
 	return {
 		auth: new RateLimiter(RATE_LIMIT_CONFIGS.AUTH_ENDPOINT, env.OAUTH_KV),
 		token: new RateLimiter(RATE_LIMIT_CONFIGS.TOKEN_VALIDATION, env.OAUTH_KV),
-		tool: new RateLimiter(RATE_LIMIT_CONFIGS.TOOL_EXECUTION, env.OAUTH_KV),
+		tool: new RateLimiter(resolveToolRateLimitConfig(env), env.OAUTH_KV),
 		global: new RateLimiter(RATE_LIMIT_CONFIGS.GLOBAL, env.OAUTH_KV),
 	};
 }
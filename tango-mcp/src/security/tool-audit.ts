@@ -0,0 +1,136 @@
+/**
+ * Tool Execution Auditing
+ *
+ * Records every tool call in the audit log: caller (OAuth email or MCP
+ * token ID), tool, sanitized arguments, result size, duration and outcome.
+ *
+ * - A result whose JSON body carries an error_code counts as a failure
+ * - Arguments are redacted (keys like api_key, token, secret) and long
+ *   strings are truncated
+ * - Entries are flushed to the persistent sink in the background after
+ *   each call (see audit-sink.ts)
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getLogger, redactSensitive } from "../utils/logger.js";
+import { toolCallRequest, wrapToolHandlers } from "../utils/tool-middleware.js";
+import { getAuditLogger } from "./audit-logging.js";
+
+/**
+ * Identity of the caller whose tool calls are audited
+ */
+export interface ToolAuditIdentity {
+	email?: string;
+	name?: string;
+	tokenId?: string;
+}
+
+/** Longest string argument kept in the audit log */
+const MAX_ARGUMENT_LENGTH = 500;
+
+/**
+ * Sanitize tool arguments for the audit log
+ *
+ * @param args - Arguments the tool was called with
+ * @returns Redacted arguments with long strings truncated
+ */
+export function sanitizeToolArguments(args: unknown): Record<string, unknown> | undefined {
+	if (typeof args !== "object" || args === null || Array.isArray(args)) {
+		return undefined;
+	}
+
+	const truncate = (value: unknown): unknown => {
+		if (typeof value === "string" && value.length > MAX_ARGUMENT_LENGTH) {
+			return `${value.slice(0, MAX_ARGUMENT_LENGTH)}...[truncated]`;
+		}
+		if (Array.isArray(value)) {
+			return value.map(truncate);
+		}
+		if (typeof value === "object" && value !== null) {
+			return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, truncate(item)]));
+		}
+		return value;
+	};
+
+	return truncate(redactSensitive(args as Record<string, unknown>)) as Record<string, unknown>;
+}
+
+/**
+ * Read the outcome of a tool result
+ *
+ * @param result - Value returned by the tool handler
+ * @returns Serialized size and error code (if the result is an error envelope)
+ */
+function inspectToolResult(result: unknown): { bytes: number; errorCode?: string; errorMessage?: string } {
+	const content = (result as { content?: Array<{ type?: string; text?: string }> } | undefined)?.content;
+	const bytes = new TextEncoder().encode(JSON.stringify(result ?? null)).length;
+
+	const text = content?.[0]?.type === "text" ? content[0].text : undefined;
+	if (!text?.includes('"error_code"')) {
+		return { bytes };
+	}
+	try {
+		const body = JSON.parse(text) as { error_code?: unknown; error?: unknown };
+		if (typeof body.error_code === "string") {
+			return {
+				bytes,
+				errorCode: body.error_code,
+				errorMessage: typeof body.error === "string" ? body.error : undefined,
+			};
+		}
+	} catch {
+		// Not JSON (e.g., CSV export): treat as success
+	}
+	return { bytes };
+}
+
+/**
+ * Audit every tool registered on a server from now on
+ *
+ * Must be called before tools are registered.
+ *
+ * @param server - MCP server
+ * @param identity - Authenticated caller
+ * @param waitUntil - Keeps the background flush alive after the response
+ */
+export function auditToolCalls(
+	server: McpServer,
+	identity: ToolAuditIdentity,
+	waitUntil?: (promise: Promise<unknown>) => void,
+): void {
+	wrapToolHandlers(server, (handler, toolName) => async (...handlerArgs) => {
+		const startTime = Date.now();
+		const auditLogger = getAuditLogger();
+
+		const record = (success: boolean, details: { bytes?: number; errorCode?: string; errorMessage?: string }) => {
+			const write = auditLogger
+				.logToolExecution(toolName, identity, toolCallRequest(handlerArgs), success, details.errorMessage, {
+					arguments: sanitizeToolArguments(handlerArgs.length > 1 ? handlerArgs[0] : undefined),
+					result_bytes: details.bytes,
+					duration_ms: Date.now() - startTime,
+					error_code: details.errorCode,
+				})
+				.then(() => auditLogger.flush())
+				.catch((error) => {
+					getLogger().warn("Tool audit failed", {
+						tool: toolName,
+						error: error instanceof Error ? error.message : String(error),
+					});
+				});
+			waitUntil?.(write);
+		};
+
+		try {
+			const result = await handler(...handlerArgs);
+			const outcome = inspectToolResult(result);
+			record(!outcome.errorCode, outcome);
+			return result;
+		} catch (error) {
+			record(false, {
+				errorCode: "INTERNAL_ERROR",
+				errorMessage: error instanceof Error ? error.message : String(error),
+			});
+			throw error;
+		}
+	});
+}
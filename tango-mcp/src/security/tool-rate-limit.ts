@@ -0,0 +1,106 @@
+/**
+ * Per-User Tool Rate Limiting
+ *
+ * Counts every tool call against the caller (OAuth email or MCP token ID)
+ * so one runaway agent can't burn the shared TANGO_API_KEY quota.
+ *
+ * - Limit: RATE_LIMIT_PER_USER calls per hour, or 60 calls per minute by
+ *   default (see resolveToolRateLimitConfig)
+ * - Over the limit, the tool returns a RATE_LIMITED error with retry timing
+ *   instead of running, and the violation is written to the audit log
+ * - Counters live in OAUTH_KV; if KV fails the call is allowed (fail open)
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthValidationResult } from "../auth/validate-authentication.js";
+import type { Env } from "../types/env.js";
+import { TangoRateLimitedError } from "../types/errors.js";
+import { getLogger } from "../utils/logger.js";
+import { toolCallRequest, wrapToolHandlers } from "../utils/tool-middleware.js";
+import { getTraceId } from "../utils/trace-context.js";
+import { getAuditLogger } from "./audit-logging.js";
+import { createRateLimiters, resolveToolRateLimitConfig } from "./rate-limiting.js";
+
+/**
+ * Build the rate limit key for an authenticated caller
+ *
+ * @param auth - Authentication result for the session
+ * @returns Key such as "user:jane@agile6.com" or "token:abc123"
+ */
+export function getToolRateLimitKey(auth: AuthValidationResult): string {
+	if (auth.method === "oauth") {
+		return `user:${(auth.user.email ?? "unknown").toLowerCase()}`;
+	}
+	return `token:${auth.user.tokenId ?? "unknown"}`;
+}
+
+/**
+ * Enforce the per-user rate limit on every tool registered from now on
+ *
+ * Must be called before tools are registered.
+ *
+ * @param server - MCP server
+ * @param env - Environment configuration (OAUTH_KV holds the counters)
+ * @param key - Caller's rate limit key (see getToolRateLimitKey)
+ */
+export function limitToolCalls(server: McpServer, env: Env, key: string): void {
+	const limiter = createRateLimiters(env).tool;
+	const { windowMs } = resolveToolRateLimitConfig(env);
+
+	wrapToolHandlers(server, (handler, toolName) => async (...handlerArgs) => {
+		const startTime = Date.now();
+		const logger = getLogger();
+
+		let result: Awaited<ReturnType<typeof limiter.check>>;
+		try {
+			result = await limiter.check(key);
+		} catch (error) {
+			logger.warn("Tool rate limit check failed, allowing call", {
+				tool: toolName,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return handler(...handlerArgs);
+		}
+
+		if (result.allowed) {
+			return handler(...handlerArgs);
+		}
+
+		const rateLimited = new TangoRateLimitedError(
+			result.limit,
+			windowMs,
+			Math.max(0, result.resetAt - Date.now()),
+		);
+		logger.warn("Tool rate limit exceeded", {
+			tool: toolName,
+			limit: result.limit,
+			retry_after_ms: rateLimited.retryAfterMs,
+		});
+		await getAuditLogger().logRateLimitViolation(
+			"tool_execution",
+			key,
+			toolCallRequest(handlerArgs),
+			result.currentCount,
+			result.limit,
+		);
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: JSON.stringify(
+						{
+							...rateLimited.toErrorResponse(),
+							execution: {
+								duration_ms: Date.now() - startTime,
+								trace_id: getTraceId(),
+							},
+						},
+						null,
+						2,
+					),
+				},
+			],
+		};
+	});
+}
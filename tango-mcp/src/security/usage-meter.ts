@@ -0,0 +1,149 @@
+/**
+ * Usage Meter Durable Object
+ *
+ * One instance per metered subject (named "{user|token}:{id}") that owns the
+ * subject's day and month counters (see usage-quota.ts). Durable Objects
+ * process calls one at a time, so the quota check and the tool call count
+ * cannot interleave with another call's.
+ *
+ * Counters are persisted in Durable Object storage and mirrored to OAUTH_KV
+ * by an alarm at most once per second (KV's per-key write limit), so the
+ * admin top-consumers listing keeps working from KV.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "../types/env.js";
+import {
+	type PeriodUsage,
+	putUsageCounters,
+	type UsageCounters,
+	UsageLedger,
+	type UsagePeriod,
+	type UsageQuotaBreach,
+	type UsageQuotas,
+	type UsageSubjectRef,
+} from "./usage-quota.js";
+
+/** Storage key for the subject's counters */
+const PERIODS_KEY = "periods";
+
+/** Storage key for the subject (needed by the alarm to build KV keys) */
+const SUBJECT_KEY = "subject";
+
+/** Minimum delay between KV mirror writes (ms) */
+const MIRROR_INTERVAL_MS = 1000;
+
+/**
+ * Durable Object holding one subject's usage counters
+ */
+export class UsageMeter extends DurableObject<Env> {
+	private ledger?: UsageLedger;
+
+	/**
+	 * Check the quotas and count one tool call if none is used up
+	 *
+	 * @param subject Metered subject
+	 * @param toolName Tool being called
+	 * @param quotas Subject's quotas ({} to count without enforcing)
+	 * @param now Current time (ms)
+	 * @returns The first used-up quota (nothing counted), or undefined
+	 */
+	async reserve(
+		subject: UsageSubjectRef,
+		toolName: string,
+		quotas: UsageQuotas,
+		now: number,
+	): Promise<UsageQuotaBreach | undefined> {
+		const ledger = await this.load();
+		const ended = ledger.hasEndedPeriod(now) ? ledger.getPeriods() : undefined;
+		const breach = ledger.reserve(toolName, quotas, now);
+		if (!breach) {
+			await this.save(subject, ended);
+		}
+		return breach;
+	}
+
+	/**
+	 * Add usage to the current day and month
+	 *
+	 * @param subject Metered subject
+	 * @param toolName Tool that was called
+	 * @param toolCalls Tool calls to add (negative to give back a reservation)
+	 * @param upstreamRequests Upstream requests to add
+	 * @param now Current time (ms)
+	 */
+	async record(
+		subject: UsageSubjectRef,
+		toolName: string,
+		toolCalls: number,
+		upstreamRequests: number,
+		now: number,
+	): Promise<void> {
+		const ledger = await this.load();
+		const ended = ledger.hasEndedPeriod(now) ? ledger.getPeriods() : undefined;
+		ledger.add(toolName, toolCalls, upstreamRequests, now);
+		await this.save(subject, ended);
+	}
+
+	/**
+	 * Get the counters of the current period
+	 *
+	 * @param _subject Metered subject (part of the meter interface)
+	 * @param period Day or month
+	 * @param now Current time (ms)
+	 * @returns Counters (zero in a period without usage)
+	 */
+	async getUsage(_subject: UsageSubjectRef, period: UsagePeriod, now: number): Promise<UsageCounters> {
+		return (await this.load()).get(period, now);
+	}
+
+	/**
+	 * Mirror the counters to OAUTH_KV
+	 */
+	async alarm(): Promise<void> {
+		const subject = await this.ctx.storage.get<UsageSubjectRef>(SUBJECT_KEY);
+		if (subject) {
+			await this.mirror(subject, (await this.load()).getPeriods());
+		}
+	}
+
+	/**
+	 * Load the ledger from storage on first use
+	 */
+	private async load(): Promise<UsageLedger> {
+		if (!this.ledger) {
+			const periods = await this.ctx.storage.get<Partial<Record<UsagePeriod, PeriodUsage>>>(PERIODS_KEY);
+			this.ledger = new UsageLedger(periods);
+		}
+		return this.ledger;
+	}
+
+	/**
+	 * Persist the counters and schedule the KV mirror
+	 *
+	 * @param subject Metered subject
+	 * @param ended Counters from before a period ended (mirrored now, since
+	 *   the alarm only sees the new period)
+	 */
+	private async save(subject: UsageSubjectRef, ended?: Partial<Record<UsagePeriod, PeriodUsage>>): Promise<void> {
+		await this.ctx.storage.put({ [PERIODS_KEY]: this.ledger?.getPeriods(), [SUBJECT_KEY]: subject });
+		if ((await this.ctx.storage.getAlarm()) === null) {
+			await this.ctx.storage.setAlarm(Date.now() + MIRROR_INTERVAL_MS);
+		}
+		if (ended) {
+			await this.mirror(subject, ended);
+		}
+	}
+
+	/**
+	 * Write counters to OAUTH_KV
+	 */
+	private async mirror(subject: UsageSubjectRef, periods: Partial<Record<UsagePeriod, PeriodUsage>>): Promise<void> {
+		await Promise.all(
+			(["day", "month"] as const).map((period) => {
+				const usage = periods[period];
+				return usage ? putUsageCounters(this.env, subject, period, usage) : undefined;
+			}),
+		);
+	}
+}
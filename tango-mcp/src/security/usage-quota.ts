@@ -0,0 +1,791 @@
+/**
+ * Usage Metering and Quotas
+ *
+ * Counts tool calls and upstream Tango API requests per user and per MCP
+ * access token, by UTC day and month and broken down by tool, and enforces
+ * daily and monthly quotas on both.
+ *
+ * - Subjects: every session meters its user (OAuth email, or the token's
+ *   owner); MCP token sessions also meter the token itself
+ * - User quotas: USAGE_QUOTA_* defaults, overridden per user by an admin
+ *   (setUserQuotaOverrides); token quotas are stored with the token
+ * - Upstream requests are counted by TangoApiClient through the trace
+ *   context (cache hits are free)
+ * - Over a quota, the tool returns USAGE_QUOTA_EXCEEDED instead of running;
+ *   get_my_usage is never blocked so callers can check their usage
+ * - With the USAGE_METER binding, each subject's counters are owned by a
+ *   UsageMeter Durable Object (see usage-meter.ts): the quota check and the
+ *   tool call count are one serialized step, so parallel calls cannot
+ *   overrun a tool call quota. Upstream requests are added when the call
+ *   ends (after the response, via waitUntil), so calls already running when
+ *   an upstream quota is reached can still finish
+ * - The counters are mirrored to OAUTH_KV (value: counters with the per-tool
+ *   breakdown, metadata: totals, so top consumers need a single list call)
+ * - Without USAGE_METER (local development), counters are read-modify-write
+ *   on OAUTH_KV directly. KV has no atomic increments and allows one write
+ *   per second per key, so parallel calls lose increments and quotas do not
+ *   hold under bursts; bind USAGE_METER wherever quotas matter
+ * - Disabled with ENABLE_TOKEN_ANALYTICS="false"; if KV fails, calls are
+ *   allowed (fail open)
+ *
+ * KV layout:
+ * - usage:{day|month}:{YYYY-MM-DD|YYYY-MM}:{user|token}:{id} → UsageCounters
+ *   (mirror of the UsageMeter counters, or the counters themselves without it)
+ * - usage:quota:user:{userId} → UsageQuotas (admin override)
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuthValidationResult } from "../auth/validate-authentication.js";
+import type { Env } from "../types/env.js";
+import { TangoUsageQuotaExceededError } from "../types/errors.js";
+import { getLogger } from "../utils/logger.js";
+import { toolCallRequest, wrapToolHandlers } from "../utils/tool-middleware.js";
+import { getTraceContext, getTraceId } from "../utils/trace-context.js";
+import { getAuditLogger } from "./audit-logging.js";
+
+/**
+ * Daily and monthly quotas (omitted = unlimited)
+ */
+export interface UsageQuotas {
+	/** Tool calls per UTC day */
+	dailyToolCalls?: number;
+
+	/** Tool calls per UTC month */
+	monthlyToolCalls?: number;
+
+	/** Upstream Tango API requests per UTC day */
+	dailyUpstreamRequests?: number;
+
+	/** Upstream Tango API requests per UTC month */
+	monthlyUpstreamRequests?: number;
+}
+
+/** Who usage is counted against */
+export type UsageSubjectKind = "user" | "token";
+
+/** Quota period (UTC) */
+export type UsagePeriod = "day" | "month";
+
+/** Metered quantity */
+export type UsageMetric = "tool_calls" | "upstream_requests";
+
+/**
+ * Usage totals
+ */
+export interface ToolUsage {
+	tool_calls: number;
+	upstream_requests: number;
+}
+
+/**
+ * Usage for one subject and period, with the per-tool breakdown
+ */
+export interface UsageCounters extends ToolUsage {
+	by_tool: Record<string, ToolUsage>;
+}
+
+/**
+ * A user or token whose usage is metered
+ */
+export interface UsageSubject {
+	kind: UsageSubjectKind;
+	id: string;
+	quotas: UsageQuotas;
+}
+
+/**
+ * Identity of a metered subject
+ */
+export type UsageSubjectRef = Pick<UsageSubject, "kind" | "id">;
+
+/**
+ * Counters of one period
+ */
+export interface PeriodUsage {
+	/** Period key ("2025-01-31" or "2025-01") */
+	key: string;
+	counters: UsageCounters;
+}
+
+/**
+ * A quota that is used up (plain data, so it can cross the Durable Object
+ * RPC boundary)
+ */
+export interface UsageQuotaBreach {
+	period: UsagePeriod;
+	metric: UsageMetric;
+	limit: number;
+	used: number;
+	resetsAt: string;
+}
+
+/**
+ * Usage meter of one subject (the UsageMeter Durable Object stub in production)
+ */
+export interface UsageMeterStub {
+	reserve(
+		subject: UsageSubjectRef,
+		toolName: string,
+		quotas: UsageQuotas,
+		now: number,
+	): Promise<UsageQuotaBreach | undefined>;
+	record(
+		subject: UsageSubjectRef,
+		toolName: string,
+		toolCalls: number,
+		upstreamRequests: number,
+		now: number,
+	): Promise<void>;
+	getUsage(subject: UsageSubjectRef, period: UsagePeriod, now: number): Promise<UsageCounters>;
+}
+
+/**
+ * Usage totals of one subject (top consumers)
+ */
+export interface UsageConsumer extends ToolUsage {
+	kind: UsageSubjectKind;
+	id: string;
+}
+
+/** Tools that are metered but never blocked by quotas */
+export const UNMETERED_TOOLS = ["get_my_usage"] as const;
+
+/** Quota field for each period and metric */
+export const USAGE_QUOTA_FIELDS: Record<UsagePeriod, Record<UsageMetric, keyof UsageQuotas>> = {
+	day: { tool_calls: "dailyToolCalls", upstream_requests: "dailyUpstreamRequests" },
+	month: { tool_calls: "monthlyToolCalls", upstream_requests: "monthlyUpstreamRequests" },
+};
+
+/** Environment variable holding the default user quota for each field */
+const QUOTA_ENV_VARS = {
+	dailyToolCalls: "USAGE_QUOTA_DAILY_TOOL_CALLS",
+	monthlyToolCalls: "USAGE_QUOTA_MONTHLY_TOOL_CALLS",
+	dailyUpstreamRequests: "USAGE_QUOTA_DAILY_UPSTREAM_REQUESTS",
+	monthlyUpstreamRequests: "USAGE_QUOTA_MONTHLY_UPSTREAM_REQUESTS",
+} as const satisfies Record<keyof UsageQuotas, keyof Env>;
+
+/** How long counters are kept (seconds) */
+const COUNTER_TTL_SECONDS: Record<UsagePeriod, number> = {
+	day: 35 * 24 * 60 * 60,
+	month: 400 * 24 * 60 * 60,
+};
+
+/**
+ * Validate and normalize quotas
+ *
+ * @param quotas Requested quotas
+ * @returns Quotas with only the known fields
+ * @throws Error if a quota is not a positive integer
+ */
+export function normalizeUsageQuotas(quotas: UsageQuotas): UsageQuotas {
+	const normalized: UsageQuotas = {};
+	for (const field of Object.keys(QUOTA_ENV_VARS) as Array<keyof UsageQuotas>) {
+		const value = quotas[field];
+		if (value === undefined) {
+			continue;
+		}
+		if (!Number.isInteger(value) || value < 1) {
+			throw new Error(`Usage quota ${field} must be a positive integer. Got: ${value}`);
+		}
+		normalized[field] = value;
+	}
+	return normalized;
+}
+
+/**
+ * Default per-user quotas from the USAGE_QUOTA_* variables
+ *
+ * @param env Environment configuration
+ * @returns Quotas (unset or invalid values are unlimited)
+ */
+export function resolveDefaultUsageQuotas(env: Env): UsageQuotas {
+	const quotas: UsageQuotas = {};
+	for (const [field, name] of Object.entries(QUOTA_ENV_VARS) as Array<[keyof UsageQuotas, keyof Env]>) {
+		const value = Number.parseInt(String(env[name] ?? ""), 10);
+		if (!Number.isNaN(value) && value > 0) {
+			quotas[field] = value;
+		}
+	}
+	return quotas;
+}
+
+/**
+ * Whether usage metering is enabled
+ *
+ * @param env Environment configuration
+ * @returns True unless OAUTH_KV is missing or ENABLE_TOKEN_ANALYTICS is "false"
+ */
+export function isUsageMeteringEnabled(env: Env): boolean {
+	return !!env.OAUTH_KV && env.ENABLE_TOKEN_ANALYTICS !== "false";
+}
+
+/**
+ * Current period key and reset time
+ *
+ * @param period Day or month
+ * @param now Current time (ms)
+ * @returns Period key ("2025-01-31" or "2025-01") and when the next period starts
+ */
+export function getUsagePeriod(period: UsagePeriod, now = Date.now()): { key: string; resetsAt: string } {
+	const date = new Date(now);
+	const year = date.getUTCFullYear();
+	const month = date.getUTCMonth();
+	if (period === "day") {
+		return {
+			key: date.toISOString().slice(0, 10),
+			resetsAt: new Date(Date.UTC(year, month, date.getUTCDate() + 1)).toISOString(),
+		};
+	}
+	return {
+		key: date.toISOString().slice(0, 7),
+		resetsAt: new Date(Date.UTC(year, month + 1, 1)).toISOString(),
+	};
+}
+
+/**
+ * KV key of a subject's counters
+ */
+function usageKey(period: UsagePeriod, periodKey: string, kind: UsageSubjectKind, id: string): string {
+	return `usage:${period}:${periodKey}:${kind}:${id}`;
+}
+
+/**
+ * Empty counters
+ */
+function emptyCounters(): UsageCounters {
+	return { tool_calls: 0, upstream_requests: 0, by_tool: {} };
+}
+
+/**
+ * Add usage to counters and their per-tool breakdown
+ */
+function addToCounters(counters: UsageCounters, toolName: string, toolCalls: number, upstreamRequests: number): void {
+	const tool = counters.by_tool[toolName] ?? { tool_calls: 0, upstream_requests: 0 };
+	counters.tool_calls += toolCalls;
+	counters.upstream_requests += upstreamRequests;
+	tool.tool_calls += toolCalls;
+	tool.upstream_requests += upstreamRequests;
+	counters.by_tool[toolName] = tool;
+}
+
+/**
+ * Find the first used-up quota of a period
+ *
+ * @param quotas Subject's quotas
+ * @param period Day or month
+ * @param usage Subject's usage for the period
+ * @param now Current time (ms)
+ * @returns The breach, or undefined if both metrics are under their quotas
+ */
+function findQuotaBreach(
+	quotas: UsageQuotas,
+	period: UsagePeriod,
+	usage: ToolUsage,
+	now: number,
+): UsageQuotaBreach | undefined {
+	for (const metric of ["tool_calls", "upstream_requests"] as const) {
+		const limit = quotas[USAGE_QUOTA_FIELDS[period][metric]];
+		if (limit !== undefined && usage[metric] >= limit) {
+			return { period, metric, limit, used: usage[metric], resetsAt: getUsagePeriod(period, now).resetsAt };
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Build the tool error for a used-up quota
+ */
+function quotaExceededError(kind: UsageSubjectKind, breach: UsageQuotaBreach): TangoUsageQuotaExceededError {
+	return new TangoUsageQuotaExceededError(kind, breach.period, breach.metric, breach.limit, breach.used, breach.resetsAt);
+}
+
+/**
+ * Day and month counters of one subject
+ *
+ * Pure state machine; the UsageMeter Durable Object owns the instance and
+ * persists it. Counters of a finished period are replaced on the first use
+ * in the new one.
+ */
+export class UsageLedger {
+	private periods: Partial<Record<UsagePeriod, PeriodUsage>>;
+
+	constructor(periods: Partial<Record<UsagePeriod, PeriodUsage>> = {}) {
+		this.periods = periods;
+	}
+
+	/**
+	 * Get the counters of the current period
+	 *
+	 * @param period Day or month
+	 * @param now Current time (ms)
+	 * @returns Counters (zero in a period without usage)
+	 */
+	get(period: UsagePeriod, now = Date.now()): UsageCounters {
+		const usage = this.periods[period];
+		return usage?.key === getUsagePeriod(period, now).key ? usage.counters : emptyCounters();
+	}
+
+	/**
+	 * Check the quotas and count one tool call if none is used up
+	 *
+	 * @param toolName Tool being called
+	 * @param quotas Subject's quotas ({} to count without enforcing)
+	 * @param now Current time (ms)
+	 * @returns The first used-up quota (nothing counted), or undefined
+	 */
+	reserve(toolName: string, quotas: UsageQuotas, now = Date.now()): UsageQuotaBreach | undefined {
+		for (const period of ["day", "month"] as const) {
+			const breach = findQuotaBreach(quotas, period, this.get(period, now), now);
+			if (breach) {
+				return breach;
+			}
+		}
+		this.add(toolName, 1, 0, now);
+		return undefined;
+	}
+
+	/**
+	 * Add usage to the current day and month
+	 *
+	 * @param toolName Tool that was called
+	 * @param toolCalls Tool calls to add (negative to give back a reservation)
+	 * @param upstreamRequests Upstream requests to add
+	 * @param now Current time (ms)
+	 */
+	add(toolName: string, toolCalls: number, upstreamRequests: number, now = Date.now()): void {
+		for (const period of ["day", "month"] as const) {
+			const counters = this.get(period, now);
+			addToCounters(counters, toolName, toolCalls, upstreamRequests);
+			this.periods[period] = { key: getUsagePeriod(period, now).key, counters };
+		}
+	}
+
+	/**
+	 * Check whether a period has ended since its counters were last updated
+	 *
+	 * @param now Current time (ms)
+	 * @returns True if the next update replaces a finished period's counters
+	 */
+	hasEndedPeriod(now = Date.now()): boolean {
+		return (["day", "month"] as const).some((period) => {
+			const usage = this.periods[period];
+			return usage !== undefined && usage.key !== getUsagePeriod(period, now).key;
+		});
+	}
+
+	/**
+	 * Get the counters of every period (for persistence)
+	 */
+	getPeriods(): Partial<Record<UsagePeriod, PeriodUsage>> {
+		return structuredClone(this.periods);
+	}
+}
+
+/**
+ * Write a subject's counters for one period to OAUTH_KV
+ *
+ * @param env Environment configuration
+ * @param subject Metered subject
+ * @param period Day or month
+ * @param usage Period key and counters
+ */
+export async function putUsageCounters(
+	env: Env,
+	subject: UsageSubjectRef,
+	period: UsagePeriod,
+	usage: PeriodUsage,
+): Promise<void> {
+	await env.OAUTH_KV?.put(usageKey(period, usage.key, subject.kind, subject.id), JSON.stringify(usage.counters), {
+		expirationTtl: COUNTER_TTL_SECONDS[period],
+		metadata: { tool_calls: usage.counters.tool_calls, upstream_requests: usage.counters.upstream_requests },
+	});
+}
+
+/**
+ * Get the usage meter of a subject
+ *
+ * @param env Environment configuration
+ * @param subject Metered subject
+ * @returns Durable Object stub, or undefined if USAGE_METER is not bound
+ */
+function getUsageMeter(env: Env, subject: UsageSubjectRef): UsageMeterStub | undefined {
+	const namespace = env.USAGE_METER;
+	if (!namespace) {
+		return undefined;
+	}
+	return namespace.get(namespace.idFromName(`${subject.kind}:${subject.id}`));
+}
+
+/**
+ * Get a user's quota override
+ *
+ * @param userId User ID (email)
+ * @param env Environment configuration
+ * @returns Override, or null if the user has the defaults
+ */
+export async function getUserQuotaOverrides(userId: string, env: Env): Promise<UsageQuotas | null> {
+	const json = await env.OAUTH_KV?.get(`usage:quota:user:${userId.toLowerCase()}`);
+	return json ? (JSON.parse(json) as UsageQuotas) : null;
+}
+
+/**
+ * Set or clear a user's quota override
+ *
+ * The override replaces the USAGE_QUOTA_* defaults field by field.
+ *
+ * @param userId User ID (email)
+ * @param quotas Quotas, or null to return to the defaults
+ * @param env Environment configuration
+ * @returns The stored quotas (normalized), or null when cleared
+ * @throws Error if OAUTH_KV is missing or a quota is invalid
+ */
+export async function setUserQuotaOverrides(
+	userId: string,
+	quotas: UsageQuotas | null,
+	env: Env,
+): Promise<UsageQuotas | null> {
+	if (!env.OAUTH_KV) {
+		throw new Error("OAUTH_KV namespace not configured");
+	}
+	const key = `usage:quota:user:${userId.toLowerCase()}`;
+	if (quotas === null) {
+		await env.OAUTH_KV.delete(key);
+		return null;
+	}
+	const normalized = normalizeUsageQuotas(quotas);
+	await env.OAUTH_KV.put(key, JSON.stringify(normalized));
+	return normalized;
+}
+
+/**
+ * Resolve the metered subjects of an authenticated session
+ *
+ * @param auth Authentication result for the session
+ * @param env Environment configuration
+ * @returns The user (with defaults and override applied) and, for MCP token
+ *   sessions, the token (with its own quotas)
+ */
+export async function resolveUsageSubjects(auth: AuthValidationResult, env: Env): Promise<UsageSubject[]> {
+	const subjects: UsageSubject[] = [];
+
+	const userId = (auth.method === "oauth" ? auth.user.email : auth.user.userId)?.toLowerCase();
+	if (userId) {
+		subjects.push({
+			kind: "user",
+			id: userId,
+			quotas: {
+				...resolveDefaultUsageQuotas(env),
+				...(await getUserQuotaOverrides(userId, env)),
+			},
+		});
+	}
+
+	if (auth.method === "mcp-token" && auth.user.tokenId) {
+		subjects.push({ kind: "token", id: auth.user.tokenId, quotas: auth.quotas ?? {} });
+	}
+
+	return subjects;
+}
+
+/**
+ * Get a subject's usage for the current period
+ *
+ * @param env Environment configuration
+ * @param kind User or token
+ * @param id User ID or token ID
+ * @param period Day or month
+ * @param now Current time (ms)
+ * @returns Counters (zero if nothing was recorded)
+ */
+export async function getUsage(
+	env: Env,
+	kind: UsageSubjectKind,
+	id: string,
+	period: UsagePeriod,
+	now = Date.now(),
+): Promise<UsageCounters> {
+	const meter = getUsageMeter(env, { kind, id });
+	if (meter) {
+		return meter.getUsage({ kind, id }, period, now);
+	}
+
+	const json = await env.OAUTH_KV?.get(usageKey(period, getUsagePeriod(period, now).key, kind, id));
+	return json ? (JSON.parse(json) as UsageCounters) : emptyCounters();
+}
+
+/**
+ * Record one tool call for every subject in OAUTH_KV (without USAGE_METER)
+ *
+ * @param env Environment configuration
+ * @param subjects Metered subjects
+ * @param toolName Tool that was called
+ * @param upstreamRequests Upstream requests made by the call
+ * @param now Current time (ms)
+ */
+export async function recordUsage(
+	env: Env,
+	subjects: UsageSubject[],
+	toolName: string,
+	upstreamRequests: number,
+	now = Date.now(),
+): Promise<void> {
+	const kv = env.OAUTH_KV;
+	if (!kv) {
+		return;
+	}
+
+	const updates = subjects.flatMap((subject) =>
+		(["day", "month"] as const).map(async (period) => {
+			const key = getUsagePeriod(period, now).key;
+			const json = await kv.get(usageKey(period, key, subject.kind, subject.id));
+			const counters = json ? (JSON.parse(json) as UsageCounters) : emptyCounters();
+			addToCounters(counters, toolName, 1, upstreamRequests);
+			await putUsageCounters(env, subject, period, { key, counters });
+		}),
+	);
+
+	await Promise.all(updates);
+}
+
+/**
+ * Check every subject's quotas
+ *
+ * Only periods with a quota are read.
+ *
+ * @param env Environment configuration
+ * @param subjects Metered subjects
+ * @param now Current time (ms)
+ * @returns The first exceeded quota, or undefined if the call may run
+ */
+export async function checkUsageQuotas(
+	env: Env,
+	subjects: UsageSubject[],
+	now = Date.now(),
+): Promise<TangoUsageQuotaExceededError | undefined> {
+	for (const subject of subjects) {
+		for (const period of ["day", "month"] as const) {
+			const limits = USAGE_QUOTA_FIELDS[period];
+			if (subject.quotas[limits.tool_calls] === undefined && subject.quotas[limits.upstream_requests] === undefined) {
+				continue;
+			}
+
+			const usage = await getUsage(env, subject.kind, subject.id, period, now);
+			const breach = findQuotaBreach(subject.quotas, period, usage, now);
+			if (breach) {
+				return quotaExceededError(subject.kind, breach);
+			}
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Check every subject's quotas and count the tool call, in one step per
+ * subject (requires USAGE_METER)
+ *
+ * If a later subject's quota is used up, the calls already counted for the
+ * earlier subjects are given back.
+ *
+ * @param env Environment configuration
+ * @param subjects Metered subjects
+ * @param toolName Tool being called
+ * @param enforce False to count the call without checking quotas
+ * @param now Current time (ms)
+ * @returns The first exceeded quota (call not counted), or undefined
+ */
+export async function reserveToolCall(
+	env: Env,
+	subjects: UsageSubject[],
+	toolName: string,
+	enforce: boolean,
+	now = Date.now(),
+): Promise<TangoUsageQuotaExceededError | undefined> {
+	const reserved: UsageSubject[] = [];
+	for (const subject of subjects) {
+		const ref = { kind: subject.kind, id: subject.id };
+		const breach = await getUsageMeter(env, ref)?.reserve(ref, toolName, enforce ? subject.quotas : {}, now);
+		if (breach) {
+			await Promise.all(
+				reserved.map((taken) =>
+					getUsageMeter(env, taken)?.record({ kind: taken.kind, id: taken.id }, toolName, -1, 0, now),
+				),
+			);
+			return quotaExceededError(subject.kind, breach);
+		}
+		reserved.push(subject);
+	}
+	return undefined;
+}
+
+/**
+ * Add usage to every subject's meter (requires USAGE_METER)
+ *
+ * @param env Environment configuration
+ * @param subjects Metered subjects
+ * @param toolName Tool that was called
+ * @param toolCalls Tool calls not yet counted by reserveToolCall
+ * @param upstreamRequests Upstream requests made by the call
+ * @param now Current time (ms)
+ */
+export async function recordMeteredUsage(
+	env: Env,
+	subjects: UsageSubject[],
+	toolName: string,
+	toolCalls: number,
+	upstreamRequests: number,
+	now = Date.now(),
+): Promise<void> {
+	if (toolCalls === 0 && upstreamRequests === 0) {
+		return;
+	}
+	await Promise.all(
+		subjects.map((subject) =>
+			getUsageMeter(env, subject)?.record(
+				{ kind: subject.kind, id: subject.id },
+				toolName,
+				toolCalls,
+				upstreamRequests,
+				now,
+			),
+		),
+	);
+}
+
+/**
+ * List the top consumers of a period
+ *
+ * @param env Environment configuration
+ * @param options Period (default day), subject kind (default user), ranking
+ *   metric (default tool_calls), number of consumers (default 10) and period
+ *   time (default now)
+ * @returns Period key and consumers, highest usage first
+ */
+export async function getTopConsumers(
+	env: Env,
+	options: { period?: UsagePeriod; kind?: UsageSubjectKind; metric?: UsageMetric; limit?: number; now?: number } = {},
+): Promise<{ period: UsagePeriod; period_key: string; consumers: UsageConsumer[] }> {
+	const { period = "day", kind = "user", metric = "tool_calls", limit = 10, now = Date.now() } = options;
+	const periodKey = getUsagePeriod(period, now).key;
+	const prefix = `usage:${period}:${periodKey}:${kind}:`;
+
+	const consumers: UsageConsumer[] = [];
+	let cursor: string | undefined;
+	do {
+		const page: KVNamespaceListResult<ToolUsage> = await (env.OAUTH_KV as KVNamespace).list<ToolUsage>({
+			prefix,
+			cursor,
+		});
+		for (const key of page.keys) {
+			consumers.push({
+				kind,
+				id: key.name.slice(prefix.length),
+				tool_calls: key.metadata?.tool_calls ?? 0,
+				upstream_requests: key.metadata?.upstream_requests ?? 0,
+			});
+		}
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+
+	consumers.sort((a, b) => b[metric] - a[metric]);
+	return { period, period_key: periodKey, consumers: consumers.slice(0, limit) };
+}
+
+/**
+ * Meter every tool registered from now on and enforce quotas
+ *
+ * Must be called before tools are registered, after traceToolHandlers (the
+ * upstream request count lives in the trace context).
+ *
+ * @param server MCP server
+ * @param env Environment configuration (USAGE_METER or OAUTH_KV holds the counters)
+ * @param subjects Metered subjects (see resolveUsageSubjects)
+ * @param waitUntil Keeps the usage update alive after the response (awaited if omitted)
+ */
+export function meterToolCalls(
+	server: McpServer,
+	env: Env,
+	subjects: UsageSubject[],
+	waitUntil?: (promise: Promise<unknown>) => void,
+): void {
+	const metered = env.USAGE_METER !== undefined;
+
+	wrapToolHandlers(server, (handler, toolName) => async (...handlerArgs) => {
+		const startTime = Date.now();
+		const logger = getLogger();
+		const enforce = !(UNMETERED_TOOLS as readonly string[]).includes(toolName);
+
+		// Tool calls still to record after the handler (1 unless reserved)
+		let unrecordedCalls = 1;
+		let exceeded: TangoUsageQuotaExceededError | undefined;
+		if (metered || enforce) {
+			try {
+				if (metered) {
+					exceeded = await reserveToolCall(env, subjects, toolName, enforce);
+					unrecordedCalls = 0;
+				} else {
+					exceeded = await checkUsageQuotas(env, subjects);
+				}
+			} catch (error) {
+				logger.warn("Usage quota check failed, allowing call", {
+					tool: toolName,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+
+		if (exceeded) {
+			logger.warn("Usage quota exceeded", {
+				tool: toolName,
+				subject: exceeded.subject,
+				period: exceeded.period,
+				metric: exceeded.metric,
+			});
+			await getAuditLogger().logSecurityEvent("usage_quota_exceeded", "warning", toolCallRequest(handlerArgs), {
+				tool: toolName,
+				...exceeded.toErrorResponse().context,
+			});
+
+			return {
+				content: [
+					{
+						type: "text",
+						text: JSON.stringify(
+							{
+								...exceeded.toErrorResponse(),
+								execution: {
+									duration_ms: Date.now() - startTime,
+									trace_id: getTraceId(),
+								},
+							},
+							null,
+							2,
+						),
+					},
+				],
+			};
+		}
+
+		const trace = getTraceContext();
+		const upstreamBefore = trace?.upstream_requests ?? 0;
+		try {
+			return await handler(...handlerArgs);
+		} finally {
+			const upstreamRequests = (trace?.upstream_requests ?? 0) - upstreamBefore;
+			const update = (
+				metered
+					? recordMeteredUsage(env, subjects, toolName, unrecordedCalls, upstreamRequests)
+					: recordUsage(env, subjects, toolName, upstreamRequests)
+			).catch((error) => {
+				logger.warn("Failed to record tool usage", {
+					tool: toolName,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			});
+			if (waitUntil) {
+				waitUntil(update);
+			} else {
+				await update;
+			}
+		}
+	});
+}
@@ -11,8 +11,10 @@ import type { Env } from "@/types/env";
 import { TangoApiClient } from "@/api/tango-client";
 import { sanitizeToolArgs } from "@/middleware/sanitization";
 import { normalizeContract } from "@/utils/normalizer";
-import type { CacheManager } from "@/cache/kv-cache";
+import type { CacheManager, CacheTier } from "@/cache/kv-cache";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import { z } from "zod";
 import { NAICS_DESCRIPTIONS } from "@/data/naics-codes";
 
@@ -55,11 +57,22 @@ interface AgencyAnalytics {
 	};
 	execution: {
 		duration_ms: number;
+		trace_id?: string;
 		cached: boolean;
 		api_calls: number;
+		attempts: number;
+		retry_wait_ms: number;
+		cache: {
+			stale: boolean;
+			age_seconds?: number;
+			tier?: CacheTier;
+		};
 	};
 }
 
+/** Limit used when a call omits `limit` */
+export const GET_AGENCY_ANALYTICS_DEFAULT_LIMIT = 100;
+
 /**
  * Register get agency analytics tool with the MCP server
  */
@@ -108,7 +121,7 @@ export function registerGetAgencyAnalyticsTool(
 				.int()
 				.min(1)
 				.max(100)
-				.default(100)
+				.default(GET_AGENCY_ANALYTICS_DEFAULT_LIMIT)
 				.optional()
 				.describe(
 					"Maximum contracts to analyze for aggregation. Default: 100, Maximum: 100. Higher values give more complete analysis but slower response."
@@ -179,7 +192,7 @@ export function registerGetAgencyAnalyticsTool(
 					params.fiscal_year = fy;
 				}
 
-				params.limit = sanitized.limit || 100;
+				params.limit = sanitized.limit || GET_AGENCY_ANALYTICS_DEFAULT_LIMIT;
 				params.ordering = "-award_amount"; // Get largest contracts first
 
 				// Call Tango API with caching
@@ -360,13 +373,21 @@ export function registerGetAgencyAnalyticsTool(
 						award_type: sanitized.award_type || "contracts",
 					},
 					page_info: {
-						limit: sanitized.limit || 100,
+						limit: sanitized.limit || GET_AGENCY_ANALYTICS_DEFAULT_LIMIT,
 						total_available: response.data.total || response.data.count || undefined,
 					},
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: response.cache?.hit || false,
 						api_calls: 1,
+						attempts: response.retry?.attempts ?? 0,
+						retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 					},
 				};
 
@@ -379,6 +400,12 @@ export function registerGetAgencyAnalyticsTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				// Handle unexpected errors
 				return {
 					content: [
@@ -393,6 +420,7 @@ export function registerGetAgencyAnalyticsTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
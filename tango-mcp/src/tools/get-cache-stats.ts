@@ -0,0 +1,91 @@
+/**
+ * Get Cache Stats Tool (admin only)
+ *
+ * Returns cache statistics for operators: hit/miss/write/eviction counters
+ * merged across isolates, sampled key counts, memory tier occupancy and the
+ * active TTL policy. Reads incremental counters only - never a full KV scan.
+ *
+ * Registered only for OAuth sessions with the admin role (ADMIN_EMAILS or a
+ * role assignment; see auth/user-roles.ts).
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CacheManager } from "@/cache/kv-cache";
+import { getCacheMetrics } from "@/cache/cache-stats";
+import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+
+/**
+ * Register get cache stats tool with the MCP server
+ *
+ * @param server MCP server instance
+ * @param cache Cache manager to report on
+ */
+export function registerGetCacheStatsTool(server: McpServer, cache: CacheManager): void {
+	server.tool(
+		"get_cache_stats",
+		"Admin only. Returns Tango response cache statistics: hit rate, hits, misses, stale hits, writes and memory-tier evictions by tool (merged across server isolates), sampled key counts, memory tier occupancy, and the active per-endpoint TTL policy. Use this to check cache effectiveness or tune TTLs.",
+		{}, // No parameters
+		async () => {
+			const startTime = Date.now();
+			const logger = getLogger();
+
+			try {
+				const [stats, ttlPolicy] = await Promise.all([
+					cache.getStats(),
+					cache.getTtlPolicy(),
+				]);
+
+				const result = {
+					data: {
+						...stats,
+						// Live counters for the isolate serving this session
+						isolate_metrics: getCacheMetrics(),
+						ttl: cache.getTtlSettings(),
+						ttl_policy: ttlPolicy,
+					},
+					execution: {
+						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
+					},
+				};
+
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify(result, null, 2),
+						},
+					],
+				};
+			} catch (error) {
+				logger.error(
+					"Unexpected error in get_cache_stats",
+					error instanceof Error ? error : new Error(String(error)),
+					{ tool: "get_cache_stats" },
+				);
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify(
+								{
+									error: error instanceof Error ? error.message : "Unknown error",
+									error_code: "INTERNAL_ERROR",
+									suggestion: "Contact support if this error persists",
+									recoverable: false,
+									execution: {
+										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
+									},
+								},
+								null,
+								2,
+							),
+						},
+					],
+				};
+			}
+		},
+	);
+}
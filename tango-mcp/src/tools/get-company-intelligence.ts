@@ -12,6 +12,8 @@ import type { CacheManager } from "@/cache/kv-cache";
 import { sanitizeToolArgs } from "@/middleware/sanitization";
 import type { Env } from "@/types/env";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import type { RichTextNode } from "@/types/tango-api";
 
 /**
@@ -179,8 +181,16 @@ export function registerGetCompanyIntelligenceTool(
 					},
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: response.cache?.hit || false,
 						api_calls: 1,
+						attempts: response.retry?.attempts ?? 0,
+						retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 					},
 				};
 
@@ -193,6 +203,12 @@ export function registerGetCompanyIntelligenceTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				// Handle unexpected errors
 				logger.error(
 					"Unexpected error in get_tango_company_intelligence",
@@ -211,6 +227,7 @@ export function registerGetCompanyIntelligenceTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
@@ -11,6 +11,8 @@ import { TangoApiClient } from "@/api/tango-client";
 import { sanitizeToolArgs } from "@/middleware/sanitization";
 import type { CacheManager } from "@/cache/kv-cache";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import { z } from "zod";
 
 /**
@@ -157,8 +159,16 @@ export function registerGetContractDetailTool(
 					contract_key: sanitized.contract_key,
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: response.cache?.hit || false,
 						api_calls: response.cache?.hit ? 0 : 1,
+						attempts: response.retry?.attempts ?? 0,
+						retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 					},
 				};
 
@@ -171,6 +181,12 @@ export function registerGetContractDetailTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				// Handle unexpected errors
 				logger.error(
 					"Unexpected error in get_tango_contract_detail",
@@ -190,6 +206,7 @@ export function registerGetContractDetailTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
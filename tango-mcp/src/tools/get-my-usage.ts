@@ -0,0 +1,123 @@
+/**
+ * Get My Usage Tool
+ *
+ * Reports the caller's tool calls and upstream Tango API requests for the
+ * current UTC day and month, per tool, against their quotas. For MCP token
+ * sessions both the token and its owner are reported.
+ *
+ * Registered for every session when usage metering is enabled; never blocked
+ * by quotas or token scopes.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+	getUsage,
+	getUsagePeriod,
+	USAGE_QUOTA_FIELDS,
+	type UsageMetric,
+	type UsageSubject,
+} from "@/security/usage-quota";
+import type { Env } from "@/types/env";
+import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+
+/**
+ * Register get my usage tool with the MCP server
+ *
+ * @param server MCP server instance
+ * @param env Environment configuration (OAUTH_KV holds the counters)
+ * @param subjects The session's metered subjects
+ */
+export function registerGetMyUsageTool(server: McpServer, env: Env, subjects: UsageSubject[]): void {
+	server.tool(
+		"get_my_usage",
+		"Reports your usage of this server for the current UTC day and month: tool calls and upstream Tango API requests (cache hits are free), broken down by tool, with your quotas, what remains and when each period resets. For MCP access tokens, usage is reported for both the token and its owner. Check this when a tool returns USAGE_QUOTA_EXCEEDED or before running large batches.",
+		{},
+		async () => {
+			const startTime = Date.now();
+			const logger = getLogger();
+
+			try {
+				const now = Date.now();
+				const usage = await Promise.all(
+					subjects.map(async (subject) => {
+						const periods = await Promise.all(
+							(["day", "month"] as const).map(async (period) => {
+								const counters = await getUsage(env, subject.kind, subject.id, period, now);
+								const { key, resetsAt } = getUsagePeriod(period, now);
+								const quota = (metric: UsageMetric) => subject.quotas[USAGE_QUOTA_FIELDS[period][metric]] ?? null;
+								const remaining = (metric: UsageMetric) => {
+									const limit = quota(metric);
+									return limit === null ? null : Math.max(0, limit - counters[metric]);
+								};
+								return [
+									period,
+									{
+										period: key,
+										resets_at: resetsAt,
+										tool_calls: counters.tool_calls,
+										upstream_requests: counters.upstream_requests,
+										quota: {
+											tool_calls: quota("tool_calls"),
+											upstream_requests: quota("upstream_requests"),
+										},
+										remaining: {
+											tool_calls: remaining("tool_calls"),
+											upstream_requests: remaining("upstream_requests"),
+										},
+										by_tool: counters.by_tool,
+									},
+								] as const;
+							}),
+						);
+						return { subject: subject.kind, id: subject.id, ...Object.fromEntries(periods) };
+					}),
+				);
+
+				const result = {
+					data: { usage },
+					execution: {
+						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
+					},
+				};
+
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify(result, null, 2),
+						},
+					],
+				};
+			} catch (error) {
+				logger.error(
+					"Unexpected error in get_my_usage",
+					error instanceof Error ? error : new Error(String(error)),
+					{ tool: "get_my_usage" },
+				);
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify(
+								{
+									error: error instanceof Error ? error.message : "Unknown error",
+									error_code: "INTERNAL_ERROR",
+									suggestion: "Contact support if this error persists",
+									recoverable: false,
+									execution: {
+										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
+									},
+								},
+								null,
+								2,
+							),
+						},
+					],
+				};
+			}
+		},
+	);
+}
@@ -0,0 +1,117 @@
+/**
+ * Get Schema Drift Tool (admin only)
+ *
+ * Returns the Tango API schema drift report: per endpoint, the unknown
+ * fields, missing expected fields and type mismatches found by validating
+ * responses against the runtime schemas, merged across isolates.
+ *
+ * Registered only for OAuth sessions with the admin role (ADMIN_EMAILS or a
+ * role assignment; see auth/user-roles.ts), and only when TANGO_CACHE is
+ * bound (the report is read from it).
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import type { Env } from "@/types/env";
+import { type EndpointDrift, readSchemaDriftReport } from "@/api/schema-drift";
+import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+
+/**
+ * Register get schema drift tool with the MCP server
+ *
+ * @param server MCP server instance
+ * @param env Cloudflare Workers environment bindings
+ */
+export function registerGetSchemaDriftTool(server: McpServer, env: Env): void {
+	server.tool(
+		"get_schema_drift",
+		"Admin only. Returns the Tango API schema drift report: for each endpoint, how many responses were validated and how many drifted from the expected schema, with counts of unknown fields, missing expected fields and type mismatches by field path (merged across server isolates). Use this to spot upstream API changes before they break tools.",
+		{
+			endpoint: z
+				.string()
+				.optional()
+				.describe(
+					"Only report endpoints whose label contains this text (e.g., '/contracts/'). Omit for all endpoints.",
+				),
+			drifted_only: z
+				.boolean()
+				.optional()
+				.describe("Only report endpoints with drift. Default: false"),
+		},
+		async (args) => {
+			const startTime = Date.now();
+			const logger = getLogger();
+
+			try {
+				const report = await readSchemaDriftReport(env.TANGO_CACHE);
+
+				const endpoints: Record<string, EndpointDrift> = {};
+				for (const [endpoint, entry] of Object.entries(report.endpoints)) {
+					if (args.endpoint && !endpoint.includes(args.endpoint)) {
+						continue;
+					}
+					if (args.drifted_only && entry.drifted === 0) {
+						continue;
+					}
+					endpoints[endpoint] = entry;
+				}
+
+				const entries = Object.values(endpoints);
+				const result = {
+					data: {
+						summary: {
+							endpoints_checked: entries.length,
+							endpoints_drifted: entries.filter((entry) => entry.drifted > 0).length,
+							responses_checked: entries.reduce((sum, entry) => sum + entry.checked, 0),
+							responses_drifted: entries.reduce((sum, entry) => sum + entry.drifted, 0),
+						},
+						endpoints,
+						since: report.since,
+						isolates: report.isolates,
+					},
+					execution: {
+						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
+					},
+				};
+
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify(result, null, 2),
+						},
+					],
+				};
+			} catch (error) {
+				logger.error(
+					"Unexpected error in get_schema_drift",
+					error instanceof Error ? error : new Error(String(error)),
+					{ tool: "get_schema_drift" },
+				);
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify(
+								{
+									error: error instanceof Error ? error.message : "Unknown error",
+									error_code: "INTERNAL_ERROR",
+									suggestion: "Contact support if this error persists",
+									recoverable: false,
+									execution: {
+										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
+									},
+								},
+								null,
+								2,
+							),
+						},
+					],
+				};
+			}
+		},
+	);
+}
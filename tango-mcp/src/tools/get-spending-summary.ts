@@ -12,9 +12,14 @@ import { sanitizeToolArgs } from "@/middleware/sanitization";
 import { normalizeContract } from "@/utils/normalizer";
 import type { CacheManager } from "@/cache/kv-cache";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import { z } from "zod";
 import { NAICS_DESCRIPTIONS } from "@/data/naics-codes";
 
+/** Limit used when a call omits `limit` */
+export const GET_SPENDING_SUMMARY_DEFAULT_LIMIT = 100;
+
 /**
  * Register get spending summary tool with the MCP server
  */
@@ -68,7 +73,7 @@ export function registerGetSpendingSummaryTool(
 				.int()
 				.min(1)
 				.max(100)
-				.default(100)
+				.default(GET_SPENDING_SUMMARY_DEFAULT_LIMIT)
 				.optional()
 				.describe(
 					"Maximum records to analyze for aggregation. Default: 100, Maximum: 100. Higher values give more complete analysis but slower response."
@@ -121,7 +126,7 @@ export function registerGetSpendingSummaryTool(
 					params.award_date_lte = `${fy}-09-30`;
 				}
 
-				params.limit = sanitized.limit || 100;
+				params.limit = sanitized.limit || GET_SPENDING_SUMMARY_DEFAULT_LIMIT;
 
 				// Call Tango API with caching
 				const client = new TangoApiClient(env, cache);
@@ -230,14 +235,22 @@ export function registerGetSpendingSummaryTool(
 						vendor_uei: sanitized.vendor_uei || null,
 					},
 					page_info: {
-						limit: sanitized.limit || 100,
+						limit: sanitized.limit || GET_SPENDING_SUMMARY_DEFAULT_LIMIT,
 						total_available: response.data.total || response.data.count || null,
 						next_cursor: null,
 					},
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: false,
 						api_calls: 1,
+						attempts: response.retry?.attempts ?? 0,
+						retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 					},
 				};
 
@@ -250,6 +263,12 @@ export function registerGetSpendingSummaryTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				// Handle unexpected errors
 				return {
 					content: [
@@ -264,6 +283,7 @@ export function registerGetSpendingSummaryTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
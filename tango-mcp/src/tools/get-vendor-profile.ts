@@ -12,8 +12,13 @@ import { sanitizeToolArgs } from "@/middleware/sanitization";
 import { normalizeVendor } from "@/utils/normalizer";
 import type { CacheManager } from "@/cache/kv-cache";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import { z } from "zod";
 
+/** History records fetched per type when a call omits `history_limit` */
+export const GET_VENDOR_PROFILE_DEFAULT_HISTORY_LIMIT = 10;
+
 /**
  * Register get vendor profile tool with the MCP server
  */
@@ -46,7 +51,7 @@ export function registerGetVendorProfileTool(
 				.int()
 				.min(1)
 				.max(50)
-				.default(10)
+				.default(GET_VENDOR_PROFILE_DEFAULT_HISTORY_LIMIT)
 				.optional()
 				.describe(
 					"Maximum number of history records to fetch per type (contracts and subawards). Default: 10. Only used when include_history is true."
@@ -119,6 +124,8 @@ export function registerGetVendorProfileTool(
 					apiKey
 				);
 				apiCalls++;
+				let attempts = response.retry?.attempts ?? 0;
+				let retryWaitMs = response.retry?.total_wait_ms ?? 0;
 
 				// Handle API error
 				if (!response.success || !response.data) {
@@ -151,7 +158,7 @@ export function registerGetVendorProfileTool(
 
 				// Fetch history if requested
 				if (sanitized.include_history) {
-					const limit = sanitized.history_limit || 10;
+					const limit = sanitized.history_limit || GET_VENDOR_PROFILE_DEFAULT_HISTORY_LIMIT;
 
 					try {
 						// Fetch contracts and subawards in parallel
@@ -168,6 +175,10 @@ export function registerGetVendorProfileTool(
 							),
 						]);
 						apiCalls += 2;
+						for (const historyResponse of [contractsResponse, subawardsResponse]) {
+							attempts += historyResponse.retry?.attempts ?? 0;
+							retryWaitMs += historyResponse.retry?.total_wait_ms ?? 0;
+						}
 
 						// Add contract history
 						if (contractsResponse.success && contractsResponse.data?.results) {
@@ -217,8 +228,16 @@ export function registerGetVendorProfileTool(
 					filters: sanitized,
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: false,
 						api_calls: apiCalls,
+						attempts,
+						retry_wait_ms: retryWaitMs,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 						history_fetched: sanitized.include_history || false,
 					},
 				};
@@ -232,6 +251,12 @@ export function registerGetVendorProfileTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				// Handle validation errors specifically
 				if (error instanceof Error && error.message.includes("Invalid UEI")) {
 					return {
@@ -270,6 +295,7 @@ export function registerGetVendorProfileTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
@@ -1,31 +1,42 @@
 /**
  * Health Check Tool
  *
- * Returns server health status.
+ * Returns server health status, including the upstream circuit breaker state
+ * and cache hit-rate metrics for the isolate serving tool calls.
  */
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getUpstreamCircuitBreaker } from "@/api/circuit-breaker";
+import { getCacheMetrics } from "@/cache/cache-stats";
+import type { Env } from "@/types/env";
 
 /**
  * Register health check tool with the MCP server
+ *
+ * @param server MCP server instance
+ * @param env Optional environment (used to configure the circuit breaker)
  */
-export function registerHealthTool(server: McpServer): void {
+export function registerHealthTool(server: McpServer, env?: Env): void {
 	server.tool(
 		"health",
 		"Returns the health status of the MCP server",
 		{}, // No parameters
 		async () => {
+			const circuitBreaker = getUpstreamCircuitBreaker(env).getSnapshot();
+
 			return {
 				content: [
 					{
 						type: "text",
 						text: JSON.stringify(
 							{
-								status: "healthy",
+								status: circuitBreaker.state === "open" ? "degraded" : "healthy",
 								timestamp: new Date().toISOString(),
 								uptime: process.uptime ? process.uptime() : "N/A",
 								server: "tango-mcp",
 								version: "1.0.0",
+								circuit_breaker: circuitBreaker,
+								cache_metrics: getCacheMetrics(),
 							},
 							null,
 							2,
@@ -17,8 +17,13 @@ import type { CacheManager } from "@/cache/kv-cache";
 import { sanitizeToolArgs } from "@/middleware/sanitization";
 import type { Env } from "@/types/env";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import { createAgencyForecastDiscoveryService } from "@/services/agency-forecast-discovery";
 
+/** Limit used when a call omits `limit` */
+export const LOOKUP_AGENCY_DEFAULT_LIMIT = 10;
+
 /**
  * Register lookup agency tool with the MCP server
  */
@@ -43,7 +48,7 @@ export function registerLookupAgencyTool(
 				.int()
 				.min(1)
 				.max(100)
-				.default(10)
+				.default(LOOKUP_AGENCY_DEFAULT_LIMIT)
 				.optional()
 				.describe(
 					"Maximum number of agencies to return. Default: 10, Maximum: 100. Use smaller values for faster responses.",
@@ -66,7 +71,7 @@ export function registerLookupAgencyTool(
 				// Build API parameters
 				const params: Record<string, unknown> = {
 					search: sanitized.query,
-					limit: sanitized.limit || 10,
+					limit: sanitized.limit || LOOKUP_AGENCY_DEFAULT_LIMIT,
 				};
 
 				// Call Tango API with caching
@@ -141,14 +146,22 @@ export function registerLookupAgencyTool(
 					returned: agencies.length,
 					query: sanitized.query,
 					pagination: {
-						limit: sanitized.limit || 10,
-						has_more: agencies.length >= (sanitized.limit || 10) &&
+						limit: sanitized.limit || LOOKUP_AGENCY_DEFAULT_LIMIT,
+						has_more: agencies.length >= (sanitized.limit || LOOKUP_AGENCY_DEFAULT_LIMIT) &&
 							agencies.length < (response.data.total || response.data.count || 0),
 					},
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: response.cache?.hit || false,
 						api_calls: 1,
+						attempts: response.retry?.attempts ?? 0,
+						retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 						forecast_discovery: {
 							cached: forecastDiscovery.cached,
 							source: forecastDiscovery.source,
@@ -170,6 +183,12 @@ export function registerLookupAgencyTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				// Handle unexpected errors
 				logger.error(
 					"Unexpected error in lookup_tango_agency",
@@ -189,6 +208,7 @@ export function registerLookupAgencyTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
@@ -0,0 +1,137 @@
+/**
+ * Query Audit Log Tool (admin only)
+ *
+ * Searches the persisted audit log (tool executions, authentication and
+ * security events) by time window, user, token, tool, event type and
+ * outcome. Requires a persistent audit sink (AUDIT_LOG_BUCKET or AUDIT_DB).
+ *
+ * Registered only for OAuth sessions with the admin role (ADMIN_EMAILS or a
+ * role assignment; see auth/user-roles.ts).
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { getAuditLogger } from "@/security/audit-logging";
+import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+
+/**
+ * Register query audit log tool with the MCP server
+ *
+ * @param server MCP server instance
+ */
+export function registerQueryAuditLogTool(server: McpServer): void {
+	server.tool(
+		"query_audit_log",
+		"Admin only. Searches the persisted audit log: every tool call (user, token ID, tool, sanitized arguments, result size, duration, outcome) plus authentication and security events such as rate limit violations. Filter by time window (default: last 24 hours, up to 31 days), user email, token ID prefix, tool name, event type and success. Results are newest first.",
+		{
+			since: z
+				.string()
+				.datetime({ offset: true })
+				.optional()
+				.describe("Earliest event time (ISO 8601, e.g., '2025-01-31T00:00:00Z'). Default: 24 hours before 'until'"),
+			until: z
+				.string()
+				.datetime({ offset: true })
+				.optional()
+				.describe("Latest event time (ISO 8601). Default: now"),
+			user: z.string().optional().describe("User email (OAuth) or user ID, case-insensitive"),
+			token_id: z
+				.string()
+				.optional()
+				.describe("MCP token ID or its first characters (as shown in audit entries, e.g., 'a1b2c3d4')"),
+			tool: z.string().optional().describe("Tool name (e.g., 'search_contracts')"),
+			event_type: z
+				.string()
+				.optional()
+				.describe(
+					"Event type: 'tool_execution', 'authentication', 'token_validation', 'oauth_callback', 'rate_limit_exceeded'",
+				),
+			success: z.boolean().optional().describe("Only successful (true) or only failed (false) events"),
+			limit: z.number().int().min(1).max(500).optional().describe("Maximum entries to return. Default: 100"),
+		},
+		async (args) => {
+			const startTime = Date.now();
+			const logger = getLogger();
+			const auditLogger = getAuditLogger();
+
+			if (auditLogger.getSinkKind() === "console") {
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify(
+								{
+									error: "No persistent audit sink is configured",
+									error_code: "AUDIT_SINK_NOT_CONFIGURED",
+									suggestion:
+										"Bind an R2 bucket as AUDIT_LOG_BUCKET or a D1 database as AUDIT_DB (see README: Audit Log)",
+									recoverable: false,
+									execution: {
+										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
+									},
+								},
+								null,
+								2,
+							),
+						},
+					],
+				};
+			}
+
+			try {
+				const { entries, truncated } = await auditLogger.query(args);
+
+				const result = {
+					data: {
+						entries,
+						returned: entries.length,
+						truncated,
+						sink: auditLogger.getSinkKind(),
+					},
+					execution: {
+						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
+					},
+				};
+
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify(result, null, 2),
+						},
+					],
+				};
+			} catch (error) {
+				logger.error(
+					"Unexpected error in query_audit_log",
+					error instanceof Error ? error : new Error(String(error)),
+					{ tool: "query_audit_log" },
+				);
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify(
+								{
+									error: error instanceof Error ? error.message : "Unknown error",
+									error_code: "INTERNAL_ERROR",
+									suggestion: "Contact support if this error persists",
+									recoverable: false,
+									execution: {
+										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
+									},
+								},
+								null,
+								2,
+							),
+						},
+					],
+				};
+			}
+		},
+	);
+}
@@ -12,6 +12,8 @@ import type { CacheManager } from "@/cache/kv-cache";
 import { sanitizeToolArgs } from "@/middleware/sanitization";
 import type { Env } from "@/types/env";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import { normalizeContract } from "@/utils/normalizer";
 import { analyzeQuery } from "@/utils/query-analyzer";
 import {
@@ -27,6 +29,9 @@ import {
 	parseMultiValueParam,
 } from "@/utils/array-helpers";
 
+/** Limit used when a call omits `limit` */
+export const SEARCH_CONTRACTS_DEFAULT_LIMIT = 10;
+
 /**
  * Register search contracts tool with the MCP server
  *
@@ -171,7 +176,7 @@ export function registerSearchContractsTool(
 				.int()
 				.min(1)
 				.max(100)
-				.default(10)
+				.default(SEARCH_CONTRACTS_DEFAULT_LIMIT)
 				.optional()
 				.describe(
 					"Maximum results to return. Default: 10, Maximum: 100. Use smaller values for faster responses.",
@@ -381,7 +386,7 @@ export function registerSearchContractsTool(
 					}
 				}
 
-				params.limit = sanitized.limit || 10;
+				params.limit = sanitized.limit || SEARCH_CONTRACTS_DEFAULT_LIMIT;
 
 				// Add format parameter for CSV export if requested
 				if (sanitized.export_format) {
@@ -478,7 +483,7 @@ export function registerSearchContractsTool(
 				// Handle CSV format response
 				if (response.format === "csv") {
 					const csvData = response.data as unknown as string;
-					return handleCsvExport(csvData, "search_contracts", logger, startTime);
+					return handleCsvExport(csvData, "search_contracts", logger, startTime, response.csv);
 				}
 
 				// When shape parameter is provided, return raw API response (no normalization)
@@ -527,8 +532,16 @@ export function registerSearchContractsTool(
 											},
 											execution: {
 												duration_ms: Date.now() - startTime,
+												trace_id: getTraceId(),
 												cached: response.cache?.hit || false,
 												api_calls: 1,
+												attempts: response.retry?.attempts ?? 0,
+												retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+												cache: {
+													stale: response.cache?.stale || false,
+													age_seconds: response.cache?.age_seconds,
+													tier: response.cache?.tier,
+												},
 											},
 										},
 										null,
@@ -563,10 +576,10 @@ export function registerSearchContractsTool(
 					returned: normalizedContracts.length,
 					filters: sanitized,
 					pagination: {
-						limit: sanitized.limit || 10,
+						limit: sanitized.limit || SEARCH_CONTRACTS_DEFAULT_LIMIT,
 						has_more:
 							!!nextCursor ||
-							(normalizedContracts.length >= (sanitized.limit || 10) &&
+							(normalizedContracts.length >= (sanitized.limit || SEARCH_CONTRACTS_DEFAULT_LIMIT) &&
 								normalizedContracts.length <
 									(response.data.total || response.data.count || 0)),
 						next_cursor: nextCursor,
@@ -576,8 +589,16 @@ export function registerSearchContractsTool(
 					},
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: response.cache?.hit || false,
 						api_calls: 1,
+						attempts: response.retry?.attempts ?? 0,
+						retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 					},
 				};
 
@@ -590,6 +611,12 @@ export function registerSearchContractsTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				// Handle unexpected errors
 				logger.error(
 					"Unexpected error in search_tango_contracts",
@@ -609,6 +636,7 @@ export function registerSearchContractsTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
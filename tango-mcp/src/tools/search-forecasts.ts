@@ -12,12 +12,17 @@ import type { CacheManager } from "@/cache/kv-cache";
 import { sanitizeToolArgs } from "@/middleware/sanitization";
 import type { Env } from "@/types/env";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import { normalizeForecast } from "@/utils/normalizer";
 import { extractCursorFromUrl } from "@/utils/sort-helpers";
 import { handleCsvExport } from "@/utils/csv-export";
 import { toPipeDelimitedString } from "@/utils/array-helpers";
 import { analyzeQuery } from "@/utils/query-analyzer";
 
+/** Limit used when a call omits `limit` */
+export const SEARCH_FORECASTS_DEFAULT_LIMIT = 10;
+
 /**
  * Register search forecasts tool with the MCP server
  */
@@ -123,7 +128,7 @@ export function registerSearchForecastsTool(
 				.int()
 				.min(1)
 				.max(100)
-				.default(10)
+				.default(SEARCH_FORECASTS_DEFAULT_LIMIT)
 				.optional()
 				.describe(
 					"Maximum results to return. Default: 10, Maximum: 100. Use smaller values for faster responses.",
@@ -209,7 +214,7 @@ export function registerSearchForecastsTool(
 				if (sanitized.ordering) params.ordering = sanitized.ordering;
 				if (sanitized.cursor) params.cursor = sanitized.cursor;
 
-				params.limit = sanitized.limit || 10;
+				params.limit = sanitized.limit || SEARCH_FORECASTS_DEFAULT_LIMIT;
 
 				// Add format parameter for CSV export if requested
 				if (sanitized.export_format) {
@@ -247,7 +252,7 @@ export function registerSearchForecastsTool(
 				// Handle CSV format response
 				if (response.format === "csv") {
 					const csvData = response.data as unknown as string;
-					return handleCsvExport(csvData, "search_forecasts", logger, startTime);
+					return handleCsvExport(csvData, "search_forecasts", logger, startTime, response.csv);
 				}
 
 				// Normalize results (JSON format)
@@ -295,8 +300,16 @@ export function registerSearchForecastsTool(
 											},
 											execution: {
 												duration_ms: Date.now() - startTime,
+												trace_id: getTraceId(),
 												cached: response.cache?.hit || false,
 												api_calls: 1,
+												attempts: response.retry?.attempts ?? 0,
+												retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+												cache: {
+													stale: response.cache?.stale || false,
+													age_seconds: response.cache?.age_seconds,
+													tier: response.cache?.tier,
+												},
 											},
 										},
 										null,
@@ -331,18 +344,26 @@ export function registerSearchForecastsTool(
 					returned: normalizedForecasts.length,
 					filters: sanitized,
 					pagination: {
-						limit: sanitized.limit || 10,
+						limit: sanitized.limit || SEARCH_FORECASTS_DEFAULT_LIMIT,
 						has_more:
 							!!nextCursor ||
-							(normalizedForecasts.length >= (sanitized.limit || 10) &&
+							(normalizedForecasts.length >= (sanitized.limit || SEARCH_FORECASTS_DEFAULT_LIMIT) &&
 								normalizedForecasts.length <
 									(response.data.total || response.data.count || 0)),
 						next_cursor: nextCursor,
 					},
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: response.cache?.hit || false,
 						api_calls: 1,
+						attempts: response.retry?.attempts ?? 0,
+						retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 					},
 				};
 
@@ -355,6 +376,12 @@ export function registerSearchForecastsTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				// Handle unexpected errors
 				logger.error(
 					"Unexpected error in search_tango_forecasts",
@@ -374,6 +401,7 @@ export function registerSearchForecastsTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
@@ -12,6 +12,8 @@ import type { CacheManager } from "@/cache/kv-cache";
 import { sanitizeToolArgs } from "@/middleware/sanitization";
 import type { Env } from "@/types/env";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import { normalizeGrantOpportunity } from "@/utils/normalizer";
 import {
 	extractCursorFromUrl,
@@ -20,6 +22,9 @@ import {
 } from "@/utils/sort-helpers";
 import { toPipeDelimitedString } from "@/utils/array-helpers";
 
+/** Limit used when a call omits `limit` */
+export const SEARCH_GRANTS_DEFAULT_LIMIT = 10;
+
 /**
  * Register search grants tool with the MCP server
  */
@@ -128,7 +133,7 @@ export function registerSearchGrantsTool(
 				.int()
 				.min(1)
 				.max(100)
-				.default(10)
+				.default(SEARCH_GRANTS_DEFAULT_LIMIT)
 				.optional()
 				.describe(
 					"Maximum results to return. Default: 10, Maximum: 100. Use smaller values for faster responses.",
@@ -248,7 +253,7 @@ export function registerSearchGrantsTool(
 					params.cursor = sanitized.cursor;
 				}
 
-				params.limit = sanitized.limit || 10;
+				params.limit = sanitized.limit || SEARCH_GRANTS_DEFAULT_LIMIT;
 
 				// Call Tango API with caching
 				logger.info("Calling Tango API", { endpoint: "searchGrants", params });
@@ -312,7 +317,7 @@ export function registerSearchGrantsTool(
 					returned: normalizedOpportunities.length,
 					filters: sanitized,
 					pagination: {
-						limit: sanitized.limit || 10,
+						limit: sanitized.limit || SEARCH_GRANTS_DEFAULT_LIMIT,
 						has_more: !!nextCursor || !!response.data.next,
 						next_cursor: nextCursor,
 						ordering: sanitized.ordering
@@ -321,8 +326,16 @@ export function registerSearchGrantsTool(
 					},
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: response.cache?.hit || false,
 						api_calls: 1,
+						attempts: response.retry?.attempts ?? 0,
+						retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 					},
 				};
 
@@ -335,6 +348,12 @@ export function registerSearchGrantsTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				logger.error(
 					"Unexpected error in search_tango_grants",
 					error instanceof Error ? error : new Error(String(error)),
@@ -353,6 +372,7 @@ export function registerSearchGrantsTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
@@ -12,6 +12,8 @@ import type { CacheManager } from "@/cache/kv-cache";
 import { sanitizeToolArgs } from "@/middleware/sanitization";
 import type { Env } from "@/types/env";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import { normalizeIDV } from "@/utils/normalizer";
 import {
 	extractCursorFromUrl,
@@ -26,6 +28,9 @@ import {
 	parseMultiValueParam,
 } from "@/utils/array-helpers";
 
+/** Limit used when a call omits `limit` */
+export const SEARCH_IDVS_DEFAULT_LIMIT = 10;
+
 /**
  * Register search IDVs tool with the MCP server
  *
@@ -140,7 +145,7 @@ export function registerSearchIDVsTool(
 				.number()
 				.min(1)
 				.max(100)
-				.default(10)
+				.default(SEARCH_IDVS_DEFAULT_LIMIT)
 				.describe("Number of results to return (1-100, default: 10)"),
 			cursor: z
 				.string()
@@ -315,7 +320,7 @@ export function registerSearchIDVsTool(
 				}
 
 				// Pagination & sorting
-				params.limit = sanitized.limit || 10;
+				params.limit = sanitized.limit || SEARCH_IDVS_DEFAULT_LIMIT;
 				if (sanitized.cursor) params.cursor = sanitized.cursor;
 				if (sanitized.shape) params.shape = sanitized.shape;
 				if (sanitized.ordering) {
@@ -376,7 +381,7 @@ export function registerSearchIDVsTool(
 				// Handle CSV format response
 				if (response.format === "csv") {
 					const csvData = response.data as unknown as string;
-					return handleCsvExport(csvData, "search_idvs", logger, startTime);
+					return handleCsvExport(csvData, "search_idvs", logger, startTime, response.csv);
 				}
 
 				// When shape parameter is provided, return raw API response (no normalization)
@@ -408,10 +413,10 @@ export function registerSearchIDVsTool(
 					returned: normalizedIDVs.length,
 					filters: sanitized,
 					pagination: {
-						limit: sanitized.limit || 10,
+						limit: sanitized.limit || SEARCH_IDVS_DEFAULT_LIMIT,
 						has_more:
 							!!nextCursor ||
-							(normalizedIDVs.length >= (sanitized.limit || 10) &&
+							(normalizedIDVs.length >= (sanitized.limit || SEARCH_IDVS_DEFAULT_LIMIT) &&
 								normalizedIDVs.length <
 									(response.data.total || response.data.count || 0)),
 						next_cursor: nextCursor,
@@ -421,8 +426,16 @@ export function registerSearchIDVsTool(
 					},
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: response.cache?.hit || false,
 						api_calls: 1,
+						attempts: response.retry?.attempts ?? 0,
+						retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 					},
 				};
 
@@ -435,6 +448,12 @@ export function registerSearchIDVsTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				// Handle unexpected errors
 				logger.error(
 					"Unexpected error in search_tango_idvs",
@@ -454,6 +473,7 @@ export function registerSearchIDVsTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
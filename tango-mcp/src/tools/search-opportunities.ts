@@ -12,6 +12,8 @@ import type { CacheManager } from "@/cache/kv-cache";
 import { sanitizeToolArgs } from "@/middleware/sanitization";
 import type { Env } from "@/types/env";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import { normalizeOpportunity } from "@/utils/normalizer";
 import {
 	extractCursorFromUrl,
@@ -27,6 +29,9 @@ import {
 } from "@/utils/array-helpers";
 import { analyzeQuery } from "@/utils/query-analyzer";
 
+/** Limit used when a call omits `limit` */
+export const SEARCH_OPPORTUNITIES_DEFAULT_LIMIT = 10;
+
 /**
  * Register search opportunities tool with the MCP server
  */
@@ -99,7 +104,7 @@ export function registerSearchOpportunitiesTool(
 				.int()
 				.min(1)
 				.max(100)
-				.default(10)
+				.default(SEARCH_OPPORTUNITIES_DEFAULT_LIMIT)
 				.optional()
 				.describe(
 					"Maximum results to return. Default: 10, Maximum: 100. Use smaller values for faster responses.",
@@ -239,7 +244,7 @@ export function registerSearchOpportunitiesTool(
 					params.cursor = sanitized.cursor;
 				}
 
-				params.limit = sanitized.limit || 10;
+				params.limit = sanitized.limit || SEARCH_OPPORTUNITIES_DEFAULT_LIMIT;
 
 				// Add format parameter for CSV export if requested
 				if (sanitized.export_format) {
@@ -277,7 +282,7 @@ export function registerSearchOpportunitiesTool(
 				// Handle CSV format response
 				if (response.format === "csv") {
 					const csvData = response.data as unknown as string;
-					return handleCsvExport(csvData, "search_opportunities", logger, startTime);
+					return handleCsvExport(csvData, "search_opportunities", logger, startTime, response.csv);
 				}
 
 				// Normalize results (JSON format)
@@ -325,8 +330,16 @@ export function registerSearchOpportunitiesTool(
 											},
 											execution: {
 												duration_ms: Date.now() - startTime,
+												trace_id: getTraceId(),
 												cached: response.cache?.hit || false,
 												api_calls: 1,
+												attempts: response.retry?.attempts ?? 0,
+												retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+												cache: {
+													stale: response.cache?.stale || false,
+													age_seconds: response.cache?.age_seconds,
+													tier: response.cache?.tier,
+												},
 											},
 										},
 										null,
@@ -361,10 +374,10 @@ export function registerSearchOpportunitiesTool(
 					returned: normalizedOpportunities.length,
 					filters: sanitized,
 					pagination: {
-						limit: sanitized.limit || 10,
+						limit: sanitized.limit || SEARCH_OPPORTUNITIES_DEFAULT_LIMIT,
 						has_more:
 							!!nextCursor ||
-							(normalizedOpportunities.length >= (sanitized.limit || 10) &&
+							(normalizedOpportunities.length >= (sanitized.limit || SEARCH_OPPORTUNITIES_DEFAULT_LIMIT) &&
 								normalizedOpportunities.length <
 									(response.data.total || response.data.count || 0)),
 						next_cursor: nextCursor,
@@ -374,8 +387,16 @@ export function registerSearchOpportunitiesTool(
 					},
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: response.cache?.hit || false,
 						api_calls: 1,
+						attempts: response.retry?.attempts ?? 0,
+						retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 					},
 				};
 
@@ -388,6 +409,12 @@ export function registerSearchOpportunitiesTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				// Handle unexpected errors
 				return {
 					content: [
@@ -402,6 +429,7 @@ export function registerSearchOpportunitiesTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
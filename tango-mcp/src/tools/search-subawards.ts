@@ -12,22 +12,13 @@ import type { CacheManager } from "@/cache/kv-cache";
 import { sanitizeToolArgs } from "@/middleware/sanitization";
 import type { Env } from "@/types/env";
 import { getLogger } from "@/utils/logger";
+import { getTraceId } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
 import { normalizeSubaward } from "@/utils/normalizer";
+import { extractPageFromUrl } from "@/utils/sort-helpers";
 
-/**
- * Extract page number from pagination URL
- */
-function extractPageFromUrl(url: string | null | undefined): number | undefined {
-	if (!url) return undefined;
-
-	try {
-		const urlObj = new URL(url);
-		const pageParam = urlObj.searchParams.get('page');
-		return pageParam ? parseInt(pageParam, 10) : undefined;
-	} catch {
-		return undefined;
-	}
-}
+/** Limit used when a call omits `limit` */
+export const SEARCH_SUBAWARDS_DEFAULT_LIMIT = 25;
 
 /**
  * Register search subawards tool with the MCP server
@@ -69,7 +60,7 @@ export function registerSearchSubawardsTool(
 			fiscal_year_end: z.number().int().optional().describe(
 				"Latest fiscal year to include (YYYY). Example: 2024"
 			),
-			limit: z.number().int().min(1).max(100).default(25).optional().describe(
+			limit: z.number().int().min(1).max(100).default(SEARCH_SUBAWARDS_DEFAULT_LIMIT).optional().describe(
 				"Number of results per page (1-100, default: 25)"
 			),
 			page: z.number().int().min(1).optional().describe(
@@ -133,7 +124,7 @@ export function registerSearchSubawardsTool(
 				}
 
 				// Pagination (offset-based)
-				params.limit = sanitized.limit || 25;
+				params.limit = sanitized.limit || SEARCH_SUBAWARDS_DEFAULT_LIMIT;
 				if (sanitized.page) params.page = sanitized.page;
 
 				// Call Tango API with caching
@@ -187,7 +178,7 @@ export function registerSearchSubawardsTool(
 					returned: normalizedSubawards.length,
 					filters: sanitized,
 					pagination: {
-						limit: sanitized.limit || 25,
+						limit: sanitized.limit || SEARCH_SUBAWARDS_DEFAULT_LIMIT,
 						current_page: sanitized.page || 1,
 						next_page: nextPage,
 						previous_page: prevPage,
@@ -196,8 +187,16 @@ export function registerSearchSubawardsTool(
 					},
 					execution: {
 						duration_ms: Date.now() - startTime,
+						trace_id: getTraceId(),
 						cached: response.cache?.hit || false,
 						api_calls: 1,
+						attempts: response.retry?.attempts ?? 0,
+						retry_wait_ms: response.retry?.total_wait_ms ?? 0,
+						cache: {
+							stale: response.cache?.stale || false,
+							age_seconds: response.cache?.age_seconds,
+							tier: response.cache?.tier,
+						},
 					},
 				};
 
@@ -210,6 +209,12 @@ export function registerSearchSubawardsTool(
 					],
 				};
 			} catch (error) {
+				// Circuit breaker open or quota exhausted - pass the structured error through to the agent
+				const upstreamError = formatUpstreamError(error, startTime);
+				if (upstreamError) {
+					return upstreamError;
+				}
+
 				// Handle unexpected errors
 				logger.error(
 					"Unexpected error in search_tango_subawards",
@@ -228,6 +233,7 @@ export function registerSearchSubawardsTool(
 									recoverable: false,
 									execution: {
 										duration_ms: Date.now() - startTime,
+										trace_id: getTraceId(),
 									},
 								},
 								null,
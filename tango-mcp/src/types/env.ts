@@ -44,6 +44,114 @@ export interface Env {
    */
   TANGO_API_BASE_URL?: string;
 
+  /**
+   * Maximum attempts per Tango API request (including the first)
+   *
+   * Transient failures (429, 502, 503, 504, network errors) are retried
+   * with exponential backoff. Set to "1" to disable retries.
+   *
+   * @required false
+   * @default "3"
+   * @example "3"
+   */
+  TANGO_RETRY_MAX_ATTEMPTS?: string;
+
+  /**
+   * Base delay for retry backoff (milliseconds)
+   *
+   * Delay before attempt N is a random value up to base * 2^(N-1).
+   *
+   * @required false
+   * @default "250"
+   * @example "250"
+   */
+  TANGO_RETRY_BASE_DELAY_MS?: string;
+
+  /**
+   * Maximum delay between retries (milliseconds)
+   *
+   * Caps both exponential backoff and server-provided Retry-After.
+   * If Retry-After exceeds this value the request fails immediately.
+   *
+   * @required false
+   * @default "5000"
+   * @example "5000"
+   */
+  TANGO_RETRY_MAX_DELAY_MS?: string;
+
+  /**
+   * Upstream failures (within 60 seconds) that open the circuit breaker
+   *
+   * While open, tools fail fast with UPSTREAM_UNAVAILABLE instead of
+   * waiting out the request timeout.
+   *
+   * @required false
+   * @default "5"
+   * @example "5"
+   */
+  TANGO_CIRCUIT_FAILURE_THRESHOLD?: string;
+
+  /**
+   * How long the circuit breaker stays open before probing (milliseconds)
+   *
+   * @required false
+   * @default "30000"
+   * @example "30000"
+   */
+  TANGO_CIRCUIT_OPEN_MS?: string;
+
+  /**
+   * Maximum size of a CSV export in bytes
+   *
+   * Larger CSV bodies are streamed up to this cap and cut at the last
+   * complete row; the response reports truncated: true.
+   *
+   * @required false
+   * @default "5242880" (5 MiB)
+   * @example "5242880"
+   */
+  TANGO_CSV_MAX_BYTES?: string;
+
+  /**
+   * Upstream requests allowed per second across all isolates
+   *
+   * Enforced by the UpstreamQuotaLimiter Durable Object. Short waits are
+   * absorbed; otherwise tools return QUOTA_EXHAUSTED.
+   *
+   * @required false
+   * @default "10"
+   * @example "10"
+   */
+  TANGO_QUOTA_PER_SECOND?: string;
+
+  /**
+   * Upstream requests allowed per UTC day across all isolates
+   *
+   * Set to "0" for no daily cap. Cached responses are still served once the
+   * budget is used up.
+   *
+   * @required false
+   * @default "0" (unlimited)
+   * @example "50000"
+   */
+  TANGO_QUOTA_PER_DAY?: string;
+
+  /**
+   * HTTP transport mode for Tango API requests
+   *
+   * - "live": call the Tango API
+   * - "record": call the Tango API and save each response as a fixture
+   *   (TANGO_CACHE, "fixture:" keys)
+   * - "replay": serve saved fixtures only; never call the Tango API
+   *
+   * Record and replay are for local development and tests only.
+   *
+   * @required false
+   * @default "live"
+   * @example "replay"
+   */
+  TANGO_TRANSPORT?: string;
+
   /**
    * Cache TTL in seconds
    *
@@ -56,6 +164,57 @@ export interface Env {
    */
   CACHE_TTL_SECONDS?: string;
 
+  /**
+   * Stale window in seconds past the cache TTL
+   *
+   * Entries older than CACHE_TTL_SECONDS stay in KV for this long. They are
+   * served (marked stale) while a background refresh runs, or when the
+   * Tango API fails. Set to "0" to disable stale serving.
+   *
+   * @required false
+   * @default "3600" (1 hour)
+   * @example "3600"
+   */
+  CACHE_STALE_TTL_SECONDS?: string;
+
+  /**
+   * Per-endpoint cache TTL overrides
+   *
+   * JSON object mapping endpoint prefixes (e.g., "opportunities",
+   * "contracts_") to TTLs in seconds. Merged over the built-in policy;
+   * the longest matching prefix wins. Can also be set at runtime via the
+   * "config:cache_ttl_policy" entry in TANGO_CACHE.
+   *
+   * @required false
+   * @default Built-in policy (see src/cache/ttl-policy.ts)
+   * @example '{"opportunities": 300, "agencies": 43200}'
+   */
+  CACHE_TTL_POLICY?: string;
+
+  /**
+   * Maximum entries in the in-isolate memory cache tier
+   *
+   * The memory tier is an LRU in front of KV that serves repeated lookups
+   * within the same isolate without a KV read. Set to "0" to disable.
+   *
+   * @required false
+   * @default "500"
+   * @example "500"
+   */
+  CACHE_MEMORY_MAX_ENTRIES?: string;
+
+  /**
+   * Maximum total size in bytes of the in-isolate memory cache tier
+   *
+   * Least recently used entries are evicted once this budget is reached.
+   * Workers isolates have 128 MB of memory, so keep this well below that.
+   *
+   * @required false
+   * @default "8388608" (8 MiB)
+   * @example "8388608"
+   */
+  CACHE_MEMORY_MAX_BYTES?: string;
+
   // ==========================================
   // KV NAMESPACES
   // ==========================================
@@ -91,6 +250,37 @@ export interface Env {
    */
   OAUTH_KV: KVNamespace;
 
+  /**
+   * Durable Object namespace for the global upstream quota limiter
+   *
+   * Shared token bucket consulted by TangoApiClient before each upstream
+   * request. When absent, only the per-isolate rate limiter applies.
+   *
+   * Configured in wrangler.jsonc under durable_objects
+   *
+   * @required false
+   * @binding durable_objects
+   */
+  UPSTREAM_QUOTA?: DurableObjectNamespace<
+    import("@/api/upstream-quota-limiter").UpstreamQuotaLimiter
+  >;
+
+  /**
+   * Durable Object namespace for per-user and per-token usage counters
+   *
+   * One instance per metered subject; makes usage quotas hold under
+   * concurrent calls. When absent, counters are read-modify-write on
+   * OAUTH_KV and parallel calls can exceed a quota.
+   *
+   * Configured in wrangler.jsonc under durable_objects
+   *
+   * @required false
+   * @binding durable_objects
+   */
+  USAGE_METER?: DurableObjectNamespace<
+    import("@/security/usage-meter").UsageMeter
+  >;
+
   // ==========================================
   // GOOGLE OAUTH CONFIGURATION
   // ==========================================
@@ -148,6 +338,26 @@ export interface Env {
    */
   HOSTED_DOMAIN?: string;
 
+  /**
+   * Additional OpenID Connect identity providers (JSON array)
+   *
+   * Each entry is { id, name, issuer, clientId, allowedDomains, scopes? }.
+   * Endpoints are read from {issuer}/.well-known/openid-configuration and ID
+   * tokens are verified against the issuer's JWKS. Each provider's client
+   * secret is a separate secret named OIDC_<ID>_CLIENT_SECRET (ID uppercased,
+   * dashes as underscores). With several providers (including Google), the
+   * approval dialog lets users pick one.
+   *
+   * Users sign in with the ID token's verified `email` claim, which must be
+   * in one of the provider's allowedDomains.
+   *
+   * Set as a secret: wrangler secret put OIDC_ENTRA_CLIENT_SECRET
+   *
+   * @required false
+   * @example '[{"id":"entra","name":"Microsoft","issuer":"https://login.microsoftonline.com/{tenant}/v2.0","clientId":"00000000-0000-0000-0000-000000000000","allowedDomains":["agile6.com"]}]'
+   */
+  OIDC_PROVIDERS?: string;
+
   // ==========================================
   // MCP ACCESS TOKEN SYSTEM (GATEWAY MODEL)
   // ==========================================
@@ -166,6 +376,19 @@ export interface Env {
    */
   MCP_TOKEN_EXPIRY_DAYS?: string;
 
+  /**
+   * Hours a rotated MCP access token keeps working
+   *
+   * After rotation the old token stays valid for this long (or until its
+   * own expiry, if sooner) so clients can switch to the replacement.
+   * Set to "0" to invalidate the old token immediately.
+   *
+   * @required false
+   * @default "24"
+   * @example "72"
+   */
+  MCP_TOKEN_ROTATION_GRACE_HOURS?: string;
+
   /**
    * Admin emails authorized to generate MCP access tokens
    *
@@ -179,6 +402,32 @@ export interface Env {
    */
   ADMIN_EMAILS?: string;
 
+  /**
+   * Role of @agile6.com OAuth users without a role assignment
+   *
+   * One of "viewer", "analyst", "exporter" or "admin". Per-email and
+   * per-domain assignments (managed under /admin/roles) take precedence;
+   * ADMIN_EMAILS are always admins. See auth/user-roles.ts.
+   *
+   * @required false
+   * @default "exporter"
+   * @example "analyst"
+   */
+  DEFAULT_USER_ROLE?: string;
+
+  /**
+   * Which dynamically registered OAuth clients may be authorized
+   *
+   * "open": any registered client except those an admin has blocked.
+   * "allowlist": only clients an admin has explicitly allowed. Managed under
+   * /admin/clients; see auth/connected-apps.ts.
+   *
+   * @required false
+   * @default "open"
+   * @example "allowlist"
+   */
+  OAUTH_CLIENT_POLICY?: string;
+
   // ==========================================
   // AUTHENTICATION CONFIGURATION (GATEWAY MODEL)
   // ==========================================
@@ -239,16 +488,58 @@ export interface Env {
   // ==========================================
 
   /**
-   * Rate limit per user/token (requests per hour)
+   * Tool execution rate limit per user/token (requests per hour)
    *
-   * If set, enforce rate limits per authenticated user or token.
-   * Leave empty to disable rate limiting.
+   * Every tool call is counted against the OAuth email or MCP token ID.
+   * Leave empty to use the default of 60 calls per minute
+   * (RATE_LIMIT_CONFIGS.TOOL_EXECUTION).
    *
    * @required false
    * @example "1000"
    */
   RATE_LIMIT_PER_USER?: string;
 
+  // ==========================================
+  // USAGE QUOTAS (OPTIONAL)
+  // ==========================================
+
+  /**
+   * Default tool calls per user per UTC day
+   *
+   * Applies to every user (OAuth email or MCP token owner); admins can
+   * override it per user. Leave empty for no quota.
+   *
+   * @required false
+   * @example "500"
+   */
+  USAGE_QUOTA_DAILY_TOOL_CALLS?: string;
+
+  /**
+   * Default tool calls per user per UTC month
+   *
+   * @required false
+   * @example "10000"
+   */
+  USAGE_QUOTA_MONTHLY_TOOL_CALLS?: string;
+
+  /**
+   * Default upstream Tango API requests per user per UTC day
+   *
+   * Cache hits don't count.
+   *
+   * @required false
+   * @example "1000"
+   */
+  USAGE_QUOTA_DAILY_UPSTREAM_REQUESTS?: string;
+
+  /**
+   * Default upstream Tango API requests per user per UTC month
+   *
+   * @required false
+   * @example "20000"
+   */
+  USAGE_QUOTA_MONTHLY_UPSTREAM_REQUESTS?: string;
+
   // ==========================================
   // MONITORING & OBSERVABILITY (OPTIONAL)
   // ==========================================
@@ -266,14 +557,65 @@ export interface Env {
   ENABLE_AUTH_LOGGING?: string;
 
   /**
-   * Enable token usage analytics
+   * Enable usage metering
    *
-   * When enabled, tracks MCP token usage statistics.
-   * Useful for understanding API usage patterns.
+   * Counts tool calls and upstream Tango API requests per user and per MCP
+   * token (daily and monthly, by tool), reported by get_my_usage and the
+   * admin usage API. Usage quotas require metering. Set to "false" to
+   * disable both.
    *
    * @required false
-   * @default "false"
-   * @example "true"
+   * @default "true"
+   * @example "false"
    */
   ENABLE_TOKEN_ANALYTICS?: string;
+
+  // ==========================================
+  // AUDIT LOG (OPTIONAL)
+  // ==========================================
+
+  /**
+   * R2 bucket for the persistent audit log
+   *
+   * Audit events are written as NDJSON batches under "audit/YYYY/MM/DD/".
+   *
+   * @required false
+   * @binding r2_buckets
+   */
+  AUDIT_LOG_BUCKET?: R2Bucket;
+
+  /**
+   * D1 database for the persistent audit log
+   *
+   * Audit events are inserted into the audit_events table (created on
+   * first use).
+   *
+   * @required false
+   * @binding d1_databases
+   */
+  AUDIT_DB?: D1Database;
+
+  /**
+   * Audit sink selection
+   *
+   * - "r2": AUDIT_LOG_BUCKET
+   * - "d1": AUDIT_DB
+   * - "console": Workers Logs only (no persistence)
+   *
+   * @required false
+   * @default AUDIT_LOG_BUCKET if bound, else AUDIT_DB if bound, else "console"
+   * @example "r2"
+   */
+  AUDIT_SINK?: string;
+
+  /**
+   * Audit log retention (days)
+   *
+   * Older entries are purged from the sink at most once a day.
+   *
+   * @required false
+   * @default "365"
+   * @example "90"
+   */
+  AUDIT_RETENTION_DAYS?: string;
 }
@@ -230,6 +230,233 @@ export class TangoTimeoutError extends Error {
   }
 }
 
+/**
+ * Upstream unavailable error
+ * Occurs when the circuit breaker is open and requests are failed fast
+ */
+export class TangoUpstreamUnavailableError extends Error {
+  readonly errorCode = "UPSTREAM_UNAVAILABLE";
+  readonly recoverable = true;
+  readonly transient = true;
+
+  constructor(
+    message = "Tango API is temporarily unavailable",
+    public readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "TangoUpstreamUnavailableError";
+  }
+
+  toErrorResponse(): ErrorResponse {
+    const context: Record<string, unknown> = {};
+
+    if (this.retryAfterMs !== undefined) context.retry_after_ms = this.retryAfterMs;
+
+    return {
+      error: this.message,
+      error_code: this.errorCode,
+      suggestion: `Tango API has been failing repeatedly. Wait ${this.retryAfterMs ?? 30000}ms before retrying.`,
+      recoverable: this.recoverable,
+      transient: this.transient,
+      context,
+    };
+  }
+}
+
+/**
+ * Quota exhausted error
+ * Occurs when the shared upstream request budget (per second or per day) is used up
+ */
+export class TangoQuotaExhaustedError extends Error {
+  readonly errorCode = "QUOTA_EXHAUSTED";
+  readonly recoverable = true;
+  readonly transient = true;
+
+  constructor(
+    public readonly scope: "second" | "day",
+    public readonly retryAfterMs: number,
+    message = scope === "day"
+      ? "Daily Tango API request budget exhausted"
+      : "Tango API request rate budget exhausted",
+  ) {
+    super(message);
+    this.name = "TangoQuotaExhaustedError";
+  }
+
+  toErrorResponse(): ErrorResponse {
+    return {
+      error: this.message,
+      error_code: this.errorCode,
+      suggestion:
+        this.scope === "day"
+          ? `The server's shared daily Tango API budget is used up. Previously cached queries still work; new queries can run after the budget resets in ${this.retryAfterMs}ms.`
+          : `The server is at its shared Tango API request rate. Wait ${this.retryAfterMs}ms before retrying.`,
+      recoverable: this.recoverable,
+      transient: this.transient,
+      context: {
+        quota_scope: this.scope,
+        retry_after_ms: this.retryAfterMs,
+      },
+    };
+  }
+}
+
+/**
+ * Rate limited error
+ * Occurs when a user or token exceeds its tool execution rate limit
+ */
+export class TangoRateLimitedError extends Error {
+  readonly errorCode = "RATE_LIMITED";
+  readonly recoverable = true;
+  readonly transient = true;
+
+  constructor(
+    public readonly limit: number,
+    public readonly windowMs: number,
+    public readonly retryAfterMs: number,
+    message = `Tool rate limit exceeded (${limit} calls per ${Math.round(windowMs / 1000)}s)`,
+  ) {
+    super(message);
+    this.name = "TangoRateLimitedError";
+  }
+
+  toErrorResponse(): ErrorResponse {
+    return {
+      error: this.message,
+      error_code: this.errorCode,
+      suggestion: `You are calling tools faster than your per-user limit allows. Wait ${this.retryAfterMs}ms before retrying, and reuse earlier results where possible.`,
+      recoverable: this.recoverable,
+      transient: this.transient,
+      context: {
+        limit: this.limit,
+        window_seconds: Math.round(this.windowMs / 1000),
+        retry_after_ms: this.retryAfterMs,
+        reset_at: new Date(Date.now() + this.retryAfterMs).toISOString(),
+      },
+    };
+  }
+}
+
+/**
+ * Scope denied error
+ * Occurs when an MCP access token's scopes don't permit a tool call
+ */
+export class TangoScopeDeniedError extends Error {
+  readonly errorCode = "SCOPE_DENIED";
+  readonly transient = false;
+
+  constructor(
+    public readonly scope: "tools" | "export" | "max_limit",
+    message: string,
+    public readonly context: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "TangoScopeDeniedError";
+  }
+
+  /** Export and limit denials can be fixed by changing the arguments */
+  get recoverable(): boolean {
+    return this.scope !== "tools";
+  }
+
+  toErrorResponse(): ErrorResponse {
+    const suggestions = {
+      tools: "This access token is not permitted to use this tool. Ask your administrator for a token with the required scope.",
+      export: "This access token may not export CSV. Retry with export_format 'json'.",
+      max_limit: `Retry with ${this.context.parameter ?? "limit"} at or below ${this.context.max_limit}.`,
+    };
+    return {
+      error: this.message,
+      error_code: this.errorCode,
+      suggestion: suggestions[this.scope],
+      recoverable: this.recoverable,
+      transient: this.transient,
+      context: { scope: this.scope, ...this.context },
+    };
+  }
+}
+
+/**
+ * Role denied error
+ * Occurs when an OAuth user's role doesn't permit a tool call
+ */
+export class TangoRoleDeniedError extends Error {
+  readonly errorCode = "ROLE_DENIED";
+  readonly transient = false;
+
+  constructor(
+    public readonly role: string,
+    public readonly restriction: "tools" | "export" | "max_limit",
+    message: string,
+    public readonly context: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "TangoRoleDeniedError";
+  }
+
+  /** Export and limit denials can be fixed by changing the arguments */
+  get recoverable(): boolean {
+    return this.restriction !== "tools";
+  }
+
+  toErrorResponse(): ErrorResponse {
+    const suggestions = {
+      tools: "Your role does not include this tool. Ask your administrator for a role that does.",
+      export: "Your role may not export CSV. Retry with export_format 'json', or ask your administrator for the exporter role.",
+      max_limit: `Retry with ${this.context.parameter ?? "limit"} at or below ${this.context.max_limit}.`,
+    };
+    return {
+      error: this.message,
+      error_code: this.errorCode,
+      suggestion: suggestions[this.restriction],
+      recoverable: this.recoverable,
+      transient: this.transient,
+      context: { role: this.role, restriction: this.restriction, ...this.context },
+    };
+  }
+}
+
+/**
+ * Usage quota exceeded error
+ * Occurs when a user or MCP access token has used up its daily or monthly quota
+ */
+export class TangoUsageQuotaExceededError extends Error {
+  readonly errorCode = "USAGE_QUOTA_EXCEEDED";
+  readonly recoverable = false;
+  readonly transient = true;
+
+  constructor(
+    public readonly subject: "user" | "token",
+    public readonly period: "day" | "month",
+    public readonly metric: "tool_calls" | "upstream_requests",
+    public readonly limit: number,
+    public readonly used: number,
+    public readonly resetsAt: string,
+    message = `${subject === "user" ? "User" : "Access token"} ${period === "day" ? "daily" : "monthly"} ${metric === "tool_calls" ? "tool call" : "Tango API request"} quota exceeded (${used}/${limit})`,
+  ) {
+    super(message);
+    this.name = "TangoUsageQuotaExceededError";
+  }
+
+  toErrorResponse(): ErrorResponse {
+    return {
+      error: this.message,
+      error_code: this.errorCode,
+      suggestion: `The quota resets at ${this.resetsAt}. Call get_my_usage to see remaining quotas, or ask your administrator for a higher quota.`,
+      recoverable: this.recoverable,
+      transient: this.transient,
+      context: {
+        subject: this.subject,
+        period: this.period,
+        metric: this.metric,
+        limit: this.limit,
+        used: this.used,
+        resets_at: this.resetsAt,
+      },
+    };
+  }
+}
+
 /**
  * Discovery error metadata for agency forecast discovery operations
  * Provides clear context about what went wrong and whether fallback was used
@@ -281,6 +508,24 @@ export function toErrorResponse(error: unknown): ErrorResponse {
   if (error instanceof TangoTimeoutError) {
     return error.toErrorResponse();
   }
+  if (error instanceof TangoUpstreamUnavailableError) {
+    return error.toErrorResponse();
+  }
+  if (error instanceof TangoQuotaExhaustedError) {
+    return error.toErrorResponse();
+  }
+  if (error instanceof TangoRateLimitedError) {
+    return error.toErrorResponse();
+  }
+  if (error instanceof TangoScopeDeniedError) {
+    return error.toErrorResponse();
+  }
+  if (error instanceof TangoRoleDeniedError) {
+    return error.toErrorResponse();
+  }
+  if (error instanceof TangoUsageQuotaExceededError) {
+    return error.toErrorResponse();
+  }
 
   // Handle generic errors
   if (error instanceof Error) {
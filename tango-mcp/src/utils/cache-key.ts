@@ -28,19 +28,39 @@ export async function generateCacheKey(
 	toolName: string,
 	args: Record<string, unknown>,
 ): Promise<string> {
-	// Normalize arguments for consistent hashing
-	const normalized = normalizeArgs(args);
-
-	// Create sorted JSON string
-	const sortedJson = JSON.stringify(normalized, Object.keys(normalized).sort());
-
-	// Hash the arguments
-	const hash = await hashString(sortedJson);
+	// Hash the normalized, sorted arguments
+	const hash = await hashString(serializeArgs(args));
 
 	// Return formatted cache key
 	return `${toolName}:${hash}`;
 }
 
+/**
+ * Canonical (unhashed) form of a cache key, computed synchronously
+ *
+ * Two calls share a generateCacheKey() key exactly when they share this
+ * value. Used to register in-flight requests before the first await, so
+ * concurrent identical calls always find each other.
+ *
+ * @param toolName Name of the MCP tool
+ * @param args Tool arguments object
+ * @returns "toolName:" followed by the normalized, sorted arguments JSON
+ */
+export function canonicalCacheKey(
+	toolName: string,
+	args: Record<string, unknown>,
+): string {
+	return `${toolName}:${serializeArgs(args)}`;
+}
+
+/**
+ * Normalize arguments and serialize them as sorted JSON
+ */
+function serializeArgs(args: Record<string, unknown>): string {
+	const normalized = normalizeArgs(args);
+	return JSON.stringify(normalized, Object.keys(normalized).sort());
+}
+
 /**
  * Normalize arguments for consistent cache key generation
  *
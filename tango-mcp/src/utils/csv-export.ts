@@ -5,34 +5,70 @@
  * Provides consistent CSV handling across all search tools.
  */
 
+import { countCsvRows, type CsvExportInfo } from "@/api/csv-stream";
 import type { Logger } from "./logger";
+import { getTraceId } from "./trace-context";
 
 /**
  * Handle CSV export response from Tango API
  *
+ * Returns the CSV text as the first content block, followed by a JSON
+ * block reporting rows, bytes and whether the export was truncated.
+ *
  * @param csvData - Raw CSV string from API response
  * @param toolName - Name of the tool for logging
  * @param logger - Logger instance
  * @param startTime - Timestamp when tool execution started
- * @returns MCP tool response with CSV content
+ * @param csvInfo - Export metadata from the API client (computed from csvData if omitted)
+ * @returns MCP tool response with CSV content and export metadata
  */
 export function handleCsvExport(
 	csvData: string,
 	toolName: string,
 	logger: Logger,
 	startTime: number,
+	csvInfo?: CsvExportInfo,
 ): { content: Array<{ type: "text"; text: string }> } {
-	logger.toolComplete(toolName, true, Date.now() - startTime, {
+	const info: Omit<CsvExportInfo, "max_bytes"> & { max_bytes?: number } = csvInfo ?? {
+		rows: countCsvRows(csvData),
+		bytes: new TextEncoder().encode(csvData).byteLength,
+		truncated: false,
+	};
+	const durationMs = Date.now() - startTime;
+
+	logger.toolComplete(toolName, true, durationMs, {
 		format: "csv",
-		csv_length: csvData.length,
+		csv_rows: info.rows,
+		csv_bytes: info.bytes,
+		csv_truncated: info.truncated,
 	});
 
+	const metadata = {
+		format: "csv",
+		rows: info.rows,
+		bytes: info.bytes,
+		truncated: info.truncated,
+		...(info.truncated && {
+			max_bytes: info.max_bytes,
+			suggestion:
+				"Export was cut at the last complete row before the size limit. Narrow your filters or lower the limit to export the remaining rows.",
+		}),
+		execution: {
+			duration_ms: durationMs,
+			trace_id: getTraceId(),
+		},
+	};
+
 	return {
 		content: [
 			{
 				type: "text" as const,
 				text: csvData,
 			},
+			{
+				type: "text" as const,
+				text: JSON.stringify(metadata, null, 2),
+			},
 		],
 	};
 }
@@ -3,6 +3,7 @@
  *
  * Provides JSON-formatted logging for Cloudflare Workers environment.
  * Logs tool invocations, API calls, cache operations, and errors with full context.
+ * Entries written inside a traced request carry its trace_id (see trace-context.ts).
  *
  * Usage:
  *   const logger = createLogger();
@@ -10,6 +11,8 @@
  *   logger.error('API call failed', { endpoint: '/contracts', error: err });
  */
 
+import { getTraceContext } from "./trace-context";
+
 export type LogLevel = "debug" | "info" | "warn" | "error";
 
 export interface LogContext {
@@ -20,6 +23,8 @@ export interface LogEntry {
 	timestamp: string;
 	level: LogLevel;
 	message: string;
+	trace_id?: string;
+	parent_trace_id?: string;
 	context?: LogContext;
 	error?: {
 		message: string;
@@ -89,6 +94,12 @@ export function createLogger(minLevel: LogLevel = "info"): Logger {
 			message,
 		};
 
+		const trace = getTraceContext();
+		if (trace) {
+			entry.trace_id = trace.trace_id;
+			entry.parent_trace_id = trace.parent_trace_id;
+		}
+
 		if (context && Object.keys(context).length > 0) {
 			entry.context = context;
 		}
@@ -212,6 +223,10 @@ export function redactSensitive(context: LogContext): LogContext {
 	for (const [key, value] of Object.entries(context)) {
 		if (sensitive.some((s) => key.toLowerCase().includes(s))) {
 			redacted[key] = "[REDACTED]";
+		} else if (Array.isArray(value)) {
+			redacted[key] = value.map((item) =>
+				typeof item === "object" && item !== null ? redactSensitive(item as LogContext) : item
+			);
 		} else if (typeof value === "object" && value !== null) {
 			redacted[key] = redactSensitive(value as LogContext);
 		} else {
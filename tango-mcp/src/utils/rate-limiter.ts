@@ -10,8 +10,8 @@
  * - Promise chain for sequential request handling
  * - Simple implementation sufficient for MVP traffic levels
  *
- * Upgrade path: For production scale, consider Durable Objects for
- * distributed rate limiting across all Worker instances.
+ * The budget shared across all Worker instances is enforced separately
+ * by the UpstreamQuotaLimiter Durable Object (see api/upstream-quota.ts).
  */
 
 /**
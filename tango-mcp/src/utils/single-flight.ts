@@ -0,0 +1,66 @@
+/**
+ * Single-Flight Request Coalescing
+ *
+ * Deduplicates concurrent calls that share the same key: the first caller
+ * runs the work, later callers with the same key await the same promise.
+ *
+ * Design:
+ * - Per-isolate map of in-flight promises (not global across Workers)
+ * - Entries are removed as soon as the work settles (success or failure)
+ * - Errors are shared too, so every waiter sees the same failure
+ *
+ * This complements the KV cache: the cache only helps once a response has
+ * been written, while single-flight covers the window while it is in flight.
+ */
+
+/**
+ * Result of a single-flight call
+ */
+export interface SingleFlightResult<T> {
+  /** Value produced by the shared work */
+  value: T;
+  /** True if this caller joined an in-flight call instead of starting one */
+  shared: boolean;
+}
+
+/**
+ * Single-flight group keyed by string
+ */
+export class SingleFlight<T> {
+  /** In-flight promises by key */
+  private readonly inFlight = new Map<string, Promise<T>>();
+
+  /**
+   * Run work for a key, or join the in-flight call for the same key
+   *
+   * @param key Deduplication key
+   * @param work Function that performs the work
+   * @returns Work result and whether it was shared
+   *
+   * @example
+   * ```typescript
+   * const { value, shared } = await group.run(cacheKey, () => fetchUpstream());
+   * ```
+   */
+  async run(key: string, work: () => Promise<T>): Promise<SingleFlightResult<T>> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return { value: await existing, shared: true };
+    }
+
+    const promise = work().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+
+    return { value: await promise, shared: false };
+  }
+
+  /**
+   * Number of calls currently in flight
+   * Useful for diagnostics and testing
+   */
+  get size(): number {
+    return this.inFlight.size;
+  }
+}
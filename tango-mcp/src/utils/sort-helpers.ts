@@ -192,6 +192,31 @@ export function extractCursorFromUrl(nextUrl: string | null | undefined): string
   }
 }
 
+/**
+ * Extract page number from pagination URL
+ *
+ * Offset-paginated endpoints (e.g., /subawards/) return a "next" URL
+ * containing a page parameter instead of a cursor.
+ *
+ * @param url Next/previous page URL from API response
+ * @returns Page number or undefined if not found
+ *
+ * @example
+ * extractPageFromUrl("https://api.tango.com/subawards/?page=3")
+ * // Returns: 3
+ */
+export function extractPageFromUrl(url: string | null | undefined): number | undefined {
+  if (!url) return undefined;
+
+  try {
+    const urlObj = new URL(url);
+    const pageParam = urlObj.searchParams.get("page");
+    return pageParam ? Number.parseInt(pageParam, 10) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Build ordering description for tool responses
  *
@@ -0,0 +1,99 @@
+/**
+ * Tool Handler Middleware
+ *
+ * Wraps the handler of every tool registered on an MCP server, so
+ * cross-cutting concerns (tracing, auditing, rate limiting, token scopes)
+ * apply to all tools without touching each registration.
+ *
+ * Middleware must be installed before tools are registered. The last
+ * middleware installed runs innermost.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+/**
+ * Request metadata the MCP SDK passes as the last handler argument
+ */
+export interface ToolCallExtra {
+	requestInfo?: {
+		headers?: Record<string, string | string[] | undefined>;
+	};
+}
+
+/**
+ * Tool handler as registered (arguments vary with the tool's schema)
+ */
+export type ToolHandler = (...args: unknown[]) => unknown;
+
+/**
+ * Middleware wrapping one tool's handler
+ *
+ * @param handler Handler to wrap
+ * @param toolName Name the tool is registered under
+ * @returns Wrapped handler
+ */
+export type ToolMiddleware = (handler: ToolHandler, toolName: string) => ToolHandler;
+
+/**
+ * Install a middleware for all tools registered from now on
+ *
+ * @param server MCP server
+ * @param middleware Middleware to apply to each tool handler
+ */
+export function wrapToolHandlers(server: McpServer, middleware: ToolMiddleware): void {
+	const register = server.tool.bind(server) as (...args: unknown[]) => unknown;
+
+	server.tool = ((...args: unknown[]) => {
+		const handler = args[args.length - 1];
+		if (typeof handler === "function" && typeof args[0] === "string") {
+			args[args.length - 1] = middleware(handler as ToolHandler, args[0]);
+		}
+		return register(...args);
+	}) as McpServer["tool"];
+}
+
+/**
+ * Skip registration of tools that aren't allowed
+ *
+ * Must be called before tools are registered.
+ *
+ * @param server MCP server
+ * @param allow Returns true if the named tool may be registered
+ */
+export function filterToolRegistrations(server: McpServer, allow: (toolName: string) => boolean): void {
+	const register = server.tool.bind(server) as (...args: unknown[]) => unknown;
+
+	server.tool = ((...args: unknown[]) => {
+		if (typeof args[0] === "string" && !allow(args[0])) {
+			return undefined;
+		}
+		return register(...args);
+	}) as McpServer["tool"];
+}
+
+/**
+ * Get the request metadata from a tool handler's arguments
+ *
+ * @param handlerArgs Arguments the handler was called with
+ * @returns Request metadata, if the transport provided it
+ */
+export function getToolCallExtra(handlerArgs: unknown[]): ToolCallExtra | undefined {
+	const extra = handlerArgs[handlerArgs.length - 1];
+	return typeof extra === "object" && extra !== null ? (extra as ToolCallExtra) : undefined;
+}
+
+/**
+ * Build a request carrying the caller's headers (for audit logging)
+ *
+ * @param handlerArgs Arguments the handler was called with
+ * @returns Synthetic request with the forwarded headers (IP, user agent)
+ */
+export function toolCallRequest(handlerArgs: unknown[]): Request {
+	const headers = new Headers();
+	for (const [name, value] of Object.entries(getToolCallExtra(handlerArgs)?.requestInfo?.headers ?? {})) {
+		if (value !== undefined) {
+			headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+		}
+	}
+	return new Request("https://tango-mcp.internal/mcp", { headers });
+}
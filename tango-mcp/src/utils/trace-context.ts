@@ -0,0 +1,191 @@
+/**
+ * Request Trace Context
+ *
+ * Correlates everything done for one MCP request: structured logs, audit
+ * events, outbound Tango API calls and the tool's execution block.
+ *
+ * Flow:
+ * - createMcpRouter assigns every incoming request a trace ID and forwards
+ *   it to the agent in the X-Request-ID header (a valid client-supplied
+ *   X-Request-ID is kept as the parent trace ID); responses echo the header
+ * - traceToolHandlers runs each tool call inside a trace context built from
+ *   those headers (or a fresh one when the transport doesn't expose them)
+ * - The logger, audit logger and TangoApiClient read the active context,
+ *   so tool code doesn't have to pass it along
+ *
+ * Uses AsyncLocalStorage (nodejs_compat), which follows the context across
+ * awaits within the request.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getToolCallExtra, wrapToolHandlers } from "./tool-middleware";
+
+/**
+ * Trace context for one MCP request
+ */
+export interface TraceContext {
+	/** Trace ID for this request (sent upstream as X-Request-ID) */
+	trace_id: string;
+	/** Caller-supplied request ID, if any */
+	parent_trace_id?: string;
+	/** Upstream Tango API requests made so far (see countUpstreamRequest) */
+	upstream_requests?: number;
+}
+
+/** Header carrying the trace ID */
+export const REQUEST_ID_HEADER = "X-Request-ID";
+
+/** Header carrying the caller's request ID from the router to the agent */
+export const PARENT_REQUEST_ID_HEADER = "X-Parent-Request-ID";
+
+/** Accepted format for caller-supplied request IDs */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const storage = new AsyncLocalStorage<TraceContext>();
+
+/**
+ * Check whether a request ID is safe to log and forward
+ */
+function isValidRequestId(value: string | null | undefined): value is string {
+	return typeof value === "string" && REQUEST_ID_PATTERN.test(value);
+}
+
+/**
+ * Generate a new trace ID
+ */
+export function generateTraceId(): string {
+	return crypto.randomUUID();
+}
+
+/**
+ * Build the trace context for an incoming HTTP request
+ *
+ * Always generates a fresh trace ID; a valid X-Request-ID sent by the
+ * caller becomes the parent trace ID.
+ *
+ * @param headers Incoming request headers
+ * @returns New trace context
+ */
+export function createRequestTraceContext(headers: Headers): TraceContext {
+	const callerId = headers.get(REQUEST_ID_HEADER);
+	return {
+		trace_id: generateTraceId(),
+		parent_trace_id: isValidRequestId(callerId) ? callerId : undefined,
+	};
+}
+
+/**
+ * Copy a request with trace headers set for the agent
+ *
+ * @param request Incoming request
+ * @param trace Trace context assigned by the router
+ * @returns Request carrying X-Request-ID (and X-Parent-Request-ID)
+ */
+export function withTraceHeaders(request: Request, trace: TraceContext): Request {
+	const headers = new Headers(request.headers);
+	headers.set(REQUEST_ID_HEADER, trace.trace_id);
+	if (trace.parent_trace_id) {
+		headers.set(PARENT_REQUEST_ID_HEADER, trace.parent_trace_id);
+	} else {
+		headers.delete(PARENT_REQUEST_ID_HEADER);
+	}
+	return new Request(request, { headers });
+}
+
+/**
+ * Echo the trace ID on a response
+ *
+ * WebSocket upgrades are returned unchanged (their headers can't be rewritten).
+ *
+ * @param response Response to tag
+ * @param trace Trace context assigned by the router
+ * @returns Response with X-Request-ID set
+ */
+export function withTraceResponseHeader(response: Response, trace: TraceContext): Response {
+	if (response.status === 101 || response.webSocket) {
+		return response;
+	}
+	const tagged = new Response(response.body, response);
+	tagged.headers.set(REQUEST_ID_HEADER, trace.trace_id);
+	return tagged;
+}
+
+/**
+ * Read the trace context forwarded by the router
+ *
+ * @param headers Request headers as seen by the agent (lowercase keys)
+ * @returns Forwarded trace context, or a fresh one if none was forwarded
+ */
+export function traceContextFromHeaders(
+	headers: Record<string, string | string[] | undefined> | undefined,
+): TraceContext {
+	const header = (name: string): string | undefined => {
+		const value = headers?.[name.toLowerCase()];
+		return Array.isArray(value) ? value[0] : value;
+	};
+
+	const traceId = header(REQUEST_ID_HEADER);
+	const parentId = header(PARENT_REQUEST_ID_HEADER);
+	return {
+		trace_id: isValidRequestId(traceId) ? traceId : generateTraceId(),
+		parent_trace_id: isValidRequestId(parentId) ? parentId : undefined,
+	};
+}
+
+/**
+ * Run a function inside a trace context
+ *
+ * @param trace Trace context to activate
+ * @param fn Function to run
+ * @returns The function's result
+ */
+export function runWithTraceContext<T>(trace: TraceContext, fn: () => T): T {
+	return storage.run(trace, fn);
+}
+
+/**
+ * Get the active trace context
+ *
+ * @returns Trace context, or undefined outside a traced request
+ */
+export function getTraceContext(): TraceContext | undefined {
+	return storage.getStore();
+}
+
+/**
+ * Get the active trace ID
+ *
+ * @returns Trace ID, or undefined outside a traced request
+ */
+export function getTraceId(): string | undefined {
+	return storage.getStore()?.trace_id;
+}
+
+/**
+ * Count an upstream Tango API request against the active trace context
+ *
+ * Called by TangoApiClient for every request actually sent upstream (cache
+ * hits don't count), so usage metering can attribute requests to tool calls.
+ */
+export function countUpstreamRequest(): void {
+	const trace = storage.getStore();
+	if (trace) {
+		trace.upstream_requests = (trace.upstream_requests ?? 0) + 1;
+	}
+}
+
+/**
+ * Run every tool registered on a server inside a trace context
+ *
+ * Must be called before tools are registered. Each call gets the trace
+ * context forwarded by the router in the request headers.
+ *
+ * @param server MCP server whose tool handlers should be traced
+ */
+export function traceToolHandlers(server: McpServer): void {
+	wrapToolHandlers(server, (handler) => (...handlerArgs) => {
+		const headers = getToolCallExtra(handlerArgs)?.requestInfo?.headers;
+		return runWithTraceContext(traceContextFromHeaders(headers), () => handler(...handlerArgs));
+	});
+}
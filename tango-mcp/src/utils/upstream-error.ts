@@ -0,0 +1,72 @@
+/**
+ * Upstream Error Results
+ *
+ * When the Tango API is unavailable (circuit breaker open) or the shared
+ * upstream quota is used up, tools pass the structured error through to
+ * the agent instead of treating it as an unexpected failure, so the agent
+ * can read error_code and retry_after_ms and back off.
+ */
+
+import {
+	TangoQuotaExhaustedError,
+	TangoUpstreamUnavailableError,
+} from "@/types/errors";
+import { getTraceId } from "./trace-context";
+
+/**
+ * Tool result carrying a structured upstream error
+ */
+export interface UpstreamErrorResult {
+	[key: string]: unknown;
+	content: Array<{ type: "text"; text: string }>;
+}
+
+/**
+ * Format an upstream error as a tool result
+ *
+ * @param error Error caught by the tool
+ * @param startTime Tool start time (Date.now()) for execution.duration_ms
+ * @returns Tool result with the error response and execution block, or
+ *   undefined if the error is not an upstream error
+ *
+ * @example
+ * ```typescript
+ * } catch (error) {
+ *   const upstreamError = formatUpstreamError(error, startTime);
+ *   if (upstreamError) {
+ *     return upstreamError;
+ *   }
+ *   // Handle unexpected errors
+ * }
+ * ```
+ */
+export function formatUpstreamError(
+	error: unknown,
+	startTime: number,
+): UpstreamErrorResult | undefined {
+	if (
+		!(error instanceof TangoUpstreamUnavailableError) &&
+		!(error instanceof TangoQuotaExhaustedError)
+	) {
+		return undefined;
+	}
+
+	return {
+		content: [
+			{
+				type: "text",
+				text: JSON.stringify(
+					{
+						...error.toErrorResponse(),
+						execution: {
+							duration_ms: Date.now() - startTime,
+							trace_id: getTraceId(),
+						},
+					},
+					null,
+					2,
+				),
+			},
+		],
+	};
+}
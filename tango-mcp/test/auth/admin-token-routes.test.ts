@@ -0,0 +1,371 @@
+/**
+ * Admin Token API Tests
+ *
+ * Tests for the /admin/tokens HTTP routes: admin gating, token lifecycle
+ * and audit logging, plus usage, roles and OAuth clients.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { AdminTokenHandler } from "../../src/auth/admin-token-routes.js";
+import { verifyMcpAccessToken } from "../../src/auth/mcp-token.js";
+import { AuditLogger, type AuditLogEntry } from "../../src/security/audit-logging.js";
+import { recordUsage, resolveUsageSubjects } from "../../src/security/usage-quota.js";
+import type { Env } from "../../src/types/env.js";
+
+const ADMIN = "admin@agile6.com";
+
+/**
+ * Minimal in-memory KV
+ */
+function createMockEnv(): Env {
+	const store = new Map<string, { value: string; metadata?: unknown }>();
+	return {
+		ADMIN_EMAILS: ADMIN,
+		OAUTH_KV: {
+			get: async (key: string, type?: string) => {
+				const value = store.get(key)?.value ?? null;
+				return type === "json" && value ? JSON.parse(value) : value;
+			},
+			put: async (key: string, value: string, options?: { metadata?: unknown }) => {
+				store.set(key, { value, metadata: options?.metadata });
+			},
+			delete: async (key: string) => {
+				store.delete(key);
+			},
+			list: async ({ prefix }: { prefix: string }) => ({
+				keys: [...store.entries()]
+					.filter(([key]) => key.startsWith(prefix))
+					.map(([name, entry]) => ({ name, metadata: entry.metadata })),
+				list_complete: true,
+			}),
+		} as unknown as KVNamespace,
+	} as Env;
+}
+
+/**
+ * Call the admin API as the given OAuth user
+ */
+async function call(
+	env: Env,
+	method: string,
+	path: string,
+	body?: unknown,
+	email: string | null = ADMIN,
+): Promise<Response> {
+	const request = new Request(`https://mcp.example.com${path}`, {
+		method,
+		headers: { "Content-Type": "application/json", "User-Agent": "TestAgent/1.0" },
+		body: body === undefined ? undefined : JSON.stringify(body),
+	});
+	const ctx = {
+		props: email ? { email, name: "Admin", accessToken: "oauth-token" } : {},
+		waitUntil: () => {},
+		passThroughOnException: () => {},
+	};
+	return AdminTokenHandler.fetch(request, env, ctx as unknown as ExecutionContext);
+}
+
+describe("Admin token API", () => {
+	let env: Env;
+	let logged: AuditLogEntry[];
+
+	beforeEach(() => {
+		env = createMockEnv();
+		logged = [];
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(AuditLogger.prototype, "log").mockImplementation(async (entry) => {
+			logged.push(entry);
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("access control", () => {
+		it("should reject requests without an OAuth identity", async () => {
+			const response = await call(env, "GET", "/admin/tokens?user=jane@agile6.com", undefined, null);
+
+			expect(response.status).toBe(401);
+			expect(await response.json()).toMatchObject({ error: "unauthorized" });
+		});
+
+		it("should reject users not listed in ADMIN_EMAILS", async () => {
+			const response = await call(env, "GET", "/admin/tokens?user=jane@agile6.com", undefined, "jane@agile6.com");
+
+			expect(response.status).toBe(403);
+			expect(response.headers.get("Cache-Control")).toBe("no-store");
+			expect(logged[0]).toMatchObject({ event_type: "admin_access_denied", success: false });
+		});
+	});
+
+	describe("token lifecycle", () => {
+		it("should create a token that verifies and audit the creation without the raw token", async () => {
+			const response = await call(env, "POST", "/admin/tokens", {
+				userId: "jane@agile6.com",
+				description: "CI pipeline",
+				expiresInDays: 30,
+				scopes: { tools: ["search_opportunities"] },
+			});
+			const created = await response.json<{ token: string; tokenId: string; expiresAt: string }>();
+
+			expect(response.status).toBe(201);
+			expect((await verifyMcpAccessToken(created.token, env)).valid).toBe(true);
+
+			const audit = logged.find((entry) => entry.event_type === "token_admin");
+			expect(audit).toMatchObject({
+				event_action: "create",
+				user_email: ADMIN,
+				resource_id: created.tokenId,
+				success: true,
+			});
+			expect(JSON.stringify(audit)).not.toContain(created.token);
+		});
+
+		it("should validate request bodies", async () => {
+			const response = await call(env, "POST", "/admin/tokens", {
+				userId: "",
+				description: "",
+			});
+
+			expect(response.status).toBe(400);
+			const data = await response.json<{ error: string; message: string }>();
+			expect(data.error).toBe("invalid_request");
+			expect(data.message).toContain("userId");
+		});
+
+		it("should reject unknown scoped tools", async () => {
+			const response = await call(env, "POST", "/admin/tokens", {
+				userId: "jane@agile6.com",
+				description: "Bad scopes",
+				scopes: { tools: ["get_cache_stats"] },
+			});
+
+			expect(response.status).toBe(400);
+			expect(logged.find((entry) => entry.event_type === "token_admin")?.success).toBe(false);
+		});
+
+		it("should list, describe, revoke, unrevoke and report stats", async () => {
+			const created = await (
+				await call(env, "POST", "/admin/tokens", { userId: "jane@agile6.com", description: "Laptop" })
+			).json<{ tokenId: string }>();
+
+			const updated = await call(env, "PATCH", `/admin/tokens/${created.tokenId}`, { description: "Desktop" });
+			expect(updated.status).toBe(200);
+
+			const revoked = await call(env, "POST", `/admin/tokens/${created.tokenId}/revoke`, { reason: "Lost laptop" });
+			expect(revoked.status).toBe(200);
+
+			const again = await call(env, "POST", `/admin/tokens/${created.tokenId}/revoke`, { reason: "Lost laptop" });
+			expect(again.status).toBe(409);
+
+			const list = await (await call(env, "GET", "/admin/tokens?user=jane@agile6.com")).json<{
+				tokens: Array<{ description: string; isRevoked: boolean }>;
+			}>();
+			expect(list.tokens).toEqual([expect.objectContaining({ description: "Desktop", isRevoked: true })]);
+
+			const restored = await call(env, "POST", `/admin/tokens/${created.tokenId}/unrevoke`);
+			expect(restored.status).toBe(200);
+
+			const stats = await (await call(env, "GET", "/admin/tokens/stats?user=jane@agile6.com")).json<{
+				stats: { totalTokens: number; activeTokens: number };
+			}>();
+			expect(stats.stats).toMatchObject({ totalTokens: 1, activeTokens: 1 });
+
+			expect(
+				logged.filter((entry) => entry.event_type === "token_admin").map((entry) => entry.event_action),
+			).toEqual(["create", "update_description", "revoke", "revoke", "unrevoke"]);
+		});
+
+		it("should rotate a token and revoke all of a user's tokens", async () => {
+			const created = await (
+				await call(env, "POST", "/admin/tokens", { userId: "jane@agile6.com", description: "Laptop" })
+			).json<{ tokenId: string }>();
+
+			const rotated = await call(env, "POST", `/admin/tokens/${created.tokenId}/rotate`, { graceHours: 1 });
+			const rotation = await rotated.json<{ replacement: { tokenId: string } }>();
+			expect(rotated.status).toBe(201);
+			expect(rotation.replacement.tokenId).not.toBe(created.tokenId);
+
+			const revokeAll = await call(env, "POST", "/admin/tokens/revoke-all", {
+				userId: "jane@agile6.com",
+				reason: "Offboarded",
+			});
+			expect(await revokeAll.json()).toMatchObject({ success: true, revokedCount: 2 });
+		});
+
+		it("should set and clear a token's IP allowlist", async () => {
+			const created = await (
+				await call(env, "POST", "/admin/tokens", {
+					userId: "ci@agile6.com",
+					description: "CI pipeline",
+					allowedIps: ["203.0.113.0/24"],
+				})
+			).json<{ token: string; tokenId: string; allowedIps: string[] }>();
+			expect(created.allowedIps).toEqual(["203.0.113.0/24"]);
+
+			const path = `/admin/tokens/${created.tokenId}/allowed-ips`;
+			expect((await call(env, "PUT", path, { allowedIps: ["10.0.0.1/8"] })).status).toBe(400);
+
+			const update = await call(env, "PUT", path, { allowedIps: ["2001:db8::/32"] });
+			expect(await update.json()).toMatchObject({ allowedIps: ["2001:db8::/32"] });
+			expect((await verifyMcpAccessToken(created.token, env, "203.0.113.10")).reason).toBe("ip_not_allowed");
+
+			await call(env, "PUT", path, { allowedIps: null });
+			expect((await verifyMcpAccessToken(created.token, env, "203.0.113.10")).valid).toBe(true);
+			expect(logged.filter((entry) => entry.event_action === "update_allowed_ips")).toHaveLength(3);
+		});
+
+		it("should return 404 for unknown tokens and routes", async () => {
+			expect((await call(env, "POST", "/admin/tokens/tok_missing/unrevoke")).status).toBe(404);
+			expect((await call(env, "GET", "/admin/unknown")).status).toBe(404);
+		});
+	});
+
+	describe("usage", () => {
+		it("should create tokens with quotas that apply to their sessions", async () => {
+			const response = await call(env, "POST", "/admin/tokens", {
+				userId: "jane@agile6.com",
+				description: "Nightly job",
+				quotas: { dailyToolCalls: 50 },
+			});
+			const created = await response.json<{ token: string; tokenId: string }>();
+			const { tokenData } = await verifyMcpAccessToken(created.token, env);
+
+			const subjects = await resolveUsageSubjects(
+				{
+					authenticated: true,
+					method: "mcp-token",
+					user: { tokenId: created.tokenId, userId: "jane@agile6.com" },
+					quotas: tokenData?.quotas,
+				},
+				env,
+			);
+
+			expect(subjects[1]).toEqual({ kind: "token", id: created.tokenId, quotas: { dailyToolCalls: 50 } });
+			const invalid = await call(env, "POST", "/admin/tokens", {
+				userId: "jane@agile6.com",
+				description: "Bad",
+				quotas: { dailyToolCalls: -1 },
+			});
+			expect(invalid.status).toBe(400);
+		});
+
+		it("should report top consumers", async () => {
+			const user = (id: string) => ({ kind: "user" as const, id, quotas: {} });
+			await recordUsage(env, [user("jane@agile6.com")], "search_contracts", 1);
+			await recordUsage(env, [user("bob@agile6.com")], "search_contracts", 4);
+
+			const response = await call(env, "GET", "/admin/usage/top?period=day&metric=upstream_requests");
+			const body = await response.json<{ consumers: Array<{ id: string }> }>();
+
+			expect(response.status).toBe(200);
+			expect(body.consumers.map((consumer) => consumer.id)).toEqual(["bob@agile6.com", "jane@agile6.com"]);
+			expect((await call(env, "GET", "/admin/usage/top?metric=bytes")).status).toBe(400);
+		});
+
+		it("should set, show and clear per-user quota overrides", async () => {
+			const set = await call(env, "PUT", "/admin/usage/users/Jane@agile6.com/quotas", { monthlyToolCalls: 1000 });
+			expect(set.status).toBe(200);
+			expect(logged.some((entry) => entry.event_action === "set_user_quotas")).toBe(true);
+
+			const usage = await call(env, "GET", "/admin/usage/users/jane@agile6.com");
+			expect(await usage.json()).toMatchObject({
+				user: "jane@agile6.com",
+				overrides: { monthlyToolCalls: 1000 },
+				quotas: { monthlyToolCalls: 1000 },
+			});
+
+			expect((await call(env, "DELETE", "/admin/usage/users/jane@agile6.com/quotas")).status).toBe(200);
+			const cleared = await call(env, "GET", "/admin/usage/users/jane@agile6.com");
+			expect(await cleared.json()).toMatchObject({ overrides: null });
+		});
+	});
+
+	describe("roles", () => {
+		it("should assign, list and remove roles and let assigned admins in", async () => {
+			expect((await call(env, "GET", "/admin/roles", undefined, "jane@agile6.com")).status).toBe(403);
+
+			const assigned = await call(env, "PUT", "/admin/roles/email/Jane@agile6.com", { role: "admin" });
+			expect(assigned.status).toBe(200);
+			expect(await assigned.json()).toMatchObject({ kind: "email", subject: "jane@agile6.com", role: "admin", assignedBy: ADMIN });
+			expect(await call(env, "PUT", "/admin/roles/domain/partner.gov", { role: "viewer" })).toHaveProperty("status", 200);
+			expect(logged.filter((entry) => entry.event_action === "assign_role")).toHaveLength(2);
+
+			const roles = await call(env, "GET", "/admin/roles", undefined, "jane@agile6.com");
+			expect(roles.status).toBe(200);
+			expect(await roles.json()).toMatchObject({
+				defaultRole: "exporter",
+				assignments: [
+					{ kind: "domain", subject: "partner.gov", role: "viewer" },
+					{ kind: "email", subject: "jane@agile6.com", role: "admin" },
+				],
+			});
+			expect(await (await call(env, "GET", "/admin/roles/users/pat@partner.gov")).json()).toEqual({
+				email: "pat@partner.gov",
+				role: "viewer",
+				source: "domain",
+			});
+
+			expect((await call(env, "DELETE", "/admin/roles/email/jane@agile6.com")).status).toBe(200);
+			expect((await call(env, "DELETE", "/admin/roles/email/jane@agile6.com")).status).toBe(404);
+			expect((await call(env, "GET", "/admin/roles", undefined, "jane@agile6.com")).status).toBe(403);
+		});
+
+		it("should validate roles and subjects", async () => {
+			expect((await call(env, "PUT", "/admin/roles/email/jane@agile6.com", { role: "owner" })).status).toBe(400);
+			expect((await call(env, "PUT", "/admin/roles/domain/not a domain", { role: "viewer" })).status).toBe(400);
+			expect((await call(env, "PUT", "/admin/roles/group/staff", { role: "viewer" })).status).toBe(404);
+		});
+	});
+
+	describe("clients", () => {
+		it("should list clients and block one, revoking its grants", async () => {
+			const revokeGrant = vi.fn(async () => {});
+			const client = { clientId: "unknown-app", clientName: "Unknown", redirectUris: [], registrationDate: 1_700_000_000 };
+			Object.assign(env, {
+				OAUTH_PROVIDER: {
+					lookupClient: async (clientId: string) => (clientId === client.clientId ? client : null),
+					listClients: async () => ({ items: [client] }),
+					revokeGrant,
+				},
+			});
+			await env.OAUTH_KV.put(
+				"grant:google-1:g1",
+				JSON.stringify({ id: "g1", userId: "google-1", clientId: "unknown-app" }),
+			);
+
+			expect((await call(env, "PUT", "/admin/clients/other-app/access", { status: "blocked" })).status).toBe(404);
+			expect((await call(env, "PUT", "/admin/clients/unknown-app/access", { status: "banned" })).status).toBe(400);
+
+			const blocked = await call(env, "PUT", "/admin/clients/unknown-app/access", {
+				status: "blocked",
+				reason: "Not approved by IT",
+			});
+			expect(await blocked.json()).toMatchObject({
+				status: "blocked",
+				updatedBy: ADMIN,
+				revokedGrants: 1,
+				revocationComplete: true,
+			});
+			expect(revokeGrant).toHaveBeenCalledWith("g1", "google-1");
+			expect(logged.find((entry) => entry.event_type === "oauth_client")).toMatchObject({
+				event_action: "block_client",
+				resource_id: "unknown-app",
+				user_email: ADMIN,
+			});
+
+			expect(await (await call(env, "GET", "/admin/clients")).json()).toMatchObject({
+				policy: "open",
+				clients: [{ clientId: "unknown-app", permitted: false, access: { status: "blocked" } }],
+			});
+
+			const resumed = await call(env, "POST", "/admin/clients/unknown-app/revoke-grants", {});
+			expect(await resumed.json()).toMatchObject({ clientId: "unknown-app", revocationComplete: true });
+
+			expect((await call(env, "DELETE", "/admin/clients/unknown-app/access")).status).toBe(200);
+			expect((await call(env, "DELETE", "/admin/clients/unknown-app/access")).status).toBe(404);
+			expect((await call(env, "POST", "/admin/clients/unknown-app/revoke-grants", {})).status).toBe(409);
+		});
+	});
+});
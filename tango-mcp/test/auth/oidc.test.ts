@@ -0,0 +1,382 @@
+/**
+ * OIDC Upstream Provider Tests
+ *
+ * Tests for generic OpenID Connect identity providers: discovery, JWKS-verified
+ * ID tokens, OIDC_PROVIDERS parsing, the provider picker and the sign-in flow
+ * through /callback.
+ */
+
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from "vitest";
+import { GoogleHandler } from "../../src/auth/google-handler.js";
+import { clearOidcCache, discoverOidcProvider, verifyIdToken } from "../../src/auth/oidc.js";
+import { getTokenPageSession } from "../../src/auth/token-page.js";
+import { getUpstreamProviders, parseOidcProviders } from "../../src/auth/upstream-providers.js";
+import { renderApprovalDialog } from "../../src/auth/workers-oauth-utils.js";
+import { AuditLogger } from "../../src/security/audit-logging.js";
+import type { Env } from "../../src/types/env.js";
+
+const SECRET = "test-cookie-secret";
+const ISSUER = "https://login.example.com/tenant/v2.0";
+const CLIENT_ID = "mcp-app";
+const NOW = Math.floor(Date.now() / 1000);
+
+const discovery = {
+	issuer: ISSUER,
+	authorization_endpoint: `${ISSUER}/authorize`,
+	token_endpoint: `${ISSUER}/token`,
+	jwks_uri: `${ISSUER}/keys`,
+};
+
+/**
+ * Minimal in-memory KV
+ */
+function createMockEnv(): Env {
+	const store = new Map<string, string>();
+	return {
+		COOKIE_ENCRYPTION_KEY: SECRET,
+		GOOGLE_CLIENT_ID: "google-client",
+		GOOGLE_CLIENT_SECRET: "google-secret",
+		OIDC_PROVIDERS: JSON.stringify([
+			{ id: "entra", name: "Microsoft", issuer: ISSUER, clientId: CLIENT_ID, allowedDomains: ["agile6.com"] },
+		]),
+		OIDC_ENTRA_CLIENT_SECRET: "entra-secret",
+		OAUTH_KV: {
+			get: async (key: string) => store.get(key) ?? null,
+			put: async (key: string, value: string) => {
+				store.set(key, value);
+			},
+			delete: async (key: string) => {
+				store.delete(key);
+			},
+		} as unknown as KVNamespace,
+	} as Env;
+}
+
+/**
+ * Extract "name=value" from a Set-Cookie header
+ */
+function cookiePair(setCookie: string | null): string {
+	return (setCookie ?? "").split(";")[0];
+}
+
+function base64Url(data: ArrayBuffer | Uint8Array | string): string {
+	const bytes = typeof data === "string" ? new TextEncoder().encode(data) : new Uint8Array(data);
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+async function generateSigningKey(): Promise<CryptoKeyPair> {
+	return (await crypto.subtle.generateKey(
+		{ name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+		true,
+		["sign", "verify"],
+	)) as CryptoKeyPair;
+}
+
+async function publicJwk(keyPair: CryptoKeyPair, kid: string): Promise<JsonWebKey & { kid: string }> {
+	const jwk = (await crypto.subtle.exportKey("jwk", keyPair.publicKey)) as JsonWebKey;
+	return { ...jwk, kid, alg: "RS256", use: "sig" };
+}
+
+describe("OIDC providers", () => {
+	let signingKey: CryptoKeyPair;
+	let otherKey: CryptoKeyPair;
+	let jwks: JsonWebKey[];
+	let fetchMock: ReturnType<typeof vi.fn>;
+	let idTokenClaims: Record<string, unknown>;
+
+	/**
+	 * Sign an ID token with RS256
+	 */
+	async function signIdToken(
+		claims: Record<string, unknown>,
+		{ key = signingKey, kid = "key-1" }: { key?: CryptoKeyPair; kid?: string } = {},
+	): Promise<string> {
+		const input = `${base64Url(JSON.stringify({ alg: "RS256", kid }))}.${base64Url(JSON.stringify(claims))}`;
+		const signature = await crypto.subtle.sign("RSASSA-PKCS1-v1_5", key.privateKey, new TextEncoder().encode(input));
+		return `${input}.${base64Url(signature)}`;
+	}
+
+	function claims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+		return {
+			iss: ISSUER,
+			sub: "user-123",
+			aud: CLIENT_ID,
+			exp: NOW + 300,
+			iat: NOW,
+			nonce: "nonce-1",
+			email: "jane@agile6.com",
+			email_verified: true,
+			name: "Jane Doe",
+			...overrides,
+		};
+	}
+
+	const verifyOptions = {
+		issuer: ISSUER,
+		jwksUri: discovery.jwks_uri,
+		clientId: CLIENT_ID,
+		nonce: "nonce-1",
+	};
+
+	beforeAll(async () => {
+		signingKey = await generateSigningKey();
+		otherKey = await generateSigningKey();
+	});
+
+	beforeEach(async () => {
+		clearOidcCache();
+		jwks = [await publicJwk(signingKey, "key-1")];
+		idTokenClaims = claims();
+		fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+			const url = String(input);
+			if (url === `${ISSUER}/.well-known/openid-configuration`) return Response.json(discovery);
+			if (url === discovery.jwks_uri) return Response.json({ keys: jwks });
+			if (url === discovery.token_endpoint) {
+				return Response.json({ access_token: "entra-token", id_token: await signIdToken(idTokenClaims) });
+			}
+			return new Response("not found", { status: 404 });
+		});
+		vi.spyOn(globalThis, "fetch").mockImplementation(fetchMock as unknown as typeof fetch);
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(AuditLogger.prototype, "log").mockImplementation(async () => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("ID token verification", () => {
+		it("should accept a valid ID token", async () => {
+			const verified = await verifyIdToken(await signIdToken(claims()), verifyOptions);
+
+			expect(verified).toMatchObject({ sub: "user-123", email: "jane@agile6.com" });
+		});
+
+		it("should reject wrong audience, nonce, issuer and expired tokens", async () => {
+			const cases: Array<[Record<string, unknown>, string]> = [
+				[{ aud: "other-app" }, "audience mismatch"],
+				[{ aud: [CLIENT_ID, "other-app"] }, "authorized party mismatch"],
+				[{ nonce: "replayed" }, "nonce mismatch"],
+				[{ iss: "https://evil.example.com" }, "issuer mismatch"],
+				[{ exp: NOW - 120 }, "token expired"],
+			];
+			for (const [overrides, reason] of cases) {
+				await expect(verifyIdToken(await signIdToken(claims(overrides)), verifyOptions), reason).rejects.toThrow(
+					reason,
+				);
+			}
+		});
+
+		it("should reject tokens signed with another key", async () => {
+			const token = await signIdToken(claims(), { key: otherKey });
+
+			await expect(verifyIdToken(token, verifyOptions)).rejects.toThrow("signature verification failed");
+		});
+
+		it("should refetch the JWKS once when the key ID is unknown", async () => {
+			await verifyIdToken(await signIdToken(claims()), verifyOptions);
+			jwks = [await publicJwk(otherKey, "key-2")];
+
+			await verifyIdToken(await signIdToken(claims(), { key: otherKey, kid: "key-2" }), verifyOptions);
+			await expect(
+				verifyIdToken(await signIdToken(claims(), { kid: "key-3" }), verifyOptions),
+			).rejects.toThrow("no signing key found");
+
+			const jwksFetches = fetchMock.mock.calls.filter(([input]) => String(input) === discovery.jwks_uri);
+			expect(jwksFetches).toHaveLength(3);
+		});
+
+		it("should reject discovery documents for another issuer", async () => {
+			await expect(discoverOidcProvider("https://login.example.com/other/v2.0")).rejects.toThrow(
+				"OIDC discovery failed",
+			);
+			fetchMock.mockImplementationOnce(async () => Response.json({ ...discovery, issuer: "https://evil.example.com" }));
+
+			await expect(discoverOidcProvider(ISSUER)).rejects.toThrow("issuer mismatch");
+		});
+	});
+
+	describe("configuration", () => {
+		it("should validate OIDC_PROVIDERS entries", () => {
+			const entry = {
+				id: "okta",
+				name: "Okta",
+				issuer: "https://example.okta.com",
+				clientId: "app",
+				allowedDomains: ["partner.gov"],
+			};
+
+			expect(parseOidcProviders(undefined)).toEqual([]);
+			expect(parseOidcProviders(JSON.stringify([entry]))).toEqual([{ ...entry, scopes: undefined }]);
+			expect(() => parseOidcProviders("{")).toThrow("JSON array");
+			expect(() => parseOidcProviders(JSON.stringify([{ ...entry, id: "google" }]))).toThrow(".id must be");
+			expect(() => parseOidcProviders(JSON.stringify([entry, entry]))).toThrow("duplicate id 'okta'");
+			expect(() => parseOidcProviders(JSON.stringify([{ ...entry, scopes: "email" }]))).toThrow("'openid'");
+			expect(parseOidcProviders(JSON.stringify([{ ...entry, allowedDomains: ["Partner.gov"] }]))).toEqual([
+				{ ...entry, scopes: undefined, allowedDomains: ["partner.gov"] },
+			]);
+			expect(() => parseOidcProviders(JSON.stringify([{ ...entry, allowedDomains: undefined }]))).toThrow(
+				".allowedDomains must be",
+			);
+			expect(() => parseOidcProviders(JSON.stringify([{ ...entry, allowedDomains: [] }]))).toThrow(
+				".allowedDomains must be",
+			);
+			expect(() => parseOidcProviders(JSON.stringify([{ ...entry, allowedDomains: "partner.gov" }]))).toThrow(
+				".allowedDomains must be",
+			);
+		});
+
+		it("should list Google first, then OIDC providers", () => {
+			const env = createMockEnv();
+
+			expect(getUpstreamProviders(env).map(({ id, name }) => ({ id, name }))).toEqual([
+				{ id: "google", name: "Google" },
+				{ id: "entra", name: "Microsoft" },
+			]);
+		});
+
+		it("should render one approval button per provider", async () => {
+			const response = renderApprovalDialog(new Request("https://mcp.example.com/authorize"), {
+				client: null,
+				server: { name: "Tango MCP" },
+				state: {},
+				csrfToken: "csrf",
+				setCookie: "",
+				providers: getUpstreamProviders(createMockEnv()),
+			});
+			const html = await response.text();
+
+			expect(html).toContain('name="provider" value="google"');
+			expect(html).toContain('name="provider" value="entra"');
+			expect(html).toContain("Approve with Microsoft");
+		});
+	});
+
+	describe("sign-in", () => {
+		/**
+		 * Start sign-in on the token page and return the authorize URL and cookie
+		 */
+		async function startLogin(env: Env): Promise<{ location: URL; cookie: string }> {
+			const response = await GoogleHandler.fetch(
+				new Request("https://mcp.example.com/tokens?provider=entra"),
+				env,
+			);
+			expect(response.status).toBe(302);
+			return {
+				location: new URL(response.headers.get("Location") ?? ""),
+				cookie: cookiePair(response.headers.get("Set-Cookie")),
+			};
+		}
+
+		function callback(env: Env, state: string | null, cookie: string): Promise<Response> {
+			return GoogleHandler.fetch(
+				new Request(`https://mcp.example.com/callback?state=${state}&code=abc`, { headers: { Cookie: cookie } }),
+				env,
+			);
+		}
+
+		it("should sign in through an OIDC provider", async () => {
+			const env = createMockEnv();
+			const { location, cookie } = await startLogin(env);
+
+			expect(location.origin + location.pathname).toBe(discovery.authorization_endpoint);
+			expect(location.searchParams.get("client_id")).toBe(CLIENT_ID);
+			expect(location.searchParams.get("redirect_uri")).toBe("https://mcp.example.com/callback");
+			expect(location.searchParams.get("scope")).toBe("openid email profile");
+			idTokenClaims = claims({ nonce: location.searchParams.get("nonce") });
+
+			const response = await callback(env, location.searchParams.get("state"), cookie);
+
+			expect(response.status).toBe(302);
+			expect(response.headers.get("Location")).toBe("/tokens");
+			const session = await getTokenPageSession(
+				new Request("https://mcp.example.com/tokens", {
+					headers: { Cookie: cookiePair(response.headers.get("Set-Cookie")) },
+				}),
+				SECRET,
+			);
+			expect(session?.email).toBe("jane@agile6.com");
+			const tokenRequest = fetchMock.mock.calls.find(([input]) => String(input) === discovery.token_endpoint);
+			expect(String(tokenRequest?.[1]?.body)).toContain("client_secret=entra-secret");
+		});
+
+		it("should reject an ID token issued for another sign-in", async () => {
+			const env = createMockEnv();
+			const { location, cookie } = await startLogin(env);
+			idTokenClaims = claims({ nonce: "other-nonce" });
+
+			const response = await callback(env, location.searchParams.get("state"), cookie);
+
+			expect(response.status).toBe(401);
+			expect(await response.text()).toContain("nonce mismatch");
+		});
+
+		/**
+		 * Sign in through the token page with the given ID token claims
+		 */
+		async function signIn(env: Env, overrides: Record<string, unknown>): Promise<Response> {
+			const { location, cookie } = await startLogin(env);
+			idTokenClaims = claims({ nonce: location.searchParams.get("nonce"), ...overrides });
+			return callback(env, location.searchParams.get("state"), cookie);
+		}
+
+		it("should only accept a verified email claim", async () => {
+			const spoofed = await signIn(createMockEnv(), {
+				email: undefined,
+				preferred_username: "boss@agile6.com",
+				upn: "boss@agile6.com",
+			});
+			expect(spoofed.status).toBe(403);
+			expect(await spoofed.text()).toContain("ID token has no email address");
+
+			const unverified = await signIn(createMockEnv(), { email_verified: undefined, upn: "jane@agile6.com" });
+			expect(unverified.status).toBe(403);
+			expect(await unverified.text()).toContain("not verified");
+		});
+
+		it("should accept Entra ID tokens verified through xms_edov", async () => {
+			// Entra ID v2 shape: no email_verified, tenant and object IDs, optional claims added
+			const entra = {
+				email_verified: undefined,
+				tid: "tenant-1",
+				oid: "object-1",
+				preferred_username: "jane@agile6.com",
+				ver: "2.0",
+			};
+
+			const verified = await signIn(createMockEnv(), { ...entra, xms_edov: true });
+			expect(verified.status).toBe(302);
+			expect(verified.headers.get("Location")).toBe("/tokens");
+
+			const unverified = await signIn(createMockEnv(), entra);
+			expect(unverified.status).toBe(403);
+			expect(await unverified.text()).toContain("not verified");
+		});
+
+		it("should reject emails outside the provider's allowed domains", async () => {
+			const response = await signIn(createMockEnv(), { email: "jane@evil.example" });
+
+			expect(response.status).toBe(403);
+			expect(await response.text()).toContain("Microsoft is not permitted to sign in evil.example accounts");
+
+			// Addresses holding a role elsewhere are no exception
+			const admin = await signIn({ ...createMockEnv(), ADMIN_EMAILS: "ops@partner.gov" } as Env, {
+				email: "ops@partner.gov",
+			});
+			expect(admin.status).toBe(403);
+			expect(await admin.text()).toContain("Microsoft is not permitted to sign in partner.gov accounts");
+		});
+
+		it("should reject unknown providers", async () => {
+			const response = await GoogleHandler.fetch(
+				new Request("https://mcp.example.com/tokens?provider=github"),
+				createMockEnv(),
+			);
+
+			expect(response.status).toBe(400);
+		});
+	});
+});
@@ -0,0 +1,258 @@
+/**
+ * Self-Service Token Page Tests
+ *
+ * Tests for the /tokens page: Google sign-in, page sessions, CSRF-protected
+ * token creation and revocation, and connected apps.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { GoogleHandler } from "../../src/auth/google-handler.js";
+import { generateMcpAccessToken, verifyMcpAccessToken } from "../../src/auth/mcp-token.js";
+import {
+	createTokenPageSession,
+	getTokenPageSession,
+	renderTokenPage,
+} from "../../src/auth/token-page.js";
+import { AuditLogger } from "../../src/security/audit-logging.js";
+import type { Env } from "../../src/types/env.js";
+
+const SECRET = "test-cookie-secret";
+const USER = "jane@agile6.com";
+
+/**
+ * Minimal in-memory KV
+ */
+function createMockEnv(): { env: Env; store: Map<string, string> } {
+	const store = new Map<string, string>();
+	const env = {
+		COOKIE_ENCRYPTION_KEY: SECRET,
+		GOOGLE_CLIENT_ID: "google-client",
+		GOOGLE_CLIENT_SECRET: "google-secret",
+		OAUTH_KV: {
+			get: async (key: string) => store.get(key) ?? null,
+			put: async (key: string, value: string) => {
+				store.set(key, value);
+			},
+			delete: async (key: string) => {
+				store.delete(key);
+			},
+			list: async ({ prefix }: { prefix: string }) => ({
+				keys: [...store.keys()].filter((key) => key.startsWith(prefix)).map((name) => ({ name })),
+			}),
+		} as unknown as KVNamespace,
+	} as Env;
+	return { env, store };
+}
+
+/**
+ * Extract "name=value" from a Set-Cookie header
+ */
+function cookiePair(setCookie: string | null): string {
+	return (setCookie ?? "").split(";")[0];
+}
+
+describe("Token page", () => {
+	let env: Env;
+	let store: Map<string, string>;
+	let sessionCookie: string;
+
+	/**
+	 * Load the page and return the CSRF token and cookie it issued
+	 */
+	async function loadPage(): Promise<{ html: string; csrfToken: string; csrfCookie: string }> {
+		const response = await GoogleHandler.fetch(
+			new Request("https://mcp.example.com/tokens", { headers: { Cookie: sessionCookie } }),
+			env,
+		);
+		const html = await response.text();
+		const csrfToken = html.match(/name="csrf_token" value="([^"]+)"/)?.[1] ?? "";
+		return { html, csrfToken, csrfCookie: cookiePair(response.headers.get("Set-Cookie")) };
+	}
+
+	/**
+	 * Submit a form on the page
+	 */
+	async function post(path: string, fields: Record<string, string>): Promise<Response> {
+		const { csrfToken, csrfCookie } = await loadPage();
+		return GoogleHandler.fetch(
+			new Request(`https://mcp.example.com${path}`, {
+				method: "POST",
+				headers: { Cookie: `${sessionCookie}; ${csrfCookie}` },
+				body: new URLSearchParams({ csrf_token: csrfToken, ...fields }),
+			}),
+			env,
+		);
+	}
+
+	beforeEach(async () => {
+		({ env, store } = createMockEnv());
+		sessionCookie = cookiePair(await createTokenPageSession(USER, "Jane Doe", SECRET));
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(AuditLogger.prototype, "log").mockImplementation(async () => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("sign-in", () => {
+		it("should send users without a session to Google", async () => {
+			const response = await GoogleHandler.fetch(new Request("https://mcp.example.com/tokens"), env);
+
+			expect(response.status).toBe(302);
+			expect(response.headers.get("Location")).toContain("accounts.google.com");
+			expect(response.headers.get("Set-Cookie")).toContain("__Host-CONSENTED_STATE=");
+			expect([...store.keys()].some((key) => key.startsWith("oauth:state:"))).toBe(true);
+		});
+
+		it("should start a page session from the Google callback", async () => {
+			const login = await GoogleHandler.fetch(new Request("https://mcp.example.com/tokens"), env);
+			const state = new URL(login.headers.get("Location") ?? "").searchParams.get("state");
+			vi.spyOn(globalThis, "fetch").mockImplementation(async (input) =>
+				String(input).includes("userinfo")
+					? Response.json({ id: "1", name: "Jane Doe", email: USER })
+					: Response.json({ access_token: "google-token" }),
+			);
+
+			const response = await GoogleHandler.fetch(
+				new Request(`https://mcp.example.com/callback?state=${state}&code=abc`, {
+					headers: { Cookie: cookiePair(login.headers.get("Set-Cookie")) },
+				}),
+				env,
+			);
+
+			expect(response.status).toBe(302);
+			expect(response.headers.get("Location")).toBe("/tokens");
+			const cookie = cookiePair(response.headers.get("Set-Cookie"));
+			const session = await getTokenPageSession(
+				new Request("https://mcp.example.com/tokens", { headers: { Cookie: cookie } }),
+				SECRET,
+			);
+			expect(session?.email).toBe(USER);
+		});
+
+		it("should keep display names outside Latin-1 in the session", async () => {
+			const cookie = cookiePair(await createTokenPageSession(USER, "山田 太郎 · Ярослава", SECRET));
+
+			const session = await getTokenPageSession(
+				new Request("https://mcp.example.com/tokens", { headers: { Cookie: cookie } }),
+				SECRET,
+			);
+			expect(session?.name).toBe("山田 太郎 · Ярослава");
+		});
+
+		it("should reject tampered or foreign session cookies", async () => {
+			const request = (cookie: string) =>
+				new Request("https://mcp.example.com/tokens", { headers: { Cookie: cookie } });
+
+			expect(await getTokenPageSession(request(sessionCookie), SECRET)).toMatchObject({ email: USER });
+			expect(await getTokenPageSession(request(sessionCookie), "other-secret")).toBeNull();
+			expect(await getTokenPageSession(request(`${sessionCookie}x`), SECRET)).toBeNull();
+		});
+	});
+
+	describe("tokens", () => {
+		it("should create a token and show it once", async () => {
+			const response = await post("/tokens", { description: "Laptop Agent SDK" });
+			const html = await response.text();
+
+			expect(response.status).toBe(201);
+			const token = html.match(/mcp_v1_[A-Za-z0-9]+/)?.[0] ?? "";
+			expect((await verifyMcpAccessToken(token, env)).tokenData?.userId).toBe(USER);
+
+			const { html: page } = await loadPage();
+			expect(page).toContain("Laptop Agent SDK");
+			expect(page).not.toContain(token);
+		});
+
+		it("should require a valid CSRF token", async () => {
+			const response = await GoogleHandler.fetch(
+				new Request("https://mcp.example.com/tokens", {
+					method: "POST",
+					headers: { Cookie: sessionCookie },
+					body: new URLSearchParams({ description: "Laptop", csrf_token: "forged" }),
+				}),
+				env,
+			);
+
+			expect(response.status).toBe(400);
+			expect(store.has(`user:tokens:${USER}`)).toBe(false);
+		});
+
+		it("should only revoke the user's own tokens", async () => {
+			const own = await generateMcpAccessToken(USER, "Laptop", env);
+			const other = await generateMcpAccessToken("bob@agile6.com", "Desktop", env);
+
+			expect((await post(`/tokens/${other.tokenId}/revoke`, {})).status).toBe(404);
+			expect((await verifyMcpAccessToken(other.token, env)).valid).toBe(true);
+
+			const response = await post(`/tokens/${own.tokenId}/revoke`, {});
+			expect(response.status).toBe(200);
+			expect(await response.text()).toContain("Token revoked.");
+			expect((await verifyMcpAccessToken(own.token, env)).reason).toBe("revoked");
+		});
+	});
+
+	describe("connected apps", () => {
+		beforeEach(async () => {
+			store.set("client:claude", JSON.stringify({ clientId: "claude", clientName: "Claude <Desktop>" }));
+			store.set(
+				"grant:google-1:g1",
+				JSON.stringify({
+					id: "g1",
+					userId: "google-1",
+					clientId: "claude",
+					scope: [],
+					metadata: { label: "Jane Doe", email: USER, provider: "google", role: "analyst" },
+					createdAt: 1_700_000_000,
+				}),
+			);
+			store.set("oauth:user-ids:jane@agile6.com", JSON.stringify(["google-1"]));
+			(env as Env & { OAUTH_PROVIDER: unknown }).OAUTH_PROVIDER = {
+				lookupClient: async (clientId: string) => JSON.parse(store.get(`client:${clientId}`) ?? "null"),
+				listUserGrants: async (userId: string) => ({
+					items: [...store.keys()]
+						.filter((key) => key.startsWith(`grant:${userId}:`))
+						.map((key) => JSON.parse(store.get(key) as string)),
+				}),
+				revokeGrant: async (grantId: string, userId: string) => {
+					store.delete(`grant:${userId}:${grantId}`);
+				},
+			};
+		});
+
+		it("should list the apps the user approved", async () => {
+			const { html } = await loadPage();
+
+			expect(html).toContain("Claude &lt;Desktop&gt;");
+			expect(html).toContain("2023-11-14");
+			expect(html).toContain("jane@agile6.com, Jane Doe, via google, role analyst");
+			expect(html).toContain('action="/tokens/apps/claude/revoke"');
+		});
+
+		it("should revoke an app's grants and forget its approval", async () => {
+			expect((await post("/tokens/apps/other-app/revoke", {})).status).toBe(404);
+
+			const response = await post("/tokens/apps/claude/revoke", {});
+
+			expect(response.status).toBe(200);
+			const html = await response.text();
+			expect(html).toContain("App revoked.");
+			expect(html).toContain("No apps are connected to your account.");
+			expect(store.has("grant:google-1:g1")).toBe(false);
+			expect(response.headers.get("Set-Cookie")).toContain("__Host-APPROVED_CLIENTS=");
+		});
+	});
+
+	it("should escape token descriptions", () => {
+		const response = renderTokenPage({
+			session: { email: USER, name: "Jane", expiresAt: Date.now() + 1000 },
+			tokens: [],
+			csrfToken: "csrf",
+			setCookie: "",
+			notice: "<script>alert(1)</script>",
+		});
+
+		return expect(response.text()).resolves.toContain("&lt;script&gt;");
+	});
+});
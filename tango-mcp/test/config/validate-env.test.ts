@@ -142,6 +142,39 @@ describe("validateEnvironment", () => {
 
 			expect(result.valid).toBe(true);
 			expect(result.warnings.some((w) => w.includes("HOSTED_DOMAIN"))).toBe(true);
+		})
+		it("should accept OIDC providers without Google OAuth", () => {
+			const env = createValidEnv();
+			delete (env as any).GOOGLE_CLIENT_ID;
+			delete (env as any).GOOGLE_CLIENT_SECRET;
+			env.OIDC_PROVIDERS = JSON.stringify([
+				{
+					id: "entra",
+					name: "Microsoft",
+					issuer: "https://login.example.com/tenant/v2.0",
+					clientId: "app",
+					allowedDomains: ["agile6.com"],
+				},
+			]);
+			(env as any).OIDC_ENTRA_CLIENT_SECRET = "entra-secret";
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(true);
+			expect(result.warnings.some((w) => w.includes("OAuth is not configured"))).toBe(false);
+		});
+
+		it("should error if OIDC_PROVIDERS is invalid or a client secret is missing", () => {
+			const env = createValidEnv();
+			env.OIDC_PROVIDERS = JSON.stringify([
+				{ id: "okta", name: "Okta", issuer: "https://example.okta.com", clientId: "app", allowedDomains: ["agile6.com"] },
+			]);
+
+			expect(validateEnvironment(env).errors.some((e) => e.includes("OIDC_OKTA_CLIENT_SECRET"))).toBe(true);
+
+			env.OIDC_PROVIDERS = JSON.stringify([{ id: "okta", name: "Okta", issuer: "http://example.okta.com" }]);
+
+			expect(validateEnvironment(env).errors.some((e) => e.includes("issuer must be an https URL"))).toBe(true);
 		});
 	});
 
@@ -206,6 +239,16 @@ describe("validateEnvironment", () => {
 			expect(result.valid).toBe(true);
 		});
 
+		it("should error if MCP_TOKEN_ROTATION_GRACE_HOURS is negative", () => {
+			const env = createValidEnv();
+			env.MCP_TOKEN_ROTATION_GRACE_HOURS = "-1";
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors.some((e) => e.includes("MCP_TOKEN_ROTATION_GRACE_HOURS"))).toBe(true);
+		});
+
 		it("should warn if ADMIN_EMAILS contains invalid email format", () => {
 			const env = createValidEnv();
 			env.ADMIN_EMAILS = "valid@example.com,invalid-email,another@valid.com";
@@ -236,6 +279,26 @@ describe("validateEnvironment", () => {
 			expect(result.valid).toBe(true);
 			expect(result.errors).toHaveLength(0);
 		});
+
+		it("should error if DEFAULT_USER_ROLE is not a role", () => {
+			const env = createValidEnv();
+			env.DEFAULT_USER_ROLE = "owner";
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors.some((e) => e.includes("DEFAULT_USER_ROLE must be one of"))).toBe(true);
+		});
+
+		it("should error if OAUTH_CLIENT_POLICY is unknown", () => {
+			const env = createValidEnv();
+			env.OAUTH_CLIENT_POLICY = "closed";
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors.some((e) => e.includes("OAUTH_CLIENT_POLICY must be one of: open, allowlist"))).toBe(true);
+		});
 	});
 
 	describe("Numeric configuration validation", () => {
@@ -259,6 +322,55 @@ describe("validateEnvironment", () => {
 			expect(result.warnings.some((w) => w.includes("stale data"))).toBe(true);
 		});
 
+		it("should error if CACHE_STALE_TTL_SECONDS is negative", () => {
+			const env = createValidEnv();
+			env.CACHE_STALE_TTL_SECONDS = "-1";
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors.some((e) => e.includes("CACHE_STALE_TTL_SECONDS"))).toBe(true);
+		});
+
+		it("should error if TANGO_QUOTA_PER_DAY is negative", () => {
+			const env = createValidEnv();
+			env.TANGO_QUOTA_PER_DAY = "-5";
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors.some((e) => e.includes("TANGO_QUOTA_PER_DAY"))).toBe(true);
+		});
+
+		it("should accept TANGO_QUOTA_PER_DAY of 0 (unlimited)", () => {
+			const env = createValidEnv();
+			env.TANGO_QUOTA_PER_DAY = "0";
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(true);
+		});
+
+		it("should error if CACHE_TTL_POLICY is not a JSON object", () => {
+			const env = createValidEnv();
+			env.CACHE_TTL_POLICY = "opportunities=300";
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors.some((e) => e.includes("CACHE_TTL_POLICY"))).toBe(true);
+		});
+
+		it("should warn if CACHE_TTL_POLICY has invalid entries", () => {
+			const env = createValidEnv();
+			env.CACHE_TTL_POLICY = '{"opportunities": 300, "agencies": "forever"}';
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(true);
+			expect(result.warnings.some((w) => w.includes("CACHE_TTL_POLICY"))).toBe(true);
+		});
+
 		it("should error if OAUTH_TOKEN_TTL_SECONDS is invalid", () => {
 			const env = createValidEnv();
 			env.OAUTH_TOKEN_TTL_SECONDS = "0";
@@ -288,6 +400,36 @@ describe("validateEnvironment", () => {
 			expect(result.valid).toBe(false);
 			expect(result.errors.some((e) => e.includes("RATE_LIMIT_PER_USER"))).toBe(true);
 		});
+
+		it("should error if a USAGE_QUOTA_* value is not a positive integer", () => {
+			const env = createValidEnv();
+			env.USAGE_QUOTA_DAILY_TOOL_CALLS = "0";
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors.some((e) => e.includes("USAGE_QUOTA_DAILY_TOOL_CALLS"))).toBe(true);
+		});
+
+		it("should error if TANGO_RETRY_MAX_ATTEMPTS is invalid", () => {
+			const env = createValidEnv();
+			env.TANGO_RETRY_MAX_ATTEMPTS = "zero";
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors.some((e) => e.includes("TANGO_RETRY_MAX_ATTEMPTS"))).toBe(true);
+		});
+
+		it("should warn if TANGO_RETRY_MAX_ATTEMPTS is > 5", () => {
+			const env = createValidEnv();
+			env.TANGO_RETRY_MAX_ATTEMPTS = "10";
+
+			const result = validateEnvironment(env);
+
+			expect(result.valid).toBe(true);
+			expect(result.warnings.some((w) => w.includes("TANGO_RETRY_MAX_ATTEMPTS"))).toBe(true);
+		});
 	});
 
 	describe("ALLOWED_AUTH_METHODS validation", () => {
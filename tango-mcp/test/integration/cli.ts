@@ -12,6 +12,12 @@
  * Or use auto-start (starts server automatically):
  *   npm run integration:run -- --auto-start
  *
+ * Offline runs (no Tango API access):
+ *   1. Record once: set TANGO_TRANSPORT=record in .dev.vars, run the specs,
+ *      then npm run fixtures:export
+ *   2. Replay: npm run fixtures:import, set TANGO_TRANSPORT=replay in
+ *      .dev.vars, then run the specs as usual
+ *
  * The test runner will:
  *   - Check if dev server is running (pre-flight checks)
  *   - Optionally auto-start dev server (with --auto-start flag)
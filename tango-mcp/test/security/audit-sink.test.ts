@@ -0,0 +1,273 @@
+/**
+ * Tests for persistent audit sinks
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+	configureAuditSink,
+	createAuditSink,
+	D1AuditSink,
+	R2AuditSink,
+	resolveAuditRetentionDays,
+	type AuditSink,
+} from "../../src/security/audit-sink";
+import { AuditLogger, getAuditLogger, type AuditLogEntry } from "../../src/security/audit-logging";
+import type { Env } from "../../src/types/env";
+
+/**
+ * Minimal in-memory R2 bucket (list results are sorted by key)
+ */
+function createMemoryBucket() {
+	const objects = new Map<string, string>();
+	const bucket = {
+		put: vi.fn(async (key: string, body: string) => {
+			objects.set(key, body);
+		}),
+		get: vi.fn(async (key: string) => {
+			const body = objects.get(key);
+			return body === undefined ? null : { text: async () => body };
+		}),
+		list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+			objects: [...objects.keys()]
+				.filter((key) => key.startsWith(prefix))
+				.sort()
+				.map((key) => ({ key })),
+			truncated: false,
+		})),
+		delete: vi.fn(async (keys: string[]) => {
+			for (const key of keys) objects.delete(key);
+		}),
+	};
+	return { bucket: bucket as unknown as R2Bucket, objects, mock: bucket };
+}
+
+/**
+ * Build a tool execution entry
+ */
+function toolEntry(overrides: Partial<AuditLogEntry> = {}): AuditLogEntry {
+	return {
+		timestamp: new Date().toISOString(),
+		event_category: "api",
+		event_type: "tool_execution",
+		event_action: "success",
+		severity: "info",
+		user_email: "jane@agile6.com",
+		client_ip: "203.0.113.7",
+		user_agent: "TestAgent/1.0",
+		resource_type: "tool",
+		resource_id: "search_contracts",
+		success: true,
+		...overrides,
+	};
+}
+
+describe("R2AuditSink", () => {
+	it("should write one NDJSON object per batch under the day prefix", async () => {
+		const { bucket, objects } = createMemoryBucket();
+		const sink = new R2AuditSink(bucket);
+
+		await sink.write([toolEntry(), toolEntry({ resource_id: "search_grants" })]);
+
+		const [key] = [...objects.keys()];
+		const day = new Date().toISOString().slice(0, 10).replace(/-/g, "/");
+		expect(key).toMatch(new RegExp(`^audit/${day}/\\d{8}T\\d{9}Z-[0-9a-f-]{36}\\.ndjson$`));
+		expect(objects.get(key)?.trim().split("\n")).toHaveLength(2);
+	});
+
+	it("should filter entries and return the newest first", async () => {
+		const { bucket } = createMemoryBucket();
+		const sink = new R2AuditSink(bucket);
+		const now = Date.now();
+		await sink.write([
+			toolEntry({ timestamp: new Date(now - 3000).toISOString(), token_id: "abcd1234..." }),
+			toolEntry({ timestamp: new Date(now - 2000).toISOString(), user_email: "bob@agile6.com" }),
+		]);
+		await sink.write([
+			toolEntry({ timestamp: new Date(now - 1000).toISOString(), success: false, error_code: "API_ERROR" }),
+		]);
+
+		const all = await sink.query({});
+		expect(all.entries.map((entry) => entry.timestamp)).toEqual([
+			new Date(now - 1000).toISOString(),
+			new Date(now - 2000).toISOString(),
+			new Date(now - 3000).toISOString(),
+		]);
+		expect(all.truncated).toBe(false);
+
+		expect((await sink.query({ user: "Bob@Agile6.com" })).entries).toHaveLength(1);
+		expect((await sink.query({ token_id: "abcd" })).entries).toHaveLength(1);
+		expect((await sink.query({ success: false })).entries[0].error_code).toBe("API_ERROR");
+		expect((await sink.query({ tool: "search_grants" })).entries).toHaveLength(0);
+
+		const limited = await sink.query({ limit: 2 });
+		expect(limited.entries).toHaveLength(2);
+		expect(limited.truncated).toBe(true);
+	});
+
+	it("should purge batches from days before the retention period", async () => {
+		const { bucket, objects } = createMemoryBucket();
+		objects.set("audit/2024/01/01/20240101T000000000Z-a.ndjson", "{}\n");
+		objects.set("audit/2024/03/01/20240301T000000000Z-b.ndjson", "{}\n");
+
+		const purged = await new R2AuditSink(bucket).purgeExpired(30, Date.UTC(2024, 2, 15));
+
+		expect(purged).toBe(1);
+		expect([...objects.keys()]).toEqual(["audit/2024/03/01/20240301T000000000Z-b.ndjson"]);
+	});
+});
+
+describe("D1AuditSink", () => {
+	/**
+	 * Mock D1 database that records prepared statements
+	 */
+	function createMockDb(rows: Array<{ entry: string }> = []) {
+		const statements: Array<{ sql: string; params: unknown[] }> = [];
+		const prepare = vi.fn((sql: string) => {
+			const statement = {
+				sql,
+				params: [] as unknown[],
+				bind: (...params: unknown[]) => {
+					const bound = { ...statement, params };
+					statements.push(bound);
+					return bound;
+				},
+				all: async () => ({ results: rows }),
+				run: async () => ({ meta: { changes: 3 } }),
+			};
+			return statement;
+		});
+		const db = { prepare, batch: vi.fn(async () => []) };
+		return { db: db as unknown as D1Database, statements, mock: db };
+	}
+
+	it("should create the table once and insert each entry", async () => {
+		const { db, statements, mock } = createMockDb();
+		const sink = new D1AuditSink(db);
+
+		await sink.write([toolEntry({ token_id: "abcd1234..." })]);
+		await sink.write([toolEntry()]);
+
+		expect(mock.prepare.mock.calls.filter(([sql]) => sql.startsWith("CREATE TABLE"))).toHaveLength(1);
+		const insert = statements.find((statement) => statement.sql.startsWith("INSERT"));
+		expect(insert?.params.slice(1, 6)).toEqual([
+			"tool_execution",
+			"jane@agile6.com",
+			"abcd1234...",
+			"search_contracts",
+			1,
+		]);
+	});
+
+	it("should translate filters to SQL and detect truncation", async () => {
+		const rows = [toolEntry(), toolEntry()].map((entry) => ({ entry: JSON.stringify(entry) }));
+		const { db, statements } = createMockDb(rows);
+
+		const result = await new D1AuditSink(db).query({ user: "Jane@Agile6.com", success: true, limit: 1 });
+
+		const select = statements.find((statement) => statement.sql.startsWith("SELECT"));
+		expect(select?.sql).toContain("user_id = ? AND success = ?");
+		expect(select?.params.slice(2)).toEqual(["jane@agile6.com", 1, 2]);
+		expect(result.entries).toHaveLength(1);
+		expect(result.truncated).toBe(true);
+	});
+
+	it("should delete rows older than the retention period", async () => {
+		const { db, statements } = createMockDb();
+
+		const purged = await new D1AuditSink(db).purgeExpired(30, Date.UTC(2024, 2, 31));
+
+		expect(purged).toBe(3);
+		const remove = statements.find((statement) => statement.sql.startsWith("DELETE"));
+		expect(remove?.params).toEqual(["2024-03-01T00:00:00.000Z"]);
+	});
+});
+
+describe("audit sink configuration", () => {
+	afterEach(() => {
+		getAuditLogger().setSink(undefined, 0);
+	});
+
+	it("should prefer R2, then D1, and honor AUDIT_SINK", () => {
+		const bucket = createMemoryBucket().bucket;
+		const db = {} as D1Database;
+
+		expect(createAuditSink({} as Env)).toBeUndefined();
+		expect(createAuditSink({ AUDIT_LOG_BUCKET: bucket, AUDIT_DB: db } as Env)?.kind).toBe("r2");
+		expect(createAuditSink({ AUDIT_DB: db } as Env)?.kind).toBe("d1");
+		expect(createAuditSink({ AUDIT_LOG_BUCKET: bucket, AUDIT_DB: db, AUDIT_SINK: "d1" } as Env)?.kind).toBe("d1");
+		expect(createAuditSink({ AUDIT_LOG_BUCKET: bucket, AUDIT_SINK: "console" } as Env)).toBeUndefined();
+		expect(createAuditSink({ AUDIT_SINK: "r2" } as Env)).toBeUndefined();
+	});
+
+	it("should default retention to 365 days", () => {
+		expect(resolveAuditRetentionDays({} as Env)).toBe(365);
+		expect(resolveAuditRetentionDays({ AUDIT_RETENTION_DAYS: "90" } as Env)).toBe(90);
+		expect(resolveAuditRetentionDays({ AUDIT_RETENTION_DAYS: "0" } as Env)).toBe(365);
+	});
+
+	it("should attach the configured sink to the shared audit logger", () => {
+		configureAuditSink({ AUDIT_LOG_BUCKET: createMemoryBucket().bucket } as Env);
+
+		expect(getAuditLogger().getSinkKind()).toBe("r2");
+	});
+});
+
+describe("AuditLogger sink buffering", () => {
+	let logger: AuditLogger;
+	let sink: AuditSink & { write: ReturnType<typeof vi.fn>; purgeExpired: ReturnType<typeof vi.fn> };
+
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		sink = {
+			kind: "r2",
+			write: vi.fn(async () => {}),
+			query: vi.fn(async () => ({ entries: [], truncated: false })),
+			purgeExpired: vi.fn(async () => 0),
+		};
+		logger = new AuditLogger();
+		logger.setSink(sink, 90);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should write buffered entries on flush and purge at most once a day", async () => {
+		await logger.log(toolEntry());
+		await logger.log(toolEntry());
+		await logger.flush();
+		await logger.flush();
+
+		expect(sink.write).toHaveBeenCalledTimes(1);
+		expect(sink.write.mock.calls[0][0]).toHaveLength(2);
+		expect(sink.purgeExpired).toHaveBeenCalledTimes(1);
+		expect(sink.purgeExpired.mock.calls[0][0]).toBe(90);
+	});
+
+	it("should keep a failed batch for the next flush", async () => {
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+		sink.write.mockRejectedValueOnce(new Error("R2 unavailable"));
+		await logger.log(toolEntry());
+		await logger.flush();
+		await logger.flush();
+
+		expect(sink.write).toHaveBeenCalledTimes(2);
+		expect(sink.write.mock.calls[1][0]).toHaveLength(1);
+		expect(error).toHaveBeenCalledWith("[AUDIT] Failed to write audit batch", expect.anything());
+	});
+
+	it("should flush before querying", async () => {
+		await logger.log(toolEntry());
+		await logger.query({ tool: "search_contracts" });
+
+		expect(sink.write).toHaveBeenCalledTimes(1);
+		expect(sink.query).toHaveBeenCalledWith({ tool: "search_contracts" });
+	});
+
+	it("should reject queries without a sink", async () => {
+		logger.setSink(undefined, 0);
+
+		await expect(logger.query({})).rejects.toThrow("No audit sink configured");
+	});
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for tool execution auditing
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { auditToolCalls, sanitizeToolArguments } from "../../src/security/tool-audit";
+import { getAuditLogger } from "../../src/security/audit-logging";
+
+/**
+ * Create a mock server that records registrations
+ */
+function createServer() {
+	const register = vi.fn();
+	return { server: { tool: register } as unknown as McpServer, register };
+}
+
+const identity = { email: "jane@agile6.com", name: "Jane" };
+const extra = { requestInfo: { headers: { "cf-connecting-ip": "203.0.113.7", "user-agent": "TestAgent/1.0" } } };
+
+describe("tool auditing", () => {
+	let mock: ReturnType<typeof createServer>;
+	let logToolExecution: ReturnType<typeof vi.spyOn>;
+
+	beforeEach(() => {
+		mock = createServer();
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		logToolExecution = vi.spyOn(getAuditLogger(), "logToolExecution");
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should audit successful calls with sanitized arguments, size and duration", async () => {
+		const waitUntil = vi.fn();
+		auditToolCalls(mock.server, identity, waitUntil);
+		mock.server.tool("search_contracts", "Search", {}, async () => ({
+			content: [{ type: "text", text: JSON.stringify({ data: [] }) }],
+		}));
+		const handler = mock.register.mock.calls[0][3];
+
+		await handler({ vendor_name: "Acme", api_key: "secret-value" }, extra);
+		await Promise.all(waitUntil.mock.calls.map(([promise]) => promise));
+
+		expect(logToolExecution).toHaveBeenCalledWith(
+			"search_contracts",
+			identity,
+			expect.any(Request),
+			true,
+			undefined,
+			expect.objectContaining({
+				arguments: { vendor_name: "Acme", api_key: "[REDACTED]" },
+				result_bytes: expect.any(Number),
+				duration_ms: expect.any(Number),
+				error_code: undefined,
+			}),
+		);
+		const request = logToolExecution.mock.calls[0][2] as Request;
+		expect(request.headers.get("CF-Connecting-IP")).toBe("203.0.113.7");
+		expect(waitUntil).toHaveBeenCalledTimes(1);
+	});
+
+	it("should record error envelopes as failures", async () => {
+		auditToolCalls(mock.server, { tokenId: "abcd1234efgh" });
+		mock.server.tool("get_contract_detail", "Detail", {}, async () => ({
+			content: [
+				{ type: "text", text: JSON.stringify({ error: "Contract not found", error_code: "API_ERROR" }) },
+			],
+		}));
+		const handler = mock.register.mock.calls[0][3];
+
+		await handler({ contract_key: "CONT_AWD_1" }, extra);
+
+		expect(logToolExecution).toHaveBeenCalledWith(
+			"get_contract_detail",
+			{ tokenId: "abcd1234efgh" },
+			expect.any(Request),
+			false,
+			"Contract not found",
+			expect.objectContaining({ error_code: "API_ERROR" }),
+		);
+	});
+
+	it("should audit and rethrow handler exceptions", async () => {
+		auditToolCalls(mock.server, identity);
+		mock.server.tool("health", "Health", async () => {
+			throw new Error("boom");
+		});
+		const handler = mock.register.mock.calls[0][2];
+
+		await expect(handler(extra)).rejects.toThrow("boom");
+		expect(logToolExecution).toHaveBeenCalledWith(
+			"health",
+			identity,
+			expect.any(Request),
+			false,
+			"boom",
+			expect.objectContaining({ error_code: "INTERNAL_ERROR", arguments: undefined }),
+		);
+	});
+
+	it("should truncate long string arguments and keep arrays", () => {
+		const sanitized = sanitizeToolArguments({ query: "x".repeat(600), codes: ["541511"] });
+
+		expect(sanitized?.query).toHaveLength(500 + "...[truncated]".length);
+		expect(sanitized?.codes).toEqual(["541511"]);
+	});
+});
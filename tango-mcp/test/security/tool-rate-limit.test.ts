@@ -0,0 +1,119 @@
+/**
+ * Tests for per-user tool rate limiting
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getToolRateLimitKey, limitToolCalls } from "../../src/security/tool-rate-limit";
+import { resolveToolRateLimitConfig, RATE_LIMIT_CONFIGS } from "../../src/security/rate-limiting";
+import { getAuditLogger } from "../../src/security/audit-logging";
+import type { Env } from "../../src/types/env";
+import { createMemoryKV } from "../utils/memory-kv";
+
+/**
+ * Create a mock server that records registrations
+ */
+function createServer() {
+	const register = vi.fn();
+	return { server: { tool: register } as unknown as McpServer, register };
+}
+
+/**
+ * Register a tool on a mock server and return its (wrapped) handler
+ */
+function registerProbe({ server, register }: ReturnType<typeof createServer>) {
+	const inner = vi.fn(async () => ({ content: [{ type: "text", text: "ok" }] }));
+	server.tool("probe", "Probe tool", {}, inner);
+	return { inner, handler: register.mock.calls[0][3] };
+}
+
+describe("tool rate limiting", () => {
+	let mock: ReturnType<typeof createServer>;
+
+	beforeEach(() => {
+		mock = createServer();
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should key callers by OAuth email or MCP token ID", () => {
+		expect(
+			getToolRateLimitKey({ authenticated: true, method: "oauth", user: { email: "Jane@Agile6.com" } }),
+		).toBe("user:jane@agile6.com");
+		expect(
+			getToolRateLimitKey({ authenticated: true, method: "mcp-token", user: { tokenId: "abc123" } }),
+		).toBe("token:abc123");
+	});
+
+	it("should use RATE_LIMIT_PER_USER as an hourly limit", () => {
+		expect(resolveToolRateLimitConfig({ RATE_LIMIT_PER_USER: "500" } as Env)).toMatchObject({
+			maxRequests: 500,
+			windowMs: 3600000,
+		});
+		expect(resolveToolRateLimitConfig({} as Env)).toEqual(RATE_LIMIT_CONFIGS.TOOL_EXECUTION);
+	});
+
+	it("should run tools until the limit and then return RATE_LIMITED", async () => {
+		const env = { OAUTH_KV: createMemoryKV(), RATE_LIMIT_PER_USER: "2" } as Env;
+		const violation = vi.spyOn(getAuditLogger(), "logRateLimitViolation");
+		limitToolCalls(mock.server, env, "user:jane@agile6.com");
+		const { inner, handler } = registerProbe(mock);
+		const extra = { requestInfo: { headers: { "cf-connecting-ip": "203.0.113.7" } } };
+
+		await handler({}, extra);
+		await handler({}, extra);
+		const response = await handler({}, extra);
+		const data = JSON.parse(response.content[0].text);
+
+		expect(inner).toHaveBeenCalledTimes(2);
+		expect(data.error_code).toBe("RATE_LIMITED");
+		expect(data.transient).toBe(true);
+		expect(data.context).toMatchObject({ limit: 2, window_seconds: 3600 });
+		expect(data.context.retry_after_ms).toBeGreaterThan(0);
+		expect(data.context.retry_after_ms).toBeLessThanOrEqual(3600000);
+		expect(data.execution.duration_ms).toBeGreaterThanOrEqual(0);
+
+		expect(violation).toHaveBeenCalledWith(
+			"tool_execution",
+			"user:jane@agile6.com",
+			expect.any(Request),
+			2,
+			2,
+		);
+		const request = violation.mock.calls[0][2] as Request;
+		expect(request.headers.get("CF-Connecting-IP")).toBe("203.0.113.7");
+	});
+
+	it("should count each caller separately", async () => {
+		const env = { OAUTH_KV: createMemoryKV(), RATE_LIMIT_PER_USER: "1" } as Env;
+		const other = createServer();
+		limitToolCalls(mock.server, env, "token:aaa");
+		limitToolCalls(other.server, env, "token:bbb");
+		const first = registerProbe(mock);
+		const second = registerProbe(other);
+
+		await first.handler({}, {});
+		const limited = await first.handler({}, {});
+		await second.handler({}, {});
+
+		expect(JSON.parse(limited.content[0].text).error_code).toBe("RATE_LIMITED");
+		expect(first.inner).toHaveBeenCalledTimes(1);
+		expect(second.inner).toHaveBeenCalledTimes(1);
+	});
+
+	it("should allow calls when the counter store fails", async () => {
+		const kv = createMemoryKV();
+		kv.get = vi.fn().mockRejectedValue(new Error("KV unavailable"));
+		limitToolCalls(mock.server, { OAUTH_KV: kv } as Env, "token:aaa");
+		const { inner, handler } = registerProbe(mock);
+
+		const response = await handler({}, {});
+
+		expect(inner).toHaveBeenCalledTimes(1);
+		expect(response.content[0].text).toBe("ok");
+	});
+});
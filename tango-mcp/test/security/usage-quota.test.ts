@@ -0,0 +1,413 @@
+/**
+ * Tests for usage metering and quotas
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+	checkUsageQuotas,
+	getTopConsumers,
+	getUsage,
+	getUsagePeriod,
+	isUsageMeteringEnabled,
+	meterToolCalls,
+	normalizeUsageQuotas,
+	recordUsage,
+	resolveDefaultUsageQuotas,
+	resolveUsageSubjects,
+	setUserQuotaOverrides,
+	UsageLedger,
+	type UsageMeterStub,
+	type UsageSubject,
+} from "../../src/security/usage-quota";
+import {
+	countUpstreamRequest,
+	runWithTraceContext,
+} from "../../src/utils/trace-context";
+import type { Env } from "../../src/types/env";
+import { createMemoryKV } from "../utils/memory-kv";
+
+/**
+ * USAGE_METER namespace backed by in-memory ledgers, one per subject
+ *
+ * Like the Durable Object, each call runs to completion before the next.
+ */
+function createUsageMeterNamespace(): Env["USAGE_METER"] {
+	const ledgers = new Map<string, UsageLedger>();
+	const meter = (name: string): UsageMeterStub => {
+		const ledger = ledgers.get(name) ?? new UsageLedger();
+		ledgers.set(name, ledger);
+		return {
+			reserve: async (_subject, toolName, quotas, now) =>
+				ledger.reserve(toolName, quotas, now),
+			record: async (_subject, toolName, toolCalls, upstreamRequests, now) =>
+				ledger.add(toolName, toolCalls, upstreamRequests, now),
+			getUsage: async (_subject, period, now) => ledger.get(period, now),
+		};
+	};
+	return {
+		idFromName: (name: string) => name,
+		get: (name: string) => meter(name),
+	} as unknown as Env["USAGE_METER"];
+}
+
+const NOW = Date.UTC(2025, 0, 31, 15, 30);
+
+describe("usage quota configuration", () => {
+	it("should read default quotas from the environment", () => {
+		expect(
+			resolveDefaultUsageQuotas({
+				USAGE_QUOTA_DAILY_TOOL_CALLS: "500",
+				USAGE_QUOTA_MONTHLY_UPSTREAM_REQUESTS: "20000",
+				USAGE_QUOTA_MONTHLY_TOOL_CALLS: "abc",
+			} as Env),
+		).toEqual({ dailyToolCalls: 500, monthlyUpstreamRequests: 20000 });
+	});
+
+	it("should reject non-positive quotas", () => {
+		expect(normalizeUsageQuotas({ dailyToolCalls: 10 })).toEqual({
+			dailyToolCalls: 10,
+		});
+		expect(() => normalizeUsageQuotas({ monthlyToolCalls: 0 })).toThrow(
+			"monthlyToolCalls must be a positive integer",
+		);
+	});
+
+	it("should be disabled without KV or with ENABLE_TOKEN_ANALYTICS=false", () => {
+		const kv = createMemoryKV();
+		expect(isUsageMeteringEnabled({ OAUTH_KV: kv } as Env)).toBe(true);
+		expect(
+			isUsageMeteringEnabled({
+				OAUTH_KV: kv,
+				ENABLE_TOKEN_ANALYTICS: "false",
+			} as Env),
+		).toBe(false);
+		expect(isUsageMeteringEnabled({} as Env)).toBe(false);
+	});
+
+	it("should compute UTC period keys and reset times", () => {
+		expect(getUsagePeriod("day", NOW)).toEqual({
+			key: "2025-01-31",
+			resetsAt: "2025-02-01T00:00:00.000Z",
+		});
+		expect(getUsagePeriod("month", NOW)).toEqual({
+			key: "2025-01",
+			resetsAt: "2025-02-01T00:00:00.000Z",
+		});
+	});
+});
+
+describe("usage subjects", () => {
+	it("should meter the token and its owner with their own quotas", async () => {
+		const env = {
+			OAUTH_KV: createMemoryKV(),
+			USAGE_QUOTA_DAILY_TOOL_CALLS: "100",
+		} as Env;
+		await setUserQuotaOverrides(
+			"Jane@agile6.com",
+			{ monthlyToolCalls: 1000 },
+			env,
+		);
+
+		const subjects = await resolveUsageSubjects(
+			{
+				authenticated: true,
+				method: "mcp-token",
+				user: { tokenId: "tok123", userId: "jane@agile6.com" },
+				quotas: { dailyUpstreamRequests: 5 },
+			},
+			env,
+		);
+
+		expect(subjects).toEqual([
+			{
+				kind: "user",
+				id: "jane@agile6.com",
+				quotas: { dailyToolCalls: 100, monthlyToolCalls: 1000 },
+			},
+			{ kind: "token", id: "tok123", quotas: { dailyUpstreamRequests: 5 } },
+		]);
+	});
+});
+
+describe("usage counters", () => {
+	let env: Env;
+	const user: UsageSubject = {
+		kind: "user",
+		id: "jane@agile6.com",
+		quotas: { dailyToolCalls: 2 },
+	};
+	const token: UsageSubject = {
+		kind: "token",
+		id: "tok123",
+		quotas: { monthlyUpstreamRequests: 3 },
+	};
+
+	beforeEach(() => {
+		env = { OAUTH_KV: createMemoryKV() } as Env;
+	});
+
+	it("should count calls and upstream requests per tool for day and month", async () => {
+		await recordUsage(env, [user], "search_contracts", 2, NOW);
+		await recordUsage(env, [user], "search_contracts", 0, NOW);
+		await recordUsage(env, [user], "lookup_agency", 1, NOW);
+
+		const day = await getUsage(env, "user", user.id, "day", NOW);
+		expect(day).toEqual({
+			tool_calls: 3,
+			upstream_requests: 3,
+			by_tool: {
+				search_contracts: { tool_calls: 2, upstream_requests: 2 },
+				lookup_agency: { tool_calls: 1, upstream_requests: 1 },
+			},
+		});
+		expect(
+			(await getUsage(env, "user", user.id, "month", NOW)).tool_calls,
+		).toBe(3);
+		expect(
+			(await getUsage(env, "user", user.id, "day", NOW + 24 * 60 * 60 * 1000))
+				.tool_calls,
+		).toBe(0);
+	});
+
+	it("should report the first exceeded quota", async () => {
+		expect(await checkUsageQuotas(env, [user, token], NOW)).toBeUndefined();
+
+		await recordUsage(env, [user, token], "search_contracts", 3, NOW);
+		const exceeded = await checkUsageQuotas(env, [user, token], NOW);
+		expect(exceeded?.toErrorResponse()).toMatchObject({
+			error_code: "USAGE_QUOTA_EXCEEDED",
+			context: {
+				subject: "token",
+				period: "month",
+				metric: "upstream_requests",
+				limit: 3,
+				used: 3,
+			},
+		});
+
+		await recordUsage(env, [user, token], "search_contracts", 0, NOW);
+		expect((await checkUsageQuotas(env, [user, token], NOW))?.subject).toBe(
+			"user",
+		);
+	});
+
+	it("should rank top consumers from list metadata", async () => {
+		await recordUsage(
+			env,
+			[{ kind: "user", id: "a@agile6.com", quotas: {} }],
+			"health",
+			0,
+			NOW,
+		);
+		await recordUsage(
+			env,
+			[{ kind: "user", id: "b@agile6.com", quotas: {} }],
+			"search_contracts",
+			5,
+			NOW,
+		);
+		await recordUsage(
+			env,
+			[{ kind: "user", id: "b@agile6.com", quotas: {} }],
+			"search_contracts",
+			5,
+			NOW,
+		);
+
+		const top = await getTopConsumers(env, {
+			period: "month",
+			metric: "upstream_requests",
+			now: NOW,
+		});
+
+		expect(top.period_key).toBe("2025-01");
+		expect(top.consumers).toEqual([
+			{
+				kind: "user",
+				id: "b@agile6.com",
+				tool_calls: 2,
+				upstream_requests: 10,
+			},
+			{ kind: "user", id: "a@agile6.com", tool_calls: 1, upstream_requests: 0 },
+		]);
+	});
+});
+
+describe("usage ledger", () => {
+	it("should count a call only while every quota has room", () => {
+		const ledger = new UsageLedger();
+		const quotas = { dailyToolCalls: 2, monthlyUpstreamRequests: 5 };
+
+		expect(ledger.reserve("search_contracts", quotas, NOW)).toBeUndefined();
+		expect(ledger.reserve("search_contracts", quotas, NOW)).toBeUndefined();
+		expect(ledger.reserve("search_contracts", quotas, NOW)).toEqual({
+			period: "day",
+			metric: "tool_calls",
+			limit: 2,
+			used: 2,
+			resetsAt: getUsagePeriod("day", NOW).resetsAt,
+		});
+		expect(ledger.get("day", NOW).tool_calls).toBe(2);
+
+		ledger.add("search_contracts", 0, 5, NOW);
+		expect(ledger.reserve("lookup_agency", {}, NOW)).toBeUndefined();
+		expect(
+			ledger.reserve("lookup_agency", { monthlyUpstreamRequests: 5 }, NOW)
+				?.metric,
+		).toBe("upstream_requests");
+		expect(ledger.get("month", NOW)).toEqual({
+			tool_calls: 3,
+			upstream_requests: 5,
+			by_tool: {
+				search_contracts: { tool_calls: 2, upstream_requests: 5 },
+				lookup_agency: { tool_calls: 1, upstream_requests: 0 },
+			},
+		});
+	});
+
+	it("should start over when a period ends", () => {
+		const nextDay = NOW + 24 * 60 * 60 * 1000;
+		const ledger = new UsageLedger();
+		ledger.add("search_contracts", 1, 2, NOW);
+
+		expect(ledger.hasEndedPeriod(NOW)).toBe(false);
+		expect(ledger.hasEndedPeriod(nextDay)).toBe(true);
+
+		ledger.add("search_contracts", 1, 0, nextDay);
+		expect(ledger.get("day", nextDay).tool_calls).toBe(1);
+		expect(ledger.get("month", nextDay).tool_calls).toBe(1);
+		expect(ledger.getPeriods().day?.key).toBe("2025-02-01");
+	});
+});
+
+describe("tool metering", () => {
+	let env: Env;
+	let register: ReturnType<typeof vi.fn>;
+	let server: McpServer;
+
+	beforeEach(() => {
+		env = { OAUTH_KV: createMemoryKV() } as Env;
+		register = vi.fn();
+		server = { tool: register } as unknown as McpServer;
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should attribute upstream requests made during the call", async () => {
+		const user: UsageSubject = {
+			kind: "user",
+			id: "jane@agile6.com",
+			quotas: {},
+		};
+		meterToolCalls(server, env, [user]);
+		server.tool("search_contracts", "Search", {}, async () => {
+			countUpstreamRequest();
+			countUpstreamRequest();
+			return { content: [{ type: "text", text: "ok" }] };
+		});
+		const handler = register.mock.calls[0][3];
+
+		await runWithTraceContext({ trace_id: "t1" }, () => handler({}, {}));
+
+		expect(
+			(await getUsage(env, "user", user.id, "day")).by_tool.search_contracts,
+		).toEqual({
+			tool_calls: 1,
+			upstream_requests: 2,
+		});
+	});
+
+	it("should return USAGE_QUOTA_EXCEEDED once the quota is used up", async () => {
+		const user: UsageSubject = {
+			kind: "user",
+			id: "jane@agile6.com",
+			quotas: { dailyToolCalls: 1 },
+		};
+		const inner = vi.fn(async () => ({
+			content: [{ type: "text", text: "ok" }],
+		}));
+		meterToolCalls(server, env, [user]);
+		server.tool("search_contracts", "Search", {}, inner);
+		server.tool("get_my_usage", "Usage", {}, inner);
+		const [search, usage] = register.mock.calls.map((call) => call[3]);
+
+		await search({}, {});
+		const response = await search({}, {});
+		const data = JSON.parse(response.content[0].text);
+
+		expect(inner).toHaveBeenCalledTimes(1);
+		expect(data.error_code).toBe("USAGE_QUOTA_EXCEEDED");
+		expect(data.context.resets_at).toBe(getUsagePeriod("day").resetsAt);
+
+		await usage({}, {});
+		expect(inner).toHaveBeenCalledTimes(2);
+	});
+
+	it("should hold the quota under parallel calls with USAGE_METER", async () => {
+		env.USAGE_METER = createUsageMeterNamespace();
+		const user: UsageSubject = {
+			kind: "user",
+			id: "jane@agile6.com",
+			quotas: { dailyToolCalls: 3 },
+		};
+		const inner = vi.fn(async () => {
+			countUpstreamRequest();
+			return { content: [{ type: "text", text: "ok" }] };
+		});
+		const pending: Promise<unknown>[] = [];
+		meterToolCalls(server, env, [user], (promise) => pending.push(promise));
+		server.tool("search_contracts", "Search", {}, inner);
+		const handler = register.mock.calls[0][3];
+
+		const responses = await Promise.all(
+			Array.from({ length: 10 }, () =>
+				runWithTraceContext({ trace_id: "t1" }, () => handler({}, {})),
+			),
+		);
+		await Promise.all(pending);
+
+		expect(inner).toHaveBeenCalledTimes(3);
+		expect(
+			responses.filter((response) =>
+				response.content[0].text.includes("USAGE_QUOTA_EXCEEDED"),
+			),
+		).toHaveLength(7);
+		expect(await getUsage(env, "user", user.id, "day")).toMatchObject({
+			tool_calls: 3,
+			upstream_requests: 3,
+		});
+	});
+
+	it("should give back the owner's call when the token's quota is used up", async () => {
+		env.USAGE_METER = createUsageMeterNamespace();
+		const user: UsageSubject = {
+			kind: "user",
+			id: "jane@agile6.com",
+			quotas: { dailyToolCalls: 5 },
+		};
+		const token: UsageSubject = {
+			kind: "token",
+			id: "tok123",
+			quotas: { dailyToolCalls: 1 },
+		};
+		const inner = vi.fn(async () => ({
+			content: [{ type: "text", text: "ok" }],
+		}));
+		meterToolCalls(server, env, [user, token]);
+		server.tool("search_contracts", "Search", {}, inner);
+		const handler = register.mock.calls[0][3];
+
+		await handler({}, {});
+		const data = JSON.parse((await handler({}, {})).content[0].text);
+
+		expect(inner).toHaveBeenCalledTimes(1);
+		expect(data.context.subject).toBe("token");
+		expect((await getUsage(env, "user", user.id, "day")).tool_calls).toBe(1);
+		expect((await getUsage(env, "token", token.id, "day")).tool_calls).toBe(1);
+	});
+});
@@ -0,0 +1,43 @@
+/**
+ * Unit tests for query parameter canonicalization
+ */
+
+import { describe, it, expect } from "vitest";
+import { canonicalizeParams } from "@/api/canonical-params";
+
+describe("canonicalizeParams", () => {
+  it("should sort and de-duplicate pipe-separated lists", () => {
+    const result = canonicalizeParams("contracts", { naics: "541512|541511| 541512" });
+    expect(result.naics).toBe("541511|541512");
+  });
+
+  it("should uppercase code-like fields", () => {
+    const result = canonicalizeParams("contracts", {
+      uei: "j3rw5c5kvlz1",
+      psc: "d302",
+      set_aside: "sba|wosb",
+    });
+    expect(result).toMatchObject({ uei: "J3RW5C5KVLZ1", psc: "D302", set_aside: "SBA|WOSB" });
+  });
+
+  it("should uppercase agency codes but leave agency names alone", () => {
+    expect(canonicalizeParams("contracts", { awarding_agency: "dod" }).awarding_agency).toBe("DOD");
+    expect(canonicalizeParams("contracts", { awarding_agency: "Department of Defense" }).awarding_agency).toBe(
+      "Department of Defense",
+    );
+  });
+
+  it("should leave free-text and cursor fields untouched", () => {
+    const result = canonicalizeParams("contracts", { search: "Cloud|AI", cursor: "AbC123" });
+    expect(result).toMatchObject({ search: "Cloud|AI", cursor: "AbC123" });
+  });
+
+  it("should fill in list endpoint defaults", () => {
+    expect(canonicalizeParams("contracts", {}).limit).toBe(25);
+    expect(canonicalizeParams("contracts", { limit: 10 }).limit).toBe(10);
+  });
+
+  it("should not add defaults for detail endpoints", () => {
+    expect(canonicalizeParams("contracts_ABC123", {})).toEqual({});
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for CircuitBreaker
+ *
+ * Tests:
+ * - Opening after the failure threshold
+ * - Fast failure while open
+ * - Half-open probing and recovery
+ * - Which errors count as upstream failures
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CircuitBreaker } from "@/api/circuit-breaker";
+import {
+  TangoApiError,
+  TangoNetworkError,
+  TangoTimeoutError,
+  TangoUpstreamUnavailableError,
+} from "@/types/errors";
+
+describe("CircuitBreaker", () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker({ failureThreshold: 3, windowMs: 10000, openDurationMs: 5000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should start closed and allow requests", () => {
+    expect(breaker.getSnapshot().state).toBe("closed");
+    expect(() => breaker.assertRequestAllowed()).not.toThrow();
+  });
+
+  it("should open after reaching the failure threshold", () => {
+    breaker.recordFailure(new TangoNetworkError("down"));
+    breaker.recordFailure(new TangoTimeoutError());
+    expect(breaker.getSnapshot().state).toBe("closed");
+
+    breaker.recordFailure(new TangoApiError("Bad gateway", 502));
+
+    expect(breaker.getSnapshot().state).toBe("open");
+    expect(() => breaker.assertRequestAllowed()).toThrow(TangoUpstreamUnavailableError);
+  });
+
+  it("should only count failures within the window", () => {
+    breaker.recordFailure(new TangoNetworkError("down"));
+    breaker.recordFailure(new TangoNetworkError("down"));
+    vi.advanceTimersByTime(11000);
+    breaker.recordFailure(new TangoNetworkError("down"));
+
+    expect(breaker.getSnapshot().state).toBe("closed");
+    expect(breaker.getSnapshot().recent_failures).toBe(1);
+  });
+
+  it("should ignore client errors", () => {
+    for (let i = 0; i < 5; i++) {
+      breaker.recordFailure(new TangoApiError("Not found", 404));
+      breaker.recordFailure(new TangoApiError("Rate limited", 429));
+    }
+
+    expect(breaker.getSnapshot().state).toBe("closed");
+  });
+
+  it("should report retry timing on the fast-fail error", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure(new TangoNetworkError("down"));
+    vi.advanceTimersByTime(2000);
+
+    try {
+      breaker.assertRequestAllowed();
+      expect.fail("Should have thrown");
+    } catch (error) {
+      expect(error).toBeInstanceOf(TangoUpstreamUnavailableError);
+      const response = (error as TangoUpstreamUnavailableError).toErrorResponse();
+      expect(response.error_code).toBe("UPSTREAM_UNAVAILABLE");
+      expect(response.context?.retry_after_ms).toBe(3000);
+    }
+  });
+
+  it("should allow a single probe after the cooldown and close on success", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure(new TangoNetworkError("down"));
+    vi.advanceTimersByTime(5000);
+
+    expect(() => breaker.assertRequestAllowed()).not.toThrow();
+    expect(breaker.getSnapshot().state).toBe("half_open");
+    // Second caller is rejected while the probe is in flight
+    expect(() => breaker.assertRequestAllowed()).toThrow(TangoUpstreamUnavailableError);
+
+    breaker.recordSuccess();
+
+    expect(breaker.getSnapshot().state).toBe("closed");
+    expect(() => breaker.assertRequestAllowed()).not.toThrow();
+  });
+
+  it("should re-open when the probe fails", () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure(new TangoNetworkError("down"));
+    vi.advanceTimersByTime(5000);
+    breaker.assertRequestAllowed();
+
+    breaker.recordFailure(new TangoTimeoutError());
+
+    expect(breaker.getSnapshot().state).toBe("open");
+    expect(breaker.getSnapshot().next_probe_at).toBeDefined();
+  });
+});
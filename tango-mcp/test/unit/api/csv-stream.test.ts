@@ -0,0 +1,57 @@
+/**
+ * Unit tests for CSV response streaming
+ */
+
+import { describe, it, expect } from "vitest";
+import { countCsvRows, isCachedCsvBody, readCsvBody } from "@/api/csv-stream";
+
+describe("countCsvRows", () => {
+  it("should exclude the header row", () => {
+    expect(countCsvRows("id,name\n1,Acme\n2,Globex")).toBe(2);
+  });
+
+  it("should ignore blank lines and CRLF endings", () => {
+    expect(countCsvRows("id,name\r\n1,Acme\r\n\r\n")).toBe(1);
+  });
+
+  it("should not split records on quoted newlines", () => {
+    expect(countCsvRows('id,notes\n1,"line one\nline two"\n2,plain\n')).toBe(2);
+  });
+
+  it("should return 0 for empty or header-only input", () => {
+    expect(countCsvRows("")).toBe(0);
+    expect(countCsvRows("id,name\n")).toBe(0);
+  });
+});
+
+describe("readCsvBody", () => {
+  it("should not cut inside a quoted field when truncating", async () => {
+    const body = 'id,notes\n1,"a\nb"\n2,"c\nd"\n';
+
+    const { text, csv } = await readCsvBody(new Response(body), 22);
+
+    expect(text).toBe('id,notes\n1,"a\nb"\n');
+    expect(csv).toEqual({ rows: 1, bytes: 17, truncated: true, max_bytes: 22 });
+  });
+
+  it("should drop a multi-byte character split at the cap", async () => {
+    const { text, csv } = await readCsvBody(new Response("name\nCafé\nÉcole\n"), 13);
+
+    expect(text).toBe("name\nCafé\n");
+    expect(csv.truncated).toBe(true);
+  });
+});
+
+describe("isCachedCsvBody", () => {
+  it("should recognize stored CSV exports only", () => {
+    expect(
+      isCachedCsvBody({
+        format: "csv",
+        text: "id\n1\n",
+        csv: { rows: 1, bytes: 5, truncated: false, max_bytes: 100 },
+      }),
+    ).toBe(true);
+    expect(isCachedCsvBody({ results: [] })).toBe(false);
+    expect(isCachedCsvBody("id\n1\n")).toBe(false);
+  });
+});
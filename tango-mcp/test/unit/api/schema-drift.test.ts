@@ -0,0 +1,242 @@
+/**
+ * Unit tests for response schemas and the schema drift report
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { findResponseSchema } from "@/api/response-schemas";
+import {
+  SCHEMA_DRIFT_KEY_PREFIX,
+  flushSchemaDrift,
+  getSchemaDriftReport,
+  isSchemaDriftFlushDue,
+  readSchemaDriftReport,
+  recordResponseShape,
+  resetSchemaDriftReport,
+} from "@/api/schema-drift";
+import { TangoApiClient } from "@/api/tango-client";
+import type { Env } from "@/types/env";
+import { runWithTraceContext } from "@/utils/trace-context";
+import { createMemoryKV } from "../../utils/memory-kv";
+
+const contract = {
+  key: "CONT_AWD_1",
+  piid: "47QTCA19D00AB",
+  description: "Cloud services",
+  recipient: { display_name: "Acme Corp", uei: "ABC123DEF456" },
+  obligated: 1000,
+  award_date: "2024-01-15",
+  naics_code: "541512",
+};
+
+describe("response schemas", () => {
+  it("should map endpoint paths to labels", () => {
+    expect(findResponseSchema("/contracts/")?.endpoint).toBe("/contracts/");
+    expect(findResponseSchema("/contracts/CONT_AWD_1/")?.endpoint).toBe("/contracts/{key}/");
+    expect(findResponseSchema("/entities/ABC123DEF456/contracts/")?.endpoint).toBe(
+      "/entities/{uei}/contracts/",
+    );
+    expect(findResponseSchema("/agencies/4700/contracts/funding/")?.endpoint).toBe(
+      "/agencies/{code}/contracts/{role}/",
+    );
+    expect(findResponseSchema("/unmapped/")).toBeUndefined();
+  });
+
+  it("should accept null for optional fields", () => {
+    const { schema } = findResponseSchema("/contracts/")!;
+    const result = schema.safeParse({
+      results: [{ ...contract, psc_code: null, recipient: null }],
+      total: 1,
+      next: null,
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("should pass unknown fields through on detail endpoints", () => {
+    const { schema } = findResponseSchema("/contracts/CONT_AWD_1/")!;
+
+    expect(schema.safeParse({ ...contract, transactions: [] }).success).toBe(true);
+  });
+});
+
+describe("schema drift report", () => {
+  beforeEach(() => {
+    resetSchemaDriftReport();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should count clean responses without drift", () => {
+    const drift = recordResponseShape("/contracts/", { results: [contract], total: 1 });
+
+    expect(drift).toBeUndefined();
+    expect(getSchemaDriftReport().endpoints["/contracts/"]).toMatchObject({
+      checked: 1,
+      drifted: 0,
+    });
+  });
+
+  it("should ignore endpoints without a schema", () => {
+    expect(recordResponseShape("/unmapped/", { anything: true })).toBeUndefined();
+    expect(getSchemaDriftReport().endpoints).toEqual({});
+  });
+
+  it("should classify unknown fields, missing fields and type mismatches", () => {
+    const drift = recordResponseShape("/contracts/", {
+      results: [
+        { ...contract, award_type: "D", obligated: "1000" },
+        { ...contract, award_type: "C", recipient: { uei: "XYZ", parent_uei: "P" } },
+      ],
+      total: 2,
+    });
+
+    expect(drift).toEqual({
+      endpoint: "/contracts/",
+      unknown_fields: ["results[].award_type", "results[].recipient.parent_uei"],
+      missing_fields: [],
+      type_mismatches: [{ path: "results[].obligated", expected: "number", received: "string" }],
+      new_paths: true,
+    });
+
+    const vendorDrift = recordResponseShape("/entities/ABC123DEF456/", { legal_business_name: "Acme" });
+    expect(vendorDrift?.missing_fields).toEqual(["uei"]);
+  });
+
+  it("should count responses per field path, not occurrences", () => {
+    const response = {
+      results: [
+        { ...contract, award_type: "D" },
+        { ...contract, award_type: "D" },
+      ],
+    };
+    recordResponseShape("/contracts/", response);
+    const repeat = recordResponseShape("/contracts/", response);
+
+    const entry = getSchemaDriftReport().endpoints["/contracts/"];
+    expect(entry).toMatchObject({
+      checked: 2,
+      drifted: 2,
+      unknown_fields: { "results[].award_type": 2 },
+    });
+    expect(entry.first_drift_at).toBeDefined();
+    expect(repeat?.new_paths).toBe(false);
+  });
+
+  it("should collect distinct received types per mismatch", () => {
+    recordResponseShape("/contracts/CONT_AWD_1/", { ...contract, obligated: "1000" });
+    recordResponseShape("/contracts/CONT_AWD_1/", { ...contract, obligated: true });
+
+    expect(getSchemaDriftReport().endpoints["/contracts/{key}/"].type_mismatches).toEqual({
+      obligated: { expected: "number", received: ["string", "boolean"], count: 2 },
+    });
+  });
+
+  it("should cap distinct field paths per endpoint", () => {
+    const extra = Object.fromEntries(Array.from({ length: 250 }, (_, i) => [`field_${i}`, i]));
+    recordResponseShape("/agencies/", { results: [{ code: "4700", ...extra }] });
+
+    const entry = getSchemaDriftReport().endpoints["/agencies/"];
+    expect(Object.keys(entry.unknown_fields)).toHaveLength(200);
+    expect(entry.dropped_paths).toBe(50);
+  });
+
+  it("should flush snapshots and merge them across isolates", async () => {
+    vi.useFakeTimers();
+    const store = new Map<string, string>();
+    const kv = createMemoryKV(store);
+
+    recordResponseShape("/contracts/", { results: [{ ...contract, award_type: "D" }] });
+    expect(isSchemaDriftFlushDue()).toBe(false);
+    vi.advanceTimersByTime(60_000);
+    expect(isSchemaDriftFlushDue()).toBe(true);
+
+    await flushSchemaDrift(kv);
+    expect(isSchemaDriftFlushDue()).toBe(false);
+    const [ownKey] = Array.from(store.keys());
+    expect(ownKey.startsWith(SCHEMA_DRIFT_KEY_PREFIX)).toBe(true);
+
+    // Another isolate's snapshot
+    store.set(
+      `${SCHEMA_DRIFT_KEY_PREFIX}other`,
+      JSON.stringify({
+        endpoints: {
+          "/contracts/": {
+            checked: 3,
+            drifted: 1,
+            unknown_fields: { "results[].award_type": 1 },
+            missing_fields: {},
+            type_mismatches: { "results[].obligated": { expected: "number", received: ["string"], count: 1 } },
+            dropped_paths: 0,
+            first_drift_at: "2020-01-01T00:00:00.000Z",
+            last_drift_at: "2020-01-02T00:00:00.000Z",
+          },
+        },
+        since: "2020-01-01T00:00:00.000Z",
+        updated_at: "2020-01-02T00:00:00.000Z",
+      }),
+    );
+
+    const report = await readSchemaDriftReport(kv);
+
+    expect(report.isolates).toBe(2);
+    expect(report.since).toBe("2020-01-01T00:00:00.000Z");
+    expect(report.endpoints["/contracts/"]).toMatchObject({
+      checked: 4,
+      drifted: 2,
+      unknown_fields: { "results[].award_type": 2 },
+      type_mismatches: { "results[].obligated": { count: 1 } },
+      first_drift_at: "2020-01-01T00:00:00.000Z",
+    });
+  });
+});
+
+describe("TangoApiClient schema validation", () => {
+  const env = { TANGO_API_BASE_URL: "https://tango.test/api" } as Env;
+
+  beforeEach(() => {
+    resetSchemaDriftReport();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function jsonTransport(body: unknown) {
+    return vi.fn(
+      async () =>
+        new Response(JSON.stringify(body), { headers: { "content-type": "application/json" } }),
+    );
+  }
+
+  it("should record drift without altering the response", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const body = { results: [{ ...contract, award_type: "D" }], total: 1 };
+    const client = new TangoApiClient(env, undefined, { transport: jsonTransport(body) });
+
+    const response = await runWithTraceContext({ trace_id: "trace-1" }, () =>
+      client.searchContracts({ limit: 1 }, "key"),
+    );
+
+    expect(response.data).toEqual(body);
+    expect(getSchemaDriftReport().endpoints["/contracts/"]).toMatchObject({ checked: 1, drifted: 1 });
+    const entry = JSON.parse(warn.mock.calls[0][0] as string);
+    expect(entry).toMatchObject({
+      level: "warn",
+      message: "Tango API response schema drift",
+      trace_id: "trace-1",
+      context: { unknown_fields: ["results[].award_type"] },
+    });
+  });
+
+  it("should skip shaped responses", async () => {
+    const client = new TangoApiClient(env, undefined, {
+      transport: jsonTransport({ results: [{ key: "A", custom: 1 }] }),
+    });
+
+    await client.searchContracts({ limit: 1, shape: "key,custom" }, "key");
+
+    expect(getSchemaDriftReport().endpoints).toEqual({});
+  });
+});
@@ -4,6 +4,15 @@
  * Tests:
  * - Rate limiting behavior
  * - Error handling (auth, network, timeout, API errors)
+ * - Retry with backoff (Retry-After, max attempts)
+ * - Auto-pagination (cursor and page based)
+ * - Single-flight coalescing of concurrent identical requests
+ * - Circuit breaker integration
+ * - Global upstream quota
+ * - Stale-while-revalidate and serve-stale-on-error
+ * - Cache key canonicalization and hit-rate metrics
+ * - Memory tier in front of KV
+ * - CSV export streaming, byte caps and caching
  * - Input sanitization
  * - URL building
  * - Response parsing
@@ -18,8 +27,17 @@ import {
   TangoTimeoutError,
   TangoApiError,
   TangoValidationError,
+  TangoUpstreamUnavailableError,
+  TangoQuotaExhaustedError,
 } from "@/types/errors";
 import { resetRateLimiter } from "@/utils/rate-limiter";
+import { CircuitBreaker, resetUpstreamCircuitBreaker } from "@/api/circuit-breaker";
+import { UpstreamQuota } from "@/api/upstream-quota";
+import { CacheManager } from "@/cache/kv-cache";
+import { getCacheMetrics, resetCacheMetrics } from "@/cache/cache-stats";
+import { resetMemoryTier } from "@/cache/memory-tier";
+import { generateCacheKey } from "@/utils/cache-key";
+import { createMemoryKV } from "../../utils/memory-kv";
 
 // Mock environment
 const mockEnv: Env = {
@@ -53,6 +71,8 @@ describe("TangoApiClient", () => {
     client = new TangoApiClient(mockEnv);
     mockFetch.mockClear();
     resetRateLimiter();
+    resetUpstreamCircuitBreaker();
+    resetMemoryTier();
   });
 
   afterEach(() => {
@@ -230,6 +250,11 @@ describe("TangoApiClient", () => {
   });
 
   describe("error handling", () => {
+    // Disable retries so each test observes the first failure
+    beforeEach(() => {
+      client = new TangoApiClient(mockEnv, undefined, { retry: { maxAttempts: 1 } });
+    });
+
     it("should handle 404 Not Found", async () => {
       mockFetch.mockResolvedValueOnce(createMockResponse({ error: "Resource not found" }, { ok: false, status: 404, headers: new Headers() }));
 
@@ -287,6 +312,612 @@ describe("TangoApiClient", () => {
     });
   });
 
+  describe("retry with backoff", () => {
+    beforeEach(() => {
+      client = new TangoApiClient(mockEnv, undefined, {
+        retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 50 },
+      });
+    });
+
+    it("should retry 503 responses and succeed", async () => {
+      const mockResponse = { results: [], total: 0, count: 0 };
+
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ error: "Unavailable" }, { ok: false, status: 503, headers: new Headers() }))
+        .mockResolvedValueOnce(createMockResponse(mockResponse));
+
+      const result = await client.searchContracts({ limit: 10 }, "test-api-key");
+
+      expect(result.success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.retry?.attempts).toBe(2);
+    });
+
+    it("should retry network errors", async () => {
+      const mockResponse = { results: [], total: 0, count: 0 };
+
+      mockFetch
+        .mockRejectedValueOnce(new Error("Connection reset"))
+        .mockResolvedValueOnce(createMockResponse(mockResponse));
+
+      const result = await client.searchContracts({ limit: 10 }, "test-api-key");
+
+      expect(result.success).toBe(true);
+      expect(result.retry?.attempts).toBe(2);
+    });
+
+    it("should honor Retry-After on 429", async () => {
+      const headers = new Headers();
+      headers.set("Retry-After", "0");
+      const mockResponse = { results: [], total: 0, count: 0 };
+
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({ error: "Rate limit exceeded" }, { ok: false, status: 429, headers }))
+        .mockResolvedValueOnce(createMockResponse(mockResponse));
+
+      const result = await client.searchContracts({ limit: 10 }, "test-api-key");
+
+      expect(result.success).toBe(true);
+      expect(result.retry).toEqual({ attempts: 2, total_wait_ms: 0 });
+    });
+
+    it("should give up immediately when Retry-After exceeds max delay", async () => {
+      const headers = new Headers();
+      headers.set("Retry-After", "60");
+
+      mockFetch.mockResolvedValue(
+        createMockResponse({ error: "Rate limit exceeded" }, { ok: false, status: 429, headers })
+      );
+
+      await expect(client.searchContracts({ limit: 10 }, "test-api-key")).rejects.toThrow(
+        TangoApiError,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop after max attempts", async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse({ error: "Bad gateway" }, { ok: false, status: 502, headers: new Headers() })
+      );
+
+      await expect(client.searchContracts({ limit: 10 }, "test-api-key")).rejects.toThrow(
+        TangoApiError,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry non-transient errors", async () => {
+      mockFetch.mockResolvedValue(
+        createMockResponse({ error: "Not found" }, { ok: false, status: 404, headers: new Headers() })
+      );
+
+      await expect(client.searchContracts({ limit: 10 }, "test-api-key")).rejects.toThrow(
+        TangoApiError,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report a single attempt on first-try success", async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [], total: 0, count: 0 }));
+
+      const result = await client.searchContracts({ limit: 10 }, "test-api-key");
+
+      expect(result.retry).toEqual({ attempts: 1, total_wait_ms: 0 });
+    });
+  });
+
+  describe("pagination", () => {
+    it("should follow cursor links until there is no next page", async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({
+          results: [{ key: "a" }, { key: "b" }],
+          total: 3,
+          next: "https://tango.makegov.com/api/contracts/?cursor=c2&limit=2",
+        }))
+        .mockResolvedValueOnce(createMockResponse({
+          results: [{ key: "c" }],
+          total: 3,
+          next: null,
+        }));
+
+      const result = await client.fetchAllPages<{ key: string }>(
+        "/contracts/",
+        { search: "cloud", limit: 2 },
+        "test-api-key",
+      );
+
+      expect(result.results.map((r) => r.key)).toEqual(["a", "b", "c"]);
+      expect(result.requests).toBe(2);
+      expect(result.truncated).toBe(false);
+
+      const secondUrl = mockFetch.mock.calls[1][0] as string;
+      expect(secondUrl).toContain("cursor=c2");
+      expect(secondUrl).toContain("search=cloud");
+    });
+
+    it("should follow page numbers for offset-based endpoints", async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({
+          results: [{ id: 1 }],
+          count: 2,
+          next: "https://tango.makegov.com/api/subawards/?page=2",
+        }))
+        .mockResolvedValueOnce(createMockResponse({
+          results: [{ id: 2 }],
+          count: 2,
+          next: null,
+        }));
+
+      const result = await client.fetchAllPages<{ id: number }>("/subawards/", {}, "test-api-key");
+
+      expect(result.results).toHaveLength(2);
+      const secondUrl = mockFetch.mock.calls[1][0] as string;
+      expect(secondUrl).toContain("page=2");
+    });
+
+    it("should stop at maxRecords and trim the last page", async () => {
+      mockFetch.mockResolvedValue(createMockResponse({
+        results: [{ key: "a" }, { key: "b" }, { key: "c" }],
+        total: 100,
+        next: "https://tango.makegov.com/api/contracts/?cursor=next",
+      }));
+
+      const result = await client.fetchAllPages("/contracts/", {}, "test-api-key", {
+        maxRecords: 2,
+      });
+
+      expect(result.results).toHaveLength(2);
+      expect(result.truncated).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop at maxRequests", async () => {
+      let page = 0;
+      mockFetch.mockImplementation(async () => {
+        page++;
+        return createMockResponse({
+          results: [{ key: `k${page}` }],
+          total: 100,
+          next: `https://tango.makegov.com/api/contracts/?cursor=c${page}`,
+        });
+      });
+
+      const result = await client.fetchAllPages("/contracts/", {}, "test-api-key", {
+        maxRequests: 3,
+      });
+
+      expect(result.requests).toBe(3);
+      expect(result.results).toHaveLength(3);
+      expect(result.truncated).toBe(true);
+    });
+
+    it("should stop when the API repeats a cursor", async () => {
+      mockFetch.mockResolvedValue(createMockResponse({
+        results: [{ key: "a" }],
+        next: "https://tango.makegov.com/api/contracts/?cursor=same",
+      }));
+
+      const pages = [];
+      for await (const page of client.paginate("/contracts/", {}, "test-api-key")) {
+        pages.push(page);
+      }
+
+      expect(pages).toHaveLength(2);
+    });
+  });
+
+  describe("request coalescing", () => {
+    /**
+     * Hold the next upstream fetch until release() is called, so concurrent
+     * callers overlap regardless of timing
+     */
+    function deferFetch(response: ReturnType<typeof createMockResponse>) {
+      let release: () => void = () => {};
+      mockFetch.mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            release = () => resolve(response);
+          }),
+      );
+      return { release: () => release() };
+    }
+
+    it("should share one fetch between concurrent identical requests", async () => {
+      const mockResponse = { results: [{ key: "contract-1" }], total: 1 };
+      const upstream = deferFetch(createMockResponse(mockResponse));
+
+      const first = client.searchContracts({ uei: "J3RW5C5KVLZ1" }, "test-api-key");
+      const second = client.searchContracts({ uei: "j3rw5c5kvlz1 " }, "test-api-key");
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      upstream.release();
+
+      const [firstResult, secondResult] = await Promise.all([first, second]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(firstResult.data).toEqual(mockResponse);
+      expect(secondResult.data).toEqual(mockResponse);
+      expect(firstResult.coalesced).toBeUndefined();
+      expect(secondResult.coalesced).toBe(true);
+    });
+
+    it("should coalesce across client instances", async () => {
+      const upstream = deferFetch(createMockResponse({ results: [], total: 0 }));
+      const otherClient = new TangoApiClient(mockEnv);
+
+      const requests = Promise.all([
+        client.searchContracts({ limit: 5 }, "test-api-key"),
+        otherClient.searchContracts({ limit: 5 }, "test-api-key"),
+      ]);
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      upstream.release();
+      await requests;
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should coalesce the cache lookup too", async () => {
+      const cacheEnv: Env = { ...mockEnv, TANGO_CACHE: createMemoryKV(new Map()) };
+      const cachingClient = new TangoApiClient(cacheEnv, new CacheManager(cacheEnv));
+      const upstream = deferFetch(createMockResponse({ results: [], total: 0 }));
+
+      const requests = Promise.all([
+        cachingClient.searchContracts({ limit: 6 }, "test-api-key"),
+        cachingClient.searchContracts({ limit: 6 }, "test-api-key"),
+      ]);
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      upstream.release();
+      const [first, second] = await requests;
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(first.cache?.hit).toBe(false);
+      expect(second.coalesced).toBe(true);
+    });
+
+    it("should not coalesce requests with different parameters", async () => {
+      mockFetch.mockResolvedValue(createMockResponse({ results: [], total: 0 }));
+
+      await Promise.all([
+        client.searchContracts({ limit: 5 }, "test-api-key"),
+        client.searchContracts({ limit: 10 }, "test-api-key"),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should share failures with all waiters and allow a fresh request afterwards", async () => {
+      const failingClient = new TangoApiClient(mockEnv, undefined, { retry: { maxAttempts: 1 } });
+      const upstream = deferFetch(
+        createMockResponse({ error: "Not found" }, { ok: false, status: 404, headers: new Headers() }),
+      );
+
+      const requests = Promise.allSettled([
+        failingClient.searchContracts({ limit: 7 }, "test-api-key"),
+        failingClient.searchContracts({ limit: 7 }, "test-api-key"),
+      ]);
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      upstream.release();
+      const results = await requests;
+
+      expect(results.every((r) => r.status === "rejected")).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [], total: 0 }));
+      const retried = await failingClient.searchContracts({ limit: 7 }, "test-api-key");
+      expect(retried.success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    it("should fail fast without calling upstream once the circuit opens", async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2, windowMs: 60000, openDurationMs: 60000 });
+      const breakerClient = new TangoApiClient(mockEnv, undefined, {
+        retry: { maxAttempts: 1 },
+        circuitBreaker: breaker,
+      });
+      mockFetch.mockResolvedValue(
+        createMockResponse({ error: "Server error" }, { ok: false, status: 500, headers: new Headers() }),
+      );
+
+      await expect(breakerClient.searchContracts({ limit: 1 }, "test-api-key")).rejects.toThrow(TangoApiError);
+      await expect(breakerClient.searchContracts({ limit: 2 }, "test-api-key")).rejects.toThrow(TangoApiError);
+      await expect(breakerClient.searchContracts({ limit: 3 }, "test-api-key")).rejects.toThrow(
+        TangoUpstreamUnavailableError,
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should stop retrying once the circuit opens mid-retry", async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2, windowMs: 60000, openDurationMs: 60000 });
+      const breakerClient = new TangoApiClient(mockEnv, undefined, {
+        retry: { maxAttempts: 5, baseDelayMs: 1, maxDelayMs: 5 },
+        circuitBreaker: breaker,
+      });
+      mockFetch.mockResolvedValue(
+        createMockResponse({ error: "Unavailable" }, { ok: false, status: 503, headers: new Headers() }),
+      );
+
+      await expect(breakerClient.searchContracts({ limit: 1 }, "test-api-key")).rejects.toThrow(
+        TangoUpstreamUnavailableError,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("upstream quota", () => {
+    it("should fail with QUOTA_EXHAUSTED without calling upstream", async () => {
+      const quota = new UpstreamQuota({
+        take: async () => ({ allowed: false, scope: "day", retry_after_ms: 60000 }),
+      });
+      const quotaClient = new TangoApiClient(mockEnv, undefined, { quota });
+      mockFetch.mockClear();
+
+      await expect(quotaClient.searchContracts({ limit: 1 }, "test-api-key")).rejects.toThrow(
+        TangoQuotaExhaustedError,
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should release the half-open probe when the quota is exhausted", async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, windowMs: 60000, openDurationMs: 0 });
+      const take = vi
+        .fn()
+        .mockResolvedValueOnce({ allowed: true, retry_after_ms: 0 })
+        .mockResolvedValueOnce({ allowed: false, scope: "day", retry_after_ms: 60000 })
+        .mockResolvedValue({ allowed: true, retry_after_ms: 0 });
+      const quotaClient = new TangoApiClient(mockEnv, undefined, {
+        retry: { maxAttempts: 1 },
+        circuitBreaker: breaker,
+        quota: new UpstreamQuota({ take }),
+      });
+      mockFetch.mockResolvedValueOnce(
+        createMockResponse({ error: "Server error" }, { ok: false, status: 500, headers: new Headers() }),
+      );
+      await expect(quotaClient.searchContracts({ limit: 1 }, "test-api-key")).rejects.toThrow(TangoApiError);
+
+      // The cooldown has passed: the probe hits the exhausted quota
+      await expect(quotaClient.searchContracts({ limit: 2 }, "test-api-key")).rejects.toThrow(
+        TangoQuotaExhaustedError,
+      );
+
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [] }));
+      const result = await quotaClient.searchContracts({ limit: 3 }, "test-api-key");
+      expect(result.success).toBe(true);
+      expect(breaker.getSnapshot().state).toBe("closed");
+    });
+
+    it("should not take a quota slot for cache hits", async () => {
+      const take = vi.fn(async () => ({ allowed: true, retry_after_ms: 0 }));
+      const cacheEnv: Env = { ...mockEnv, TANGO_CACHE: createMemoryKV(new Map()) };
+      const quotaClient = new TangoApiClient(cacheEnv, new CacheManager(cacheEnv), {
+        quota: new UpstreamQuota({ take }),
+      });
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [] }));
+
+      await quotaClient.searchContracts({ limit: 1 }, "test-api-key");
+      await quotaClient.searchContracts({ limit: 1 }, "test-api-key");
+
+      expect(take).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("stale cache entries", () => {
+    let store: Map<string, string>;
+    let cacheEnv: Env;
+
+    /**
+     * Seed the KV stub with an entry cached `ageSeconds` ago
+     */
+    async function seedEntry(params: Record<string, unknown>, data: unknown, ageSeconds: number) {
+      const key = await generateCacheKey("contracts", params);
+      store.set(
+        key,
+        JSON.stringify({
+          data,
+          cached_at: new Date(Date.now() - ageSeconds * 1000).toISOString(),
+          ttl_seconds: 300,
+        }),
+      );
+    }
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+      store = new Map();
+      cacheEnv = {
+        ...mockEnv,
+        TANGO_CACHE: createMemoryKV(store),
+      };
+    });
+
+    it("should serve fresh entries without marking them stale", async () => {
+      await seedEntry({ limit: 1 }, { results: ["fresh"] }, 10);
+      const cachedClient = new TangoApiClient(cacheEnv, new CacheManager(cacheEnv));
+
+      const result = await cachedClient.get("/contracts/", { limit: 1 }, "test-api-key");
+
+      expect(result.data).toEqual({ results: ["fresh"] });
+      expect(result.cache?.stale).toBe(false);
+      expect(result.cache?.tier).toBe("kv");
+      expect(result.cache?.age_seconds).toBeGreaterThanOrEqual(10);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should serve stale entries and revalidate in the background", async () => {
+      await seedEntry({ limit: 1 }, { results: ["stale"] }, 600);
+      const background: Promise<unknown>[] = [];
+      const cache = new CacheManager(cacheEnv, { waitUntil: (promise) => background.push(promise) });
+      const cachedClient = new TangoApiClient(cacheEnv, cache);
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: ["refreshed"] }));
+
+      const result = await cachedClient.get("/contracts/", { limit: 1 }, "test-api-key");
+
+      expect(result.data).toEqual({ results: ["stale"] });
+      expect(result.cache).toMatchObject({ hit: true, stale: true, revalidating: true });
+      expect(result.cache?.age_seconds).toBeGreaterThanOrEqual(600);
+
+      await Promise.all(background);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      const refreshed = await cachedClient.get("/contracts/", { limit: 1 }, "test-api-key");
+      expect(refreshed.data).toEqual({ results: ["refreshed"] });
+      expect(refreshed.cache?.stale).toBe(false);
+    });
+
+    it("should serve stale entries when the upstream fails", async () => {
+      await seedEntry({ limit: 1 }, { results: ["stale"] }, 600);
+      const cachedClient = new TangoApiClient(cacheEnv, new CacheManager(cacheEnv), {
+        retry: { maxAttempts: 1 },
+      });
+      mockFetch.mockRejectedValueOnce(new Error("Network failure"));
+
+      const result = await cachedClient.get("/contracts/", { limit: 1 }, "test-api-key");
+
+      expect(result.data).toEqual({ results: ["stale"] });
+      expect(result.cache).toMatchObject({ hit: true, stale: true });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not hide client errors behind stale entries", async () => {
+      await seedEntry({ limit: 1 }, { results: ["stale"] }, 600);
+      const cachedClient = new TangoApiClient(cacheEnv, new CacheManager(cacheEnv), {
+        retry: { maxAttempts: 1 },
+      });
+      mockFetch.mockResolvedValueOnce(
+        createMockResponse({ error: "Unauthorized" }, { ok: false, status: 401, headers: new Headers() }),
+      );
+
+      await expect(cachedClient.get("/contracts/", { limit: 1 }, "test-api-key")).rejects.toThrow(
+        TangoApiError,
+      );
+    });
+  });
+
+  describe("cache canonicalization", () => {
+    beforeEach(() => {
+      mockFetch.mockReset();
+      resetCacheMetrics();
+    });
+
+    it("should share one cache entry across equivalent queries", async () => {
+      const cacheEnv: Env = { ...mockEnv, TANGO_CACHE: createMemoryKV(new Map()) };
+      const cachedClient = new TangoApiClient(cacheEnv, new CacheManager(cacheEnv));
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: [] }));
+
+      await cachedClient.get("/contracts/", { naics: "541512|541511", uei: "j3rw5c5kvlz1" }, "test-api-key");
+      const second = await cachedClient.get(
+        "/contracts/",
+        { naics: "541511|541512", uei: "J3RW5C5KVLZ1", limit: 25 },
+        "test-api-key",
+      );
+
+      expect(second.cache?.hit).toBe(true);
+      expect(second.cache?.tier).toBe("memory");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toContain("naics=541511%7C541512");
+      expect(mockFetch.mock.calls[0][0]).toContain("uei=J3RW5C5KVLZ1");
+
+      const metrics = getCacheMetrics();
+      expect(metrics).toMatchObject({ hits: 1, misses: 1, memory_hits: 1, hit_rate: 0.5 });
+      expect(metrics.by_prefix.contracts).toMatchObject({ hits: 1, misses: 1 });
+    });
+  });
+
+  describe("memory cache tier", () => {
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it("should promote KV hits into memory and serve repeats from memory", async () => {
+      const store = new Map<string, string>();
+      const kv = createMemoryKV(store);
+      const kvGet = vi.spyOn(kv, "get");
+      const cacheEnv: Env = { ...mockEnv, TANGO_CACHE: kv };
+      const writer = new TangoApiClient(cacheEnv, new CacheManager(cacheEnv));
+      mockFetch.mockResolvedValueOnce(createMockResponse({ results: ["a"] }));
+      await writer.get("/contracts/", { limit: 1 }, "test-api-key");
+
+      // A fresh isolate only has the KV copy
+      resetMemoryTier();
+      const reader = new TangoApiClient(cacheEnv, new CacheManager(cacheEnv));
+      kvGet.mockClear();
+
+      const first = await reader.get("/contracts/", { limit: 1 }, "test-api-key");
+      const second = await reader.get("/contracts/", { limit: 1 }, "test-api-key");
+
+      expect(first.cache?.tier).toBe("kv");
+      expect(second.cache?.tier).toBe("memory");
+      expect(second.data).toEqual({ results: ["a"] });
+      // TTL policy lookup plus one entry read; the repeat never touches KV
+      expect(kvGet.mock.calls.filter(([key]) => String(key).startsWith("contracts:"))).toHaveLength(1);
+    });
+  });
+
+  describe("CSV exports", () => {
+    const csvBody = "id,name\n1,Acme\n2,Globex\n3,Initech\n";
+
+    /**
+     * Create a mock CSV response whose body streams in the given chunks
+     */
+    function createCsvResponse(chunks: string[]) {
+      const encoder = new TextEncoder();
+      return new Response(
+        new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+            controller.close();
+          },
+        }),
+        { headers: { "Content-Type": "text/csv" } },
+      );
+    }
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it("should report rows and bytes for a complete export", async () => {
+      mockFetch.mockResolvedValueOnce(createCsvResponse(["id,name\n1,Ac", "me\n2,Globex\n3,Initech\n"]));
+
+      const response = await client.searchContracts({ format: "csv" }, "test-api-key");
+
+      expect(response.format).toBe("csv");
+      expect(response.data).toBe(csvBody);
+      expect(response.csv).toEqual({
+        rows: 3,
+        bytes: csvBody.length,
+        truncated: false,
+        max_bytes: 5 * 1024 * 1024,
+      });
+    });
+
+    it("should cut at the last complete row when the byte cap is reached", async () => {
+      const capped = new TangoApiClient(mockEnv, undefined, { csvMaxBytes: 20 });
+      mockFetch.mockResolvedValueOnce(createCsvResponse([csvBody]));
+
+      const response = await capped.searchContracts({ format: "csv" }, "test-api-key");
+
+      expect(response.data).toBe("id,name\n1,Acme\n");
+      expect(response.csv).toMatchObject({ rows: 1, bytes: 15, truncated: true, max_bytes: 20 });
+    });
+
+    it("should cache CSV exports and keep their format on hits", async () => {
+      const store = new Map<string, string>();
+      const cacheEnv: Env = { ...mockEnv, TANGO_CACHE: createMemoryKV(store) };
+      const cached = new TangoApiClient(cacheEnv, new CacheManager(cacheEnv));
+      mockFetch.mockResolvedValueOnce(createCsvResponse([csvBody]));
+
+      const first = await cached.searchIDVs({ format: "csv" }, "test-api-key");
+      const second = await cached.searchIDVs({ format: "csv" }, "test-api-key");
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(first.cache?.hit).toBe(false);
+      expect(second.cache?.hit).toBe(true);
+      expect(second.format).toBe("csv");
+      expect(second.data).toBe(csvBody);
+      expect(second.csv).toEqual(first.csv);
+    });
+  });
+
   describe("input sanitization", () => {
     it("should strip control characters from strings", async () => {
       const mockResponse = { results: [], total: 0, count: 0 };
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for the record/replay transport
+ *
+ * Tests:
+ * - Canonical fixture keys
+ * - Recording request/response pairs
+ * - Replaying fixtures (including committed fixture files)
+ * - Running a tool offline from recorded fixtures
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  canonicalFixtureKey,
+  createKvFixtureStore,
+  createMemoryFixtureStore,
+  createRecordingTransport,
+  createReplayTransport,
+  FIXTURE_KEY_PREFIX,
+  resolveTransportMode,
+  type TransportFixture,
+} from "@/api/transport";
+import { TangoApiClient } from "@/api/tango-client";
+import { resetUpstreamCircuitBreaker } from "@/api/circuit-breaker";
+import { registerSearchContractsTool } from "@/tools/search-contracts";
+import { TangoApiError } from "@/types/errors";
+import type { Env } from "@/types/env";
+import { resetRateLimiter } from "@/utils/rate-limiter";
+import cloudMigrationFixture from "../../fixtures/tango/GET_api_contracts_limit_2_search_cloud_migration-7c4f4bc0.json";
+import { createMemoryKV } from "../../utils/memory-kv";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const baseEnv: Env = {
+  TANGO_API_BASE_URL: "https://tango.makegov.com/api",
+  TANGO_API_KEY: "test-api-key",
+  TANGO_CACHE: {} as KVNamespace,
+};
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  resetRateLimiter();
+  resetUpstreamCircuitBreaker();
+});
+
+describe("canonicalFixtureKey", () => {
+  it("should ignore host and query parameter order", () => {
+    expect(canonicalFixtureKey("https://a.example/api/contracts/?search=x&limit=5")).toBe(
+      canonicalFixtureKey("http://localhost:9999/api/contracts/?limit=5&search=x"),
+    );
+    expect(canonicalFixtureKey("https://a.example/api/agencies/")).toBe("GET /api/agencies/");
+  });
+});
+
+describe("recording transport", () => {
+  it("should save the response and still return it", async () => {
+    const store = createMemoryFixtureStore();
+    mockFetch.mockResolvedValueOnce(
+      new Response('{"results":[]}', {
+        status: 200,
+        headers: { "Content-Type": "application/json", "Set-Cookie": "session=abc" },
+      }),
+    );
+    const transport = createRecordingTransport(store);
+
+    const response = await transport("https://tango.makegov.com/api/contracts/?limit=1", {
+      headers: { "X-API-Key": "secret" },
+    });
+
+    expect(await response.json()).toEqual({ results: [] });
+    const [fixture] = store.list();
+    expect(fixture.key).toBe("GET /api/contracts/?limit=1");
+    expect(fixture.response).toEqual({
+      status: 200,
+      headers: { "content-type": "application/json" },
+      body: '{"results":[]}',
+    });
+    expect(JSON.stringify(fixture)).not.toContain("secret");
+  });
+
+  it("should record error responses too", async () => {
+    const store = createMemoryFixtureStore();
+    mockFetch.mockResolvedValueOnce(new Response('{"detail":"Not found"}', { status: 404 }));
+
+    await createRecordingTransport(store)("https://tango.makegov.com/api/contracts/X/", {});
+
+    expect(store.list()[0].response.status).toBe(404);
+  });
+
+  it("should record CSV bodies up to the byte cap", async () => {
+    const store = createMemoryFixtureStore();
+    const csv = "id,name\n1,alpha\n2,beta\n3,gamma\n";
+    mockFetch.mockResolvedValueOnce(new Response(csv, { status: 200, headers: { "Content-Type": "text/csv" } }));
+
+    const response = await createRecordingTransport(store, undefined, 20)(
+      "https://tango.makegov.com/api/contracts/?format=csv",
+      {},
+    );
+
+    expect(store.list()[0].response.body).toBe("id,name\n1,alpha\n");
+    expect(await response.text()).toBe("id,name\n1,alpha\n");
+  });
+});
+
+describe("replay transport", () => {
+  it("should serve committed fixture files through the client", async () => {
+    const client = new TangoApiClient(baseEnv, undefined, {
+      transport: createReplayTransport(createMemoryFixtureStore([cloudMigrationFixture as TransportFixture])),
+    });
+
+    const response = await client.searchContracts({ search: "cloud migration", limit: 2 }, "test-api-key");
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(response.data?.results).toHaveLength(2);
+  });
+
+  it("should fail without retrying when no fixture matches", async () => {
+    const transport = vi.fn(createReplayTransport(createMemoryFixtureStore()));
+    const client = new TangoApiClient(baseEnv, undefined, { transport });
+
+    await expect(client.searchContracts({ limit: 3 }, "test-api-key")).rejects.toThrow(TangoApiError);
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should read fixtures stored in KV", async () => {
+    const store = new Map<string, string>();
+    const fixture = cloudMigrationFixture as TransportFixture;
+    store.set(`${FIXTURE_KEY_PREFIX}${fixture.key}`, JSON.stringify(fixture));
+
+    const response = await createReplayTransport(createKvFixtureStore(createMemoryKV(store)))(
+      fixture.request.url,
+      {},
+    );
+
+    expect(response.status).toBe(200);
+  });
+});
+
+describe("offline tool runs", () => {
+  it("should replay a recorded tool call without network access", async () => {
+    const store = new Map<string, string>();
+    const kv = createMemoryKV(store);
+    const server = { tool: vi.fn() } as unknown as McpServer;
+    const callTool = async (env: Env) => {
+      registerSearchContractsTool(server, env, undefined, "test-api-key");
+      const handler = (server.tool as any).mock.calls.at(-1)[3];
+      const result = await handler({ query: "cloud", limit: 1 });
+      return JSON.parse(result.content[0].text);
+    };
+
+    mockFetch.mockResolvedValueOnce(
+      new Response(JSON.stringify({ count: 1, next: null, results: [{ piid: "ABC123" }] }), {
+        headers: { "Content-Type": "application/json" },
+      }),
+    );
+    const recorded = await callTool({ ...baseEnv, TANGO_CACHE: kv, TANGO_TRANSPORT: "record" });
+
+    mockFetch.mockRejectedValue(new Error("offline"));
+    const replayed = await callTool({ ...baseEnv, TANGO_CACHE: kv, TANGO_TRANSPORT: "replay" });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(replayed.data).toEqual(recorded.data);
+    expect(replayed.total).toBe(1);
+  });
+});
+
+describe("resolveTransportMode", () => {
+  it("should default to live", () => {
+    expect(resolveTransportMode(baseEnv)).toBe("live");
+    expect(resolveTransportMode({ ...baseEnv, TANGO_TRANSPORT: "Replay" })).toBe("replay");
+    expect(resolveTransportMode({ ...baseEnv, TANGO_TRANSPORT: "bogus" })).toBe("live");
+  });
+});
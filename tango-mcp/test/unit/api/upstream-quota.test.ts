@@ -0,0 +1,109 @@
+/**
+ * Unit tests for the global upstream quota
+ *
+ * Tests:
+ * - Per-second token bucket refill and retry hints
+ * - Daily budget and UTC day rollover
+ * - Client gate waiting, failing and failing open
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  QuotaBucket,
+  type QuotaDecision,
+  resolveQuotaConfig,
+  UpstreamQuota,
+} from "@/api/upstream-quota";
+import { TangoQuotaExhaustedError } from "@/types/errors";
+import type { Env } from "@/types/env";
+
+const start = Date.UTC(2025, 0, 15, 12, 0, 0);
+
+describe("QuotaBucket", () => {
+  it("should allow a burst up to the per-second budget", () => {
+    const bucket = new QuotaBucket({ perSecond: 2, perDay: 0 }, undefined, start);
+
+    expect(bucket.take(start).allowed).toBe(true);
+    expect(bucket.take(start).allowed).toBe(true);
+    expect(bucket.take(start)).toEqual({
+      allowed: false,
+      scope: "second",
+      retry_after_ms: 500,
+      remaining_today: undefined,
+    });
+  });
+
+  it("should refill tokens over time", () => {
+    const bucket = new QuotaBucket({ perSecond: 2, perDay: 0 }, undefined, start);
+    bucket.take(start);
+    bucket.take(start);
+
+    expect(bucket.take(start + 500).allowed).toBe(true);
+  });
+
+  it("should reject once the daily budget is used until the next UTC day", () => {
+    const bucket = new QuotaBucket({ perSecond: 10, perDay: 2 }, undefined, start);
+    bucket.take(start);
+    expect(bucket.take(start).remaining_today).toBe(0);
+
+    const rejected = bucket.take(start);
+    expect(rejected.scope).toBe("day");
+    expect(rejected.retry_after_ms).toBe(12 * 60 * 60 * 1000);
+
+    expect(bucket.take(Date.UTC(2025, 0, 16, 0, 0, 1)).allowed).toBe(true);
+  });
+
+  it("should resume from persisted daily usage", () => {
+    const bucket = new QuotaBucket({ perSecond: 10, perDay: 5 }, { day: "2025-01-15", used: 5 }, start);
+
+    expect(bucket.take(start).scope).toBe("day");
+  });
+});
+
+describe("UpstreamQuota", () => {
+  it("should absorb short per-second waits", async () => {
+    const take = vi
+      .fn<() => Promise<QuotaDecision>>()
+      .mockResolvedValueOnce({ allowed: false, scope: "second", retry_after_ms: 5 })
+      .mockResolvedValueOnce({ allowed: true, retry_after_ms: 0 });
+
+    await new UpstreamQuota({ take }).acquire();
+
+    expect(take).toHaveBeenCalledTimes(2);
+  });
+
+  it("should throw QUOTA_EXHAUSTED when the daily budget is used", async () => {
+    const quota = new UpstreamQuota({
+      take: async () => ({ allowed: false, scope: "day", retry_after_ms: 3600000 }),
+    });
+
+    const error = await quota.acquire().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TangoQuotaExhaustedError);
+    expect((error as TangoQuotaExhaustedError).toErrorResponse()).toMatchObject({
+      error_code: "QUOTA_EXHAUSTED",
+      transient: true,
+      context: { quota_scope: "day", retry_after_ms: 3600000 },
+    });
+  });
+
+  it("should allow requests when the limiter is unreachable", async () => {
+    const quota = new UpstreamQuota({
+      take: async () => {
+        throw new Error("Durable Object unavailable");
+      },
+    });
+
+    await expect(quota.acquire()).resolves.toBeUndefined();
+  });
+});
+
+describe("resolveQuotaConfig", () => {
+  it("should read budgets from env and fall back to defaults", () => {
+    expect(resolveQuotaConfig({ TANGO_QUOTA_PER_SECOND: "4", TANGO_QUOTA_PER_DAY: "1000" } as Env)).toEqual({
+      perSecond: 4,
+      perDay: 1000,
+    });
+    expect(resolveQuotaConfig({ TANGO_QUOTA_PER_SECOND: "0" } as Env)).toEqual({ perSecond: 10, perDay: 0 });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Unit tests for connected apps (OAuth client and consent management)
+ *
+ * Tests cover:
+ * - Client policy (open, allowlist) and admin decisions
+ * - Connected apps listing (approval, last use, granted props)
+ * - Per-user and tenant-wide grant revocation
+ * - Blocked clients at /authorize and session start
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import {
+	isClientPermitted,
+	listConnectedApps,
+	listOAuthClients,
+	recordAppUse,
+	rememberUserId,
+	revokeClientGrants,
+	revokeConnectedApp,
+	setClientAccess,
+} from "../../../src/auth/connected-apps.js";
+import { GoogleHandler } from "../../../src/auth/google-handler.js";
+import { validateAuthentication } from "../../../src/auth/validate-authentication.js";
+import { AuditLogger } from "../../../src/security/audit-logging.js";
+import type { Env } from "../../../src/types/env.js";
+
+type TestEnv = Env & { OAUTH_PROVIDER: OAuthHelpers };
+
+/**
+ * In-memory KV with OAuth helpers that read and write the provider's
+ * client:/grant:/token: keys
+ */
+function createMockEnv(overrides: Partial<Env> = {}): { env: TestEnv; store: Map<string, string> } {
+	const store = new Map<string, string>();
+	const list = (prefix: string) => [...store.keys()].filter((key) => key.startsWith(prefix));
+	const json = (key: string) => (store.has(key) ? JSON.parse(store.get(key) as string) : null);
+
+	const helpers = {
+		lookupClient: async (clientId: string) => json(`client:${clientId}`),
+		listClients: async () => ({ items: list("client:").map(json) }),
+		listUserGrants: async (userId: string) => ({ items: list(`grant:${userId}:`).map(json) }),
+		revokeGrant: async (grantId: string, userId: string) => {
+			for (const key of list(`token:${userId}:${grantId}:`)) store.delete(key);
+			store.delete(`grant:${userId}:${grantId}`);
+		},
+	} as unknown as OAuthHelpers;
+
+	const env = {
+		COOKIE_ENCRYPTION_KEY: "test-cookie-secret",
+		GOOGLE_CLIENT_ID: "google-client",
+		GOOGLE_CLIENT_SECRET: "google-secret",
+		OAUTH_KV: {
+			get: async (key: string, type?: string) => (type === "json" ? json(key) : (store.get(key) ?? null)),
+			put: async (key: string, value: string) => {
+				store.set(key, value);
+			},
+			delete: async (key: string) => {
+				store.delete(key);
+			},
+			list: async ({ prefix, cursor, limit = 1000 }: { prefix: string; cursor?: string; limit?: number }) => {
+				// Cursor is the last key returned, so deleting listed keys doesn't shift pages
+				const names = list(prefix)
+					.sort()
+					.filter((name) => cursor === undefined || name > cursor);
+				const page = names.slice(0, limit);
+				return {
+					keys: page.map((name) => ({ name })),
+					list_complete: page.length === names.length,
+					cursor: page.at(-1),
+				};
+			},
+		} as unknown as KVNamespace,
+		OAUTH_PROVIDER: helpers,
+		...overrides,
+	} as TestEnv;
+	return { env, store };
+}
+
+function addClient(store: Map<string, string>, clientId: string, clientName: string, registrationDate = 1_700_000_000) {
+	store.set(`client:${clientId}`, JSON.stringify({ clientId, clientName, redirectUris: [], registrationDate }));
+}
+
+function addGrant(
+	store: Map<string, string>,
+	userId: string,
+	grantId: string,
+	clientId: string,
+	createdAt: number,
+	metadata: Record<string, unknown> = {},
+) {
+	store.set(
+		`grant:${userId}:${grantId}`,
+		JSON.stringify({ id: grantId, userId, clientId, scope: ["mcp"], metadata, createdAt }),
+	);
+	store.set(`token:${userId}:${grantId}:access`, "{}");
+}
+
+describe("Client Policy", () => {
+	it("should permit unknown clients unless blocked in open mode", async () => {
+		const { env } = createMockEnv();
+		await setClientAccess("bad-client", "blocked", "boss@agile6.com", env, "Unknown vendor");
+
+		expect(await isClientPermitted("new-client", env)).toBe(true);
+		expect(await isClientPermitted("bad-client", env)).toBe(false);
+	});
+
+	it("should only permit allowed clients in allowlist mode", async () => {
+		const { env } = createMockEnv({ OAUTH_CLIENT_POLICY: "allowlist" });
+		await setClientAccess("claude", "allowed", "boss@agile6.com", env);
+
+		expect(await isClientPermitted("claude", env)).toBe(true);
+		expect(await isClientPermitted("new-client", env)).toBe(false);
+	});
+
+	it("should end sessions of blocked clients", async () => {
+		const { env } = createMockEnv();
+		const props = { accessToken: "oauth-token", email: "jane@agile6.com", name: "Jane", clientId: "bad-client" };
+
+		expect((await validateAuthentication(props, env)).method).toBe("oauth");
+		await setClientAccess("bad-client", "blocked", "boss@agile6.com", env);
+
+		await expect(validateAuthentication(props, env)).rejects.toThrow("This app has been blocked");
+		expect((await validateAuthentication({ ...props, clientId: undefined }, env)).method).toBe("oauth");
+	});
+});
+
+describe("Connected Apps", () => {
+	let env: TestEnv;
+	let store: Map<string, string>;
+
+	beforeEach(async () => {
+		({ env, store } = createMockEnv());
+		addClient(store, "claude", "Claude Desktop");
+		addGrant(store, "google-1", "g1", "claude", 1_700_000_000, {
+			label: "Jane Doe",
+			email: "jane@agile6.com",
+			provider: "google",
+			role: "analyst",
+		});
+		addGrant(store, "entra:abc", "g2", "claude", 1_700_100_000);
+		addGrant(store, "entra:abc", "g3", "unregistered", 1_700_200_000, { label: "Jane Doe" });
+		addGrant(store, "google-2", "g4", "claude", 1_700_300_000, { label: "Pat" });
+		await rememberUserId("Jane@agile6.com", "google-1", env);
+		await rememberUserId("jane@agile6.com", "entra:abc", env);
+		await rememberUserId("jane@agile6.com", "google-1", env);
+		await rememberUserId("pat@agile6.com", "google-2", env);
+	});
+
+	it("should list a user's apps with approval, last use and granted props", async () => {
+		await recordAppUse("jane@agile6.com", "claude", env);
+
+		const apps = await listConnectedApps("jane@agile6.com", env);
+
+		expect(apps.map(({ clientId, clientName, grantCount }) => [clientId, clientName, grantCount])).toEqual([
+			["unregistered", "unregistered", 1],
+			["claude", "Claude Desktop", 2],
+		]);
+		expect(apps[1]).toMatchObject({
+			approvedAt: "2023-11-14T22:13:20.000Z",
+			expiresAt: null,
+			scopes: ["mcp"],
+		});
+		expect(apps[1].lastUsedAt).not.toBeNull();
+		expect(apps[0]).toMatchObject({ lastUsedAt: null, props: { name: "Jane Doe" } });
+		expect((await listConnectedApps("jane@agile6.com", { ...env, OAUTH_PROVIDER: undefined } as unknown as Env))).toEqual(
+			[],
+		);
+	});
+
+	it("should revoke only the user's grants for the app", async () => {
+		expect(await revokeConnectedApp("jane@agile6.com", "claude", env)).toBe(2);
+
+		expect(store.has("grant:google-1:g1")).toBe(false);
+		expect(store.has("token:entra:abc:g2:access")).toBe(false);
+		expect(store.has("grant:entra:abc:g3")).toBe(true);
+		expect(store.has("grant:google-2:g4")).toBe(true);
+		expect(await revokeConnectedApp("jane@agile6.com", "claude", env)).toBe(0);
+	});
+
+	it("should revoke a client's grants for every user", async () => {
+		expect(await revokeClientGrants("claude", env)).toEqual({ revoked: 3, complete: true });
+
+		expect([...store.keys()].filter((key) => key.startsWith("grant:"))).toEqual(["grant:entra:abc:g3"]);
+	});
+
+	it("should revoke a client's grants in steps and continue from the cursor", async () => {
+		for (let i = 0; i < 250; i++) {
+			addGrant(store, `user-${String(i).padStart(3, "0")}`, "g", i % 2 === 0 ? "claude" : "cursor", 1_700_000_000);
+		}
+
+		const first = await revokeClientGrants("claude", env);
+		expect(first).toMatchObject({ complete: false, cursor: expect.any(String) });
+
+		const second = await revokeClientGrants("claude", env, first.cursor);
+		expect(second.complete).toBe(true);
+		expect(first.revoked + second.revoked).toBe(128);
+		const grants = [...store].filter(([key]) => key.startsWith("grant:")).map(([, value]) => JSON.parse(value));
+		expect(grants.filter((grant) => grant.clientId === "claude")).toEqual([]);
+	});
+
+	it("should list registered clients with their access", async () => {
+		addClient(store, "cursor", "Cursor", 1_700_500_000);
+		await setClientAccess("claude", "blocked", "boss@agile6.com", env);
+
+		const clients = await listOAuthClients(env);
+
+		expect(clients.map(({ clientId, permitted, access }) => [clientId, permitted, access?.status])).toEqual([
+			["cursor", true, undefined],
+			["claude", false, "blocked"],
+		]);
+	});
+});
+
+describe("Blocked Clients at /authorize", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(AuditLogger.prototype, "log").mockImplementation(async () => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should refuse to start authorization for blocked clients", async () => {
+		const { env, store } = createMockEnv();
+		addClient(store, "bad-client", "Bad Client");
+		env.OAUTH_PROVIDER.parseAuthRequest = vi.fn(async () => ({
+			responseType: "code",
+			clientId: "bad-client",
+			redirectUri: "https://bad.example.com/callback",
+			scope: [],
+			state: "s",
+		}));
+		const authorize = () => GoogleHandler.fetch(new Request("https://mcp.example.com/authorize"), env);
+
+		expect((await authorize()).status).toBe(200);
+		await setClientAccess("bad-client", "blocked", "boss@agile6.com", env);
+
+		const response = await authorize();
+		expect(response.status).toBe(403);
+		expect(await response.text()).toContain("not permitted");
+	});
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for MCP access token IP allowlists
+ *
+ * Tests cover:
+ * - Allowlist validation (IPv4, IPv6, single addresses)
+ * - CIDR matching
+ * - Rejection during token validation and its security event
+ * - Alerts for uses from a new IP
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { isIpAllowed, normalizeIpAllowlist } from "../../../src/auth/ip-allowlist.js";
+import {
+	generateMcpAccessToken,
+	rotateMcpAccessToken,
+	verifyMcpAccessToken,
+} from "../../../src/auth/mcp-token.js";
+import { validateAuthentication } from "../../../src/auth/validate-authentication.js";
+import { AuditLogger, type AuditLogEntry } from "../../../src/security/audit-logging.js";
+import type { Env } from "../../../src/types/env.js";
+
+/**
+ * Minimal in-memory KV
+ */
+function createMockEnv(): Env {
+	const store = new Map<string, string>();
+	return {
+		OAUTH_KV: {
+			get: async (key: string) => store.get(key) ?? null,
+			put: async (key: string, value: string) => {
+				store.set(key, value);
+			},
+			delete: async (key: string) => {
+				store.delete(key);
+			},
+			list: async ({ prefix }: { prefix: string }) => ({
+				keys: [...store.keys()].filter((key) => key.startsWith(prefix)).map((name) => ({ name })),
+			}),
+		} as unknown as KVNamespace,
+	} as Env;
+}
+
+const CI_RANGES = ["203.0.113.0/24", "2001:db8:1200::/40"];
+
+describe("IP Allowlist Validation", () => {
+	it("should normalize ranges and single addresses", () => {
+		expect(normalizeIpAllowlist([" 203.0.113.0/24", "198.51.100.7", "2001:DB8::/32", "::1", "198.51.100.7/32"])).toEqual([
+			"203.0.113.0/24",
+			"198.51.100.7/32",
+			"2001:db8::/32",
+			"::1/128",
+		]);
+	});
+
+	it("should reject invalid entries, host bits and empty lists", () => {
+		for (const entry of ["203.0.113.0/33", "256.1.1.1", "10.0.0.1/24", "2001:db8::1::2", "010.0.0.1", "example.com", "2001:db8::/129"]) {
+			expect(() => normalizeIpAllowlist([entry]), entry).toThrow("Invalid IP allowlist entry");
+		}
+		expect(() => normalizeIpAllowlist([])).toThrow("at least one entry");
+	});
+});
+
+describe("IP Allowlist Matching", () => {
+	it("should match IPv4 and IPv6 addresses inside the ranges", () => {
+		expect(isIpAllowed("203.0.113.42", CI_RANGES)).toBe(true);
+		expect(isIpAllowed("203.0.114.1", CI_RANGES)).toBe(false);
+		expect(isIpAllowed("2001:db8:12ab::7", CI_RANGES)).toBe(true);
+		expect(isIpAllowed("2001:db8:1300::7", CI_RANGES)).toBe(false);
+		expect(isIpAllowed("0.0.0.0", ["0.0.0.0/0"])).toBe(true);
+	});
+
+	it("should treat IPv4-mapped IPv6 addresses as IPv4", () => {
+		expect(isIpAllowed("::ffff:203.0.113.9", CI_RANGES)).toBe(true);
+		expect(isIpAllowed("::ffff:cb00:7109", CI_RANGES)).toBe(true);
+	});
+
+	it("should never match unknown or malformed addresses", () => {
+		expect(isIpAllowed("unknown", ["0.0.0.0/0", "::/0"])).toBe(false);
+		expect(isIpAllowed("203.0.113", CI_RANGES)).toBe(false);
+	});
+});
+
+describe("IP-Restricted Tokens", () => {
+	let env: Env;
+	let logged: AuditLogEntry[];
+
+	beforeEach(() => {
+		env = createMockEnv();
+		logged = [];
+		vi.spyOn(AuditLogger.prototype, "log").mockImplementation(async (entry) => {
+			logged.push(entry);
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should reject uses from outside the allowlist and audit them", async () => {
+		const { token, tokenId } = await generateMcpAccessToken("ci@example.com", "CI", env, "1.2.3.4", "TestAgent", {
+			allowedIps: CI_RANGES,
+		});
+
+		expect((await verifyMcpAccessToken(token, env, "203.0.113.10")).valid).toBe(true);
+		expect((await verifyMcpAccessToken(token, env, "198.51.100.1")).reason).toBe("ip_not_allowed");
+		expect((await verifyMcpAccessToken(token, env)).reason).toBe("ip_not_allowed");
+
+		const rejection = logged.find((entry) => entry.event_type === "token_ip_not_allowed");
+		expect(rejection).toMatchObject({
+			event_category: "security",
+			severity: "warning",
+			client_ip: "198.51.100.1",
+			user_id: "ci@example.com",
+			token_id: `${tokenId.slice(0, 8)}...`,
+		});
+	});
+
+	it("should explain the rejection through authentication", async () => {
+		const { token } = await generateMcpAccessToken("ci@example.com", "CI", env, "1.2.3.4", "TestAgent", {
+			allowedIps: CI_RANGES,
+		});
+
+		await expect(validateAuthentication({ mcpAccessToken: token, clientIp: "198.51.100.1" }, env)).rejects.toThrow(
+			"Token cannot be used from this IP address",
+		);
+		const auth = await validateAuthentication({ mcpAccessToken: token, clientIp: "203.0.113.10" }, env);
+		expect(auth.method).toBe("mcp-token");
+	});
+
+	it("should raise a critical event for a use from a new IP", async () => {
+		const { token } = await generateMcpAccessToken("ci@example.com", "CI", env);
+
+		await verifyMcpAccessToken(token, env, "203.0.113.10");
+		await vi.waitFor(async () => {
+			expect((await verifyMcpAccessToken(token, env)).tokenData?.metadata.recentIps).toEqual(["203.0.113.10"]);
+		});
+		await verifyMcpAccessToken(token, env, "203.0.113.10");
+		await verifyMcpAccessToken(token, env, "198.51.100.1");
+
+		await vi.waitFor(() => {
+			const alerts = logged.filter((entry) => entry.event_type === "token_new_ip");
+			expect(alerts).toHaveLength(1);
+			expect(alerts[0]).toMatchObject({
+				severity: "critical",
+				client_ip: "198.51.100.1",
+				metadata: { recent_ips: ["203.0.113.10"] },
+			});
+		});
+	});
+
+	it("should keep the allowlist on rotation", async () => {
+		const old = await generateMcpAccessToken("ci@example.com", "CI", env, "1.2.3.4", "TestAgent", {
+			allowedIps: CI_RANGES,
+		});
+
+		const rotation = await rotateMcpAccessToken(old.tokenId, env);
+
+		expect(rotation.replacement?.allowedIps).toEqual(CI_RANGES);
+	});
+});
@@ -2,7 +2,7 @@
  * Unit tests for MCP Access Token Admin Functions
  *
  * Tests cover:
- * - List tokens for a user
+ * - List tokens for a user (expiry, rotation links)
  * - Get token metadata
  * - Update token description
  * - Delete tokens
@@ -10,6 +10,7 @@
  * - Revoke all user tokens
  * - Un-revoke tokens
  * - Admin access validation
+ * - ADMIN_EMAILS membership
  */
 
 import { describe, it, expect, beforeEach } from "vitest";
@@ -22,8 +23,9 @@ import {
 	revokeAllUserTokens,
 	unrevokeToken,
 	validateAdminAccess,
+	isAdminEmail,
 } from "../../../src/auth/mcp-token-admin.js";
-import { generateMcpAccessToken, revokeMcpAccessToken } from "../../../src/auth/mcp-token.js";
+import { generateMcpAccessToken, revokeMcpAccessToken, rotateMcpAccessToken } from "../../../src/auth/mcp-token.js";
 import type { Env } from "../../../src/types/env.js";
 
 // Mock KV namespace
@@ -113,6 +115,37 @@ describe("List Tokens for User", () => {
 		expect(revokedToken?.revocationReason).toBe("Test revocation");
 	});
 
+	it("should show expiry and flag upcoming expirations", async () => {
+		const userId = "user@example.com";
+
+		await generateMcpAccessToken(userId, "Long-lived", env, "1.2.3.4", "TestAgent");
+		await generateMcpAccessToken(userId, "Expiring", env, "1.2.3.4", "TestAgent", { expiresInDays: 7 });
+		await generateMcpAccessToken(userId, "Expired", env, "1.2.3.4", "TestAgent", { expiresInDays: 0 });
+
+		const tokens = await listTokensForUser(userId, env);
+		const byDescription = Object.fromEntries(tokens.map((t) => [t.description, t]));
+
+		expect(byDescription["Long-lived"]).toMatchObject({ isExpired: false, expiringSoon: false });
+		expect(byDescription.Expiring).toMatchObject({ isExpired: false, expiringSoon: true });
+		expect(byDescription.Expired).toMatchObject({ isExpired: true, expiringSoon: false });
+		expect(Date.parse(byDescription.Expiring.expiresAt)).toBeGreaterThan(Date.now());
+
+		const stats = await getTokenStats(userId, env);
+		expect(stats).toMatchObject({ activeTokens: 2, expiredTokens: 1, expiringSoonTokens: 1 });
+		expect(stats.nextExpiry).toBe(byDescription.Expiring.expiresAt);
+	});
+
+	it("should link rotated tokens", async () => {
+		const userId = "user@example.com";
+		const old = await generateMcpAccessToken(userId, "Rotating", env, "1.2.3.4", "TestAgent");
+		const rotation = await rotateMcpAccessToken(old.tokenId, env);
+
+		const tokens = await listTokensForUser(userId, env);
+
+		expect(tokens.find((t) => t.tokenId === old.tokenId)?.replacedBy).toBe(rotation.replacement?.tokenId);
+		expect(tokens.find((t) => t.tokenId === rotation.replacement?.tokenId)?.rotatedFrom).toBe(old.tokenId);
+	});
+
 	it("should show usage count", async () => {
 		const userId = "user@example.com";
 
@@ -470,3 +503,18 @@ describe("Validate Admin Access", () => {
 		expect(validateAdminAccess("user@test.com", "test.com")).toBe(true);
 	});
 });
+
+describe("Admin Email Membership", () => {
+	it("should match emails listed in ADMIN_EMAILS case-insensitively", () => {
+		const env = { ADMIN_EMAILS: "admin@agile6.com, Ops@agile6.com" } as Env;
+
+		expect(isAdminEmail("admin@agile6.com", env)).toBe(true);
+		expect(isAdminEmail("ops@AGILE6.com", env)).toBe(true);
+		expect(isAdminEmail("user@agile6.com", env)).toBe(false);
+	});
+
+	it("should reject everyone when ADMIN_EMAILS is unset", () => {
+		expect(isAdminEmail("admin@agile6.com", {} as Env)).toBe(false);
+		expect(isAdminEmail(undefined, { ADMIN_EMAILS: "admin@agile6.com" } as Env)).toBe(false);
+	});
+});
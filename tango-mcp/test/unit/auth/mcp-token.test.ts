@@ -5,6 +5,7 @@
  * - Token generation (format, entropy, uniqueness)
  * - Token validation (valid, invalid, expired, revoked)
  * - Token revocation
+ * - Token expiry and rotation
  * - SHA-256 hashing (no plaintext storage)
  * - Constant-time comparison
  * - Admin functions
@@ -15,6 +16,7 @@ import {
 	generateMcpAccessToken,
 	verifyMcpAccessToken,
 	revokeMcpAccessToken,
+	rotateMcpAccessToken,
 	hashToken,
 	type MCPTokenData,
 } from "../../../src/auth/mcp-token.js";
@@ -288,6 +290,43 @@ describe("Token Validation", () => {
 		expect(tokenData.metadata.lastUsedFromIp).toBeTruthy();
 	});
 
+	it("should not overwrite a revocation or rotation made during validation", async () => {
+		const revoked = await generateMcpAccessToken("user@example.com", "Revoked", env, "1.2.3.4", "TestAgent");
+		const rotated = await generateMcpAccessToken("user@example.com", "Rotated", env, "1.2.3.4", "TestAgent");
+		const kv = env.OAUTH_KV as MockKVNamespace;
+		const list = kv.list.bind(kv);
+		let rotatedTo: string | undefined;
+
+		// The token ID lookup runs after the token record is read, so these
+		// land between verification and the usage write
+		vi.spyOn(kv, "list")
+			.mockImplementationOnce(async (options) => {
+				await revokeMcpAccessToken(revoked.tokenId, "Compromised", env);
+				return list(options);
+			})
+			.mockImplementationOnce(async (options) => {
+				rotatedTo = (await rotateMcpAccessToken(rotated.tokenId, env, 1)).replacement?.tokenId;
+				return list(options);
+			});
+
+		expect((await verifyMcpAccessToken(revoked.token, env, "192.168.1.1")).valid).toBe(true);
+		expect((await verifyMcpAccessToken(rotated.token, env, "192.168.1.1")).valid).toBe(true);
+
+		const read = async (token: string): Promise<MCPTokenData> =>
+			JSON.parse((await kv.get(`token:hash:${await hashToken(token)}`)) as string);
+		await vi.waitFor(async () => expect((await read(rotated.token)).metadata.usageCount).toBe(1));
+
+		const revokedData = await read(revoked.token);
+		expect(revokedData.revokedAt).not.toBeNull();
+		expect(revokedData.revocationReason).toBe("Compromised");
+		expect(revokedData.metadata.usageCount).toBe(1);
+
+		const rotatedData = await read(rotated.token);
+		expect(rotatedData.replacedBy).toBe(rotatedTo);
+		expect(Date.parse(rotatedData.expiresAt as string) - Date.now()).toBeLessThanOrEqual(60 * 60 * 1000);
+		expect(rotatedData.metadata.recentIps).toEqual(["192.168.1.1"]);
+	});
+
 	it("should return error if OAUTH_KV is not configured", async () => {
 		const envWithoutKV = {} as Env;
 
@@ -401,6 +440,103 @@ describe("Token Revocation", () => {
 	});
 });
 
+describe("Token Expiry", () => {
+	let env: Env;
+
+	beforeEach(() => {
+		env = createMockEnv();
+	});
+
+	it("should set expiresAt from MCP_TOKEN_EXPIRY_DAYS", async () => {
+		env.MCP_TOKEN_EXPIRY_DAYS = "30";
+
+		const result = await generateMcpAccessToken("user@example.com", "Test", env, "1.2.3.4", "TestAgent");
+
+		const lifetime = Date.parse(result.expiresAt) - Date.parse(result.createdAt);
+		expect(lifetime).toBe(30 * 24 * 60 * 60 * 1000);
+	});
+
+	it("should reject expired tokens", async () => {
+		const { token } = await generateMcpAccessToken("user@example.com", "Test", env, "1.2.3.4", "TestAgent", {
+			expiresInDays: 0,
+		});
+
+		const result = await verifyMcpAccessToken(token, env);
+
+		expect(result.valid).toBe(false);
+		expect(result.reason).toBe("expired");
+	});
+
+	it("should derive expiry from createdAt for tokens without expiresAt", async () => {
+		const { token } = await generateMcpAccessToken("user@example.com", "Legacy", env, "1.2.3.4", "TestAgent");
+		const key = `token:hash:${await hashToken(token)}`;
+		const data: MCPTokenData = JSON.parse((await env.OAUTH_KV.get(key)) as string);
+		data.expiresAt = undefined;
+		data.createdAt = new Date(Date.now() - 400 * 24 * 60 * 60 * 1000).toISOString();
+		await env.OAUTH_KV.put(key, JSON.stringify(data));
+
+		expect((await verifyMcpAccessToken(token, env)).reason).toBe("expired");
+
+		env.MCP_TOKEN_EXPIRY_DAYS = "730";
+		expect((await verifyMcpAccessToken(token, env)).valid).toBe(true);
+	});
+});
+
+describe("Token Rotation", () => {
+	let env: Env;
+
+	beforeEach(() => {
+		env = createMockEnv();
+	});
+
+	it("should issue a linked replacement and keep the old token for the grace period", async () => {
+		const old = await generateMcpAccessToken("user@example.com", "CI agent", env, "1.2.3.4", "TestAgent");
+
+		const result = await rotateMcpAccessToken(old.tokenId, env, 48);
+
+		expect(result.success).toBe(true);
+		expect(result.replacement?.userId).toBe("user@example.com");
+		expect(result.replacement?.description).toBe("CI agent");
+		expect(result.replacement?.tokenId).not.toBe(old.tokenId);
+
+		const graceMs = Date.parse(result.previousTokenExpiresAt as string) - Date.now();
+		expect(graceMs).toBeGreaterThan(47 * 60 * 60 * 1000);
+		expect(graceMs).toBeLessThanOrEqual(48 * 60 * 60 * 1000);
+
+		const oldValidation = await verifyMcpAccessToken(old.token, env);
+		expect(oldValidation.valid).toBe(true);
+		expect(oldValidation.tokenData?.replacedBy).toBe(result.replacement?.tokenId);
+
+		const newValidation = await verifyMcpAccessToken(result.replacement?.token as string, env);
+		expect(newValidation.valid).toBe(true);
+		expect(newValidation.tokenData?.rotatedFrom).toBe(old.tokenId);
+	});
+
+	it("should expire the old token immediately with a zero grace period", async () => {
+		const old = await generateMcpAccessToken("user@example.com", "Test", env, "1.2.3.4", "TestAgent");
+		env.MCP_TOKEN_ROTATION_GRACE_HOURS = "0";
+
+		await rotateMcpAccessToken(old.tokenId, env);
+
+		expect((await verifyMcpAccessToken(old.token, env)).reason).toBe("expired");
+	});
+
+	it("should not rotate revoked, expired or already rotated tokens", async () => {
+		const revoked = await generateMcpAccessToken("user@example.com", "Revoked", env);
+		await revokeMcpAccessToken(revoked.tokenId, "Test", env);
+		const expired = await generateMcpAccessToken("user@example.com", "Expired", env, "1.2.3.4", "TestAgent", {
+			expiresInDays: 0,
+		});
+		const rotated = await generateMcpAccessToken("user@example.com", "Rotated", env);
+		await rotateMcpAccessToken(rotated.tokenId, env);
+
+		expect((await rotateMcpAccessToken(revoked.tokenId, env)).error).toBe("Token is revoked");
+		expect((await rotateMcpAccessToken(expired.tokenId, env)).error).toBe("Token has expired");
+		expect((await rotateMcpAccessToken(rotated.tokenId, env)).error).toMatch(/^Token already rotated/);
+		expect((await rotateMcpAccessToken("tok_missing", env)).error).toBe("Token not found");
+	});
+});
+
 describe("SHA-256 Hashing", () => {
 	it("should produce consistent hashes", async () => {
 		const token = "mcp_v1_test_token_123";
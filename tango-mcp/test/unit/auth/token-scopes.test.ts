@@ -0,0 +1,217 @@
+/**
+ * Unit tests for MCP access token scopes
+ *
+ * Tests cover:
+ * - Scope validation
+ * - Tool, export and limit checks
+ * - Registration filtering and call enforcement
+ * - Scopes carried through token validation and rotation
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+	applyMaxLimit,
+	checkToolCallScope,
+	enforceTokenScopes,
+	isToolAllowed,
+	normalizeTokenScopes,
+} from "../../../src/auth/token-scopes.js";
+import {
+	generateMcpAccessToken,
+	rotateMcpAccessToken,
+	verifyMcpAccessToken,
+} from "../../../src/auth/mcp-token.js";
+import { validateAuthentication } from "../../../src/auth/validate-authentication.js";
+import type { Env } from "../../../src/types/env.js";
+
+/**
+ * Minimal in-memory KV
+ */
+function createMockEnv(): Env {
+	const store = new Map<string, string>();
+	return {
+		OAUTH_KV: {
+			get: async (key: string) => store.get(key) ?? null,
+			put: async (key: string, value: string) => {
+				store.set(key, value);
+			},
+			delete: async (key: string) => {
+				store.delete(key);
+			},
+			list: async ({ prefix }: { prefix: string }) => ({
+				keys: [...store.keys()].filter((key) => key.startsWith(prefix)).map((name) => ({ name })),
+			}),
+		} as unknown as KVNamespace,
+	} as Env;
+}
+
+const automation = { tools: ["search_opportunities", "get_opportunity_detail"] };
+
+describe("Token Scope Validation", () => {
+	it("should accept known tools and deduplicate them", () => {
+		expect(normalizeTokenScopes({ tools: ["search_opportunities", "search_opportunities"] })).toEqual({
+			tools: ["search_opportunities"],
+		});
+	});
+
+	it("should reject unknown tools, profiles and limits", () => {
+		expect(() => normalizeTokenScopes({ tools: ["get_cache_stats"] })).toThrow("Unknown tool(s)");
+		expect(() => normalizeTokenScopes({ profile: "admin" as never })).toThrow("Invalid token scope profile");
+		expect(() => normalizeTokenScopes({ maxLimit: 0 })).toThrow("maxLimit must be a positive integer");
+	});
+});
+
+describe("Token Scope Checks", () => {
+	it("should allow everything without scopes", () => {
+		expect(isToolAllowed(undefined, "get_company_intelligence")).toBe(true);
+		expect(checkToolCallScope(undefined, "search_contracts", { export_format: "csv", limit: 100 })).toBeUndefined();
+	});
+
+	it("should restrict tools to the allowed list and profile", () => {
+		expect(isToolAllowed(automation, "search_opportunities")).toBe(true);
+		expect(isToolAllowed(automation, "get_company_intelligence")).toBe(false);
+
+		const analytics = { profile: "analytics_read_only" as const };
+		expect(isToolAllowed(analytics, "get_spending_summary")).toBe(true);
+		expect(isToolAllowed(analytics, "search_contracts")).toBe(false);
+		expect(isToolAllowed(analytics, "get_my_usage")).toBe(true);
+	});
+
+	it("should deny CSV exports and limits above the maximum", () => {
+		const scopes = { allowExport: false, maxLimit: 10 };
+
+		expect(checkToolCallScope(scopes, "search_contracts", { export_format: "csv" })?.scope).toBe("export");
+		expect(checkToolCallScope(scopes, "search_contracts", { export_format: "json", limit: 10 })).toBeUndefined();
+
+		const denied = checkToolCallScope(scopes, "search_contracts", { limit: 50 });
+		expect(denied?.toErrorResponse()).toMatchObject({
+			error_code: "SCOPE_DENIED",
+			recoverable: true,
+			context: { scope: "max_limit", max_limit: 10, provided: 50 },
+		});
+	});
+
+	it("should apply the maximum to get_vendor_profile's history_limit", () => {
+		const scopes = { maxLimit: 10 };
+
+		expect(checkToolCallScope(scopes, "get_vendor_profile", { history_limit: 10 })).toBeUndefined();
+		const denied = checkToolCallScope(scopes, "get_vendor_profile", { include_history: true, history_limit: 50 });
+		expect(denied?.message).toBe("history_limit 50 exceeds this access token's maximum of 10");
+		expect(denied?.toErrorResponse().suggestion).toBe("Retry with history_limit at or below 10.");
+
+		expect(applyMaxLimit({ maxLimit: 5 }, "get_vendor_profile", { include_history: true })).toEqual({
+			include_history: true,
+			history_limit: 5,
+		});
+		expect(applyMaxLimit({ maxLimit: 25 }, "get_vendor_profile", { include_history: true })).toEqual({
+			include_history: true,
+		});
+	});
+});
+
+describe("Token Scope Enforcement", () => {
+	let register: ReturnType<typeof vi.fn>;
+	let server: McpServer;
+
+	beforeEach(() => {
+		register = vi.fn();
+		server = { tool: register } as unknown as McpServer;
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should only register allowed tools", () => {
+		enforceTokenScopes(server, automation);
+
+		server.tool("search_opportunities", "Search", {}, vi.fn());
+		server.tool("get_company_intelligence", "Intel", {}, vi.fn());
+
+		expect(register.mock.calls.map(([name]) => name)).toEqual(["search_opportunities"]);
+	});
+
+	it("should return SCOPE_DENIED instead of running a denied call", async () => {
+		const inner = vi.fn(async () => ({ content: [{ type: "text", text: "ok" }] }));
+		enforceTokenScopes(server, { maxLimit: 25 });
+		server.tool("search_contracts", "Search", {}, inner);
+		const handler = register.mock.calls[0][3];
+
+		const response = await handler({ limit: 100 }, {});
+		const data = JSON.parse(response.content[0].text);
+
+		expect(inner).not.toHaveBeenCalled();
+		expect(data.error_code).toBe("SCOPE_DENIED");
+		expect(data.execution.duration_ms).toBeGreaterThanOrEqual(0);
+
+		await handler({ limit: 25 }, {});
+		expect(inner).toHaveBeenCalledTimes(1);
+	});
+
+	it("should cap the default limit of calls without a limit", async () => {
+		const inner = vi.fn(async () => ({ content: [{ type: "text", text: "ok" }] }));
+		enforceTokenScopes(server, { maxLimit: 5 });
+		server.tool("search_contracts", "Search", {}, inner);
+		server.tool("get_contract_detail", "Detail", {}, inner);
+		const [search, detail] = register.mock.calls.map((call) => call[3]);
+
+		await search({ keywords: "cloud" }, {});
+		await search({ limit: 3 }, {});
+		await detail({ contract_id: "abc" }, {});
+
+		expect(inner.mock.calls.map(([args]) => args)).toEqual([
+			{ keywords: "cloud", limit: 5 },
+			{ limit: 3 },
+			{ contract_id: "abc" },
+		]);
+		expect(applyMaxLimit({ maxLimit: 50 }, "search_subawards", {})).toEqual({});
+		expect(applyMaxLimit(undefined, "search_contracts", {})).toEqual({});
+	});
+
+	it("should install nothing for unscoped tokens", () => {
+		enforceTokenScopes(server, undefined);
+
+		expect(server.tool).toBe(register);
+	});
+});
+
+describe("Scoped Tokens", () => {
+	let env: Env;
+
+	beforeEach(() => {
+		env = createMockEnv();
+	});
+
+	it("should store scopes and expose them through authentication", async () => {
+		const { token } = await generateMcpAccessToken("bot@example.com", "Automation", env, "1.2.3.4", "TestAgent", {
+			scopes: automation,
+		});
+
+		const validation = await verifyMcpAccessToken(token, env);
+		expect(validation.tokenData?.scopes).toEqual(automation);
+
+		const auth = await validateAuthentication({ mcpAccessToken: token }, env);
+		expect(auth.scopes).toEqual(automation);
+	});
+
+	it("should reject invalid scopes at generation", async () => {
+		await expect(
+			generateMcpAccessToken("bot@example.com", "Bad", env, "1.2.3.4", "TestAgent", {
+				scopes: { tools: ["not_a_tool"] },
+			}),
+		).rejects.toThrow("Unknown tool(s)");
+	});
+
+	it("should carry scopes over to the rotated token", async () => {
+		const old = await generateMcpAccessToken("bot@example.com", "Automation", env, "1.2.3.4", "TestAgent", {
+			scopes: automation,
+		});
+
+		const rotation = await rotateMcpAccessToken(old.tokenId, env);
+
+		expect(rotation.replacement?.scopes).toEqual(automation);
+	});
+});
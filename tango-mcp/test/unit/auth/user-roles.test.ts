@@ -0,0 +1,224 @@
+/**
+ * Unit tests for OAuth user roles
+ *
+ * Tests cover:
+ * - Role resolution (ADMIN_EMAILS, email and domain assignments, default domain)
+ * - Assignment storage and validation
+ * - Tool, export and limit checks per role
+ * - Registration filtering and call enforcement
+ * - Roles carried through authentication
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+	checkRoleToolCall,
+	enforceUserRole,
+	listUserRoleAssignments,
+	removeUserRoleAssignment,
+	resolveUserRole,
+	setUserRoleAssignment,
+} from "../../../src/auth/user-roles.js";
+import { validateAuthentication } from "../../../src/auth/validate-authentication.js";
+import type { Env } from "../../../src/types/env.js";
+
+/**
+ * Minimal in-memory KV with list metadata
+ */
+function createMockEnv(overrides: Partial<Env> = {}): Env {
+	const store = new Map<string, { value: string; metadata?: unknown }>();
+	return {
+		ADMIN_EMAILS: "boss@agile6.com",
+		OAUTH_KV: {
+			get: async (key: string) => store.get(key)?.value ?? null,
+			put: async (key: string, value: string, options?: { metadata?: unknown }) => {
+				store.set(key, { value, metadata: options?.metadata });
+			},
+			delete: async (key: string) => {
+				store.delete(key);
+			},
+			list: async ({ prefix }: { prefix: string }) => ({
+				keys: [...store.entries()]
+					.filter(([key]) => key.startsWith(prefix))
+					.map(([name, entry]) => ({ name, metadata: entry.metadata })),
+				list_complete: true,
+			}),
+		} as unknown as KVNamespace,
+		...overrides,
+	} as Env;
+}
+
+describe("Role Resolution", () => {
+	let env: Env;
+
+	beforeEach(() => {
+		env = createMockEnv();
+	});
+
+	it("should give @agile6.com users the default role and reject other domains", async () => {
+		expect(await resolveUserRole("Jane@Agile6.com", env)).toEqual({ role: "exporter", source: "default" });
+		expect(await resolveUserRole("jane@agile6.com", createMockEnv({ DEFAULT_USER_ROLE: "viewer" }))).toEqual({
+			role: "viewer",
+			source: "default",
+		});
+		expect(await resolveUserRole("pat@partner.gov", env)).toBeNull();
+	});
+
+	it("should prefer ADMIN_EMAILS, then email, then domain assignments", async () => {
+		await setUserRoleAssignment("domain", "Partner.gov", "viewer", "boss@agile6.com", env);
+		await setUserRoleAssignment("email", "lead@partner.gov", "analyst", "boss@agile6.com", env);
+		await setUserRoleAssignment("email", "boss@agile6.com", "viewer", "boss@agile6.com", env);
+
+		expect(await resolveUserRole("pat@partner.gov", env)).toEqual({ role: "viewer", source: "domain" });
+		expect(await resolveUserRole("lead@partner.gov", env)).toEqual({ role: "analyst", source: "email" });
+		expect(await resolveUserRole("boss@agile6.com", env)).toEqual({ role: "admin", source: "admin_emails" });
+	});
+
+	it("should fall back to the default domain when KV fails", async () => {
+		env.OAUTH_KV.get = vi.fn(async () => {
+			throw new Error("KV unavailable");
+		}) as any;
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		expect(await resolveUserRole("jane@agile6.com", env)).toEqual({ role: "exporter", source: "default" });
+		expect(await resolveUserRole("pat@partner.gov", env)).toBeNull();
+	});
+
+	it("should validate, list and remove assignments", async () => {
+		await expect(setUserRoleAssignment("email", "not-an-email", "viewer", "boss@agile6.com", env)).rejects.toThrow(
+			"Invalid role assignment email",
+		);
+		await expect(setUserRoleAssignment("domain", "partner", "viewer", "boss@agile6.com", env)).rejects.toThrow(
+			"Invalid role assignment domain",
+		);
+		await expect(setUserRoleAssignment("email", "a@partner.gov", "owner" as any, "boss@agile6.com", env)).rejects.toThrow(
+			"Invalid role",
+		);
+
+		await setUserRoleAssignment("domain", "partner.gov", "viewer", "boss@agile6.com", env);
+		await setUserRoleAssignment("email", "a@partner.gov", "analyst", "boss@agile6.com", env);
+
+		expect((await listUserRoleAssignments(env)).map(({ kind, subject, role }) => [kind, subject, role])).toEqual([
+			["domain", "partner.gov", "viewer"],
+			["email", "a@partner.gov", "analyst"],
+		]);
+		expect(await removeUserRoleAssignment("email", "A@partner.gov", env)).toBe(true);
+		expect(await removeUserRoleAssignment("email", "a@partner.gov", env)).toBe(false);
+	});
+});
+
+describe("Role Checks", () => {
+	it("should limit viewers to their tools, no export and limit 25", () => {
+		expect(checkRoleToolCall("viewer", "get_agency_analytics", { limit: 25 })).toBeUndefined();
+		expect(checkRoleToolCall("viewer", "get_my_usage", {})).toBeUndefined();
+		expect(checkRoleToolCall("viewer", "search_contracts", {})?.toErrorResponse()).toMatchObject({
+			error: "Role 'viewer' is not permitted to use search_contracts",
+			error_code: "ROLE_DENIED",
+			recoverable: false,
+			context: { role: "viewer", restriction: "tools" },
+		});
+		expect(checkRoleToolCall("viewer", "get_agency_analytics", { limit: 26 })?.message).toBe(
+			"limit 26 exceeds the maximum of 25 for role 'viewer'",
+		);
+		expect(checkRoleToolCall("viewer", "get_vendor_profile", { history_limit: 25 })).toBeUndefined();
+		expect(checkRoleToolCall("viewer", "get_vendor_profile", { history_limit: 50 })?.message).toBe(
+			"history_limit 50 exceeds the maximum of 25 for role 'viewer'",
+		);
+	});
+
+	it("should block CSV exports for analysts but not exporters", () => {
+		expect(checkRoleToolCall("analyst", "search_contracts", { export_format: "csv" })?.restriction).toBe("export");
+		expect(checkRoleToolCall("analyst", "search_contracts", { limit: 50 })).toBeUndefined();
+		expect(checkRoleToolCall("exporter", "search_contracts", { export_format: "csv", limit: 100 })).toBeUndefined();
+		expect(checkRoleToolCall("admin", "search_contracts", { export_format: "csv", limit: 100 })).toBeUndefined();
+	});
+});
+
+describe("Role Enforcement", () => {
+	let register: ReturnType<typeof vi.fn>;
+	let server: McpServer;
+
+	beforeEach(() => {
+		register = vi.fn();
+		server = { tool: register } as unknown as McpServer;
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should only register the role's tools", () => {
+		enforceUserRole(server, "viewer");
+
+		server.tool("get_contract_detail", "Detail", {}, vi.fn());
+		server.tool("search_contracts", "Search", {}, vi.fn());
+		server.tool("get_my_usage", "Usage", {}, vi.fn());
+
+		expect(register.mock.calls.map(([name]) => name)).toEqual(["get_contract_detail", "get_my_usage"]);
+	});
+
+	it("should return ROLE_DENIED instead of running a denied call", async () => {
+		const inner = vi.fn(async () => ({ content: [{ type: "text", text: "ok" }] }));
+		enforceUserRole(server, "analyst");
+		server.tool("search_contracts", "Search", {}, inner);
+		const handler = register.mock.calls[0][3];
+
+		const data = JSON.parse((await handler({ export_format: "csv" }, {})).content[0].text);
+
+		expect(inner).not.toHaveBeenCalled();
+		expect(data).toMatchObject({ error_code: "ROLE_DENIED", recoverable: true });
+		expect(data.suggestion).toContain("export_format 'json'");
+		expect(data.execution.duration_ms).toBeGreaterThanOrEqual(0);
+
+		await handler({ export_format: "json", limit: 50 }, {});
+		expect(inner).toHaveBeenCalledTimes(1);
+	});
+
+	it("should cap the default limit of calls without a limit", async () => {
+		const inner = vi.fn(async () => ({ content: [{ type: "text", text: "ok" }] }));
+		const analystRegister = vi.fn();
+		const analystServer = { tool: analystRegister } as unknown as McpServer;
+		enforceUserRole(server, "viewer");
+		enforceUserRole(analystServer, "analyst");
+		server.tool("get_agency_analytics", "Analytics", {}, inner);
+		analystServer.tool("get_spending_summary", "Spending", {}, inner);
+		analystServer.tool("search_contracts", "Search", {}, inner);
+		const [analytics, spending, search] = [...register.mock.calls, ...analystRegister.mock.calls].map(
+			(call) => call[3],
+		);
+
+		await analytics({ agency_code: "9700" }, {});
+		await spending({}, {});
+		await search({}, {});
+
+		expect(inner.mock.calls.map(([args]) => args)).toEqual([
+			{ agency_code: "9700", limit: 25 },
+			{ limit: 50 },
+			{},
+		]);
+	});
+
+	it("should install nothing for unrestricted roles and MCP tokens", () => {
+		enforceUserRole(server, "exporter");
+		enforceUserRole(server, undefined);
+
+		expect(server.tool).toBe(register);
+	});
+});
+
+describe("Roles in Authentication", () => {
+	it("should admit assigned users from other domains with their current role", async () => {
+		const env = createMockEnv();
+		const props = { accessToken: "oauth-token", email: "pat@partner.gov", name: "Pat" };
+
+		await expect(validateAuthentication(props, env)).rejects.toThrow("Only @agile6.com accounts are allowed");
+
+		await setUserRoleAssignment("domain", "partner.gov", "viewer", "boss@agile6.com", env);
+		expect((await validateAuthentication(props, env)).role).toBe("viewer");
+
+		await setUserRoleAssignment("email", "pat@partner.gov", "analyst", "boss@agile6.com", env);
+		expect((await validateAuthentication({ ...props, role: "viewer" }, env)).role).toBe("analyst");
+	});
+});
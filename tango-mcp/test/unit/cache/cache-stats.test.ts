@@ -0,0 +1,127 @@
+/**
+ * Unit tests for incremental cache statistics
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import {
+  CACHE_STATS_KEY_PREFIX,
+  flushCacheStats,
+  getCacheMetrics,
+  isCacheStatsFlushDue,
+  readAggregatedCacheMetrics,
+  recordCacheEvent,
+  resetCacheMetrics,
+  sampleKeyCounts,
+} from "@/cache/cache-stats";
+import { createMemoryKV } from "../../utils/memory-kv";
+
+describe("cache stats", () => {
+  beforeEach(() => {
+    resetCacheMetrics();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should count events by prefix", () => {
+    recordCacheEvent("contracts:a", "miss");
+    recordCacheEvent("contracts:a", "write");
+    recordCacheEvent("contracts:a", "hit", "memory");
+    recordCacheEvent("grants:b", "stale_hit", "kv");
+    recordCacheEvent("grants:c", "eviction");
+
+    const metrics = getCacheMetrics();
+
+    expect(metrics).toMatchObject({
+      hits: 2,
+      misses: 1,
+      stale_hits: 1,
+      memory_hits: 1,
+      writes: 1,
+      evictions: 1,
+      hit_rate: 0.667,
+    });
+    expect(metrics.by_prefix.contracts).toMatchObject({ hits: 1, misses: 1, writes: 1, hit_rate: 0.5 });
+    expect(metrics.by_prefix.grants).toMatchObject({ stale_hits: 1, evictions: 1 });
+  });
+
+  it("should only be due for a flush after new events and the flush interval", () => {
+    vi.useFakeTimers();
+    resetCacheMetrics();
+    expect(isCacheStatsFlushDue()).toBe(false);
+
+    recordCacheEvent("contracts:a", "miss");
+    expect(isCacheStatsFlushDue()).toBe(false);
+
+    vi.advanceTimersByTime(30_000);
+    expect(isCacheStatsFlushDue()).toBe(true);
+  });
+
+  it("should merge snapshots from other isolates with live counters", async () => {
+    const store = new Map<string, string>();
+    const kv = createMemoryKV(store);
+    store.set(
+      `${CACHE_STATS_KEY_PREFIX}other-isolate`,
+      JSON.stringify({
+        total: { hits: 3, misses: 1, stale_hits: 0, memory_hits: 2, writes: 1, evictions: 0 },
+        by_prefix: { contracts: { hits: 3, misses: 1, stale_hits: 0, memory_hits: 2, writes: 1, evictions: 0 } },
+        since: new Date(0).toISOString(),
+        updated_at: new Date().toISOString(),
+      }),
+    );
+
+    recordCacheEvent("contracts:a", "hit", "kv");
+    await flushCacheStats(kv);
+    recordCacheEvent("contracts:a", "hit", "memory");
+
+    const metrics = await readAggregatedCacheMetrics(kv);
+
+    expect(metrics.isolates).toBe(2);
+    expect(metrics.by_prefix.contracts).toMatchObject({ hits: 5, misses: 1, memory_hits: 3 });
+    expect(metrics.since).toBe(new Date(0).toISOString());
+  });
+
+  it("should read every snapshot page and reuse the merge for 30 seconds", async () => {
+    vi.useFakeTimers();
+    resetCacheMetrics();
+    const store = new Map<string, string>();
+    const kv = createMemoryKV(store, { pageSize: 2 });
+    const snapshot = JSON.stringify({
+      total: { hits: 1, misses: 0, stale_hits: 0, memory_hits: 0, writes: 0, evictions: 0 },
+      by_prefix: { contracts: { hits: 1, misses: 0, stale_hits: 0, memory_hits: 0, writes: 0, evictions: 0 } },
+      since: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+    for (let i = 0; i < 5; i++) {
+      store.set(`${CACHE_STATS_KEY_PREFIX}isolate-${i}`, snapshot);
+    }
+
+    expect(await readAggregatedCacheMetrics(kv)).toMatchObject({ isolates: 6, hits: 5 });
+    expect(kv.list).toHaveBeenCalledTimes(3);
+
+    recordCacheEvent("contracts:a", "hit", "kv");
+    expect(await readAggregatedCacheMetrics(kv)).toMatchObject({ isolates: 6, hits: 6 });
+    expect(kv.list).toHaveBeenCalledTimes(3);
+
+    vi.advanceTimersByTime(30_000);
+    await readAggregatedCacheMetrics(kv);
+    expect(kv.list).toHaveBeenCalledTimes(6);
+  });
+
+  it("should sample key counts from one list page and reuse the sample", async () => {
+    const store = new Map<string, string>([
+      ["contracts:a", "{}"],
+      ["contracts:b", "{}"],
+      ["agencies:c", "{}"],
+      [`${CACHE_STATS_KEY_PREFIX}x`, "{}"],
+    ]);
+    const kv = createMemoryKV(store);
+
+    const sample = await sampleKeyCounts(kv);
+    await sampleKeyCounts(kv);
+
+    expect(sample).toMatchObject({ sampled_keys: 3, by_prefix: { contracts: 2, agencies: 1 }, complete: true });
+    expect(kv.list).toHaveBeenCalledTimes(1);
+  });
+});
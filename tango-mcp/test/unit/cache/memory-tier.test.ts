@@ -0,0 +1,78 @@
+/**
+ * Unit tests for the in-isolate memory cache tier
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { MemoryTier } from "@/cache/memory-tier";
+
+describe("MemoryTier", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return stored values", () => {
+    const tier = new MemoryTier({ maxEntries: 10, maxBytes: 1024 });
+    tier.set("a", '{"x":1}', 60);
+
+    expect(tier.get("a")).toBe('{"x":1}');
+    expect(tier.get("missing")).toBeUndefined();
+  });
+
+  it("should evict the least recently used entry when full", () => {
+    const tier = new MemoryTier({ maxEntries: 2, maxBytes: 1024 });
+    tier.set("a", "1", 60);
+    tier.set("b", "2", 60);
+    tier.get("a"); // "b" becomes least recently used
+    tier.set("c", "3", 60);
+
+    expect(tier.get("a")).toBe("1");
+    expect(tier.get("b")).toBeUndefined();
+    expect(tier.get("c")).toBe("3");
+    expect(tier.getSnapshot().evictions).toBe(1);
+  });
+
+  it("should evict by byte size", () => {
+    const tier = new MemoryTier({ maxEntries: 10, maxBytes: 10 });
+    tier.set("a", "12345", 60);
+    tier.set("b", "12345", 60);
+    tier.set("c", "12345", 60);
+
+    expect(tier.get("a")).toBeUndefined();
+    expect(tier.getSnapshot()).toMatchObject({ entries: 2, bytes: 10 });
+  });
+
+  it("should not store values larger than the byte budget", () => {
+    const tier = new MemoryTier({ maxEntries: 10, maxBytes: 4 });
+    tier.set("a", "12345", 60);
+
+    expect(tier.get("a")).toBeUndefined();
+    expect(tier.getSnapshot().bytes).toBe(0);
+  });
+
+  it("should expire entries", () => {
+    vi.useFakeTimers();
+    const tier = new MemoryTier({ maxEntries: 10, maxBytes: 1024 });
+    tier.set("a", "1", 60);
+
+    vi.advanceTimersByTime(60_000);
+
+    expect(tier.get("a")).toBeUndefined();
+  });
+
+  it("should be disabled when maxEntries is 0", () => {
+    const tier = new MemoryTier({ maxEntries: 0, maxBytes: 1024 });
+    tier.set("a", "1", 60);
+
+    expect(tier.get("a")).toBeUndefined();
+  });
+
+  it("should delete by prefix", () => {
+    const tier = new MemoryTier({ maxEntries: 10, maxBytes: 1024 });
+    tier.set("contracts:1", "1", 60);
+    tier.set("grants:1", "2", 60);
+    tier.deletePrefix("contracts:");
+
+    expect(tier.get("contracts:1")).toBeUndefined();
+    expect(tier.get("grants:1")).toBe("2");
+  });
+});
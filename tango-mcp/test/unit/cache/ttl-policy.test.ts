@@ -0,0 +1,90 @@
+/**
+ * Unit tests for cache TTL policy
+ */
+
+import { describe, it, expect } from "vitest";
+import { CacheManager } from "@/cache/kv-cache";
+import {
+  DEFAULT_TTL_RULES,
+  parseTtlRules,
+  resolveTtl,
+  TTL_POLICY_KV_KEY,
+  type TtlPolicy,
+} from "@/cache/ttl-policy";
+import type { Env } from "@/types/env";
+
+const policy: TtlPolicy = {
+  default_ttl_seconds: 300,
+  rules: { contracts: 600, contracts_: 86400, agencies: 86400 },
+  sources: ["defaults"],
+};
+
+/**
+ * Create an env whose KV stub returns the given TTL override entry
+ */
+function createEnv(kvOverride: string | null, overrides: Partial<Env> = {}): Env {
+  return {
+    TANGO_CACHE: {
+      get: async (key: string) => (key === TTL_POLICY_KV_KEY ? kvOverride : null),
+    } as unknown as KVNamespace,
+    ...overrides,
+  } as Env;
+}
+
+describe("resolveTtl", () => {
+  it("should use the longest matching prefix", () => {
+    expect(resolveTtl(policy, "contracts")).toBe(600);
+    expect(resolveTtl(policy, "contracts_ABC123")).toBe(86400);
+  });
+
+  it("should fall back to the default TTL", () => {
+    expect(resolveTtl(policy, "subawards")).toBe(300);
+  });
+});
+
+describe("parseTtlRules", () => {
+  it("should parse a JSON object", () => {
+    expect(parseTtlRules('{"opportunities": 300}')).toEqual({ opportunities: 300 });
+  });
+
+  it("should drop entries that are not non-negative integers", () => {
+    expect(parseTtlRules({ a: 60, b: -1, c: "60", d: 1.5 })).toEqual({ a: 60 });
+  });
+
+  it("should return undefined for invalid input", () => {
+    expect(parseTtlRules("not json")).toBeUndefined();
+    expect(parseTtlRules("[60]")).toBeUndefined();
+    expect(parseTtlRules(null)).toBeUndefined();
+  });
+});
+
+describe("CacheManager TTL policy", () => {
+  it("should use the built-in rules by default", async () => {
+    const cache = new CacheManager(createEnv(null));
+
+    const active = await cache.getTtlPolicy();
+
+    expect(active.rules).toEqual(DEFAULT_TTL_RULES);
+    expect(active.sources).toEqual(["defaults"]);
+    expect(active.default_ttl_seconds).toBe(300);
+  });
+
+  it("should merge env overrides over the defaults", async () => {
+    const cache = new CacheManager(
+      createEnv(null, { CACHE_TTL_POLICY: '{"opportunities": 120}', CACHE_TTL_SECONDS: "60" }),
+    );
+
+    expect(await cache.getTtlFor("opportunities")).toBe(120);
+    expect(await cache.getTtlFor("agencies")).toBe(DEFAULT_TTL_RULES.agencies);
+    expect(await cache.getTtlFor("subawards")).toBe(60);
+  });
+
+  it("should let KV overrides win over env overrides", async () => {
+    const cache = new CacheManager(
+      createEnv('{"opportunities": 90}', { CACHE_TTL_POLICY: '{"opportunities": 120}' }),
+    );
+
+    expect(await cache.getTtlFor("opportunities")).toBe(90);
+    expect((await cache.getTtlPolicy()).sources).toEqual(["defaults", "env", "kv"]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for get_cache_stats tool
+ *
+ * Tests:
+ * - Registration
+ * - Response formatting
+ * - Error handling
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { registerGetCacheStatsTool } from "@/tools/get-cache-stats";
+import type { CacheManager } from "@/cache/kv-cache";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+// Mock server
+const mockServer = {
+  tool: vi.fn(),
+} as unknown as McpServer;
+
+// Mock cache manager
+const mockCache = {
+  getStats: vi.fn(),
+  getTtlPolicy: vi.fn(),
+  getTtlSettings: vi.fn(),
+};
+
+describe("get_cache_stats tool", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCache.getTtlPolicy.mockResolvedValue({ default_ttl_seconds: 300, rules: {}, sources: ["defaults"] });
+    mockCache.getTtlSettings.mockReturnValue({ ttl_seconds: 300, stale_ttl_seconds: 3600 });
+  });
+
+  it("should register with no parameters", () => {
+    registerGetCacheStatsTool(mockServer, mockCache as unknown as CacheManager);
+
+    expect(mockServer.tool).toHaveBeenCalledWith(
+      "get_cache_stats",
+      expect.stringContaining("Admin only"),
+      {},
+      expect.any(Function),
+    );
+  });
+
+  it("should return counters, key sample and TTL policy", async () => {
+    mockCache.getStats.mockResolvedValue({
+      total_keys: 2,
+      by_prefix: { contracts: 2 },
+      key_sample: { complete: true, sampled_at: "2025-01-01T00:00:00.000Z" },
+      metrics: { hits: 4, misses: 1, hit_rate: 0.8, isolates: 2 },
+      memory_tier: { entries: 1 },
+    });
+    registerGetCacheStatsTool(mockServer, mockCache as unknown as CacheManager);
+    const handler = (mockServer.tool as any).mock.calls[0][3];
+
+    const response = await handler({});
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.data.metrics).toMatchObject({ hit_rate: 0.8, isolates: 2 });
+    expect(data.data.by_prefix).toEqual({ contracts: 2 });
+    expect(data.data.ttl_policy.default_ttl_seconds).toBe(300);
+    expect(data.data.isolate_metrics).toBeDefined();
+    expect(data.execution.duration_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should return an error envelope when stats can't be read", async () => {
+    mockCache.getStats.mockRejectedValue(new Error("KV unavailable"));
+    registerGetCacheStatsTool(mockServer, mockCache as unknown as CacheManager);
+    const handler = (mockServer.tool as any).mock.calls[0][3];
+
+    const response = await handler({});
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.error_code).toBe("INTERNAL_ERROR");
+    expect(data.error).toContain("KV unavailable");
+  });
+});
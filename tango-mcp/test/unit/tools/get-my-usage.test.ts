@@ -0,0 +1,91 @@
+/**
+ * Unit tests for get_my_usage tool
+ *
+ * Tests:
+ * - Registration
+ * - Usage against quotas for each subject
+ * - KV errors
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { registerGetMyUsageTool } from "@/tools/get-my-usage";
+import { recordUsage, type UsageSubject } from "@/security/usage-quota";
+import type { Env } from "@/types/env";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+// Mock server
+const mockServer = {
+  tool: vi.fn(),
+} as unknown as McpServer;
+
+const subjects: UsageSubject[] = [
+  { kind: "user", id: "jane@agile6.com", quotas: { dailyToolCalls: 10 } },
+  { kind: "token", id: "tok123", quotas: {} },
+];
+
+describe("get_my_usage tool", () => {
+  let env: Env;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const store = new Map<string, string>();
+    env = {
+      OAUTH_KV: {
+        get: async (key: string) => store.get(key) ?? null,
+        put: async (key: string, value: string) => {
+          store.set(key, value);
+        },
+      } as unknown as KVNamespace,
+    } as Env;
+  });
+
+  it("should register with no parameters", () => {
+    registerGetMyUsageTool(mockServer, env, subjects);
+
+    expect(mockServer.tool).toHaveBeenCalledWith(
+      "get_my_usage",
+      expect.stringContaining("USAGE_QUOTA_EXCEEDED"),
+      {},
+      expect.any(Function),
+    );
+  });
+
+  it("should report usage, quotas and remaining calls per subject", async () => {
+    await recordUsage(env, subjects, "search_contracts", 3);
+    await recordUsage(env, subjects, "search_contracts", 0);
+    registerGetMyUsageTool(mockServer, env, subjects);
+    const handler = (mockServer.tool as any).mock.calls[0][3];
+
+    const data = JSON.parse((await handler({})).content[0].text);
+
+    expect(data.data.usage).toHaveLength(2);
+    expect(data.data.usage[0]).toMatchObject({
+      subject: "user",
+      id: "jane@agile6.com",
+      day: {
+        tool_calls: 2,
+        upstream_requests: 3,
+        quota: { tool_calls: 10, upstream_requests: null },
+        remaining: { tool_calls: 8, upstream_requests: null },
+        by_tool: { search_contracts: { tool_calls: 2, upstream_requests: 3 } },
+      },
+      month: { tool_calls: 2, quota: { tool_calls: null } },
+    });
+    expect(data.data.usage[1]).toMatchObject({ subject: "token", id: "tok123", day: { tool_calls: 2 } });
+    expect(data.execution.duration_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should return INTERNAL_ERROR when counters cannot be read", async () => {
+    env.OAUTH_KV.get = vi.fn(async () => {
+      throw new Error("KV unavailable");
+    }) as any;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    registerGetMyUsageTool(mockServer, env, subjects);
+    const handler = (mockServer.tool as any).mock.calls[0][3];
+
+    const data = JSON.parse((await handler({})).content[0].text);
+
+    expect(data.error_code).toBe("INTERNAL_ERROR");
+    expect(data.error).toBe("KV unavailable");
+  });
+});
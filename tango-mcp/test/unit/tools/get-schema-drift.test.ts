@@ -0,0 +1,91 @@
+/**
+ * Unit tests for get_schema_drift tool
+ *
+ * Tests:
+ * - Registration
+ * - Filtering and summary
+ * - Error handling
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { registerGetSchemaDriftTool } from "@/tools/get-schema-drift";
+import { recordResponseShape, resetSchemaDriftReport } from "@/api/schema-drift";
+import type { Env } from "@/types/env";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+// Mock server
+const mockServer = {
+  tool: vi.fn(),
+} as unknown as McpServer;
+
+// KV with no other isolate snapshots
+const mockKv = {
+  list: vi.fn(),
+  get: vi.fn(),
+};
+
+const env = { TANGO_CACHE: mockKv as unknown as KVNamespace } as Env;
+
+describe("get_schema_drift tool", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetSchemaDriftReport();
+    mockKv.list.mockResolvedValue({ keys: [], list_complete: true });
+  });
+
+  it("should register as an admin tool", () => {
+    registerGetSchemaDriftTool(mockServer, env);
+
+    expect(mockServer.tool).toHaveBeenCalledWith(
+      "get_schema_drift",
+      expect.stringContaining("Admin only"),
+      expect.objectContaining({ endpoint: expect.anything(), drifted_only: expect.anything() }),
+      expect.any(Function),
+    );
+  });
+
+  it("should return per-endpoint drift with a summary", async () => {
+    recordResponseShape("/contracts/", { results: [{ key: "A", award_type: "D" }] });
+    recordResponseShape("/agencies/", { results: [{ code: "4700" }] });
+    registerGetSchemaDriftTool(mockServer, env);
+    const handler = (mockServer.tool as any).mock.calls[0][3];
+
+    const response = await handler({ drifted_only: true });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(Object.keys(data.data.endpoints)).toEqual(["/contracts/"]);
+    expect(data.data.endpoints["/contracts/"].unknown_fields).toEqual({ "results[].award_type": 1 });
+    expect(data.data.summary).toEqual({
+      endpoints_checked: 1,
+      endpoints_drifted: 1,
+      responses_checked: 1,
+      responses_drifted: 1,
+    });
+    expect(data.data.isolates).toBe(1);
+  });
+
+  it("should filter by endpoint label", async () => {
+    recordResponseShape("/contracts/", { results: [] });
+    recordResponseShape("/agencies/", { results: [] });
+    registerGetSchemaDriftTool(mockServer, env);
+    const handler = (mockServer.tool as any).mock.calls[0][3];
+
+    const response = await handler({ endpoint: "agencies" });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(Object.keys(data.data.endpoints)).toEqual(["/agencies/"]);
+    expect(data.data.summary.endpoints_drifted).toBe(0);
+  });
+
+  it("should return an error envelope when the report can't be read", async () => {
+    mockKv.list.mockRejectedValue(new Error("KV unavailable"));
+    registerGetSchemaDriftTool(mockServer, env);
+    const handler = (mockServer.tool as any).mock.calls[0][3];
+
+    const response = await handler({});
+    const data = JSON.parse(response.content[0].text);
+
+    expect(data.error_code).toBe("INTERNAL_ERROR");
+    expect(data.error).toContain("KV unavailable");
+  });
+});
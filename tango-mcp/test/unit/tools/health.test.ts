@@ -73,4 +73,19 @@ describe("Health Check Tool", () => {
 			typeof data.uptime === "number" || data.uptime === "N/A"
 		).toBe(true);
 	});
+
+	it("should include circuit breaker state", async () => {
+		const mockServer = {
+			tool: vi.fn(),
+		} as unknown as McpServer;
+
+		registerHealthTool(mockServer);
+
+		const handler = (mockServer.tool as any).mock.calls[0][3];
+		const response = await handler({});
+
+		const data = JSON.parse(response.content[0].text);
+		expect(data.circuit_breaker.state).toBe("closed");
+		expect(data.circuit_breaker.failure_threshold).toBeGreaterThan(0);
+	});
 });
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for query_audit_log tool
+ *
+ * Tests:
+ * - Registration
+ * - Querying the configured sink
+ * - Missing sink and sink errors
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { registerQueryAuditLogTool } from "@/tools/query-audit-log";
+import { getAuditLogger } from "@/security/audit-logging";
+import type { AuditSink } from "@/security/audit-sink";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+// Mock server
+const mockServer = {
+  tool: vi.fn(),
+} as unknown as McpServer;
+
+const entry = {
+  timestamp: "2025-01-31T12:00:00.000Z",
+  event_category: "api" as const,
+  event_type: "tool_execution",
+  event_action: "success",
+  severity: "info" as const,
+  user_email: "jane@agile6.com",
+  client_ip: "203.0.113.7",
+  user_agent: "TestAgent/1.0",
+  resource_id: "search_contracts",
+  success: true,
+};
+
+describe("query_audit_log tool", () => {
+  let sink: AuditSink & { query: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sink = {
+      kind: "d1",
+      write: vi.fn(async () => {}),
+      query: vi.fn(async () => ({ entries: [entry], truncated: false })),
+      purgeExpired: vi.fn(async () => 0),
+    };
+    getAuditLogger().setSink(sink, 365);
+  });
+
+  afterEach(() => {
+    getAuditLogger().setSink(undefined, 0);
+  });
+
+  it("should register as an admin tool", () => {
+    registerQueryAuditLogTool(mockServer);
+
+    expect(mockServer.tool).toHaveBeenCalledWith(
+      "query_audit_log",
+      expect.stringContaining("Admin only"),
+      expect.objectContaining({ since: expect.anything(), user: expect.anything(), tool: expect.anything() }),
+      expect.any(Function),
+    );
+  });
+
+  it("should return matching entries from the sink", async () => {
+    registerQueryAuditLogTool(mockServer);
+    const handler = (mockServer.tool as any).mock.calls[0][3];
+
+    const response = await handler({ user: "jane@agile6.com", tool: "search_contracts" });
+    const data = JSON.parse(response.content[0].text);
+
+    expect(sink.query).toHaveBeenCalledWith({ user: "jane@agile6.com", tool: "search_contracts" });
+    expect(data.data).toEqual({ entries: [entry], returned: 1, truncated: false, sink: "d1" });
+    expect(data.execution.duration_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should explain when no audit sink is configured", async () => {
+    getAuditLogger().setSink(undefined, 0);
+    registerQueryAuditLogTool(mockServer);
+    const handler = (mockServer.tool as any).mock.calls[0][3];
+
+    const data = JSON.parse((await handler({})).content[0].text);
+
+    expect(data.error_code).toBe("AUDIT_SINK_NOT_CONFIGURED");
+    expect(data.suggestion).toContain("AUDIT_LOG_BUCKET");
+  });
+
+  it("should handle sink errors", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    sink.query.mockRejectedValueOnce(new Error("D1 unavailable"));
+    registerQueryAuditLogTool(mockServer);
+    const handler = (mockServer.tool as any).mock.calls[0][3];
+
+    const data = JSON.parse((await handler({})).content[0].text);
+
+    expect(data.error_code).toBe("INTERNAL_ERROR");
+    expect(data.error).toBe("D1 unavailable");
+  });
+});
@@ -9,6 +9,7 @@ import {
   validateGrantOrdering,
   validateOpportunityOrdering,
   extractCursorFromUrl,
+  extractPageFromUrl,
   getOrderingDescription,
   COMMON_ORDERING_PATTERNS,
 } from "@/utils/sort-helpers";
@@ -132,6 +133,22 @@ describe("extractCursorFromUrl", () => {
   });
 });
 
+describe("extractPageFromUrl", () => {
+  it("should extract page number from valid URL", () => {
+    const url = "https://api.tango.com/subawards/?limit=25&page=3";
+    expect(extractPageFromUrl(url)).toBe(3);
+  });
+
+  it("should return undefined for URL without page", () => {
+    const url = "https://api.tango.com/subawards/?limit=25";
+    expect(extractPageFromUrl(url)).toBeUndefined();
+  });
+
+  it("should return undefined for null input", () => {
+    expect(extractPageFromUrl(null)).toBeUndefined();
+  });
+});
+
 describe("getOrderingDescription", () => {
   it("should describe ascending ordering", () => {
     expect(getOrderingDescription("award_date")).toBe("Sorted by award_date (ascending)");
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for request trace context propagation
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  createRequestTraceContext,
+  getTraceContext,
+  getTraceId,
+  runWithTraceContext,
+  traceContextFromHeaders,
+  traceToolHandlers,
+  withTraceHeaders,
+  withTraceResponseHeader,
+} from "@/utils/trace-context";
+import { createLogger } from "@/utils/logger";
+import { AuditLogger } from "@/security/audit-logging";
+import { TangoApiClient } from "@/api/tango-client";
+import type { Env } from "@/types/env";
+
+const trace = { trace_id: "trace-abc", parent_trace_id: "caller-1" };
+
+describe("request trace context", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should generate a trace ID and keep a valid caller ID as parent", () => {
+    const context = createRequestTraceContext(new Headers({ "X-Request-ID": "caller-1" }));
+
+    expect(context.trace_id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(context.parent_trace_id).toBe("caller-1");
+  });
+
+  it("should ignore malformed caller IDs", () => {
+    const context = createRequestTraceContext(new Headers({ "X-Request-ID": "bad id <script>" }));
+
+    expect(context.parent_trace_id).toBeUndefined();
+  });
+
+  it("should forward trace headers and echo the trace ID on responses", () => {
+    const request = withTraceHeaders(
+      new Request("https://mcp.test/mcp", { headers: { "X-Parent-Request-ID": "spoofed" } }),
+      { trace_id: "trace-abc" },
+    );
+
+    expect(request.headers.get("X-Request-ID")).toBe("trace-abc");
+    expect(request.headers.get("X-Parent-Request-ID")).toBeNull();
+
+    const response = withTraceResponseHeader(new Response("ok"), trace);
+    expect(response.headers.get("X-Request-ID")).toBe("trace-abc");
+  });
+
+  it("should read forwarded headers and fall back to a fresh trace ID", () => {
+    expect(
+      traceContextFromHeaders({ "x-request-id": "trace-abc", "x-parent-request-id": "caller-1" }),
+    ).toEqual(trace);
+
+    const fresh = traceContextFromHeaders(undefined);
+    expect(fresh.trace_id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(fresh.parent_trace_id).toBeUndefined();
+  });
+
+  it("should expose the active context across awaits", async () => {
+    expect(getTraceId()).toBeUndefined();
+
+    const traceId = await runWithTraceContext(trace, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return getTraceId();
+    });
+
+    expect(traceId).toBe("trace-abc");
+    expect(getTraceContext()).toBeUndefined();
+  });
+
+  it("should add trace IDs to log entries and audit events", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await runWithTraceContext(trace, async () => {
+      createLogger().info("Tool invoked", { tool: "search_contracts" });
+      await new AuditLogger().logSecurityEvent("test_event", "info", new Request("https://mcp.test"), {});
+    });
+
+    const entry = JSON.parse(log.mock.calls[0][0] as string);
+    expect(entry).toMatchObject({ trace_id: "trace-abc", parent_trace_id: "caller-1" });
+
+    const audit = JSON.parse(log.mock.calls[1][1] as string);
+    expect(audit).toMatchObject({ trace_id: "trace-abc", parent_trace_id: "caller-1" });
+  });
+
+  it("should send the trace ID to the Tango API as X-Request-ID", async () => {
+    const transport = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ results: [] }), {
+          headers: { "content-type": "application/json" },
+        }),
+    );
+    const client = new TangoApiClient({ TANGO_API_BASE_URL: "https://tango.test/api" } as Env, undefined, {
+      transport,
+    });
+
+    await runWithTraceContext(trace, () => client.searchContracts({ limit: 1 }, "key"));
+
+    const init = transport.mock.calls[0][1] as RequestInit;
+    expect((init.headers as Record<string, string>)["X-Request-ID"]).toBe("trace-abc");
+  });
+
+  it("should run tool handlers inside the forwarded trace context", async () => {
+    const tool = vi.fn();
+    const server = { tool } as unknown as McpServer;
+
+    traceToolHandlers(server);
+    server.tool("probe", "Probe tool", {}, async () => ({
+      content: [{ type: "text", text: getTraceId() ?? "" }],
+    }));
+
+    const handler = tool.mock.calls[0][3];
+    const result = await handler({}, { requestInfo: { headers: { "x-request-id": "trace-abc" } } });
+
+    expect(tool.mock.calls[0][0]).toBe("probe");
+    expect(result.content[0].text).toBe("trace-abc");
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Unit tests for upstream error tool results
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  TangoApiError,
+  TangoQuotaExhaustedError,
+  TangoUpstreamUnavailableError,
+} from "@/types/errors";
+import { runWithTraceContext } from "@/utils/trace-context";
+import { formatUpstreamError } from "@/utils/upstream-error";
+
+describe("formatUpstreamError", () => {
+  it("should pass quota and circuit breaker errors through with an execution block", () => {
+    const startTime = Date.now() - 5;
+
+    const quota = runWithTraceContext({ trace_id: "trace-abc" }, () =>
+      formatUpstreamError(new TangoQuotaExhaustedError("day", 60000), startTime),
+    );
+    const data = JSON.parse(quota?.content[0].text ?? "{}");
+
+    expect(data).toMatchObject({
+      error_code: "QUOTA_EXHAUSTED",
+      recoverable: true,
+      execution: { trace_id: "trace-abc" },
+    });
+    expect(data.execution.duration_ms).toBeGreaterThanOrEqual(5);
+
+    const unavailable = formatUpstreamError(new TangoUpstreamUnavailableError(undefined, 30000), startTime);
+    expect(JSON.parse(unavailable?.content[0].text ?? "{}")).toMatchObject({
+      error_code: "UPSTREAM_UNAVAILABLE",
+      context: { retry_after_ms: 30000 },
+    });
+  });
+
+  it("should leave other errors to the tool", () => {
+    expect(formatUpstreamError(new TangoApiError("Not found", 404), Date.now())).toBeUndefined();
+    expect(formatUpstreamError(new Error("boom"), Date.now())).toBeUndefined();
+  });
+});
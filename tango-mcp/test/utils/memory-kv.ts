@@ -0,0 +1,69 @@
+/**
+ * In-memory KV namespace for tests
+ *
+ * Supports get (text or JSON), put (with metadata), delete and list (prefix,
+ * limit, cursor and metadata). Keys are listed in lexicographic order, like
+ * KV; the cursor is the last key returned, so deleting listed keys doesn't
+ * shift later pages.
+ *
+ * @module memory-kv
+ */
+
+import { vi } from "vitest";
+
+/**
+ * Options for createMemoryKV
+ */
+export interface MemoryKVOptions {
+	/** Most keys returned per list page, whatever limit is requested (default: 1000) */
+	pageSize?: number;
+}
+
+/**
+ * Create an in-memory KV namespace
+ *
+ * @param store Backing map of key to value (inspect or seed it directly)
+ * @param options Listing options
+ * @returns KV namespace; list is a vi.fn so calls can be counted
+ *
+ * @example
+ * const store = new Map<string, string>();
+ * const env = { OAUTH_KV: createMemoryKV(store) } as Env;
+ */
+export function createMemoryKV(
+	store = new Map<string, string>(),
+	options: MemoryKVOptions = {},
+): KVNamespace {
+	const metadata = new Map<string, unknown>();
+	const pageSize = options.pageSize ?? 1000;
+
+	return {
+		get: async (key: string, type?: string) => {
+			const value = store.get(key);
+			if (value === undefined) return null;
+			return type === "json" ? JSON.parse(value) : value;
+		},
+		put: async (key: string, value: string, putOptions?: { metadata?: unknown }) => {
+			store.set(key, value);
+			metadata.set(key, putOptions?.metadata);
+		},
+		delete: async (key: string) => {
+			store.delete(key);
+			metadata.delete(key);
+		},
+		list: vi.fn(async (listOptions?: { prefix?: string; limit?: number; cursor?: string }) => {
+			const cursor = listOptions?.cursor;
+			const names = [...store.keys()]
+				.filter((name) => name.startsWith(listOptions?.prefix ?? ""))
+				.sort()
+				.filter((name) => !cursor || name > cursor);
+			const page = names.slice(0, Math.min(listOptions?.limit ?? 1000, pageSize));
+			const complete = page.length === names.length;
+			return {
+				keys: page.map((name) => ({ name, metadata: metadata.get(name) })),
+				list_complete: complete,
+				cursor: complete ? undefined : page.at(-1),
+			};
+		}),
+	} as unknown as KVNamespace;
+}
@@ -4,11 +4,12 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
-		durableNamespaces: "MCPServerAgent";
+		durableNamespaces: "MCPServerAgent" | "UpstreamQuotaLimiter";
 	}
 	interface Env {
 		TANGO_CACHE: KVNamespace;
 		OAUTH_KV: KVNamespace;
+		AUDIT_LOG_BUCKET: R2Bucket;
 		TANGO_API_BASE_URL: "https://tango.makegov.com/api";
 		CACHE_TTL_SECONDS: "300";
 		HOSTED_DOMAIN: "agile6.com";
@@ -17,6 +18,7 @@ declare namespace Cloudflare {
 		GOOGLE_CLIENT_SECRET: string;
 		COOKIE_ENCRYPTION_KEY: string;
 		MCP_OBJECT: DurableObjectNamespace<import("./src/index").MCPServerAgent>;
+		UPSTREAM_QUOTA: DurableObjectNamespace<import("./src/index").UpstreamQuotaLimiter>;
 	}
 }
 interface Env extends Cloudflare.Env {}